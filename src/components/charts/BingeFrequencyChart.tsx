@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { BarChart } from 'react-native-chart-kit';
+import { ChartSeries } from '../../utils/progressCharts';
+import { patientChartConfig } from './chartConfig';
+
+interface BingeFrequencyChartProps {
+  series: ChartSeries;
+  width: number;
+  height?: number;
+}
+
+/**
+ * Binge episodes per day or month
+ */
+const BingeFrequencyChart: React.FC<BingeFrequencyChartProps> = ({
+  series,
+  width,
+  height = 200,
+}) => {
+  if (!series.hasData) {
+    return <Text style={styles.emptyText}>Nothing recorded for this period yet.</Text>;
+  }
+
+  const total = series.values.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <>
+      <BarChart
+        data={{ labels: series.labels, datasets: [{ data: series.values }] }}
+        width={width}
+        height={height}
+        yAxisLabel=""
+        yAxisSuffix=""
+        chartConfig={{
+          ...patientChartConfig,
+          // Thinner bars when there is one per day of a month
+          barPercentage: series.values.length > 12 ? 0.25 : 0.6,
+        }}
+        fromZero
+        segments={Math.min(Math.max(...series.values, 1), 4)}
+        style={styles.chart}
+      />
+      {total === 0 && <Text style={styles.caption}>No episodes recorded in this period.</Text>}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    marginLeft: -8,
+  },
+  caption: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingVertical: 8,
+  },
+});
+
+export default BingeFrequencyChart;
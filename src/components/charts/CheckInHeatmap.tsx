@@ -0,0 +1,66 @@
+import React from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { ContributionGraph } from 'react-native-chart-kit';
+import { CheckInDayCount } from '../../utils/progressCharts';
+import { fromDayKey, getDaysBetween } from '../../utils/date';
+import { patientChartConfig } from './chartConfig';
+
+interface CheckInHeatmapProps {
+  days: CheckInDayCount[];
+  fromDay: string;
+  toDay: string;
+  width: number;
+}
+
+// ContributionGraph's own left padding and month label band
+const GRAPH_PADDING_LEFT = 32;
+const MONTH_LABEL_HEIGHT = 24;
+const GUTTER_SIZE = 2;
+
+/**
+ * A square per day, shaded by how many check-ins were completed that day.
+ * A year of weeks is wider than the screen, so it scrolls sideways.
+ */
+const CheckInHeatmap: React.FC<CheckInHeatmapProps> = ({ days, fromDay, toDay, width }) => {
+  const numDays = getDaysBetween(fromDay, toDay) + 1;
+  const squareSize = numDays > 31 ? 14 : 20;
+  // Partial weeks at either end take a column each
+  const weekCount = Math.ceil(numDays / 7) + 1;
+  const graphWidth = Math.max(
+    width,
+    GRAPH_PADDING_LEFT + weekCount * (squareSize + GUTTER_SIZE)
+  );
+
+  return (
+    <>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <ContributionGraph
+          values={days.map(({ day, count }) => ({ date: fromDayKey(day), count }))}
+          endDate={fromDayKey(toDay)}
+          numDays={numDays}
+          width={graphWidth}
+          height={7 * (squareSize + GUTTER_SIZE) + MONTH_LABEL_HEIGHT}
+          squareSize={squareSize}
+          gutterSize={GUTTER_SIZE}
+          chartConfig={patientChartConfig}
+          tooltipDataAttrs={() => ({})}
+        />
+      </ScrollView>
+      <Text style={styles.caption}>
+        Checked in on {days.length} of {numDays} day{numDays === 1 ? '' : 's'}
+      </Text>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  caption: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
+
+export default CheckInHeatmap;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { PieChart } from 'react-native-chart-kit';
+import { CopingEffectiveness } from '../../types';
+import { patientChartConfig } from './chartConfig';
+
+interface CopingEffectivenessChartProps {
+  counts: Record<CopingEffectiveness, number>;
+  width: number;
+  height?: number;
+}
+
+// Lightest for least helpful
+const SLICES: { value: CopingEffectiveness; label: string; color: string }[] = [
+  { value: 'not_helpful', label: 'Not helpful', color: '#e0e7ff' },
+  { value: 'somewhat_helpful', label: 'A bit helpful', color: '#a5b4fc' },
+  { value: 'helpful', label: 'Helpful', color: '#818cf8' },
+  { value: 'very_helpful', label: 'Very helpful', color: '#4f46e5' },
+];
+
+/**
+ * How helpful the coping strategies the patient used turned out to be
+ */
+const CopingEffectivenessChart: React.FC<CopingEffectivenessChartProps> = ({
+  counts,
+  width,
+  height = 180,
+}) => {
+  const total = SLICES.reduce((sum, slice) => sum + counts[slice.value], 0);
+  if (total === 0) {
+    return (
+      <Text style={styles.emptyText}>
+        Strategies you try in your check-ins will show here with how much they helped.
+      </Text>
+    );
+  }
+
+  const helped = counts.helpful + counts.very_helpful;
+
+  return (
+    <>
+      <PieChart
+        data={SLICES.filter((slice) => counts[slice.value] > 0).map((slice) => ({
+          name: slice.label,
+          count: counts[slice.value],
+          color: slice.color,
+          legendFontColor: '#2c3e50',
+          legendFontSize: 13,
+        }))}
+        width={width}
+        height={height}
+        chartConfig={patientChartConfig}
+        accessor="count"
+        backgroundColor="transparent"
+        paddingLeft="0"
+        absolute
+      />
+      <Text style={styles.caption}>
+        {helped} of {total} time{total === 1 ? '' : 's'} a strategy was rated helpful or better.
+      </Text>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  caption: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingVertical: 8,
+  },
+});
+
+export default CopingEffectivenessChart;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { LineChart } from 'react-native-chart-kit';
+import { ChartSeries } from '../../utils/progressCharts';
+import { patientChartConfig } from './chartConfig';
+
+interface MoodTrendChartProps {
+  series: ChartSeries;
+  width: number;
+  height?: number;
+}
+
+/**
+ * Average overall mood over time, on the 1-10 scale. Days without a mood
+ * rating keep the line level and have no dot.
+ */
+const MoodTrendChart: React.FC<MoodTrendChartProps> = ({ series, width, height = 200 }) => {
+  if (!series.hasData) {
+    return (
+      <Text style={styles.emptyText}>Rate your mood in a check-in to see how it changes.</Text>
+    );
+  }
+
+  return (
+    <LineChart
+      data={{
+        labels: series.labels,
+        datasets: [
+          { data: series.values },
+          // Holds the axis at 0-10 whatever the ratings
+          { data: [0, 10], withDots: false, color: () => 'transparent' },
+        ],
+      }}
+      width={width}
+      height={height}
+      chartConfig={patientChartConfig}
+      hidePointsAtIndex={series.emptyIndexes}
+      segments={5}
+      withShadow={false}
+      bezier
+      style={styles.chart}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    marginLeft: -8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingVertical: 8,
+  },
+});
+
+export default MoodTrendChart;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from 'react-native-paper';
+import Svg, { G, Line, Polygon, Text as SvgText } from 'react-native-svg';
+import { WellbeingAxis } from '../../utils/progressCharts';
+
+interface WellbeingRadarChartProps {
+  axes: WellbeingAxis[];
+  size: number;
+}
+
+// Ratings run 1-10
+const MAX_VALUE = 10;
+const RINGS = [2, 4, 6, 8, 10];
+
+// Room around the web for the axis labels
+const LABEL_MARGIN = 44;
+
+/**
+ * Average wellbeing ratings as a radar, one spoke per axis. Chart-kit has no
+ * radar chart, so this one is drawn with react-native-svg directly.
+ */
+const WellbeingRadarChart: React.FC<WellbeingRadarChartProps> = ({ axes, size }) => {
+  if (axes.every((axis) => axis.value === 0)) {
+    return (
+      <Text style={styles.emptyText}>
+        Your mood and wellbeing ratings will show here once you've checked in.
+      </Text>
+    );
+  }
+
+  const center = size / 2;
+  const radius = center - LABEL_MARGIN;
+
+  // Spokes start at the top and go clockwise
+  const pointAt = (index: number, value: number) => {
+    const angle = (Math.PI * 2 * index) / axes.length - Math.PI / 2;
+    const distance = (radius * value) / MAX_VALUE;
+    return { x: center + distance * Math.cos(angle), y: center + distance * Math.sin(angle) };
+  };
+  const toPoints = (values: number[]) =>
+    values
+      .map((value, index) => pointAt(index, value))
+      .map(({ x, y }) => `${x},${y}`)
+      .join(' ');
+
+  return (
+    <View style={styles.container}>
+      <Svg width={size} height={size}>
+        <G>
+          {RINGS.map((ring) => (
+            <Polygon
+              key={ring}
+              points={toPoints(axes.map(() => ring))}
+              fill="none"
+              stroke="#e5e7eb"
+              strokeWidth={1}
+            />
+          ))}
+          {axes.map((axis, index) => {
+            const end = pointAt(index, MAX_VALUE);
+            return (
+              <Line
+                key={axis.label}
+                x1={center}
+                y1={center}
+                x2={end.x}
+                y2={end.y}
+                stroke="#e5e7eb"
+                strokeWidth={1}
+              />
+            );
+          })}
+          <Polygon
+            points={toPoints(axes.map((axis) => axis.value))}
+            fill="rgba(99, 102, 241, 0.25)"
+            stroke="#6366f1"
+            strokeWidth={2}
+          />
+          {axes.map((axis, index) => {
+            const { x, y } = pointAt(index, MAX_VALUE + 2.5);
+            const anchor =
+              Math.abs(x - center) < 1 ? 'middle' : x > center ? 'start' : 'end';
+            return (
+              <SvgText
+                key={axis.label}
+                x={x}
+                y={y}
+                fontSize={12}
+                fill="#7f8c8d"
+                textAnchor={anchor}
+                alignmentBaseline="middle"
+              >
+                {`${axis.label} ${axis.value || '-'}`}
+              </SvgText>
+            );
+          })}
+        </G>
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingVertical: 8,
+  },
+});
+
+export default WellbeingRadarChart;
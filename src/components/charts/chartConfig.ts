@@ -0,0 +1,14 @@
+import { ChartConfig } from 'react-native-chart-kit/dist/HelperTypes';
+
+// Patient-side indigo on a white card, shared by the chart-kit charts
+export const patientChartConfig: ChartConfig = {
+  backgroundGradientFrom: '#ffffff',
+  backgroundGradientTo: '#ffffff',
+  decimalPlaces: 0,
+  color: (opacity = 1) => `rgba(99, 102, 241, ${opacity})`, // #6366f1
+  labelColor: (opacity = 1) => `rgba(127, 140, 141, ${opacity})`, // #7f8c8d
+  propsForBackgroundLines: {
+    stroke: '#e5e7eb',
+    strokeDasharray: '',
+  },
+};
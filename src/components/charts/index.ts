@@ -1,3 +1,6 @@
 // Chart components exports
-// Add your chart components here as you create them
-// Example: export { default as ProgressChart } from './ProgressChart';
+export { default as MoodTrendChart } from './MoodTrendChart';
+export { default as BingeFrequencyChart } from './BingeFrequencyChart';
+export { default as WellbeingRadarChart } from './WellbeingRadarChart';
+export { default as CopingEffectivenessChart } from './CopingEffectivenessChart';
+export { default as CheckInHeatmap } from './CheckInHeatmap';
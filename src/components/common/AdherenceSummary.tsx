@@ -0,0 +1,61 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ProgressBar } from 'react-native-paper';
+import { EatingAdherence } from '../../types';
+import { ADHERENCE_PERIOD_DAYS } from '../../constants/foodRecords';
+
+interface AdherenceSummaryProps {
+  adherence: EatingAdherence;
+  color?: string;
+}
+
+/**
+ * Planned meals eaten on time over the adherence period
+ */
+const AdherenceSummary: React.FC<AdherenceSummaryProps> = ({ adherence, color = '#6366f1' }) => (
+  <View style={styles.container}>
+    <View style={styles.header}>
+      <Text style={styles.title}>Last {ADHERENCE_PERIOD_DAYS} days</Text>
+      <Text style={[styles.rate, { color }]}>{adherence.adherenceRate}%</Text>
+    </View>
+    <ProgressBar progress={adherence.adherenceRate / 100} color={color} style={styles.bar} />
+    <Text style={styles.detail}>
+      {adherence.eatenWithinWindow} of {adherence.planned} planned meals and snacks eaten around
+      the planned time
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  rate: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+    marginBottom: 8,
+  },
+  detail: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+});
+
+export default AdherenceSummary;
@@ -0,0 +1,228 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, IconButton } from 'react-native-paper';
+import { CheckInDaySummary } from '../../utils/checkInHistory';
+import { formatMonthLabel, fromDayKey, getMonthDays, toDayKey } from '../../utils/date';
+import { BINGE_DAY_COLOR, MOOD_COLOR_BANDS } from '../../constants/checkIn';
+
+interface CheckInCalendarProps {
+  year: number;
+  month: number; // 0-based
+  summaries: Record<string, CheckInDaySummary>;
+  selectedDay?: string;
+  onSelectDay: (day: string) => void;
+  onChangeMonth: (year: number, month: number) => void;
+}
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// Background colour for a day's average mood
+const getMoodColor = (mood: number): string =>
+  (MOOD_COLOR_BANDS.find((band) => mood <= band.max) || MOOD_COLOR_BANDS[MOOD_COLOR_BANDS.length - 1])
+    .color;
+
+/**
+ * Month calendar colour-coded by mood, with a marker on binge days
+ */
+const CheckInCalendar: React.FC<CheckInCalendarProps> = ({
+  year,
+  month,
+  summaries,
+  selectedDay,
+  onSelectDay,
+  onChangeMonth,
+}) => {
+  const days = getMonthDays(year, month);
+  const today = toDayKey(new Date());
+  const now = new Date();
+  const isCurrentMonth = year === now.getFullYear() && month === now.getMonth();
+
+  // Pad the first week so days line up under Monday-first headings
+  const leadingBlanks = (fromDayKey(days[0]).getDay() + 6) % 7;
+  const cells: (string | null)[] = [...Array(leadingBlanks).fill(null), ...days];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const shiftMonth = (amount: number) => {
+    const date = new Date(year, month + amount, 1);
+    onChangeMonth(date.getFullYear(), date.getMonth());
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Month switcher */}
+      <View style={styles.header}>
+        <IconButton
+          icon="chevron-left"
+          onPress={() => shiftMonth(-1)}
+          accessibilityLabel="Previous month"
+        />
+        <Text style={styles.monthLabel}>{formatMonthLabel(year, month)}</Text>
+        <IconButton
+          icon="chevron-right"
+          onPress={() => shiftMonth(1)}
+          disabled={isCurrentMonth}
+          accessibilityLabel="Next month"
+        />
+      </View>
+
+      <View style={styles.week}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <Text key={index} style={styles.weekdayLabel}>
+            {label}
+          </Text>
+        ))}
+      </View>
+
+      {/* Day grid */}
+      <View style={styles.grid}>
+        {cells.map((day, index) => {
+          if (!day) {
+            return <View key={`blank-${index}`} style={styles.cell} />;
+          }
+
+          const summary = summaries[day];
+          const isFuture = day > today;
+
+          return (
+            <TouchableOpacity
+              key={day}
+              style={styles.cell}
+              onPress={() => onSelectDay(day)}
+              disabled={isFuture}
+              accessibilityRole="button"
+              accessibilityLabel={`${day}${summary ? ', checked in' : ''}${
+                summary?.hadBingeEpisode ? ', binge episode' : ''
+              }`}
+            >
+              <View
+                style={[
+                  styles.day,
+                  summary && { backgroundColor: getMoodColor(summary.averageMood) },
+                  day === today && styles.today,
+                  day === selectedDay && styles.selected,
+                ]}
+              >
+                <Text style={[styles.dayText, isFuture && styles.futureText]}>
+                  {fromDayKey(day).getDate()}
+                </Text>
+                {summary?.hadBingeEpisode && <View style={styles.bingeMarker} />}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {MOOD_COLOR_BANDS.map((band) => (
+          <View key={band.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: band.color }]} />
+            <Text style={styles.legendText}>{band.label} mood</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.bingeMarker, styles.legendMarker]} />
+          <Text style={styles.legendText}>Binge episode</Text>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingBottom: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  monthLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  week: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginBottom: 4,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 8,
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  day: {
+    flex: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  today: {
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  selected: {
+    borderWidth: 2,
+    borderColor: '#2c3e50',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  futureText: {
+    color: '#bdc3c7',
+  },
+  bingeMarker: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: BINGE_DAY_COLOR,
+    marginTop: 2,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginTop: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  legendMarker: {
+    marginTop: 0,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default CheckInCalendar;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, Chip } from 'react-native-paper';
+import { CheckInSurvey } from '../../types';
+import { toDate } from '../../utils/firestore';
+import { formatDayLabel, formatTime, toDayKey } from '../../utils/date';
+
+interface CheckInListItemProps {
+  checkIn: CheckInSurvey;
+  onPress: () => void;
+}
+
+/**
+ * One past check-in in a list: when it was done, mood and episodes,
+ * and whether it was edited afterwards
+ */
+const CheckInListItem: React.FC<CheckInListItemProps> = ({ checkIn, onPress }) => {
+  const completedAt = toDate(checkIn.completedAt);
+  const episodeCount = checkIn.bingeEpisodes.episodes.length;
+  const details = [
+    `Mood ${checkIn.mood.overall}/10`,
+    episodeCount > 0 ? `${episodeCount} episode${episodeCount === 1 ? '' : 's'}` : 'No episodes',
+  ];
+
+  return (
+    <List.Item
+      title={`${formatDayLabel(toDayKey(completedAt))}, ${formatTime(completedAt)}`}
+      description={details.join(' · ')}
+      left={(props) => <List.Icon {...props} icon="clipboard-check-outline" />}
+      right={(props) => (
+        <View style={styles.right}>
+          {!!checkIn.editedAt && (
+            <Chip compact icon="pencil" style={styles.editedChip} textStyle={styles.editedText}>
+              Edited
+            </Chip>
+          )}
+          <List.Icon {...props} icon="chevron-right" />
+        </View>
+      )}
+      onPress={onPress}
+      style={styles.item}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  item: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  right: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  editedChip: {
+    backgroundColor: '#fef3c7',
+  },
+  editedText: {
+    fontSize: 12,
+    color: '#92400e',
+  },
+});
+
+export default CheckInListItem;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Chip, TextInput, HelperText } from 'react-native-paper';
+
+interface ChipSelectorProps {
+  label?: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  allowCustom?: boolean;
+  customPlaceholder?: string;
+  error?: string;
+  testID?: string;
+}
+
+/**
+ * Multi-select chip list with optional free-text entries
+ */
+const ChipSelector: React.FC<ChipSelectorProps> = ({
+  label,
+  options,
+  selected,
+  onChange,
+  allowCustom = true,
+  customPlaceholder = 'Add your own',
+  error,
+  testID,
+}) => {
+  const [customValue, setCustomValue] = useState('');
+
+  // Custom entries are shown alongside the suggested options
+  const allOptions = [...options, ...selected.filter((item) => !options.includes(item))];
+
+  const toggle = (option: string) => {
+    onChange(
+      selected.includes(option)
+        ? selected.filter((item) => item !== option)
+        : [...selected, option]
+    );
+  };
+
+  const addCustom = () => {
+    const trimmed = customValue.trim();
+    if (trimmed && !selected.includes(trimmed)) {
+      onChange([...selected, trimmed]);
+    }
+    setCustomValue('');
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={styles.chips}>
+        {allOptions.map((option) => (
+          <Chip
+            key={option}
+            selected={selected.includes(option)}
+            onPress={() => toggle(option)}
+            style={styles.chip}
+            showSelectedOverlay
+          >
+            {option}
+          </Chip>
+        ))}
+      </View>
+      {allowCustom && (
+        <TextInput
+          value={customValue}
+          onChangeText={setCustomValue}
+          onSubmitEditing={addCustom}
+          placeholder={customPlaceholder}
+          mode="outlined"
+          dense
+          returnKeyType="done"
+          style={styles.input}
+          right={<TextInput.Icon icon="plus" onPress={addCustom} />}
+        />
+      )}
+      {error && <HelperText type="error">{error}</HelperText>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  input: {
+    marginTop: 4,
+  },
+});
+
+export default ChipSelector;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Chip, Text } from 'react-native-paper';
+import { CompensatoryBehavior } from '../../types';
+import { COMPENSATORY_BEHAVIOR_OPTIONS } from '../../constants/foodRecords';
+
+interface CompensatoryBehaviorSelectorProps {
+  label?: string;
+  selected: CompensatoryBehavior[];
+  onChange: (selected: CompensatoryBehavior[]) => void;
+}
+
+/**
+ * Multi-select for compensatory behaviours. These answers are sensitive,
+ * so the selector notes who can see them.
+ */
+const CompensatoryBehaviorSelector: React.FC<CompensatoryBehaviorSelectorProps> = ({
+  label,
+  selected,
+  onChange,
+}) => {
+  const toggle = (behavior: CompensatoryBehavior) => {
+    onChange(
+      selected.includes(behavior)
+        ? selected.filter((item) => item !== behavior)
+        : [...selected, behavior]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={styles.chips}>
+        {COMPENSATORY_BEHAVIOR_OPTIONS.map((option) => (
+          <Chip
+            key={option.value}
+            selected={selected.includes(option.value)}
+            onPress={() => toggle(option.value)}
+            style={styles.chip}
+            showSelectedOverlay
+          >
+            {option.label}
+          </Chip>
+        ))}
+      </View>
+      <Text style={styles.privacyNote}>
+        Only you and your clinician can see these answers.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  privacyNote: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default CompensatoryBehaviorSelector;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Chip } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useCopingToolbox } from '../../hooks/useCopingToolbox';
+import { COPING_STRATEGY_OPTIONS } from '../../constants/checkIn';
+import { COPING_SUGGESTION_COUNT } from '../../constants/coping';
+import { getSuggestedStrategies } from '../../utils/copingToolbox';
+
+interface CopingSuggestionsProps {
+  message: string;
+}
+
+/**
+ * The patient's best coping strategies, offered in a hard moment. Falls back
+ * to a few general ideas until the patient has rated strategies that helped.
+ */
+const CopingSuggestions: React.FC<CopingSuggestionsProps> = ({ message }) => {
+  const { user } = useAuth();
+  const { toolbox, isLoading } = useCopingToolbox(user?.uid);
+
+  if (isLoading) {
+    return null;
+  }
+
+  const suggestions = getSuggestedStrategies(toolbox);
+  const hasOwnStrategies = suggestions.length > 0;
+  const strategies = hasOwnStrategies
+    ? suggestions.map((entry) => entry.strategy)
+    : COPING_STRATEGY_OPTIONS.slice(0, COPING_SUGGESTION_COUNT);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{message}</Text>
+      <Text style={styles.label}>
+        {hasOwnStrategies ? 'What has helped you before' : 'Some ideas to try'}
+      </Text>
+      <View style={styles.chips}>
+        {strategies.map((strategy) => (
+          <Chip
+            key={strategy}
+            icon={hasOwnStrategies ? 'star-outline' : 'lightbulb-outline'}
+            style={styles.chip}
+          >
+            {strategy}
+          </Chip>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: 14,
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+});
+
+export default CopingSuggestions;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, IconButton } from 'react-native-paper';
+import { addDays, formatDayLabel, toDayKey } from '../../utils/date';
+
+interface DaySelectorProps {
+  day: string; // YYYY-MM-DD
+  onChange: (day: string) => void;
+  allowFuture?: boolean;
+}
+
+/**
+ * Previous/next day switcher
+ */
+const DaySelector: React.FC<DaySelectorProps> = ({ day, onChange, allowFuture = false }) => {
+  const isToday = day === toDayKey(new Date());
+
+  return (
+    <View style={styles.container}>
+      <IconButton
+        icon="chevron-left"
+        onPress={() => onChange(addDays(day, -1))}
+        accessibilityLabel="Previous day"
+      />
+      <Text style={styles.label}>{formatDayLabel(day)}</Text>
+      <IconButton
+        icon="chevron-right"
+        onPress={() => onChange(addDays(day, 1))}
+        disabled={isToday && !allowFuture}
+        accessibilityLabel="Next day"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+});
+
+export default DaySelector;
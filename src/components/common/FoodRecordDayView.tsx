@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Card, Chip } from 'react-native-paper';
+import { FoodRecord } from '../../types';
+import { MEAL_TYPE_OPTIONS, COMPENSATORY_BEHAVIOR_OPTIONS } from '../../constants/foodRecords';
+import { formatTime } from '../../utils/date';
+
+interface FoodRecordDayViewProps {
+  records: FoodRecord[];
+  emptyMessage?: string;
+}
+
+/**
+ * Read-only day of eating records, laid out like a CBT-E monitoring sheet
+ */
+const FoodRecordDayView: React.FC<FoodRecordDayViewProps> = ({
+  records,
+  emptyMessage = 'Nothing recorded for this day.',
+}) => {
+  if (records.length === 0) {
+    return <Text style={styles.emptyText}>{emptyMessage}</Text>;
+  }
+
+  return (
+    <View>
+      {records.map((record) => (
+        <Card key={record.id} style={[styles.card, record.wasBinge && styles.bingeCard]}>
+          <Card.Content>
+            <View style={styles.header}>
+              <Text style={styles.time}>{formatTime(record.eatenAt)}</Text>
+              <Text style={styles.mealType}>
+                {MEAL_TYPE_OPTIONS.find((option) => option.value === record.mealType)?.label}
+              </Text>
+              {record.wasBinge && (
+                <Text style={styles.bingeMarker} accessibilityLabel="Felt like a binge">
+                  *
+                </Text>
+              )}
+            </View>
+            <Text style={styles.food}>{record.foodAndDrink}</Text>
+            {!!record.place && <Text style={styles.detail}>Where: {record.place}</Text>}
+            {record.compensatoryBehaviors.length > 0 && (
+              <View style={styles.chips}>
+                {record.compensatoryBehaviors.map((behavior) => (
+                  <Chip key={behavior} compact style={styles.chip}>
+                    {COMPENSATORY_BEHAVIOR_OPTIONS.find((option) => option.value === behavior)?.label}
+                  </Chip>
+                ))}
+              </View>
+            )}
+            {!!record.thoughtsAndContext && (
+              <Text style={styles.context}>{record.thoughtsAndContext}</Text>
+            )}
+          </Card.Content>
+        </Card>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
+  bingeCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#f59e0b', // Amber-500
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  time: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginRight: 8,
+  },
+  mealType: {
+    flex: 1,
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  bingeMarker: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#f59e0b',
+  },
+  food: {
+    fontSize: 15,
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  detail: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  chip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  context: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#4b5563',
+    marginTop: 6,
+  },
+});
+
+export default FoodRecordDayView;
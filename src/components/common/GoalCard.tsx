@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ProgressBar, Checkbox } from 'react-native-paper';
+import { Goal } from '../../types';
+import { GOAL_METRIC_OPTIONS } from '../../constants/goals';
+import { formatShortDate, toDayKey } from '../../utils/date';
+import { toDate } from '../../utils/firestore';
+
+interface GoalCardProps {
+  goal: Goal;
+  onToggleMilestone?: (milestoneId: string) => void; // omit for a read-only card
+  children?: React.ReactNode; // actions shown under the goal
+  color?: string;
+}
+
+/**
+ * A goal with its progress, linked measure and steps
+ */
+const GoalCard: React.FC<GoalCardProps> = ({
+  goal,
+  onToggleMilestone,
+  children,
+  color = '#6366f1',
+}) => {
+  const metricOption = GOAL_METRIC_OPTIONS.find(
+    (option) => option.value === goal.metricTarget?.metric
+  );
+  const dueLabel =
+    goal.isCompleted && goal.completedAt
+      ? `Achieved ${formatShortDate(toDayKey(toDate(goal.completedAt)))}`
+      : `Due ${formatShortDate(toDayKey(toDate(goal.targetDate)))}`;
+
+  // e.g. "Binge episodes a week: at most 1 episodes, now 2"
+  const target = goal.metricTarget;
+  const metricText =
+    target && metricOption
+      ? `${metricOption.label}: ${target.comparison === 'atMost' ? 'at most' : 'at least'} ` +
+        `${target.target} ${metricOption.unit}, now ${target.current ?? target.baseline}`
+      : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.description}>{goal.description}</Text>
+        <Text style={[styles.percent, { color }]}>{goal.progress}%</Text>
+      </View>
+      {!!goal.reason && <Text style={styles.reason}>{goal.reason}</Text>}
+      <ProgressBar progress={goal.progress / 100} color={color} style={styles.bar} />
+      <Text style={styles.detail}>
+        {dueLabel}
+        {goal.createdBy === 'clinician' ? ' · suggested by clinician' : ''}
+      </Text>
+
+      {!!metricText && <Text style={styles.detail}>{metricText}</Text>}
+
+      {goal.milestones.map((milestone) => (
+        <Checkbox.Item
+          key={milestone.id}
+          label={milestone.description}
+          status={milestone.isCompleted ? 'checked' : 'unchecked'}
+          onPress={() => onToggleMilestone?.(milestone.id)}
+          disabled={!onToggleMilestone}
+          color={color}
+          position="leading"
+          labelStyle={styles.milestoneLabel}
+          style={styles.milestone}
+        />
+      ))}
+
+      {children}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 4,
+  },
+  description: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginRight: 8,
+  },
+  percent: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+    marginVertical: 8,
+  },
+  detail: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginBottom: 4,
+  },
+  milestone: {
+    paddingHorizontal: 0,
+    paddingVertical: 2,
+  },
+  milestoneLabel: {
+    fontSize: 14,
+    color: '#2c3e50',
+    textAlign: 'left',
+  },
+});
+
+export default GoalCard;
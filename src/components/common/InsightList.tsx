@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, List } from 'react-native-paper';
+import { InsightFactor, PatternInsights } from '../../types';
+import {
+  INSIGHT_LOOKBACK_DAYS,
+  INSIGHT_MIN_CHECK_IN_DAYS,
+  INSIGHT_MIN_EPISODES,
+} from '../../constants/insights';
+import { describeInsight, InsightAudience } from '../../utils/insights';
+
+interface InsightListProps {
+  patterns: PatternInsights;
+  audience: InsightAudience;
+  color?: string;
+}
+
+const FACTOR_ICONS: Record<InsightFactor, string> = {
+  trigger: 'lightning-bolt-outline',
+  dayOfWeek: 'calendar-week',
+  emotion: 'emoticon-outline',
+  location: 'map-marker-outline',
+  timeOfDay: 'clock-outline',
+};
+
+/**
+ * The strongest patterns in a patient's recent entries, in plain language
+ */
+const InsightList: React.FC<InsightListProps> = ({ patterns, audience, color = '#6366f1' }) => {
+  const { insights, daysAnalysed, episodesAnalysed } = patterns;
+  const isPatient = audience === 'patient';
+  const hasEnoughData =
+    daysAnalysed >= INSIGHT_MIN_CHECK_IN_DAYS || episodesAnalysed >= INSIGHT_MIN_EPISODES;
+
+  let emptyText: string;
+  if (!hasEnoughData) {
+    emptyText = isPatient
+      ? `Patterns show once you have ${INSIGHT_MIN_CHECK_IN_DAYS} days of check-ins. ` +
+        `Keep going - you're on ${daysAnalysed}.`
+      : `Not enough entries yet: ${daysAnalysed} check-in days and ${episodesAnalysed} ` +
+        `episodes in the last ${INSIGHT_LOOKBACK_DAYS} days.`;
+  } else {
+    emptyText = 'No clear patterns stand out right now.';
+  }
+
+  return (
+    <View>
+      <View style={styles.card}>
+        {insights.length === 0 ? (
+          <Text style={styles.emptyText}>{emptyText}</Text>
+        ) : (
+          insights.map((insight) => (
+            <List.Item
+              key={insight.id}
+              title={describeInsight(insight, audience)}
+              titleNumberOfLines={4}
+              titleStyle={styles.insightText}
+              left={(props) => (
+                <List.Icon {...props} icon={FACTOR_ICONS[insight.factor]} color={color} />
+              )}
+            />
+          ))
+        )}
+      </View>
+      <Text style={styles.footnote}>
+        Based on {daysAnalysed} check-in day{daysAnalysed === 1 ? '' : 's'} and{' '}
+        {episodesAnalysed} episode{episodesAnalysed === 1 ? '' : 's'} in the last{' '}
+        {INSIGHT_LOOKBACK_DAYS} days. Patterns show what tends to happen together, not what
+        causes what.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  insightText: {
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#2c3e50',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    padding: 16,
+  },
+  footnote: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    lineHeight: 18,
+  },
+});
+
+export default InsightList;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, Icon } from 'react-native-paper';
+import { LearningPath, LearningPathStep, ModuleStatus } from '../../types';
+import { EDUCATION_CATEGORY_LABELS } from '../../constants/education';
+
+interface LearningPathViewProps {
+  path: LearningPath;
+  onSelect: (step: LearningPathStep) => void;
+}
+
+const STATUS_ICONS: Record<ModuleStatus, string> = {
+  completed: 'check',
+  unlocked: 'book-open-variant',
+  locked: 'lock',
+};
+
+const titles = (modules: LearningPathStep['unlocks']): string =>
+  modules.map((module) => module.title).join(', ');
+
+const describeStep = (step: LearningPathStep): string => {
+  if (step.status === 'locked') {
+    return `Unlocks after ${titles(step.missingPrerequisites)}`;
+  }
+
+  const status = step.status === 'completed' ? 'Completed' : 'Ready to start';
+  return step.unlocks.length > 0 ? `${status} · leads to ${titles(step.unlocks)}` : status;
+};
+
+/**
+ * A category's modules as a path of steps, in the order they can be taken,
+ * showing what is done, what is ready and what each step unlocks
+ */
+const LearningPathView: React.FC<LearningPathViewProps> = ({ path, onSelect }) => (
+  <View style={styles.card}>
+    <Text style={styles.title}>{EDUCATION_CATEGORY_LABELS[path.category]}</Text>
+    {path.steps.map((step, index) => {
+      const isLast = index === path.steps.length - 1;
+
+      return (
+        <TouchableOpacity
+          key={step.module.id}
+          onPress={() => onSelect(step)}
+          accessibilityRole="button"
+          accessibilityLabel={`${step.module.title}, ${describeStep(step)}`}
+          style={styles.step}
+        >
+          <View style={styles.track}>
+            <View style={[styles.node, styles[`${step.status}Node`]]}>
+              <Icon
+                source={STATUS_ICONS[step.status]}
+                size={16}
+                color={step.status === 'locked' ? '#7f8c8d' : '#ffffff'}
+              />
+            </View>
+            {!isLast && (
+              <View
+                style={[styles.connector, step.status === 'completed' && styles.doneConnector]}
+              />
+            )}
+          </View>
+          <View style={[styles.stepText, !isLast && styles.stepSpacing]}>
+            <Text style={[styles.stepTitle, step.status === 'locked' && styles.lockedTitle]}>
+              {step.module.title}
+            </Text>
+            <Text style={styles.stepDescription}>{describeStep(step)}</Text>
+          </View>
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  step: {
+    flexDirection: 'row',
+  },
+  track: {
+    alignItems: 'center',
+    width: 32,
+    marginRight: 12,
+  },
+  node: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  completedNode: {
+    backgroundColor: '#27ae60',
+  },
+  unlockedNode: {
+    backgroundColor: '#6366f1',
+  },
+  lockedNode: {
+    backgroundColor: '#e5e7eb', // Gray-200
+  },
+  connector: {
+    flex: 1,
+    width: 2,
+    minHeight: 16,
+    backgroundColor: '#e5e7eb',
+  },
+  doneConnector: {
+    backgroundColor: '#27ae60',
+  },
+  stepText: {
+    flex: 1,
+    paddingTop: 4,
+  },
+  stepSpacing: {
+    paddingBottom: 20,
+  },
+  stepTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#2c3e50',
+  },
+  lockedTitle: {
+    color: '#7f8c8d',
+  },
+  stepDescription: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+});
+
+export default LearningPathView;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Chip, Icon } from 'react-native-paper';
+import { EducationModule, ModuleState } from '../../types';
+import { DIFFICULTY_LEVEL_LABELS, EDUCATION_CATEGORY_LABELS } from '../../constants/education';
+
+interface ModuleCardProps {
+  module: EducationModule;
+  state?: ModuleState;
+  onPress: () => void;
+}
+
+/**
+ * One learning module in the catalogue: what it covers, how long it takes,
+ * its tags, and whether it is locked or completed
+ */
+const ModuleCard: React.FC<ModuleCardProps> = ({ module, state, onPress }) => {
+  const isLocked = state?.status === 'locked';
+  const details = [
+    EDUCATION_CATEGORY_LABELS[module.category],
+    DIFFICULTY_LEVEL_LABELS[module.difficulty],
+    `${module.readingTime} min read`,
+  ];
+
+  return (
+    <Card style={[styles.card, isLocked && styles.lockedCard]} onPress={onPress}>
+      <Card.Content>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>{module.title}</Text>
+          {state?.status === 'completed' && (
+            <Icon source="check-circle" size={20} color="#27ae60" />
+          )}
+          {isLocked && <Icon source="lock" size={20} color="#7f8c8d" />}
+        </View>
+        <Text style={styles.details}>{details.join(' · ')}</Text>
+        {isLocked && (
+          <Text style={styles.lockedText}>
+            Finish {state.missingPrerequisites.map((item) => item.title).join(', ')} to unlock
+          </Text>
+        )}
+        {!!module.description && (
+          <Text style={styles.description} numberOfLines={3}>
+            {module.description}
+          </Text>
+        )}
+        {module.tags.length > 0 && (
+          <View style={styles.tags}>
+            {module.tags.map((tag) => (
+              <Chip key={tag} compact style={styles.tag} textStyle={styles.tagText}>
+                {tag}
+              </Chip>
+            ))}
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  lockedCard: {
+    opacity: 0.7,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  details: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 4,
+  },
+  lockedText: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: '#2c3e50',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  tag: {
+    backgroundColor: '#eef2ff', // Indigo-50
+    marginRight: 6,
+    marginTop: 6,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#4338ca', // Indigo-700
+  },
+});
+
+export default ModuleCard;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, List } from 'react-native-paper';
+import { EducationModule, ModuleActivity, ModuleInteractiveElement } from '../../types';
+import { getInteractionKey, getModuleCompletionStatus } from '../../utils/moduleCompletion';
+
+interface ModuleCompletionCardProps {
+  module: EducationModule;
+  activity?: ModuleActivity;
+  isCompleted: boolean;
+}
+
+const describeElement = (element: ModuleInteractiveElement): string => {
+  switch (element.type) {
+    case 'quiz':
+      return 'Take the quiz';
+    case 'reflection':
+      return 'Write a reflection';
+    case 'exercise':
+      return typeof element.content?.title === 'string' ? element.content.title : 'Do the exercise';
+  }
+};
+
+/**
+ * What's left to complete a module: reading time, required activities and
+ * the quiz, ticked off as the patient goes
+ */
+const ModuleCompletionCard: React.FC<ModuleCompletionCardProps> = ({
+  module,
+  activity,
+  isCompleted,
+}) => {
+  if (isCompleted) {
+    return (
+      <View style={[styles.card, styles.completedCard]}>
+        <List.Item
+          title="Module complete"
+          description="Well done - you can come back to it at any time"
+          left={(props) => <List.Icon {...props} icon="check-circle" color="#27ae60" />}
+        />
+      </View>
+    );
+  }
+
+  const status = getModuleCompletionStatus(module, activity);
+  const required = module.completionCriteria?.requiredInteractions || [];
+  const requiredElements = (module.content.interactiveElements || []).filter((element) =>
+    required.includes(getInteractionKey(element))
+  );
+  const steps = [
+    ...(status.minutesRequired > 0
+      ? [
+          {
+            key: 'time',
+            title: `Read for ${status.minutesRequired} minutes`,
+            description: `${Math.min(status.minutesSpent, status.minutesRequired)} of ${
+              status.minutesRequired
+            } minutes so far`,
+            done: status.minutesSpent >= status.minutesRequired,
+          },
+        ]
+      : []),
+    ...requiredElements.map((element) => ({
+      key: getInteractionKey(element),
+      title: describeElement(element),
+      description: undefined,
+      done: !status.missingInteractions.includes(element),
+    })),
+    ...(status.quizRequired
+      ? [
+          {
+            key: 'quizPassed',
+            title: 'Pass the quiz',
+            description: undefined,
+            done: status.quizPassed,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>To complete this module</Text>
+      {steps.length === 0 ? (
+        <Text style={styles.text}>Read through the module and it will be marked complete.</Text>
+      ) : (
+        steps.map((step) => (
+          <List.Item
+            key={step.key}
+            title={step.title}
+            description={step.description}
+            left={(props) => (
+              <List.Icon
+                {...props}
+                icon={step.done ? 'check-circle' : 'checkbox-blank-circle-outline'}
+                color={step.done ? '#27ae60' : '#7f8c8d'}
+              />
+            )}
+          />
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingVertical: 8,
+    marginTop: 16,
+  },
+  completedCard: {
+    backgroundColor: '#e8f8ef',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  text: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+});
+
+export default ModuleCompletionCard;
@@ -0,0 +1,227 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, List, IconButton, SegmentedButtons } from 'react-native-paper';
+import { QuizAnswer, QuizQuestion } from '../../types';
+import { isAnswerCorrect } from '../../utils/quiz';
+
+interface QuizQuestionViewProps {
+  question: QuizQuestion;
+  answer?: QuizAnswer;
+  onChange: (answer: QuizAnswer) => void;
+  revealed?: boolean; // once checked: the answer is locked and marked right or wrong
+}
+
+const CORRECT_COLOR = '#27ae60';
+const INCORRECT_COLOR = '#e74c3c';
+
+/**
+ * One quiz question with the input for its type, and once checked,
+ * whether it was right and the explanation
+ */
+const QuizQuestionView: React.FC<QuizQuestionViewProps> = ({
+  question,
+  answer,
+  onChange,
+  revealed = false,
+}) => {
+  const isCorrect = isAnswerCorrect(question, answer);
+
+  // Choice options, marked against the correct answer once revealed
+  const renderOptions = (options: string[], multiple: boolean, correct: number[]) => {
+    const chosen = multiple ? (answer as number[] | undefined) || [] : [answer];
+
+    return options.map((option, index) => {
+      const isChosen = chosen.includes(index);
+      const icon = multiple
+        ? isChosen
+          ? 'checkbox-marked'
+          : 'checkbox-blank-outline'
+        : isChosen
+          ? 'radiobox-marked'
+          : 'radiobox-blank';
+      const color = !revealed
+        ? '#6366f1'
+        : correct.includes(index)
+          ? CORRECT_COLOR
+          : isChosen
+            ? INCORRECT_COLOR
+            : '#7f8c8d';
+
+      const toggle = () => {
+        if (!multiple) {
+          onChange(index);
+          return;
+        }
+        const current = (answer as number[] | undefined) || [];
+        onChange(
+          isChosen
+            ? current.filter((item) => item !== index)
+            : [...current, index].sort((a, b) => a - b)
+        );
+      };
+
+      return (
+        <List.Item
+          key={index}
+          title={option}
+          titleNumberOfLines={3}
+          left={(props) => <List.Icon {...props} icon={icon} color={color} />}
+          onPress={revealed ? undefined : toggle}
+          style={styles.option}
+        />
+      );
+    });
+  };
+
+  const renderOrdering = (items: string[]) => {
+    const order = (answer as number[] | undefined) || items.map((_, index) => index);
+
+    const move = (position: number, offset: number) => {
+      const next = [...order];
+      [next[position], next[position + offset]] = [next[position + offset], next[position]];
+      onChange(next);
+    };
+
+    return order.map((itemIndex, position) => (
+      <View key={itemIndex} style={[styles.option, styles.orderRow]}>
+        <Text
+          style={[
+            styles.orderText,
+            revealed && { color: itemIndex === position ? CORRECT_COLOR : INCORRECT_COLOR },
+          ]}
+        >
+          {position + 1}. {items[itemIndex]}
+        </Text>
+        {!revealed && (
+          <>
+            <IconButton
+              icon="arrow-up"
+              size={20}
+              disabled={position === 0}
+              accessibilityLabel={`Move ${items[itemIndex]} up`}
+              onPress={() => move(position, -1)}
+            />
+            <IconButton
+              icon="arrow-down"
+              size={20}
+              disabled={position === order.length - 1}
+              accessibilityLabel={`Move ${items[itemIndex]} down`}
+              onPress={() => move(position, 1)}
+            />
+          </>
+        )}
+      </View>
+    ));
+  };
+
+  const renderInput = () => {
+    switch (question.type) {
+      case 'single_choice':
+        return renderOptions(question.options, false, [question.correctIndex]);
+      case 'multiple_choice':
+        return renderOptions(question.options, true, question.correctIndices);
+      case 'true_false':
+        return (
+          <SegmentedButtons
+            value={answer === undefined ? '' : String(answer)}
+            onValueChange={(value) => onChange(value === 'true')}
+            buttons={[
+              { value: 'true', label: 'True', disabled: revealed },
+              { value: 'false', label: 'False', disabled: revealed },
+            ]}
+          />
+        );
+      case 'ordering':
+        return renderOrdering(question.items);
+    }
+  };
+
+  const hint =
+    question.type === 'multiple_choice'
+      ? 'Choose all that apply'
+      : question.type === 'ordering'
+        ? 'Put these in the right order'
+        : null;
+
+  return (
+    <View>
+      <Text style={styles.prompt}>{question.prompt}</Text>
+      {hint && <Text style={styles.hint}>{hint}</Text>}
+      <View style={styles.input}>{renderInput()}</View>
+
+      {revealed && (
+        <View style={[styles.feedback, isCorrect ? styles.correct : styles.incorrect]}>
+          <Text style={styles.feedbackTitle}>{isCorrect ? 'Correct' : 'Not quite'}</Text>
+          {question.type === 'true_false' && !isCorrect && (
+            <Text style={styles.feedbackText}>
+              The answer is {question.correctAnswer ? 'true' : 'false'}.
+            </Text>
+          )}
+          {question.type === 'ordering' && !isCorrect && (
+            <Text style={styles.feedbackText}>The right order is: {question.items.join(', ')}</Text>
+          )}
+          {!!question.explanation && (
+            <Text style={styles.feedbackText}>{question.explanation}</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  prompt: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    lineHeight: 26,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 4,
+  },
+  input: {
+    marginTop: 16,
+  },
+  option: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+  },
+  orderText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    paddingVertical: 12,
+  },
+  feedback: {
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  correct: {
+    backgroundColor: '#e8f8ef',
+  },
+  incorrect: {
+    backgroundColor: '#fdecea',
+  },
+  feedbackTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: '#2c3e50',
+    lineHeight: 20,
+    marginTop: 4,
+  },
+});
+
+export default QuizQuestionView;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Chip } from 'react-native-paper';
+import { ModuleReflection } from '../../types';
+import { formatShortDate, toDayKey } from '../../utils/date';
+import { toDate } from '../../utils/firestore';
+
+interface ReflectionCardProps {
+  reflection: ModuleReflection;
+  onPress?: () => void;
+  showSharing?: boolean; // mark reflections shared with the clinician
+}
+
+/**
+ * A module reflection: each question and the answer written to it
+ */
+const ReflectionCard: React.FC<ReflectionCardProps> = ({
+  reflection,
+  onPress,
+  showSharing = false,
+}) => (
+  <Card style={styles.card} onPress={onPress}>
+    <Card.Content>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{reflection.moduleTitle}</Text>
+          <Text style={styles.date}>
+            {formatShortDate(toDayKey(toDate(reflection.updatedAt)))}
+          </Text>
+        </View>
+        {showSharing && !!reflection.sharedWith && (
+          <Chip compact icon="account-eye-outline" style={styles.sharedChip}>
+            Shared
+          </Chip>
+        )}
+      </View>
+
+      {reflection.responses.map((response) => (
+        <View key={response.promptId} style={styles.response}>
+          <Text style={styles.prompt}>{response.prompt}</Text>
+          <Text style={styles.answer}>{response.response}</Text>
+        </View>
+      ))}
+    </Card.Content>
+  </Card>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  date: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  sharedChip: {
+    backgroundColor: '#eef2ff', // Indigo-50
+  },
+  response: {
+    marginTop: 12,
+  },
+  prompt: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#7f8c8d',
+  },
+  answer: {
+    fontSize: 15,
+    color: '#2c3e50',
+    lineHeight: 22,
+    marginTop: 4,
+  },
+});
+
+export default ReflectionCard;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, HelperText } from 'react-native-paper';
+import { MoodScale } from '../../types';
+import { MOOD_SCALE_VALUES } from '../../constants/checkIn';
+
+interface ScaleSelectorProps {
+  label: string;
+  value?: MoodScale; // unset until the patient picks a rating
+  onChange: (value: MoodScale) => void;
+  lowLabel?: string;
+  highLabel?: string;
+  error?: string;
+  testID?: string;
+}
+
+/**
+ * 1-10 scale picker used for mood and wellbeing ratings
+ */
+const ScaleSelector: React.FC<ScaleSelectorProps> = ({
+  label,
+  value,
+  onChange,
+  lowLabel = 'Low',
+  highLabel = 'High',
+  error,
+  testID,
+}) => (
+  <View style={styles.container} testID={testID}>
+    <View style={styles.header}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.value}>{value ?? '-'}/10</Text>
+    </View>
+    <View style={styles.scale}>
+      {MOOD_SCALE_VALUES.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.option, option === value && styles.optionSelected]}
+          onPress={() => onChange(option)}
+          accessibilityRole="button"
+          accessibilityLabel={`${label} ${option}`}
+          accessibilityState={{ selected: option === value }}
+        >
+          <Text style={[styles.optionText, option === value && styles.optionTextSelected]}>
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+    <View style={styles.anchors}>
+      <Text style={styles.anchorText}>{lowLabel}</Text>
+      <Text style={styles.anchorText}>{highLabel}</Text>
+    </View>
+    {error && <HelperText type="error">{error}</HelperText>}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  value: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  scale: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  option: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+  },
+  optionSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#2c3e50',
+  },
+  optionTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  anchors: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  anchorText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default ScaleSelector;
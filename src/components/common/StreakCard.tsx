@@ -0,0 +1,106 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Switch } from 'react-native-paper';
+import { CheckInStreak, getStreakMessage } from '../../utils/checkInStreak';
+
+interface StreakCardProps {
+  streak: CheckInStreak;
+  weeklyRestDay: boolean;
+  onWeeklyRestDayChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The patient's check-in run, with the option of a weekly rest day
+ */
+const StreakCard: React.FC<StreakCardProps> = ({
+  streak,
+  weeklyRestDay,
+  onWeeklyRestDayChange,
+  disabled,
+}) => (
+  <View style={styles.container}>
+    <View style={styles.counts}>
+      <View style={styles.count}>
+        <Text style={styles.value}>{streak.current}</Text>
+        <Text style={styles.label}>Current run</Text>
+      </View>
+      <View style={styles.count}>
+        <Text style={styles.value}>{streak.longest}</Text>
+        <Text style={styles.label}>Longest run</Text>
+      </View>
+    </View>
+    <Text style={styles.message}>{getStreakMessage(streak)}</Text>
+
+    <View style={styles.restDay}>
+      <View style={styles.restDayText}>
+        <Text style={styles.restDayTitle}>Allow one rest day a week</Text>
+        <Text style={styles.detail}>
+          {weeklyRestDay && streak.restDayAvailable
+            ? "This week's rest day is still free."
+            : 'A missed day each week keeps your run going.'}
+        </Text>
+      </View>
+      <Switch
+        value={weeklyRestDay}
+        onValueChange={onWeeklyRestDayChange}
+        disabled={disabled}
+        color="#6366f1"
+      />
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  counts: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  count: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  value: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  label: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  message: {
+    fontSize: 15,
+    color: '#2c3e50',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  restDay: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#ecf0f1',
+    paddingTop: 12,
+  },
+  restDayText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  restDayTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#2c3e50',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+});
+
+export default StreakCard;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Banner } from 'react-native-paper';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
+
+/**
+ * Shows how many entries are saved on the device but not yet synced
+ */
+const SyncStatusBanner: React.FC = () => {
+  const { pendingCount, isSyncing, lastSyncError, syncNow } = useOfflineQueue();
+
+  const entryLabel = pendingCount === 1 ? 'entry' : 'entries';
+  const message = lastSyncError
+    ? `${pendingCount} ${entryLabel} saved on this device and waiting to sync. We'll keep trying.`
+    : `${pendingCount} ${entryLabel} waiting to sync.`;
+
+  return (
+    <Banner
+      visible={pendingCount > 0}
+      icon="cloud-upload-outline"
+      actions={[
+        {
+          label: isSyncing ? 'Syncing...' : 'Sync now',
+          onPress: syncNow,
+          disabled: isSyncing,
+        },
+      ]}
+      style={styles.banner}
+    >
+      {message}
+    </Banner>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#eef2ff', // Indigo-50
+  },
+});
+
+export default SyncStatusBanner;
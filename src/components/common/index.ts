@@ -1,3 +1,19 @@
 // Common components exports
-// Add your common components here as you create them
-// Example: export { default as Button } from './Button';
+export { default as ScaleSelector } from './ScaleSelector';
+export { default as ChipSelector } from './ChipSelector';
+export { default as SyncStatusBanner } from './SyncStatusBanner';
+export { default as DaySelector } from './DaySelector';
+export { default as FoodRecordDayView } from './FoodRecordDayView';
+export { default as AdherenceSummary } from './AdherenceSummary';
+export { default as CompensatoryBehaviorSelector } from './CompensatoryBehaviorSelector';
+export { default as CheckInCalendar } from './CheckInCalendar';
+export { default as CheckInListItem } from './CheckInListItem';
+export { default as StreakCard } from './StreakCard';
+export { default as GoalCard } from './GoalCard';
+export { default as InsightList } from './InsightList';
+export { default as CopingSuggestions } from './CopingSuggestions';
+export { default as ModuleCard } from './ModuleCard';
+export { default as LearningPathView } from './LearningPathView';
+export { default as QuizQuestionView } from './QuizQuestionView';
+export { default as ReflectionCard } from './ReflectionCard';
+export { default as ModuleCompletionCard } from './ModuleCompletionCard';
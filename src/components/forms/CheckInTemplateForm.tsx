@@ -0,0 +1,406 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Switch,
+  Button,
+  Card,
+  Menu,
+  SegmentedButtons,
+  HelperText,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { useForm, Controller, useFieldArray, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { CheckInSection, CheckInTemplateFormData, CustomQuestionType } from '../../types';
+import { CHECK_IN_STEP_TITLES } from '../../constants/checkIn';
+import {
+  CHECK_IN_SECTIONS,
+  CUSTOM_QUESTION_TYPE_OPTIONS,
+  SECTION_MODE_OPTIONS,
+  TEMPLATE_FIELD_OPTIONS,
+} from '../../constants/checkInTemplates';
+import { checkInTemplateSchema } from '../../utils/checkInTemplateValidation';
+
+interface CheckInTemplateFormProps {
+  initialValues: CheckInTemplateFormData;
+  onSubmit: (data: CheckInTemplateFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+// Section dropdown for a custom question
+const SectionPicker: React.FC<{
+  value: CheckInSection;
+  onChange: (value: CheckInSection) => void;
+}> = ({ value, onChange }) => {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      anchor={
+        <Button mode="outlined" onPress={() => setVisible(true)} style={styles.menuButton}>
+          {CHECK_IN_STEP_TITLES[value]}
+        </Button>
+      }
+    >
+      {CHECK_IN_SECTIONS.map((section) => (
+        <Menu.Item
+          key={section}
+          title={CHECK_IN_STEP_TITLES[section]}
+          onPress={() => {
+            onChange(section);
+            setVisible(false);
+          }}
+        />
+      ))}
+    </Menu>
+  );
+};
+
+/**
+ * Editor for a clinician's check-in template: which sections are asked,
+ * which built-in questions are left out, and extra questions of their own
+ */
+const CheckInTemplateForm: React.FC<CheckInTemplateFormProps> = ({
+  initialValues,
+  onSubmit,
+  isSubmitting = false,
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<CheckInTemplateFormData>({
+    resolver: yupResolver(checkInTemplateSchema),
+    defaultValues: initialValues,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'customQuestions' });
+  const sections = watch('sections');
+  const questions = watch('customQuestions');
+
+  const handleSave: SubmitHandler<CheckInTemplateFormData> = async (data) => {
+    await onSubmit(data);
+  };
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="name"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Template name"
+            value={value}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            mode="outlined"
+            error={!!errors.name}
+            style={styles.input}
+          />
+        )}
+      />
+      {errors.name && <HelperText type="error">{errors.name.message}</HelperText>}
+
+      {/* Sections and the built-in questions they ask */}
+      <Text style={styles.heading}>Sections</Text>
+      <Text style={styles.hint}>
+        Custom sections show only your own questions. Patients can skip optional sections.
+      </Text>
+      {CHECK_IN_SECTIONS.map((section) => {
+        const fieldOptions = TEMPLATE_FIELD_OPTIONS.filter((option) => option.section === section);
+        const asksBuiltIns = sections[section] === 'required' || sections[section] === 'optional';
+
+        return (
+          <Card key={section} style={styles.card}>
+            <Card.Content>
+              <Text style={styles.label}>{CHECK_IN_STEP_TITLES[section]}</Text>
+              <Controller
+                control={control}
+                name={`sections.${section}`}
+                render={({ field: { onChange, value } }) => (
+                  <SegmentedButtons
+                    value={value}
+                    onValueChange={onChange}
+                    buttons={SECTION_MODE_OPTIONS}
+                    density="small"
+                  />
+                )}
+              />
+              {asksBuiltIns && fieldOptions.length > 0 && (
+                <Controller
+                  control={control}
+                  name="hiddenFields"
+                  render={({ field: { onChange, value } }) => (
+                    <View style={styles.fieldToggles}>
+                      {fieldOptions.map((option) => (
+                        <View key={option.value} style={styles.toggleRow}>
+                          <Text style={styles.toggleLabel}>{option.label}</Text>
+                          <Switch
+                            value={!value.includes(option.value)}
+                            onValueChange={(isAsked) =>
+                              onChange(
+                                isAsked
+                                  ? value.filter((field) => field !== option.value)
+                                  : [...value, option.value]
+                              )
+                            }
+                          />
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                />
+              )}
+            </Card.Content>
+          </Card>
+        );
+      })}
+      {errors.sections?.message && (
+        <HelperText type="error">{errors.sections.message}</HelperText>
+      )}
+
+      {/* The clinician's own questions */}
+      <Text style={styles.heading}>Your questions</Text>
+      {fields.map((field, index) => {
+        const type = questions[index]?.type;
+        const questionErrors = errors.customQuestions?.[index];
+
+        return (
+          <Card key={field.id} style={styles.card}>
+            <Card.Content>
+              <Controller
+                control={control}
+                name={`customQuestions.${index}.prompt`}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    label="Question"
+                    value={value}
+                    onBlur={onBlur}
+                    onChangeText={onChange}
+                    mode="outlined"
+                    multiline
+                    error={!!questionErrors?.prompt}
+                    style={styles.input}
+                  />
+                )}
+              />
+              {questionErrors?.prompt && (
+                <HelperText type="error">{questionErrors.prompt.message}</HelperText>
+              )}
+
+              <Controller
+                control={control}
+                name={`customQuestions.${index}.type`}
+                render={({ field: { onChange, value } }) => (
+                  <SegmentedButtons
+                    value={value}
+                    onValueChange={(newType) => onChange(newType as CustomQuestionType)}
+                    buttons={CUSTOM_QUESTION_TYPE_OPTIONS}
+                    density="small"
+                    style={styles.segmented}
+                  />
+                )}
+              />
+
+              {type === 'multi_select' && (
+                <>
+                  <Controller
+                    control={control}
+                    name={`customQuestions.${index}.options`}
+                    render={({ field: { onChange, onBlur, value } }) => (
+                      <TextInput
+                        label="Options, separated by commas"
+                        value={(value || []).join(', ')}
+                        onBlur={onBlur}
+                        onChangeText={(text) =>
+                          onChange(text.split(',').map((option) => option.trimStart()))
+                        }
+                        mode="outlined"
+                        dense
+                        error={!!questionErrors?.options}
+                        style={styles.input}
+                      />
+                    )}
+                  />
+                  {questionErrors?.options && (
+                    <HelperText type="error">{questionErrors.options.message}</HelperText>
+                  )}
+                </>
+              )}
+
+              {type === 'scale' && (
+                <View style={styles.row}>
+                  <Controller
+                    control={control}
+                    name={`customQuestions.${index}.lowLabel`}
+                    render={({ field: { onChange, onBlur, value } }) => (
+                      <TextInput
+                        label="1 means"
+                        value={value || ''}
+                        onBlur={onBlur}
+                        onChangeText={onChange}
+                        mode="outlined"
+                        dense
+                        style={[styles.input, styles.labelInput]}
+                      />
+                    )}
+                  />
+                  <Controller
+                    control={control}
+                    name={`customQuestions.${index}.highLabel`}
+                    render={({ field: { onChange, onBlur, value } }) => (
+                      <TextInput
+                        label="10 means"
+                        value={value || ''}
+                        onBlur={onBlur}
+                        onChangeText={onChange}
+                        mode="outlined"
+                        dense
+                        style={[styles.input, styles.labelInput]}
+                      />
+                    )}
+                  />
+                </View>
+              )}
+
+              <View style={styles.row}>
+                <Controller
+                  control={control}
+                  name={`customQuestions.${index}.section`}
+                  render={({ field: { onChange, value } }) => (
+                    <SectionPicker value={value} onChange={onChange} />
+                  )}
+                />
+                <Controller
+                  control={control}
+                  name={`customQuestions.${index}.required`}
+                  render={({ field: { onChange, value } }) => (
+                    <View style={styles.toggleRow}>
+                      <Text style={styles.toggleLabel}>Required</Text>
+                      <Switch value={value} onValueChange={onChange} />
+                    </View>
+                  )}
+                />
+              </View>
+              {sections[questions[index]?.section] === 'hidden' && (
+                <HelperText type="info">
+                  This section is hidden, so the question won't be asked.
+                </HelperText>
+              )}
+
+              <Button compact onPress={() => remove(index)} style={styles.removeButton}>
+                Remove
+              </Button>
+            </Card.Content>
+          </Card>
+        );
+      })}
+
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={() =>
+          append({
+            id: `question-${Date.now()}`,
+            section: 'notes',
+            type: 'scale',
+            prompt: '',
+            required: false,
+          })
+        }
+        style={styles.addButton}
+      >
+        Add question
+      </Button>
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit(handleSave)}
+        disabled={isSubmitting}
+        style={styles.saveButton}
+        contentStyle={styles.buttonContent}
+      >
+        {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save template'}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    marginBottom: 8,
+  },
+  heading: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  fieldToggles: {
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    color: '#111827',
+    marginRight: 8,
+  },
+  segmented: {
+    marginBottom: 8,
+  },
+  labelInput: {
+    flex: 1,
+    marginHorizontal: 2,
+  },
+  menuButton: {
+    borderRadius: 8,
+  },
+  removeButton: {
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+  addButton: {
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  saveButton: {
+    borderRadius: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default CheckInTemplateForm;
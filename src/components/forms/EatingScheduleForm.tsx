@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Switch,
+  Button,
+  Card,
+  Menu,
+  SegmentedButtons,
+  HelperText,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { useForm, Controller, useFieldArray, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { EatingScheduleFormData, MealType } from '../../types';
+import { ADHERENCE_WINDOW_OPTIONS, MEAL_TYPE_OPTIONS } from '../../constants/foodRecords';
+import { eatingScheduleSchema } from '../../utils/foodRecordValidation';
+
+interface EatingScheduleFormProps {
+  initialValues: EatingScheduleFormData;
+  onSubmit: (data: EatingScheduleFormData) => Promise<void>;
+  isSubmitting?: boolean;
+  showReminderToggles?: boolean; // reminders only apply on the patient's device
+}
+
+// Meal type dropdown
+const MealTypePicker: React.FC<{ value: MealType; onChange: (value: MealType) => void }> = ({
+  value,
+  onChange,
+}) => {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      anchor={
+        <Button mode="outlined" onPress={() => setVisible(true)} style={styles.mealButton}>
+          {MEAL_TYPE_OPTIONS.find((option) => option.value === value)?.label}
+        </Button>
+      }
+    >
+      {MEAL_TYPE_OPTIONS.map((option) => (
+        <Menu.Item
+          key={option.value}
+          title={option.label}
+          onPress={() => {
+            onChange(option.value);
+            setVisible(false);
+          }}
+        />
+      ))}
+    </Menu>
+  );
+};
+
+/**
+ * Editor for a regular eating schedule (planned meals and snacks)
+ */
+const EatingScheduleForm: React.FC<EatingScheduleFormProps> = ({
+  initialValues,
+  onSubmit,
+  isSubmitting = false,
+  showReminderToggles = true,
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<EatingScheduleFormData>({
+    resolver: yupResolver(eatingScheduleSchema),
+    defaultValues: initialValues,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'occasions' });
+
+  const handleSave: SubmitHandler<EatingScheduleFormData> = async (data) => {
+    await onSubmit(data);
+  };
+
+  return (
+    <View>
+      {fields.map((field, index) => (
+        <Card key={field.id} style={styles.card}>
+          <Card.Content>
+            <View style={styles.row}>
+              <Controller
+                control={control}
+                name={`occasions.${index}.mealType`}
+                render={({ field: { onChange, value } }) => (
+                  <MealTypePicker value={value} onChange={onChange} />
+                )}
+              />
+              <Controller
+                control={control}
+                name={`occasions.${index}.time`}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    label="Time"
+                    value={value}
+                    onBlur={onBlur}
+                    onChangeText={onChange}
+                    mode="outlined"
+                    dense
+                    placeholder="HH:MM"
+                    keyboardType="numbers-and-punctuation"
+                    error={!!errors.occasions?.[index]?.time}
+                    style={styles.timeInput}
+                  />
+                )}
+              />
+            </View>
+            {errors.occasions?.[index]?.time && (
+              <HelperText type="error">{errors.occasions[index]?.time?.message}</HelperText>
+            )}
+            <View style={styles.row}>
+              {showReminderToggles ? (
+                <Controller
+                  control={control}
+                  name={`occasions.${index}.remindersEnabled`}
+                  render={({ field: { onChange, value } }) => (
+                    <View style={styles.toggleRow}>
+                      <Text style={styles.toggleLabel}>Reminder</Text>
+                      <Switch value={value} onValueChange={onChange} />
+                    </View>
+                  )}
+                />
+              ) : (
+                <View style={styles.toggleRow} />
+              )}
+              <Button compact onPress={() => remove(index)}>
+                Remove
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      ))}
+      {errors.occasions?.message && (
+        <HelperText type="error">{errors.occasions.message}</HelperText>
+      )}
+
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={() =>
+          append({
+            id: `occasion-${Date.now()}`,
+            mealType: 'other',
+            time: '12:00',
+            remindersEnabled: true,
+          })
+        }
+        style={styles.addButton}
+      >
+        Add meal or snack
+      </Button>
+
+      <Text style={styles.label}>Counts as on time if eaten within</Text>
+      <Controller
+        control={control}
+        name="adherenceWindowMinutes"
+        render={({ field: { onChange, value } }) => (
+          <SegmentedButtons
+            value={String(value)}
+            onValueChange={(minutes) => onChange(Number(minutes))}
+            buttons={ADHERENCE_WINDOW_OPTIONS.map((minutes) => ({
+              value: String(minutes),
+              label: `±${minutes} min`,
+            }))}
+            style={styles.segmented}
+          />
+        )}
+      />
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit(handleSave)}
+        disabled={isSubmitting}
+        style={styles.saveButton}
+        contentStyle={styles.buttonContent}
+      >
+        {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save schedule'}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  mealButton: {
+    borderRadius: 8,
+  },
+  timeInput: {
+    width: 100,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    color: '#2c3e50',
+    marginRight: 8,
+  },
+  addButton: {
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  segmented: {
+    marginBottom: 20,
+  },
+  saveButton: {
+    borderRadius: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default EatingScheduleForm;
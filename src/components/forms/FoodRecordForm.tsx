@@ -0,0 +1,230 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Switch, Chip, Button, HelperText, ActivityIndicator } from 'react-native-paper';
+import { useForm, Controller, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { FoodRecordFormData } from '../../types';
+import { MEAL_TYPE_OPTIONS } from '../../constants/foodRecords';
+import { foodRecordSchema, FoodRecordFormValues } from '../../utils/foodRecordValidation';
+import { formatTime, parseTime } from '../../utils/date';
+import CompensatoryBehaviorSelector from '../common/CompensatoryBehaviorSelector';
+
+interface FoodRecordFormProps {
+  day: string; // YYYY-MM-DD the entry belongs to
+  onSubmit: (data: FoodRecordFormData) => Promise<void>;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Entry form for a single eating occasion
+ */
+const FoodRecordForm: React.FC<FoodRecordFormProps> = ({
+  day,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<FoodRecordFormValues>({
+    resolver: yupResolver(foodRecordSchema),
+    defaultValues: {
+      time: formatTime(new Date()),
+      foodAndDrink: '',
+      place: '',
+      mealType: 'other',
+      wasBinge: false,
+      compensatoryBehaviors: [],
+      thoughtsAndContext: '',
+    },
+  });
+
+  // Convert the entered time onto the selected day
+  const handleSave: SubmitHandler<FoodRecordFormValues> = async ({ time, ...values }) => {
+    const eatenAt = parseTime(day, time);
+    if (eatenAt) {
+      await onSubmit({ ...values, eatenAt });
+    }
+  };
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="time"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Time"
+            value={value}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            mode="outlined"
+            placeholder="HH:MM"
+            keyboardType="numbers-and-punctuation"
+            error={!!errors.time}
+            style={styles.input}
+            left={<TextInput.Icon icon="clock-outline" />}
+          />
+        )}
+      />
+      {errors.time && <HelperText type="error">{errors.time.message}</HelperText>}
+
+      <Controller
+        control={control}
+        name="foodAndDrink"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Food and drink"
+            value={value}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            mode="outlined"
+            multiline
+            error={!!errors.foodAndDrink}
+            style={styles.input}
+          />
+        )}
+      />
+      {errors.foodAndDrink && <HelperText type="error">{errors.foodAndDrink.message}</HelperText>}
+
+      <Controller
+        control={control}
+        name="place"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Where"
+            value={value}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            mode="outlined"
+            style={styles.input}
+          />
+        )}
+      />
+
+      <Text style={styles.label}>Meal</Text>
+      <Controller
+        control={control}
+        name="mealType"
+        render={({ field: { onChange, value } }) => (
+          <View style={styles.chips}>
+            {MEAL_TYPE_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                selected={value === option.value}
+                onPress={() => onChange(option.value)}
+                style={styles.chip}
+                showSelectedOverlay
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </View>
+        )}
+      />
+
+      <Controller
+        control={control}
+        name="wasBinge"
+        render={({ field: { onChange, value } }) => (
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Did this feel like a binge? (*)</Text>
+            <Switch value={value} onValueChange={onChange} />
+          </View>
+        )}
+      />
+
+      <Controller
+        control={control}
+        name="compensatoryBehaviors"
+        render={({ field: { onChange, value } }) => (
+          <CompensatoryBehaviorSelector
+            label="Anything afterwards?"
+            selected={value}
+            onChange={onChange}
+          />
+        )}
+      />
+
+      <Controller
+        control={control}
+        name="thoughtsAndContext"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Thoughts, feelings and context"
+            value={value || ''}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            mode="outlined"
+            multiline
+            numberOfLines={3}
+            error={!!errors.thoughtsAndContext}
+            style={styles.input}
+          />
+        )}
+      />
+
+      <View style={styles.actions}>
+        <Button mode="text" onPress={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={handleSubmit(handleSave)}
+          disabled={isSubmitting}
+          style={styles.saveButton}
+        >
+          {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save'}
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  saveButton: {
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+});
+
+export default FoodRecordForm;
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Switch,
+  Button,
+  Menu,
+  SegmentedButtons,
+  HelperText,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { useForm, Controller, useFieldArray, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { GoalFormData, GoalMetric, PatientProgress } from '../../types';
+import { GOAL_DUE_OPTIONS, GOAL_MAX_MILESTONES, GOAL_METRIC_OPTIONS } from '../../constants/goals';
+import { goalSchema } from '../../utils/goalValidation';
+import { getGoalMetricValue } from '../../utils/goals';
+import { addDays, toDayKey } from '../../utils/date';
+import { parseWholeNumber } from '../../utils/numberInput';
+import DaySelector from '../common/DaySelector';
+
+interface GoalFormProps {
+  onSubmit: (data: GoalFormData) => Promise<void>;
+  isSubmitting?: boolean;
+  progress?: Partial<PatientProgress> | null; // current metrics, shown as a starting point
+  submitLabel?: string;
+  color?: string;
+}
+
+// Default values for a new goal, due in a fortnight
+export const getDefaultGoalValues = (): GoalFormData => ({
+  description: '',
+  reason: '',
+  targetDay: addDays(toDayKey(new Date()), 14),
+  milestones: [{ description: '' }],
+  linkMetric: false,
+  metric: GOAL_METRIC_OPTIONS[0].value,
+  comparison: GOAL_METRIC_OPTIONS[0].comparison,
+  target: GOAL_METRIC_OPTIONS[0].defaultTarget,
+});
+
+// Metric dropdown
+const MetricPicker: React.FC<{ value: GoalMetric; onChange: (value: GoalMetric) => void }> = ({
+  value,
+  onChange,
+}) => {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      anchor={
+        <Button mode="outlined" onPress={() => setVisible(true)} style={styles.pickerButton}>
+          {GOAL_METRIC_OPTIONS.find((option) => option.value === value)?.label}
+        </Button>
+      }
+    >
+      {GOAL_METRIC_OPTIONS.map((option) => (
+        <Menu.Item
+          key={option.value}
+          title={option.label}
+          onPress={() => {
+            onChange(option.value);
+            setVisible(false);
+          }}
+        />
+      ))}
+    </Menu>
+  );
+};
+
+/**
+ * Editor for a SMART goal: what, why, by when, the steps on the way,
+ * and optionally a measure that tracks progress automatically
+ */
+const GoalForm: React.FC<GoalFormProps> = ({
+  onSubmit,
+  isSubmitting = false,
+  progress,
+  submitLabel = 'Save goal',
+  color = '#6366f1',
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<GoalFormData>({
+    resolver: yupResolver(goalSchema),
+    defaultValues: getDefaultGoalValues(),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'milestones' });
+  const linkMetric = watch('linkMetric');
+  const metric = watch('metric');
+  const targetDay = watch('targetDay');
+  const metricOption = GOAL_METRIC_OPTIONS.find((option) => option.value === metric);
+  const today = toDayKey(new Date());
+  const dueOption = GOAL_DUE_OPTIONS.find(
+    (option) => addDays(today, Number(option.value)) === targetDay
+  );
+
+  const handleSave: SubmitHandler<GoalFormData> = async (data) => {
+    await onSubmit(data);
+  };
+
+  // A new measure brings its own direction and a sensible target
+  const handleMetricChange = (value: GoalMetric) => {
+    const option = GOAL_METRIC_OPTIONS.find((item) => item.value === value);
+    setValue('metric', value);
+    if (option) {
+      setValue('comparison', option.comparison);
+      setValue('target', option.defaultTarget);
+    }
+  };
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="description"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="What do you want to achieve?"
+            value={value}
+            onChangeText={onChange}
+            onBlur={onBlur}
+            mode="outlined"
+            placeholder="e.g. Eat three planned meals every weekday"
+            error={!!errors.description}
+            style={styles.input}
+          />
+        )}
+      />
+      {errors.description && <HelperText type="error">{errors.description.message}</HelperText>}
+
+      <Controller
+        control={control}
+        name="reason"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Why does it matter? (optional)"
+            value={value}
+            onChangeText={onChange}
+            onBlur={onBlur}
+            mode="outlined"
+            multiline
+            error={!!errors.reason}
+            style={styles.input}
+          />
+        )}
+      />
+      {errors.reason && <HelperText type="error">{errors.reason.message}</HelperText>}
+
+      <Text style={styles.label}>Due</Text>
+      <SegmentedButtons
+        value={dueOption?.value ?? ''}
+        onValueChange={(days) => setValue('targetDay', addDays(today, Number(days)))}
+        buttons={GOAL_DUE_OPTIONS}
+        style={styles.segmented}
+      />
+      <Controller
+        control={control}
+        name="targetDay"
+        render={({ field: { onChange, value } }) => (
+          <DaySelector day={value} onChange={onChange} allowFuture />
+        )}
+      />
+      {errors.targetDay && <HelperText type="error">{errors.targetDay.message}</HelperText>}
+
+      <Text style={styles.label}>Steps along the way</Text>
+      {fields.map((field, index) => (
+        <View key={field.id}>
+          <View style={styles.row}>
+            <Controller
+              control={control}
+              name={`milestones.${index}.description`}
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInput
+                  label={`Step ${index + 1}`}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  mode="outlined"
+                  dense
+                  error={!!errors.milestones?.[index]?.description}
+                  style={styles.stepInput}
+                />
+              )}
+            />
+            <Button compact onPress={() => remove(index)}>
+              Remove
+            </Button>
+          </View>
+          {errors.milestones?.[index]?.description && (
+            <HelperText type="error">
+              {errors.milestones[index]?.description?.message}
+            </HelperText>
+          )}
+        </View>
+      ))}
+      {fields.length < GOAL_MAX_MILESTONES && (
+        <Button
+          mode="outlined"
+          icon="plus"
+          onPress={() => append({ description: '' })}
+          style={styles.addButton}
+        >
+          Add a step
+        </Button>
+      )}
+
+      <View style={styles.toggleRow}>
+        <Text style={styles.toggleLabel}>Track with a measure from my check-ins</Text>
+        <Controller
+          control={control}
+          name="linkMetric"
+          render={({ field: { onChange, value } }) => (
+            <Switch value={value} onValueChange={onChange} color={color} />
+          )}
+        />
+      </View>
+
+      {linkMetric && (
+        <View style={styles.metric}>
+          <MetricPicker value={metric} onChange={handleMetricChange} />
+          <View style={styles.row}>
+            <Text style={styles.comparison}>
+              {metricOption?.comparison === 'atMost' ? 'At most' : 'At least'}
+            </Text>
+            <Controller
+              control={control}
+              name="target"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInput
+                  label="Target"
+                  value={String(value)}
+                  onChangeText={(text) => onChange(parseWholeNumber(text))}
+                  onBlur={onBlur}
+                  mode="outlined"
+                  dense
+                  keyboardType="number-pad"
+                  error={!!errors.target}
+                  style={styles.targetInput}
+                />
+              )}
+            />
+            <Text style={styles.comparison}>{metricOption?.unit}</Text>
+          </View>
+          {errors.target && <HelperText type="error">{errors.target.message}</HelperText>}
+          {progress && (
+            <Text style={styles.current}>
+              Currently {getGoalMetricValue(metric, progress)} {metricOption?.unit}
+            </Text>
+          )}
+        </View>
+      )}
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit(handleSave)}
+        disabled={isSubmitting}
+        style={styles.saveButton}
+        contentStyle={styles.buttonContent}
+        buttonColor={color}
+      >
+        {isSubmitting ? <ActivityIndicator size="small" color="white" /> : submitLabel}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  segmented: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  stepInput: {
+    flex: 1,
+  },
+  addButton: {
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2c3e50',
+    marginRight: 8,
+  },
+  metric: {
+    marginBottom: 8,
+  },
+  pickerButton: {
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  comparison: {
+    fontSize: 14,
+    color: '#2c3e50',
+    marginHorizontal: 8,
+  },
+  targetInput: {
+    width: 100,
+  },
+  current: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  saveButton: {
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default GoalForm;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, HelperText, ActivityIndicator } from 'react-native-paper';
+import { useForm, Controller, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { ModuleReflectionFormData, ReflectionPrompt } from '../../types';
+import { moduleReflectionSchema } from '../../utils/reflectionValidation';
+
+interface ModuleReflectionFormProps {
+  prompts: ReflectionPrompt[];
+  initialValues: ModuleReflectionFormData; // one response per prompt, in the same order
+  onSubmit: (data: ModuleReflectionFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Journaling form with an answer box for each of a module's reflection prompts
+ */
+const ModuleReflectionForm: React.FC<ModuleReflectionFormProps> = ({
+  prompts,
+  initialValues,
+  onSubmit,
+  isSubmitting = false,
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ModuleReflectionFormData>({
+    resolver: yupResolver(moduleReflectionSchema),
+    defaultValues: initialValues,
+  });
+
+  const handleSave: SubmitHandler<ModuleReflectionFormData> = async (data) => {
+    await onSubmit(data);
+  };
+
+  return (
+    <View>
+      {prompts.map((prompt, index) => (
+        <View key={prompt.id} style={styles.prompt}>
+          <Text style={styles.question}>{prompt.question}</Text>
+          <Controller
+            control={control}
+            name={`responses.${index}.response`}
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                placeholder={prompt.hint}
+                mode="outlined"
+                multiline
+                numberOfLines={4}
+                error={!!errors.responses?.[index]?.response}
+                activeOutlineColor="#6366f1"
+                style={styles.input}
+              />
+            )}
+          />
+          {errors.responses?.[index]?.response && (
+            <HelperText type="error">{errors.responses[index]?.response?.message}</HelperText>
+          )}
+        </View>
+      ))}
+
+      {errors.responses?.root && (
+        <HelperText type="error">{errors.responses.root.message}</HelperText>
+      )}
+      {errors.responses?.message && (
+        <HelperText type="error">{errors.responses.message}</HelperText>
+      )}
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit(handleSave)}
+        disabled={isSubmitting}
+        buttonColor="#6366f1"
+        style={styles.saveButton}
+        contentStyle={styles.buttonContent}
+      >
+        {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save reflection'}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  prompt: {
+    marginBottom: 16,
+  },
+  question: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  input: {
+    minHeight: 100,
+    backgroundColor: '#ffffff',
+  },
+  saveButton: {
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default ModuleReflectionForm;
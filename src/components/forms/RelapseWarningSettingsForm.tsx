@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Switch, Button, HelperText, ActivityIndicator } from 'react-native-paper';
+import { useForm, Controller, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { RelapseWarningSettings } from '../../types';
+import {
+  RELAPSE_WARNING_SETTING_FIELDS,
+  RELAPSE_WARNING_TITLES,
+} from '../../constants/relapseWarnings';
+import { relapseWarningSettingsSchema } from '../../utils/relapseWarningValidation';
+import { parseWholeNumber } from '../../utils/numberInput';
+
+interface RelapseWarningSettingsFormProps {
+  initialValues: RelapseWarningSettings;
+  onSubmit: (data: RelapseWarningSettings) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Editor for the thresholds behind a patient's early warnings
+ */
+const RelapseWarningSettingsForm: React.FC<RelapseWarningSettingsFormProps> = ({
+  initialValues,
+  onSubmit,
+  isSubmitting = false,
+}) => {
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<RelapseWarningSettings>({
+    resolver: yupResolver(relapseWarningSettingsSchema),
+    defaultValues: initialValues,
+  });
+
+  const enabled = watch('enabled');
+
+  const handleSave: SubmitHandler<RelapseWarningSettings> = async (data) => {
+    await onSubmit(data);
+  };
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="enabled"
+        render={({ field: { onChange, value } }) => (
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Send me early warnings for this patient</Text>
+            <Switch value={value} onValueChange={onChange} color="#059669" />
+          </View>
+        )}
+      />
+
+      {enabled &&
+        RELAPSE_WARNING_SETTING_FIELDS.map(({ warning, fields }) => (
+          <View key={warning} style={styles.group}>
+            <Text style={styles.groupTitle}>{RELAPSE_WARNING_TITLES[warning]}</Text>
+            {fields.map(({ name, label }) => (
+              <View key={name}>
+                <Controller
+                  control={control}
+                  name={name}
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      label={label}
+                      value={String(value)}
+                      onChangeText={(text) => onChange(parseWholeNumber(text))}
+                      onBlur={onBlur}
+                      mode="outlined"
+                      dense
+                      keyboardType="number-pad"
+                      error={!!errors[name]}
+                      activeOutlineColor="#059669"
+                      style={styles.input}
+                    />
+                  )}
+                />
+                {errors[name] && <HelperText type="error">{errors[name]?.message}</HelperText>}
+              </View>
+            ))}
+          </View>
+        ))}
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit(handleSave)}
+        disabled={isSubmitting}
+        buttonColor="#059669"
+        style={styles.saveButton}
+        contentStyle={styles.buttonContent}
+      >
+        {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save settings'}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+    marginRight: 12,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  saveButton: {
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default RelapseWarningSettingsForm;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { View } from 'react-native';
+import { CheckInSection, CheckInTemplateFormData } from '../../../types';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../../../constants/checkInTemplates';
+import { getSectionQuestions, showsBuiltInQuestions } from '../../../utils/checkInTemplates';
+import { CheckInStepProps } from './types';
+import MoodStep from './MoodStep';
+import EpisodesStep from './EpisodesStep';
+import UrgesStep from './UrgesStep';
+import TriggersStep from './TriggersStep';
+import CopingStep from './CopingStep';
+import WellbeingStep from './WellbeingStep';
+import NotesStep from './NotesStep';
+import CustomQuestionFields from './CustomQuestionFields';
+
+interface CheckInStepFieldsProps extends Omit<CheckInStepProps, 'hiddenFields'> {
+  step: CheckInSection;
+  template?: CheckInTemplateFormData;
+}
+
+// Built-in questions for a section
+const BuiltInFields: React.FC<CheckInStepProps & { step: CheckInSection }> = ({
+  step,
+  ...props
+}) => {
+  switch (step) {
+    case 'mood':
+      return <MoodStep {...props} />;
+    case 'episodes':
+      return <EpisodesStep {...props} />;
+    case 'urges':
+      return <UrgesStep {...props} />;
+    case 'triggers':
+      return <TriggersStep {...props} />;
+    case 'coping':
+      return <CopingStep {...props} />;
+    case 'wellbeing':
+      return <WellbeingStep {...props} />;
+    case 'notes':
+      return <NotesStep {...props} />;
+  }
+};
+
+/**
+ * The form fields for one check-in step, laid out by the patient's template
+ */
+const CheckInStepFields: React.FC<CheckInStepFieldsProps> = ({
+  step,
+  template = DEFAULT_CHECK_IN_TEMPLATE,
+  ...props
+}) => (
+  <View>
+    {showsBuiltInQuestions(template, step) && (
+      <BuiltInFields step={step} hiddenFields={template.hiddenFields} {...props} />
+    )}
+    <CustomQuestionFields questions={getSectionQuestions(template, step)} {...props} />
+  </View>
+);
+
+export default CheckInStepFields;
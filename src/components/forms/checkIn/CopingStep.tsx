@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Card, TextInput, SegmentedButtons, Button, HelperText } from 'react-native-paper';
+import { Controller, useFieldArray } from 'react-hook-form';
+import ChipSelector from '../../common/ChipSelector';
+import { CheckInStepProps } from './types';
+import { COPING_STRATEGY_OPTIONS, EFFECTIVENESS_OPTIONS } from '../../../constants/checkIn';
+import { CopingEffectiveness } from '../../../types';
+import { parseWholeNumber } from '../../../utils/numberInput';
+
+const CopingStep: React.FC<CheckInStepProps> = ({ control, errors }) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'copingStrategies.used',
+  });
+
+  const usedStrategies = fields.map((field) => field.strategy);
+
+  // Selecting a chip adds or removes the matching strategy entry
+  const handleSelectionChange = (selected: string[]) => {
+    selected
+      .filter((strategy) => !usedStrategies.includes(strategy))
+      .forEach((strategy) => append({ strategy, effectiveness: 'helpful', duration: 10 }));
+
+    const removedIndexes = usedStrategies
+      .map((strategy, index) => (selected.includes(strategy) ? -1 : index))
+      .filter((index) => index >= 0);
+    if (removedIndexes.length > 0) {
+      remove(removedIndexes);
+    }
+  };
+
+  return (
+    <View>
+      <ChipSelector
+        label="Which strategies did you use today?"
+        options={COPING_STRATEGY_OPTIONS}
+        selected={usedStrategies}
+        onChange={handleSelectionChange}
+      />
+
+      {fields.map((field, index) => (
+        <Card key={field.id} style={styles.card}>
+          <Card.Title
+            title={field.strategy}
+            right={() => (
+              <Button onPress={() => remove(index)} compact>
+                Remove
+              </Button>
+            )}
+          />
+          <Card.Content>
+            <Text style={styles.label}>How helpful was it?</Text>
+            <Controller
+              control={control}
+              name={`copingStrategies.used.${index}.effectiveness`}
+              render={({ field: { onChange, value } }) => (
+                <SegmentedButtons
+                  value={value}
+                  onValueChange={(effectiveness) => onChange(effectiveness as CopingEffectiveness)}
+                  buttons={EFFECTIVENESS_OPTIONS}
+                  style={styles.segmented}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name={`copingStrategies.used.${index}.duration`}
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInput
+                  label="Minutes spent"
+                  value={String(value)}
+                  onBlur={onBlur}
+                  onChangeText={(text) => onChange(parseWholeNumber(text))}
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  error={!!errors.copingStrategies?.used?.[index]?.duration}
+                />
+              )}
+            />
+            {errors.copingStrategies?.used?.[index]?.duration && (
+              <HelperText type="error">
+                {errors.copingStrategies.used[index]?.duration?.message}
+              </HelperText>
+            )}
+          </Card.Content>
+        </Card>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  segmented: {
+    marginBottom: 12,
+  },
+});
+
+export default CopingStep;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, HelperText } from 'react-native-paper';
+import { Controller, FieldError } from 'react-hook-form';
+import ScaleSelector from '../../common/ScaleSelector';
+import ChipSelector from '../../common/ChipSelector';
+import { CustomQuestion, MoodScale } from '../../../types';
+import { CheckInStepProps } from './types';
+
+interface CustomQuestionFieldsProps extends CheckInStepProps {
+  questions: CustomQuestion[];
+}
+
+/**
+ * Answers to the custom questions a clinician added to a check-in section
+ */
+const CustomQuestionFields: React.FC<CustomQuestionFieldsProps> = ({ control, errors, questions }) => (
+  <View>
+    {questions.map((question) => {
+      const label = question.required ? question.prompt : `${question.prompt} (optional)`;
+      const error = (errors.customAnswers as Record<string, FieldError> | undefined)?.[question.id];
+
+      return (
+        <Controller
+          key={question.id}
+          control={control}
+          name={`customAnswers.${question.id}`}
+          render={({ field: { onChange, onBlur, value } }) => {
+            switch (question.type) {
+              case 'scale':
+                return (
+                  <ScaleSelector
+                    label={label}
+                    value={value as MoodScale | undefined}
+                    onChange={onChange}
+                    lowLabel={question.lowLabel || 'Low'}
+                    highLabel={question.highLabel || 'High'}
+                    error={error?.message}
+                  />
+                );
+              case 'multi_select':
+                return (
+                  <ChipSelector
+                    label={label}
+                    options={question.options || []}
+                    selected={(value as string[] | undefined) || []}
+                    onChange={onChange}
+                    allowCustom={false}
+                    error={error?.message}
+                  />
+                );
+              case 'free_text':
+                return (
+                  <View style={styles.textQuestion}>
+                    <Text style={styles.label}>{label}</Text>
+                    <TextInput
+                      value={(value as string | undefined) || ''}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      mode="outlined"
+                      multiline
+                      error={!!error}
+                    />
+                    {error?.message && <HelperText type="error">{error.message}</HelperText>}
+                  </View>
+                );
+            }
+          }}
+        />
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  textQuestion: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+});
+
+export default CustomQuestionFields;
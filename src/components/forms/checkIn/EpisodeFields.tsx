@@ -0,0 +1,171 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, SegmentedButtons, HelperText } from 'react-native-paper';
+import { FieldErrors } from 'react-hook-form';
+import ChipSelector from '../../common/ChipSelector';
+import ScaleSelector from '../../common/ScaleSelector';
+import CompensatoryBehaviorSelector from '../../common/CompensatoryBehaviorSelector';
+import { BingeEpisode, CheckInTemplateField } from '../../../types';
+import { parseWholeNumber } from '../../../utils/numberInput';
+import {
+  AMOUNT_OPTIONS,
+  COMPANY_OPTIONS,
+  EMOTION_OPTIONS,
+  FOOD_TYPE_OPTIONS,
+  SEVERITY_OPTIONS,
+  TRIGGER_OPTIONS,
+} from '../../../constants/checkIn';
+
+interface EpisodeFieldsProps {
+  value: BingeEpisode;
+  onChange: (episode: BingeEpisode) => void;
+  errors?: FieldErrors<BingeEpisode>;
+  compact?: boolean; // only the quick-tap fields, for logging in the moment
+  hiddenFields?: CheckInTemplateField[]; // left out by the clinician's check-in template
+}
+
+/**
+ * Editable fields for a single binge episode
+ */
+const EpisodeFields: React.FC<EpisodeFieldsProps> = ({
+  value,
+  onChange,
+  errors,
+  compact = false,
+  hiddenFields = [],
+}) => {
+  const update = <K extends keyof BingeEpisode>(field: K, fieldValue: BingeEpisode[K]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const allTriggers = Object.values(TRIGGER_OPTIONS).flat();
+
+  return (
+    <View>
+      {/* Severity */}
+      <Text style={styles.label}>How severe was it?</Text>
+      <SegmentedButtons
+        value={value.severity}
+        onValueChange={(severity) => update('severity', severity as BingeEpisode['severity'])}
+        buttons={SEVERITY_OPTIONS}
+        style={styles.segmented}
+      />
+      {errors?.severity && <HelperText type="error">{errors.severity.message}</HelperText>}
+
+      {/* Amount */}
+      <Text style={styles.label}>How much did you eat?</Text>
+      <SegmentedButtons
+        value={value.amount}
+        onValueChange={(amount) => update('amount', amount as BingeEpisode['amount'])}
+        buttons={AMOUNT_OPTIONS}
+        style={styles.segmented}
+      />
+      {errors?.amount && <HelperText type="error">{errors.amount.message}</HelperText>}
+
+      {/* Urge beforehand */}
+      <ScaleSelector
+        label="How strong was the urge?"
+        value={value.urgeIntensity}
+        onChange={(urgeIntensity) => update('urgeIntensity', urgeIntensity)}
+        lowLabel="Barely there"
+        highLabel="Overwhelming"
+        error={errors?.urgeIntensity?.message}
+      />
+
+      {/* Company */}
+      <Text style={styles.label}>Were you alone?</Text>
+      <SegmentedButtons
+        value={value.aloneOrWithOthers}
+        onValueChange={(company) =>
+          update('aloneOrWithOthers', company as BingeEpisode['aloneOrWithOthers'])
+        }
+        buttons={COMPANY_OPTIONS}
+        style={styles.segmented}
+      />
+
+      {/* Details can be skipped when logging in the moment */}
+      {!compact && (
+        <>
+          {/* Duration and location */}
+          <View style={styles.row}>
+            <TextInput
+              label="Duration (min)"
+              value={String(value.duration)}
+              onChangeText={(text) => update('duration', parseWholeNumber(text))}
+              mode="outlined"
+              keyboardType="number-pad"
+              error={!!errors?.duration}
+              style={[styles.input, styles.durationInput]}
+            />
+            <TextInput
+              label="Where were you?"
+              value={value.location}
+              onChangeText={(location) => update('location', location)}
+              mode="outlined"
+              style={[styles.input, styles.locationInput]}
+            />
+          </View>
+          {errors?.duration && <HelperText type="error">{errors.duration.message}</HelperText>}
+
+          {!hiddenFields.includes('episode.triggers') && (
+            <ChipSelector
+              label="What was going on?"
+              options={allTriggers}
+              selected={value.triggers}
+              onChange={(triggers) => update('triggers', triggers)}
+            />
+          )}
+          {!hiddenFields.includes('episode.emotions') && (
+            <ChipSelector
+              label="How were you feeling?"
+              options={EMOTION_OPTIONS}
+              selected={value.emotions}
+              onChange={(emotions) => update('emotions', emotions)}
+            />
+          )}
+          {!hiddenFields.includes('episode.foodTypes') && (
+            <ChipSelector
+              label="What did you eat?"
+              options={FOOD_TYPE_OPTIONS}
+              selected={value.foodTypes}
+              onChange={(foodTypes) => update('foodTypes', foodTypes)}
+            />
+          )}
+          <CompensatoryBehaviorSelector
+            label="Did you do anything afterwards?"
+            selected={value.compensatoryBehaviors || []}
+            onChange={(behaviors) => update('compensatoryBehaviors', behaviors)}
+          />
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  segmented: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  input: {
+    marginBottom: 16,
+  },
+  durationInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  locationInput: {
+    flex: 2,
+  },
+});
+
+export default EpisodeFields;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Switch, Button, Card, HelperText } from 'react-native-paper';
+import { Controller, useFieldArray, useWatch } from 'react-hook-form';
+import EpisodeFields from './EpisodeFields';
+import { CheckInStepProps } from './types';
+import { createDefaultEpisode } from '../../../constants/checkIn';
+
+const EpisodesStep: React.FC<CheckInStepProps> = ({ control, errors, hiddenFields }) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'bingeEpisodes.episodes',
+  });
+
+  const hadBingeEpisode = useWatch({ control, name: 'bingeEpisodes.hadBingeEpisode' });
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="bingeEpisodes.hadBingeEpisode"
+        render={({ field: { onChange, value } }) => (
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Did you have a binge episode since your last check-in?</Text>
+            <Switch
+              value={value}
+              onValueChange={(checked) => {
+                onChange(checked);
+                if (checked && fields.length === 0) {
+                  append(createDefaultEpisode());
+                }
+                if (!checked) {
+                  remove();
+                }
+              }}
+            />
+          </View>
+        )}
+      />
+
+      {hadBingeEpisode && (
+        <>
+          <Text style={styles.supportText}>
+            Thank you for being honest. Logging episodes helps you and your clinician spot patterns.
+          </Text>
+
+          {fields.map((field, index) => (
+            <Card key={field.id} style={styles.card}>
+              <Card.Title
+                title={`Episode ${index + 1}`}
+                subtitle={
+                  field.episodeLogId
+                    ? `Logged at ${new Date(field.date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                    : undefined
+                }
+                right={() => (
+                  <Button onPress={() => remove(index)} compact>
+                    Remove
+                  </Button>
+                )}
+              />
+              <Card.Content>
+                <Controller
+                  control={control}
+                  name={`bingeEpisodes.episodes.${index}`}
+                  render={({ field: { onChange, value } }) => (
+                    <EpisodeFields
+                      value={value}
+                      onChange={onChange}
+                      errors={errors.bingeEpisodes?.episodes?.[index]}
+                      hiddenFields={hiddenFields}
+                    />
+                  )}
+                />
+              </Card.Content>
+            </Card>
+          ))}
+
+          {errors.bingeEpisodes?.episodes?.message && (
+            <HelperText type="error">{errors.bingeEpisodes.episodes.message}</HelperText>
+          )}
+
+          <Button
+            mode="outlined"
+            icon="plus"
+            onPress={() => append(createDefaultEpisode())}
+            style={styles.addButton}
+          >
+            Add another episode
+          </Button>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  supportText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  addButton: {
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+});
+
+export default EpisodesStep;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Controller } from 'react-hook-form';
+import ScaleSelector from '../../common/ScaleSelector';
+import { CheckInFormData, CheckInTemplateField } from '../../../types';
+import { CheckInStepProps } from './types';
+
+type MoodField = keyof CheckInFormData['mood'];
+
+// Mood scales in display order; all but overall mood can be left out by a template
+const MOOD_SCALES: { field: MoodField; label: string; lowLabel: string; highLabel: string }[] = [
+  { field: 'overall', label: 'Overall mood', lowLabel: 'Very low', highLabel: 'Very good' },
+  { field: 'anxiety', label: 'Anxiety', lowLabel: 'Calm', highLabel: 'Very anxious' },
+  { field: 'depression', label: 'Low mood', lowLabel: 'Not at all', highLabel: 'Very low' },
+  { field: 'stress', label: 'Stress', lowLabel: 'Relaxed', highLabel: 'Very stressed' },
+  { field: 'selfEsteem', label: 'Self-esteem', lowLabel: 'Low', highLabel: 'High' },
+];
+
+const MoodStep: React.FC<CheckInStepProps> = ({ control, errors, hiddenFields = [] }) => (
+  <View>
+    {MOOD_SCALES.filter(
+      ({ field }) => !hiddenFields.includes(`mood.${field}` as CheckInTemplateField)
+    ).map(({ field, label, lowLabel, highLabel }) => (
+      <Controller
+        key={field}
+        control={control}
+        name={`mood.${field}`}
+        render={({ field: { onChange, value } }) => (
+          <ScaleSelector
+            label={label}
+            value={value}
+            onChange={onChange}
+            lowLabel={lowLabel}
+            highLabel={highLabel}
+            error={errors.mood?.[field]?.message}
+          />
+        )}
+      />
+    ))}
+  </View>
+);
+
+export default MoodStep;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { TextInput, HelperText } from 'react-native-paper';
+import { Controller } from 'react-hook-form';
+import ChipSelector from '../../common/ChipSelector';
+import { CheckInStepProps } from './types';
+
+const NotesStep: React.FC<CheckInStepProps> = ({ control, errors }) => (
+  <View>
+    <Controller
+      control={control}
+      name="wins"
+      render={({ field: { onChange, value } }) => (
+        <ChipSelector
+          label="Wins today (big or small)"
+          options={[]}
+          selected={value || []}
+          onChange={onChange}
+          customPlaceholder="Add a win"
+        />
+      )}
+    />
+    <Controller
+      control={control}
+      name="challenges"
+      render={({ field: { onChange, value } }) => (
+        <ChipSelector
+          label="Challenges"
+          options={[]}
+          selected={value || []}
+          onChange={onChange}
+          customPlaceholder="Add a challenge"
+        />
+      )}
+    />
+    <Controller
+      control={control}
+      name="goalsForToday"
+      render={({ field: { onChange, value } }) => (
+        <ChipSelector
+          label="Goals"
+          options={[]}
+          selected={value || []}
+          onChange={onChange}
+          customPlaceholder="Add a goal"
+        />
+      )}
+    />
+    <Controller
+      control={control}
+      name="notes"
+      render={({ field: { onChange, onBlur, value } }) => (
+        <TextInput
+          label="Anything else you'd like to note?"
+          value={value || ''}
+          onBlur={onBlur}
+          onChangeText={onChange}
+          mode="outlined"
+          multiline
+          numberOfLines={5}
+          error={!!errors.notes}
+          style={styles.notesInput}
+        />
+      )}
+    />
+    {errors.notes && <HelperText type="error">{errors.notes.message}</HelperText>}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  notesInput: {
+    minHeight: 120,
+    marginBottom: 8,
+  },
+});
+
+export default NotesStep;
@@ -0,0 +1,187 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Card, Button } from 'react-native-paper';
+import {
+  CheckInFormData,
+  CheckInSection,
+  CheckInStep,
+  CheckInTemplateField,
+  CustomAnswer,
+} from '../../../types';
+import { CHECK_IN_STEP_TITLES, EFFECTIVENESS_OPTIONS, SEVERITY_OPTIONS } from '../../../constants/checkIn';
+import { CHECK_IN_SECTIONS } from '../../../constants/checkInTemplates';
+import { COMPENSATORY_BEHAVIOR_OPTIONS } from '../../../constants/foodRecords';
+
+interface ReviewStepProps {
+  values: CheckInFormData;
+  onEditStep?: (step: CheckInStep) => void; // omit for a read-only summary
+}
+
+type Row = [string, string];
+
+// Join a list for display, with a fallback when empty
+const formatList = (items?: string[]): string =>
+  items && items.length > 0 ? items.join(', ') : 'None';
+
+const formatCustomAnswer = (answer?: CustomAnswer): string => {
+  if (Array.isArray(answer)) {
+    return formatList(answer);
+  }
+  if (typeof answer === 'number') {
+    return `${answer}/10`;
+  }
+  return answer || 'None';
+};
+
+// Summary rows for the built-in questions of a section
+const getBuiltInRows = (section: CheckInSection, values: CheckInFormData): Row[] => {
+  const { mood, bingeEpisodes, urges, compensatoryBehaviors, triggers, copingStrategies, wellbeing } =
+    values;
+  const omitted = values.omittedFields || [];
+
+  switch (section) {
+    case 'mood':
+      const moodRows: [string, string, CheckInTemplateField?][] = [
+        ['Overall', `${mood.overall}/10`],
+        ['Anxiety', `${mood.anxiety}/10`, 'mood.anxiety'],
+        ['Low mood', `${mood.depression}/10`, 'mood.depression'],
+        ['Stress', `${mood.stress}/10`, 'mood.stress'],
+        ['Self-esteem', `${mood.selfEsteem}/10`, 'mood.selfEsteem'],
+      ];
+      return moodRows
+        .filter(([, , field]) => !field || !omitted.includes(field))
+        .map(([label, value]): Row => [label, value]);
+    case 'episodes':
+      return [
+        ['Binge episode', bingeEpisodes.hadBingeEpisode ? 'Yes' : 'No'],
+        ...bingeEpisodes.episodes.map((episode, index): Row => [
+          `Episode ${index + 1}`,
+          `${SEVERITY_OPTIONS.find((option) => option.value === episode.severity)?.label}, ${episode.duration} min`,
+        ]),
+      ];
+    case 'urges':
+      return [
+        ['Urge to binge', urges.hadUrge ? `Yes, ${urges.peakIntensity}/10` : 'No'],
+        ...(urges.hadUrge
+          ? [['Outcome', urges.actedOn ? 'Acted on it' : 'Rode it out'] as Row]
+          : []),
+        [
+          'Afterwards',
+          formatList(
+            compensatoryBehaviors.behaviors.map(
+              (behavior) =>
+                COMPENSATORY_BEHAVIOR_OPTIONS.find((option) => option.value === behavior)?.label ||
+                behavior
+            )
+          ),
+        ],
+      ];
+    case 'triggers':
+      return [
+        ['Emotional', formatList(triggers.emotional)],
+        ['Environmental', formatList(triggers.environmental)],
+        ['Social', formatList(triggers.social)],
+        ['Physical', formatList(triggers.physical)],
+        ['Other', formatList(triggers.other)],
+      ];
+    case 'coping':
+      return copingStrategies.used.length > 0
+        ? copingStrategies.used.map((used): Row => [
+            used.strategy,
+            EFFECTIVENESS_OPTIONS.find((option) => option.value === used.effectiveness)?.label || '',
+          ])
+        : [['Strategies used', 'None']];
+    case 'wellbeing':
+      return [
+        ['Sleep', `${wellbeing.sleepQuality}/10`],
+        ['Energy', `${wellbeing.energyLevel}/10`],
+        ['Connection', `${wellbeing.socialConnection}/10`],
+        ['Exercise', wellbeing.physicalActivity.didExercise ? 'Yes' : 'No'],
+        ['Self-care', formatList(wellbeing.selfCare.activities)],
+      ];
+    case 'notes':
+      return [
+        ['Wins', formatList(values.wins)],
+        ['Challenges', formatList(values.challenges)],
+        ['Goals', formatList(values.goalsForToday)],
+        ['Notes', values.notes || 'None'],
+      ];
+  }
+};
+
+const ReviewStep: React.FC<ReviewStepProps> = ({ values, onEditStep }) => {
+  const renderSection = (step: CheckInStep, rows: Row[]) => (
+    <Card key={step} style={styles.card}>
+      <Card.Title
+        title={CHECK_IN_STEP_TITLES[step]}
+        right={
+          onEditStep
+            ? () => (
+                <Button onPress={() => onEditStep(step)} compact>
+                  Edit
+                </Button>
+              )
+            : undefined
+        }
+      />
+      <Card.Content>
+        {rows.map(([label, value], index) => (
+          <View key={`${label}-${index}`} style={styles.row}>
+            <Text style={styles.rowLabel}>{label}</Text>
+            <Text style={styles.rowValue}>{value}</Text>
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+
+  const omitted = values.omittedFields || [];
+  const customQuestions = values.customQuestions || [];
+
+  return (
+    <View>
+      {CHECK_IN_SECTIONS.map((section) => {
+        const customRows = customQuestions
+          .filter((question) => question.section === section)
+          .map((question): Row => [
+            question.prompt,
+            formatCustomAnswer(values.customAnswers?.[question.id]),
+          ]);
+        if (values.skippedSections?.includes(section)) {
+          return renderSection(section, [['Answers', 'Skipped']]);
+        }
+
+        const rows = omitted.includes(section)
+          ? customRows
+          : [...getBuiltInRows(section, values), ...customRows];
+
+        return rows.length > 0 ? renderSection(section, rows) : null;
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginRight: 12,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2c3e50',
+    textAlign: 'right',
+  },
+});
+
+export default ReviewStep;
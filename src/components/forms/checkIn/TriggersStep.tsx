@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Controller } from 'react-hook-form';
+import ChipSelector from '../../common/ChipSelector';
+import { CheckInStepProps } from './types';
+import { TRIGGER_OPTIONS } from '../../../constants/checkIn';
+import { CheckInFormData } from '../../../types';
+
+// Trigger categories in display order
+const TRIGGER_SECTIONS: { key: keyof CheckInFormData['triggers']; label: string }[] = [
+  { key: 'emotional', label: 'Emotional' },
+  { key: 'environmental', label: 'Environmental' },
+  { key: 'social', label: 'Social' },
+  { key: 'physical', label: 'Physical' },
+  { key: 'other', label: 'Other' },
+];
+
+const TriggersStep: React.FC<CheckInStepProps> = ({ control, errors }) => (
+  <View>
+    <Text style={styles.intro}>
+      Did anything today make you want to binge, even if you didn't? Select any that apply.
+    </Text>
+    {TRIGGER_SECTIONS.map(({ key, label }) => (
+      <Controller
+        key={key}
+        control={control}
+        name={`triggers.${key}`}
+        render={({ field: { onChange, value } }) => (
+          <ChipSelector
+            label={label}
+            options={TRIGGER_OPTIONS[key]}
+            selected={value}
+            onChange={onChange}
+            error={errors.triggers?.[key]?.message}
+          />
+        )}
+      />
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  intro: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+});
+
+export default TriggersStep;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Switch, SegmentedButtons, HelperText } from 'react-native-paper';
+import { Controller } from 'react-hook-form';
+import ScaleSelector from '../../common/ScaleSelector';
+import CompensatoryBehaviorSelector from '../../common/CompensatoryBehaviorSelector';
+import CopingSuggestions from '../../common/CopingSuggestions';
+import { HIGH_URGE_THRESHOLD } from '../../../constants/coping';
+import { CheckInStepProps } from './types';
+
+const ACTED_ON_OPTIONS = [
+  { value: 'no', label: 'I rode it out' },
+  { value: 'yes', label: 'I acted on it' },
+];
+
+const UrgesStep: React.FC<CheckInStepProps> = ({ control, errors }) => (
+  <View>
+    {/* Urges */}
+    <Controller
+      control={control}
+      name="urges"
+      render={({ field: { onChange, value } }) => (
+        <View>
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Did you have an urge to binge?</Text>
+            <Switch
+              value={value.hadUrge}
+              onValueChange={(hadUrge) => onChange(hadUrge ? { ...value, hadUrge } : { hadUrge })}
+            />
+          </View>
+
+          {value.hadUrge && (
+            <>
+              <ScaleSelector
+                label="How strong was the strongest urge?"
+                value={value.peakIntensity}
+                onChange={(peakIntensity) => onChange({ ...value, peakIntensity })}
+                lowLabel="Barely there"
+                highLabel="Overwhelming"
+                error={errors.urges?.peakIntensity?.message}
+              />
+              {(value.peakIntensity ?? 0) >= HIGH_URGE_THRESHOLD && (
+                <CopingSuggestions
+                  message={
+                    "That sounds like a strong urge. If it's still with you, one of these " +
+                    'might help.'
+                  }
+                />
+              )}
+
+              <Text style={styles.label}>What happened?</Text>
+              <SegmentedButtons
+                value={value.actedOn === undefined ? '' : value.actedOn ? 'yes' : 'no'}
+                onValueChange={(actedOn) => onChange({ ...value, actedOn: actedOn === 'yes' })}
+                buttons={ACTED_ON_OPTIONS}
+                style={styles.segmented}
+              />
+              {errors.urges?.actedOn && (
+                <HelperText type="error">{errors.urges.actedOn.message}</HelperText>
+              )}
+              {value.actedOn === false && (
+                <Text style={styles.supportText}>
+                  Riding out an urge is a real achievement - well done.
+                </Text>
+              )}
+            </>
+          )}
+        </View>
+      )}
+    />
+
+    {/* Compensatory behaviours */}
+    <Controller
+      control={control}
+      name="compensatoryBehaviors"
+      render={({ field: { onChange, value } }) => (
+        <View>
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>
+              Did you do anything to make up for eating, like skipping meals or exercising hard?
+            </Text>
+            <Switch
+              value={value.engaged}
+              onValueChange={(engaged) => onChange({ engaged, behaviors: engaged ? value.behaviors : [] })}
+            />
+          </View>
+
+          {value.engaged && (
+            <CompensatoryBehaviorSelector
+              selected={value.behaviors}
+              onChange={(behaviors) => onChange({ ...value, behaviors })}
+            />
+          )}
+          {errors.compensatoryBehaviors?.behaviors && (
+            <HelperText type="error">{errors.compensatoryBehaviors.behaviors.message}</HelperText>
+          )}
+        </View>
+      )}
+    />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  segmented: {
+    marginBottom: 8,
+  },
+  supportText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+});
+
+export default UrgesStep;
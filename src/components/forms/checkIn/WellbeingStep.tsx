@@ -0,0 +1,169 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Switch, TextInput, HelperText } from 'react-native-paper';
+import { Controller, useWatch } from 'react-hook-form';
+import ScaleSelector from '../../common/ScaleSelector';
+import ChipSelector from '../../common/ChipSelector';
+import { CheckInStepProps } from './types';
+import { parseWholeNumber } from '../../../utils/numberInput';
+import { SELF_CARE_OPTIONS } from '../../../constants/checkIn';
+
+const WellbeingStep: React.FC<CheckInStepProps> = ({ control, errors }) => {
+  const didExercise = useWatch({ control, name: 'wellbeing.physicalActivity.didExercise' });
+
+  return (
+    <View>
+      <Controller
+        control={control}
+        name="wellbeing.sleepQuality"
+        render={({ field: { onChange, value } }) => (
+          <ScaleSelector
+            label="Sleep quality"
+            value={value}
+            onChange={onChange}
+            lowLabel="Poor"
+            highLabel="Great"
+            error={errors.wellbeing?.sleepQuality?.message}
+          />
+        )}
+      />
+      <Controller
+        control={control}
+        name="wellbeing.energyLevel"
+        render={({ field: { onChange, value } }) => (
+          <ScaleSelector
+            label="Energy level"
+            value={value}
+            onChange={onChange}
+            lowLabel="Exhausted"
+            highLabel="Energised"
+            error={errors.wellbeing?.energyLevel?.message}
+          />
+        )}
+      />
+      <Controller
+        control={control}
+        name="wellbeing.socialConnection"
+        render={({ field: { onChange, value } }) => (
+          <ScaleSelector
+            label="Social connection"
+            value={value}
+            onChange={onChange}
+            lowLabel="Isolated"
+            highLabel="Connected"
+            error={errors.wellbeing?.socialConnection?.message}
+          />
+        )}
+      />
+
+      {/* Physical activity */}
+      <Controller
+        control={control}
+        name="wellbeing.physicalActivity.didExercise"
+        render={({ field: { onChange, value } }) => (
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Did you move your body today?</Text>
+            <Switch value={value} onValueChange={onChange} />
+          </View>
+        )}
+      />
+      {didExercise && (
+        <View style={styles.row}>
+          <Controller
+            control={control}
+            name="wellbeing.physicalActivity.type"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                label="Activity"
+                value={value || ''}
+                onBlur={onBlur}
+                onChangeText={onChange}
+                mode="outlined"
+                style={[styles.input, styles.typeInput]}
+              />
+            )}
+          />
+          <Controller
+            control={control}
+            name="wellbeing.physicalActivity.duration"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                label="Minutes"
+                value={value !== undefined ? String(value) : ''}
+                onBlur={onBlur}
+                onChangeText={(text) => onChange(parseWholeNumber(text))}
+                mode="outlined"
+                keyboardType="number-pad"
+                error={!!errors.wellbeing?.physicalActivity?.duration}
+                style={[styles.input, styles.durationInput]}
+              />
+            )}
+          />
+        </View>
+      )}
+
+      {/* Self-care */}
+      <Controller
+        control={control}
+        name="wellbeing.selfCare.activities"
+        render={({ field: { onChange, value } }) => (
+          <ChipSelector
+            label="Self-care today"
+            options={SELF_CARE_OPTIONS}
+            selected={value}
+            onChange={onChange}
+          />
+        )}
+      />
+      <Controller
+        control={control}
+        name="wellbeing.selfCare.timeSpent"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <TextInput
+            label="Minutes spent on self-care"
+            value={String(value)}
+            onBlur={onBlur}
+            onChangeText={(text) => onChange(parseWholeNumber(text))}
+            mode="outlined"
+            keyboardType="number-pad"
+            error={!!errors.wellbeing?.selfCare?.timeSpent}
+            style={styles.input}
+          />
+        )}
+      />
+      {errors.wellbeing?.selfCare?.timeSpent && (
+        <HelperText type="error">{errors.wellbeing.selfCare.timeSpent.message}</HelperText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  input: {
+    marginBottom: 16,
+  },
+  typeInput: {
+    flex: 2,
+    marginRight: 8,
+  },
+  durationInput: {
+    flex: 1,
+  },
+});
+
+export default WellbeingStep;
@@ -0,0 +1,12 @@
+// Check-in wizard step exports
+export { default as MoodStep } from './MoodStep';
+export { default as EpisodesStep } from './EpisodesStep';
+export { default as EpisodeFields } from './EpisodeFields';
+export { default as UrgesStep } from './UrgesStep';
+export { default as TriggersStep } from './TriggersStep';
+export { default as CopingStep } from './CopingStep';
+export { default as WellbeingStep } from './WellbeingStep';
+export { default as NotesStep } from './NotesStep';
+export { default as ReviewStep } from './ReviewStep';
+export { default as CheckInStepFields } from './CheckInStepFields';
+export type { CheckInStepProps } from './types';
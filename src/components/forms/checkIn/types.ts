@@ -0,0 +1,9 @@
+import { Control, FieldErrors } from 'react-hook-form';
+import { CheckInFormData, CheckInTemplateField } from '../../../types';
+
+// Props shared by every check-in wizard step
+export interface CheckInStepProps {
+  control: Control<CheckInFormData>;
+  errors: FieldErrors<CheckInFormData>;
+  hiddenFields?: CheckInTemplateField[]; // built-in questions left out by the template
+}
@@ -1,3 +1,8 @@
 // Form components exports
-// Add your form components here as you create them
-// Example: export { default as LoginForm } from './LoginForm';
+export * from './checkIn';
+export { default as FoodRecordForm } from './FoodRecordForm';
+export { default as EatingScheduleForm } from './EatingScheduleForm';
+export { default as CheckInTemplateForm } from './CheckInTemplateForm';
+export { default as GoalForm } from './GoalForm';
+export { default as RelapseWarningSettingsForm } from './RelapseWarningSettingsForm';
+export { default as ModuleReflectionForm } from './ModuleReflectionForm';
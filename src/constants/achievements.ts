@@ -0,0 +1,158 @@
+import { AchievementCategory, AchievementRule } from '../types';
+
+// Achievements catalogue, in the order the gallery shows them.
+// Rule ids are stored on earned achievements, so never reuse or rename one.
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  // Milestones
+  {
+    id: 'first-check-in',
+    title: 'First check-in',
+    description: 'You completed your first daily check-in.',
+    category: 'milestone',
+    icon: 'flag-checkered',
+    metric: 'checkIns',
+    threshold: 1,
+  },
+  {
+    id: 'check-ins-10',
+    title: 'Ten check-ins',
+    description: 'You have checked in 10 times.',
+    category: 'milestone',
+    icon: 'clipboard-check-outline',
+    metric: 'checkIns',
+    threshold: 10,
+  },
+  {
+    id: 'check-ins-50',
+    title: 'Fifty check-ins',
+    description: 'You have checked in 50 times.',
+    category: 'milestone',
+    icon: 'clipboard-check-multiple-outline',
+    metric: 'checkIns',
+    threshold: 50,
+  },
+  {
+    id: 'first-reflection',
+    title: 'Looking ahead',
+    description: 'You set goals after reflecting on a week or month.',
+    category: 'milestone',
+    icon: 'compass-outline',
+    metric: 'reflections',
+    threshold: 1,
+  },
+  {
+    id: 'binge-free-7',
+    title: 'A steady week',
+    description: 'Seven days in a row without a binge episode.',
+    category: 'milestone',
+    icon: 'weather-sunny',
+    metric: 'daysSinceLastBinge',
+    threshold: 7,
+  },
+  {
+    id: 'binge-free-30',
+    title: 'A steady month',
+    description: 'Thirty days in a row without a binge episode.',
+    category: 'milestone',
+    icon: 'white-balance-sunny',
+    metric: 'daysSinceLastBinge',
+    threshold: 30,
+  },
+
+  // Streaks
+  {
+    id: 'streak-3',
+    title: 'Three in a row',
+    description: 'You checked in three days running.',
+    category: 'streak',
+    icon: 'fire',
+    metric: 'longestStreak',
+    threshold: 3,
+  },
+  {
+    id: 'streak-7',
+    title: 'A full week',
+    description: 'You checked in every day for a week.',
+    category: 'streak',
+    icon: 'calendar-check',
+    metric: 'longestStreak',
+    threshold: 7,
+  },
+  {
+    id: 'streak-30',
+    title: 'A month of check-ins',
+    description: 'You checked in every day for 30 days.',
+    category: 'streak',
+    icon: 'calendar-star',
+    metric: 'longestStreak',
+    threshold: 30,
+  },
+
+  // Modules
+  {
+    id: 'first-module',
+    title: 'First module',
+    description: 'You completed your first learning module.',
+    category: 'module',
+    icon: 'book-open-variant',
+    metric: 'modulesCompleted',
+    threshold: 1,
+  },
+  {
+    id: 'modules-5',
+    title: 'Five modules',
+    description: 'You have completed 5 learning modules.',
+    category: 'module',
+    icon: 'bookshelf',
+    metric: 'modulesCompleted',
+    threshold: 5,
+  },
+
+  // Coping
+  {
+    id: 'coping-very-helpful-1',
+    title: 'Something that works',
+    description: 'You found a coping strategy very helpful.',
+    category: 'coping',
+    icon: 'lightbulb-on-outline',
+    metric: 'veryHelpfulCopingUses',
+    threshold: 1,
+  },
+  {
+    id: 'coping-very-helpful-10',
+    title: 'Coping toolkit',
+    description: 'You used a coping strategy rated very helpful 10 times.',
+    category: 'coping',
+    icon: 'toolbox-outline',
+    metric: 'veryHelpfulCopingUses',
+    threshold: 10,
+  },
+
+  // Wellbeing
+  {
+    id: 'wellbeing-60',
+    title: 'Feeling steadier',
+    description: 'Your wellbeing score reached 60 over a week.',
+    category: 'wellbeing',
+    icon: 'leaf',
+    metric: 'wellbeingScore',
+    threshold: 60,
+  },
+  {
+    id: 'wellbeing-80',
+    title: 'Thriving',
+    description: 'Your wellbeing score reached 80 over a week.',
+    category: 'wellbeing',
+    icon: 'flower-outline',
+    metric: 'wellbeingScore',
+    threshold: 80,
+  },
+];
+
+export const ACHIEVEMENT_CATEGORY_LABELS: Record<AchievementCategory, string> = {
+  milestone: 'Milestones',
+  streak: 'Streaks',
+  module: 'Learning',
+  coping: 'Coping',
+  wellbeing: 'Wellbeing',
+};
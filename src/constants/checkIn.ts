@@ -0,0 +1,208 @@
+import {
+  BingeEpisode,
+  BingeSeverity,
+  CheckInFormData,
+  CheckInStep,
+  CopingEffectiveness,
+  MoodScale,
+} from '../types';
+
+// Check-in wizard step order
+export const CHECK_IN_STEPS: CheckInStep[] = [
+  'mood',
+  'episodes',
+  'urges',
+  'triggers',
+  'coping',
+  'wellbeing',
+  'notes',
+  'review',
+];
+
+// Step titles shown in the wizard header
+export const CHECK_IN_STEP_TITLES: Record<CheckInStep, string> = {
+  mood: 'How are you feeling?',
+  episodes: 'Binge episodes',
+  urges: 'Urges & other behaviours',
+  triggers: 'Triggers',
+  coping: 'Coping strategies',
+  wellbeing: 'Wellbeing',
+  notes: 'Notes & reflections',
+  review: 'Review',
+};
+
+// Form fields validated before leaving each step
+export const CHECK_IN_STEP_FIELDS: Record<CheckInStep, (keyof CheckInFormData)[]> = {
+  mood: ['mood'],
+  episodes: ['bingeEpisodes'],
+  urges: ['urges', 'compensatoryBehaviors'],
+  triggers: ['triggers'],
+  coping: ['copingStrategies'],
+  wellbeing: ['wellbeing'],
+  notes: ['notes', 'goalsForToday', 'challenges', 'wins'],
+  review: [],
+};
+
+// Unfinished check-in drafts older than this are discarded
+export const CHECK_IN_DRAFT_MAX_AGE_HOURS = 24;
+
+// Delay before autosaving wizard changes to the device
+export const CHECK_IN_DRAFT_SAVE_DELAY_MS = 1000;
+
+export const MOOD_SCALE_VALUES: MoodScale[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Suggested options for multi-select fields (patients can add their own)
+export const TRIGGER_OPTIONS: Record<keyof CheckInFormData['triggers'], string[]> = {
+  emotional: ['Sadness', 'Loneliness', 'Boredom', 'Anger', 'Anxiety', 'Shame', 'Stress'],
+  environmental: ['Food in sight', 'Being at home alone', 'Passing a shop', 'Late at night'],
+  social: ['Conflict', 'Social event', 'Criticism', 'Feeling left out'],
+  physical: ['Hunger', 'Tiredness', 'Pain', 'Skipped a meal'],
+  other: [],
+};
+
+export const EMOTION_OPTIONS = [
+  'Sad',
+  'Anxious',
+  'Angry',
+  'Lonely',
+  'Bored',
+  'Ashamed',
+  'Guilty',
+  'Numb',
+  'Overwhelmed',
+  'Relieved',
+];
+
+export const FOOD_TYPE_OPTIONS = [
+  'Sweets',
+  'Chocolate',
+  'Crisps / snacks',
+  'Bread / pastry',
+  'Fast food',
+  'Ice cream',
+  'Leftovers',
+  'Cereal',
+];
+
+export const COPING_STRATEGY_OPTIONS = [
+  'Deep breathing',
+  'Going for a walk',
+  'Calling a friend',
+  'Urge surfing',
+  'Journaling',
+  'Distraction activity',
+  'Mindful eating',
+  'Delaying for 15 minutes',
+];
+
+export const SELF_CARE_OPTIONS = [
+  'Reading',
+  'Bath / shower',
+  'Meditation',
+  'Hobby',
+  'Time outdoors',
+  'Rest',
+];
+
+// Labelled options for single-choice fields
+export const SEVERITY_OPTIONS: { value: BingeSeverity; label: string }[] = [
+  { value: 'mild', label: 'Mild' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'severe', label: 'Severe' },
+];
+
+export const AMOUNT_OPTIONS: { value: BingeEpisode['amount']; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+  { value: 'excessive', label: 'Very large' },
+];
+
+export const COMPANY_OPTIONS: { value: BingeEpisode['aloneOrWithOthers']; label: string }[] = [
+  { value: 'alone', label: 'Alone' },
+  { value: 'with_others', label: 'With others' },
+  { value: 'mixed', label: 'Both' },
+];
+
+export const EFFECTIVENESS_OPTIONS: { value: CopingEffectiveness; label: string }[] = [
+  { value: 'not_helpful', label: 'Not' },
+  { value: 'somewhat_helpful', label: 'A bit' },
+  { value: 'helpful', label: 'Helpful' },
+  { value: 'very_helpful', label: 'Very' },
+];
+
+// Initial values for a new episode entry
+export const createDefaultEpisode = (): BingeEpisode => ({
+  date: new Date(),
+  severity: 'moderate',
+  triggers: [],
+  emotions: [],
+  duration: 15,
+  foodTypes: [],
+  amount: 'medium',
+  location: '',
+  aloneOrWithOthers: 'alone',
+  compensatoryBehaviors: [],
+});
+
+// Initial values for a new check-in
+export const DEFAULT_CHECK_IN_VALUES: CheckInFormData = {
+  mood: {
+    overall: 5,
+    anxiety: 5,
+    depression: 5,
+    stress: 5,
+    selfEsteem: 5,
+  },
+  bingeEpisodes: {
+    hadBingeEpisode: false,
+    episodes: [],
+  },
+  urges: {
+    hadUrge: false,
+  },
+  compensatoryBehaviors: {
+    engaged: false,
+    behaviors: [],
+  },
+  triggers: {
+    emotional: [],
+    environmental: [],
+    social: [],
+    physical: [],
+    other: [],
+  },
+  copingStrategies: {
+    used: [],
+    available: COPING_STRATEGY_OPTIONS,
+  },
+  wellbeing: {
+    sleepQuality: 5,
+    energyLevel: 5,
+    socialConnection: 5,
+    physicalActivity: {
+      didExercise: false,
+    },
+    selfCare: {
+      activities: [],
+      timeSpent: 0,
+    },
+  },
+  notes: '',
+  goalsForToday: [],
+  challenges: [],
+  wins: [],
+};
+
+// Calendar colours for average overall mood, lowest band first
+export const MOOD_COLOR_BANDS: { max: number; color: string; label: string }[] = [
+  { max: 3.5, color: '#fecaca', label: 'Low' },
+  { max: 6.5, color: '#fde68a', label: 'Okay' },
+  { max: 10, color: '#bbf7d0', label: 'Good' },
+];
+
+// Marker for days with a binge episode
+export const BINGE_DAY_COLOR = '#6366f1';
+
+// How long after completing a check-in the patient can still edit it
+export const CHECK_IN_EDIT_WINDOW_HOURS = 72;
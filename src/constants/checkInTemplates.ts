@@ -0,0 +1,57 @@
+import {
+  CheckInSection,
+  CheckInSectionMode,
+  CheckInTemplateField,
+  CheckInTemplateFormData,
+  CustomQuestionType,
+} from '../types';
+import { CHECK_IN_STEPS } from './checkIn';
+
+// Sections in wizard order
+export const CHECK_IN_SECTIONS = CHECK_IN_STEPS.filter(
+  (step): step is CheckInSection => step !== 'review'
+);
+
+export const SECTION_MODE_OPTIONS: { value: CheckInSectionMode; label: string }[] = [
+  { value: 'required', label: 'Required' },
+  { value: 'optional', label: 'Optional' },
+  { value: 'custom', label: 'Custom' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+// Built-in questions a clinician can leave out, by section
+export const TEMPLATE_FIELD_OPTIONS: {
+  value: CheckInTemplateField;
+  section: CheckInSection;
+  label: string;
+}[] = [
+  { value: 'mood.anxiety', section: 'mood', label: 'Anxiety' },
+  { value: 'mood.depression', section: 'mood', label: 'Low mood' },
+  { value: 'mood.stress', section: 'mood', label: 'Stress' },
+  { value: 'mood.selfEsteem', section: 'mood', label: 'Self-esteem' },
+  { value: 'episode.triggers', section: 'episodes', label: 'Episode triggers' },
+  { value: 'episode.emotions', section: 'episodes', label: 'Episode emotions' },
+  { value: 'episode.foodTypes', section: 'episodes', label: 'Food types' },
+];
+
+export const CUSTOM_QUESTION_TYPE_OPTIONS: { value: CustomQuestionType; label: string }[] = [
+  { value: 'scale', label: '1-10 scale' },
+  { value: 'multi_select', label: 'Multi-select' },
+  { value: 'free_text', label: 'Free text' },
+];
+
+// The standard check-in: every section required, nothing hidden
+export const DEFAULT_CHECK_IN_TEMPLATE: CheckInTemplateFormData = {
+  name: 'Standard check-in',
+  sections: {
+    mood: 'required',
+    episodes: 'required',
+    urges: 'required',
+    triggers: 'required',
+    coping: 'required',
+    wellbeing: 'required',
+    notes: 'required',
+  },
+  hiddenFields: [],
+  customQuestions: [],
+};
@@ -0,0 +1,20 @@
+import { CopingEffectiveness } from '../types';
+
+// Effectiveness ratings as scores, for averaging
+export const COPING_EFFECTIVENESS_SCORES: Record<CopingEffectiveness, number> = {
+  not_helpful: 0,
+  somewhat_helpful: 1,
+  helpful: 2,
+  very_helpful: 3,
+};
+
+// A strategy's average is pulled towards the middle of the scale until it has been
+// rated a few times, so one good experience doesn't outrank a reliable favourite
+export const COPING_RANK_PRIOR_SCORE = 1.5;
+export const COPING_RANK_PRIOR_WEIGHT = 2;
+
+// Strategies suggested when logging an episode or reporting a strong urge
+export const COPING_SUGGESTION_COUNT = 3;
+
+// Urges at or above this peak intensity bring up coping suggestions in the check-in
+export const HIGH_URGE_THRESHOLD = 7;
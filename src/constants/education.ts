@@ -0,0 +1,31 @@
+import { DifficultyLevel, EducationCategory } from '../types';
+
+// Display names for module categories, in the order the catalogue offers them
+export const EDUCATION_CATEGORY_LABELS: Record<EducationCategory, string> = {
+  understanding_bed: 'Understanding BED',
+  coping_strategies: 'Coping strategies',
+  nutrition_guidance: 'Nutrition',
+  mindfulness: 'Mindfulness',
+  therapy_techniques: 'Therapy techniques',
+  lifestyle_changes: 'Lifestyle changes',
+  relapse_prevention: 'Relapse prevention',
+  family_support: 'Family support',
+};
+
+export const DIFFICULTY_LEVEL_LABELS: Record<DifficultyLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export const EDUCATION_CATEGORIES = Object.keys(EDUCATION_CATEGORY_LABELS) as EducationCategory[];
+export const DIFFICULTY_LEVELS = Object.keys(DIFFICULTY_LEVEL_LABELS) as DifficultyLevel[];
+
+// Percent of quiz questions to answer correctly when a quiz doesn't set its own threshold
+export const DEFAULT_QUIZ_PASS_THRESHOLD = 70;
+
+// Longest response to a single reflection prompt
+export const REFLECTION_MAX_LENGTH = 2000;
+
+// How often reading time is saved while a module is open
+export const MODULE_ACTIVITY_SAVE_INTERVAL_SECONDS = 30;
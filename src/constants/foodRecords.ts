@@ -0,0 +1,34 @@
+import { CompensatoryBehavior, MealType } from '../types';
+
+export const MEAL_TYPE_OPTIONS: { value: MealType; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'morning_snack', label: 'Morning snack' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'afternoon_snack', label: 'Afternoon snack' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'evening_snack', label: 'Evening snack' },
+  { value: 'other', label: 'Other' },
+];
+
+export const COMPENSATORY_BEHAVIOR_OPTIONS: { value: CompensatoryBehavior; label: string }[] = [
+  { value: 'restriction', label: 'Restricting / skipping food' },
+  { value: 'over_exercise', label: 'Exercising to compensate' },
+  { value: 'laxatives', label: 'Laxatives or diuretics' },
+  { value: 'vomiting', label: 'Vomiting' },
+];
+
+// Regular eating: 3 meals and 2-3 planned snacks
+export const DEFAULT_EATING_OCCASIONS: { mealType: MealType; time: string }[] = [
+  { mealType: 'breakfast', time: '08:00' },
+  { mealType: 'morning_snack', time: '10:30' },
+  { mealType: 'lunch', time: '13:00' },
+  { mealType: 'afternoon_snack', time: '15:30' },
+  { mealType: 'dinner', time: '18:30' },
+  { mealType: 'evening_snack', time: '21:00' },
+];
+
+export const ADHERENCE_WINDOW_OPTIONS = [15, 30, 60];
+export const DEFAULT_ADHERENCE_WINDOW_MINUTES = 30;
+
+// Days of records used for the adherence progress metric
+export const ADHERENCE_PERIOD_DAYS = 7;
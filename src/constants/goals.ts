@@ -0,0 +1,66 @@
+import { GoalMetric } from '../types';
+
+// Measures a goal can be linked to, with the direction that counts as progress
+export const GOAL_METRIC_OPTIONS: {
+  value: GoalMetric;
+  label: string;
+  comparison: 'atMost' | 'atLeast';
+  unit: string;
+  defaultTarget: number;
+}[] = [
+  {
+    value: 'weeklyBingeEpisodes',
+    label: 'Binge episodes a week',
+    comparison: 'atMost',
+    unit: 'episodes',
+    defaultTarget: 1,
+  },
+  {
+    value: 'regularEatingAdherence',
+    label: 'Meals eaten on plan',
+    comparison: 'atLeast',
+    unit: '%',
+    defaultTarget: 80,
+  },
+  {
+    value: 'averageMoodScore',
+    label: 'Average mood',
+    comparison: 'atLeast',
+    unit: '/10',
+    defaultTarget: 6,
+  },
+  {
+    value: 'wellbeingScore',
+    label: 'Wellbeing score',
+    comparison: 'atLeast',
+    unit: '/100',
+    defaultTarget: 60,
+  },
+  {
+    value: 'copingStrategiesUsed',
+    label: 'Coping strategies used in a week',
+    comparison: 'atLeast',
+    unit: 'strategies',
+    defaultTarget: 3,
+  },
+  {
+    value: 'checkInStreak',
+    label: 'Days checked in a row',
+    comparison: 'atLeast',
+    unit: 'days',
+    defaultTarget: 7,
+  },
+];
+
+// Quick choices for when a goal is due
+export const GOAL_DUE_OPTIONS = [
+  { value: '7', label: '1 week' },
+  { value: '14', label: '2 weeks' },
+  { value: '30', label: '1 month' },
+  { value: '90', label: '3 months' },
+];
+
+export const GOAL_MAX_MILESTONES = 5;
+
+// Due-date reminders go out the day before at this hour, and on the day itself
+export const GOAL_REMINDER_HOUR = 9;
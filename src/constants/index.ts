@@ -1,3 +1,14 @@
 // Constants exports
-// Add your app constants here as you create them
-// Example: export const API_BASE_URL = 'https://api.example.com';
+export * from './checkIn';
+export * from './sync';
+export * from './foodRecords';
+export * from './sensitiveData';
+export * from './checkInTemplates';
+export * from './progress';
+export * from './achievements';
+export * from './goals';
+export * from './insights';
+export * from './coping';
+export * from './wellbeing';
+export * from './relapseWarnings';
+export * from './education';
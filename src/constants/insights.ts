@@ -0,0 +1,40 @@
+import { TimeOfDay } from '../types';
+
+// Days of check-ins and episodes looked at for patterns
+export const INSIGHT_LOOKBACK_DAYS = 90;
+
+// Minimum samples before any pattern is reported, so a couple of bad days
+// aren't presented as a trend
+export const INSIGHT_MIN_CHECK_IN_DAYS = 10;
+export const INSIGHT_MIN_EPISODES = 5;
+
+// A factor has to come up with the outcome at least this many times
+export const INSIGHT_MIN_MATCHES = 3;
+
+// How much more often than expected the outcome has to be seen with a factor
+export const INSIGHT_MIN_LIFT = 1.5;
+
+// Day patterns: the outcome's rate with the factor must beat other days by this much
+export const INSIGHT_MIN_RATE_DIFFERENCE = 0.2;
+
+// Episode patterns: the factor must come up in at least this share of episodes
+export const INSIGHT_MIN_EPISODE_SHARE = 0.3;
+
+// Overall mood at or below this counts as low
+export const LOW_MOOD_THRESHOLD = 4;
+
+// Patterns shown at once
+export const INSIGHT_MAX_FINDINGS = 5;
+
+// Parts of the day episodes are grouped into, by local hour (toHour is exclusive)
+export const TIME_OF_DAY_OPTIONS: {
+  value: TimeOfDay;
+  label: string;
+  fromHour: number;
+  toHour: number;
+}[] = [
+  { value: 'morning', label: 'in the morning', fromHour: 5, toHour: 12 },
+  { value: 'afternoon', label: 'in the afternoon', fromHour: 12, toHour: 17 },
+  { value: 'evening', label: 'in the evening', fromHour: 17, toHour: 21 },
+  { value: 'night', label: 'at night', fromHour: 21, toHour: 29 }, // runs past midnight to 05:00
+];
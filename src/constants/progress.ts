@@ -0,0 +1,12 @@
+// Days in the rolling window behind averageMoodScore, wellbeingScore and copingStrategiesUsed
+export const PROGRESS_ROLLING_DAYS = 7;
+
+// Check-ins in different timezones less than this far apart count as consecutive,
+// since crossing timezones can skip a calendar day
+export const TRAVEL_BRIDGE_HOURS = 48;
+
+// Highlights and challenges kept in a weekly or monthly summary
+export const SUMMARY_MAX_ITEMS = 5;
+
+// Goals a patient can set in a summary reflection
+export const SUMMARY_MAX_GOALS = 3;
@@ -0,0 +1,78 @@
+import { RelapseWarningSettings, RelapseWarningThreshold, RelapseWarningType } from '../types';
+import { LOW_MOOD_THRESHOLD } from './insights';
+
+// Thresholds used until a clinician tunes them for a patient
+export const DEFAULT_RELAPSE_WARNING_SETTINGS: RelapseWarningSettings = {
+  enabled: true,
+  bingeIncreasePercent: 50,
+  minRecentEpisodes: 2,
+  lowMoodScore: LOW_MOOD_THRESHOLD,
+  lowMoodDays: 3,
+  missedCheckInDays: 3,
+  stableCheckInDays: 10,
+  compensatoryIncreasePercent: 100,
+  minRecentCompensatoryDays: 2,
+};
+
+// Days in the recent window compared against the baseline weeks before it
+export const RELAPSE_WARNING_RECENT_DAYS = 7;
+export const RELAPSE_WARNING_BASELINE_DAYS = 28;
+export const RELAPSE_WARNING_LOOKBACK_DAYS =
+  RELAPSE_WARNING_RECENT_DAYS + RELAPSE_WARNING_BASELINE_DAYS;
+
+// Days before a missed-check-in gap checked for a stable run of check-ins
+export const RELAPSE_WARNING_STABLE_WINDOW_DAYS = 14;
+
+// Check-in days needed in the baseline before rises are compared against it,
+// so a patient who has just started isn't flagged
+export const RELAPSE_WARNING_MIN_BASELINE_DAYS = 7;
+
+// Days before the same kind of warning is sent again
+export const RELAPSE_WARNING_COOLDOWN_DAYS = 7;
+
+export const RELAPSE_WARNING_TITLES: Record<RelapseWarningType, string> = {
+  risingBingeFrequency: 'More binge episodes',
+  lowMoodRun: 'Several days of low mood',
+  missedCheckIns: 'Check-ins have stopped',
+  compensatorySpike: 'More compensatory behaviours',
+};
+
+// Threshold inputs on the clinician's early-warning settings, grouped by warning
+export const RELAPSE_WARNING_SETTING_FIELDS: {
+  warning: RelapseWarningType;
+  fields: { name: RelapseWarningThreshold; label: string; min: number; max: number }[];
+}[] = [
+  {
+    warning: 'risingBingeFrequency',
+    fields: [
+      { name: 'bingeIncreasePercent', label: 'Rise over baseline (%)', min: 0, max: 500 },
+      { name: 'minRecentEpisodes', label: 'Episodes in a week, at least', min: 1, max: 21 },
+    ],
+  },
+  {
+    warning: 'lowMoodRun',
+    fields: [
+      { name: 'lowMoodScore', label: 'Low mood at or below', min: 1, max: 10 },
+      { name: 'lowMoodDays', label: 'Days in a row', min: 2, max: 14 },
+    ],
+  },
+  {
+    warning: 'missedCheckIns',
+    fields: [
+      { name: 'missedCheckInDays', label: 'Days without a check-in', min: 1, max: 14 },
+      {
+        name: 'stableCheckInDays',
+        label: `Check-in days in the ${RELAPSE_WARNING_STABLE_WINDOW_DAYS} before`,
+        min: 1,
+        max: RELAPSE_WARNING_STABLE_WINDOW_DAYS,
+      },
+    ],
+  },
+  {
+    warning: 'compensatorySpike',
+    fields: [
+      { name: 'compensatoryIncreasePercent', label: 'Rise over baseline (%)', min: 0, max: 500 },
+      { name: 'minRecentCompensatoryDays', label: 'Days in a week, at least', min: 1, max: 7 },
+    ],
+  },
+];
@@ -0,0 +1,11 @@
+import { SensitiveRecordType } from '../types';
+
+// Fields holding sensitive clinical detail (e.g. purging, laxative use).
+// Consent and export logic must handle these before a record leaves the
+// patient's own view. Paths are dot-separated; arrays along a path are
+// traversed, so 'bingeEpisodes.episodes.x' covers every episode.
+export const SENSITIVE_FIELDS: Record<SensitiveRecordType, string[]> = {
+  checkIn: ['compensatoryBehaviors', 'bingeEpisodes.episodes.compensatoryBehaviors'],
+  episodeLog: ['compensatoryBehaviors'],
+  foodRecord: ['compensatoryBehaviors'],
+};
@@ -0,0 +1,6 @@
+// Offline write queue retry settings
+export const SYNC_RETRY_BASE_DELAY_MS = 5 * 1000;
+export const SYNC_RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// Firestore holds writes open while offline, so give up on an attempt after this
+export const SYNC_WRITE_TIMEOUT_MS = 15 * 1000;
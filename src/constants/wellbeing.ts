@@ -0,0 +1,28 @@
+import { WellbeingComponent } from '../types';
+
+/**
+ * Composite wellbeing score (`scoreWellbeing` in `utils/progressMetrics.ts`). Bump
+ * WELLBEING_SCORE_VERSION whenever the weights, targets or formula change,
+ * so scores stored under the old formula can be told apart and the running
+ * totals are rebuilt.
+ *
+ * Version history:
+ * - 1: weighted mood, sleep, energy, connection, physical activity and self-care
+ * - unset: average of sleep, energy and connection ratings only
+ */
+export const WELLBEING_SCORE_VERSION = 1;
+
+// Share of the score each part carries; parts that weren't answered are left
+// out and the rest scaled up to fill the score
+export const WELLBEING_SCORE_WEIGHTS: Record<WellbeingComponent, number> = {
+  mood: 0.3,
+  sleep: 0.15,
+  energy: 0.15,
+  connection: 0.15,
+  physicalActivity: 0.15,
+  selfCare: 0.1,
+};
+
+// Minutes of exercise and self-care that score in full
+export const WELLBEING_ACTIVITY_TARGET_MINUTES = 30;
+export const WELLBEING_SELF_CARE_TARGET_MINUTES = 30;
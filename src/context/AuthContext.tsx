@@ -13,6 +13,8 @@ import {
   UserProfile,
   AuthError 
 } from '../services/auth';
+import { clearAllCheckInDrafts } from '../services/checkInDrafts';
+import { cancelAllReminders } from '../services/reminders';
 import { UserRole } from '../types';
 
 // Authentication context types
@@ -228,6 +230,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setIsLoading(true);
       
       await signOutUser();
+      // Unfinished check-ins must not be visible to the next user of this device
+      await clearAllCheckInDrafts();
+      await cancelAllReminders();
       setUser(null);
       setUserProfile(null);
       
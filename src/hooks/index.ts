@@ -1,3 +1,10 @@
 // Custom hooks exports
-// Add your custom hooks here as you create them
-// Example: export { default as useAuth } from './useAuth';
+export { default as useCheckInDraft } from './useCheckInDraft';
+export { default as useOfflineQueue } from './useOfflineQueue';
+export { default as useEatingSchedule } from './useEatingSchedule';
+export { default as useCheckInHistory } from './useCheckInHistory';
+export { default as useCheckInTemplate } from './useCheckInTemplate';
+export { default as useProgress } from './useProgress';
+export { default as useCopingToolbox } from './useCopingToolbox';
+export { default as useEducationModules } from './useEducationModules';
+export { default as useActiveReadingTime } from './useActiveReadingTime';
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { MODULE_ACTIVITY_SAVE_INTERVAL_SECONDS } from '../constants/education';
+
+/**
+ * Measures active reading time on a screen: the clock only runs while the
+ * screen is focused and the app is in the foreground. Whole seconds are
+ * handed to `onRecord` every MODULE_ACTIVITY_SAVE_INTERVAL_SECONDS, and
+ * whatever is left when the app goes to the background or the screen loses
+ * focus. Nothing is measured until `enabled` is true.
+ */
+export const useActiveReadingTime = (
+  onRecord: (seconds: number) => void,
+  enabled: boolean = true
+) => {
+  const onRecordRef = useRef(onRecord);
+  const startedAtRef = useRef<number | null>(null);
+  const pendingMsRef = useRef(0);
+  const isFocusedRef = useRef(false);
+
+  useEffect(() => {
+    onRecordRef.current = onRecord;
+  }, [onRecord]);
+
+  const start = useCallback(() => {
+    if (
+      enabled &&
+      isFocusedRef.current &&
+      AppState.currentState === 'active' &&
+      startedAtRef.current === null
+    ) {
+      startedAtRef.current = Date.now();
+    }
+  }, [enabled]);
+
+  // Stop the clock and hand over the whole seconds measured so far
+  const flush = useCallback(() => {
+    if (startedAtRef.current !== null) {
+      pendingMsRef.current += Date.now() - startedAtRef.current;
+      startedAtRef.current = null;
+    }
+
+    const seconds = Math.floor(pendingMsRef.current / 1000);
+    if (seconds > 0) {
+      pendingMsRef.current -= seconds * 1000;
+      onRecordRef.current(seconds);
+    }
+  }, []);
+
+  // Only time spent on this screen counts
+  useFocusEffect(
+    useCallback(() => {
+      isFocusedRef.current = true;
+      start();
+
+      return () => {
+        isFocusedRef.current = false;
+        flush();
+      };
+    }, [start, flush])
+  );
+
+  // Pause while the app is in the background
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        start();
+      } else {
+        flush();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [start, flush]);
+
+  // Save as reading goes on, so a crash loses little
+  useEffect(() => {
+    const interval = setInterval(() => {
+      flush();
+      start();
+    }, MODULE_ACTIVITY_SAVE_INTERVAL_SECONDS * 1000);
+
+    return () => clearInterval(interval);
+  }, [start, flush]);
+};
+
+export default useActiveReadingTime;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CheckInDraft, CheckInFormData } from '../types';
+import {
+  scheduleCheckInDraftSave,
+  cancelPendingDraftSave,
+  loadCheckInDraft,
+  clearCheckInDraft,
+} from '../services/checkInDrafts';
+
+/**
+ * Loads a user's unfinished check-in and autosaves wizard changes.
+ * Saves are debounced by the draft service, which also drops a pending
+ * save when drafts are cleared on logout.
+ */
+export const useCheckInDraft = (userId: string | undefined) => {
+  const [draft, setDraft] = useState<CheckInDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load any saved draft when the user changes
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadDraft = async () => {
+      if (!userId) {
+        setDraft(null);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const savedDraft = await loadCheckInDraft(userId);
+      if (isMounted) {
+        setDraft(savedDraft);
+        setIsLoading(false);
+      }
+    };
+
+    loadDraft();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [userId]);
+
+  // Pending saves are dropped when the wizard closes
+  useEffect(() => cancelPendingDraftSave, []);
+
+  const saveDraft = useCallback(
+    (data: CheckInFormData, stepIndex: number) => {
+      if (!userId) {
+        return;
+      }
+
+      scheduleCheckInDraftSave(userId, data, stepIndex);
+    },
+    [userId]
+  );
+
+  const clearDraft = useCallback(async () => {
+    cancelPendingDraftSave();
+    setDraft(null);
+    if (userId) {
+      await clearCheckInDraft(userId);
+    }
+  }, [userId]);
+
+  return {
+    draft,
+    isLoading,
+    saveDraft,
+    clearDraft,
+  };
+};
+
+export default useCheckInDraft;
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckInSurvey, PaginatedResponse } from '../types';
+import { getCheckInHistory } from '../services/checkIns';
+import { toDate } from '../utils/firestore';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Infinite list of a patient's past check-ins, newest first
+ */
+export const useCheckInHistory = (patientId: string | undefined) => {
+  const [checkIns, setCheckIns] = useState<CheckInSurvey[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<CheckInSurvey>['pagination'] | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isFetchingRef = useRef(false);
+
+  // Load the first page, replacing anything already shown
+  const refresh = useCallback(async () => {
+    if (!patientId) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsLoading(true);
+      isFetchingRef.current = true;
+      const response = await getCheckInHistory(patientId, 1, PAGE_SIZE);
+      setCheckIns(response.data);
+      setPagination(response.pagination);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your check-ins.');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  // Append the next page after the oldest check-in shown
+  const loadMore = useCallback(async () => {
+    if (!patientId || !pagination?.hasNext || isFetchingRef.current || checkIns.length === 0) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsLoadingMore(true);
+      isFetchingRef.current = true;
+      const oldest = toDate(checkIns[checkIns.length - 1].completedAt);
+      const response = await getCheckInHistory(patientId, pagination.page + 1, PAGE_SIZE, oldest);
+      setCheckIns((current) => [
+        ...current,
+        ...response.data.filter((checkIn) => !current.some((existing) => existing.id === checkIn.id)),
+      ]);
+      setPagination(response.pagination);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load more check-ins.');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [patientId, pagination, checkIns]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    checkIns,
+    hasMore: !!pagination?.hasNext,
+    isLoading,
+    isLoadingMore,
+    error,
+    clearError: () => setError(null),
+    refresh,
+    loadMore,
+  };
+};
+
+export default useCheckInHistory;
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { CheckInTemplateFormData } from '../types';
+import { getPatientCheckInTemplate } from '../services/checkInTemplates';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../constants/checkInTemplates';
+
+/**
+ * Loads the check-in template a patient's clinician has attached,
+ * falling back to the standard check-in
+ */
+export const useCheckInTemplate = (patientId: string | undefined) => {
+  const [template, setTemplate] = useState<CheckInTemplateFormData>(DEFAULT_CHECK_IN_TEMPLATE);
+  const [templateId, setTemplateId] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadTemplate = async () => {
+      if (!patientId) {
+        return;
+      }
+
+      const attached = await getPatientCheckInTemplate(patientId);
+      if (isMounted) {
+        setTemplate(attached ?? DEFAULT_CHECK_IN_TEMPLATE);
+        setTemplateId(attached?.id);
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplate();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [patientId]);
+
+  return { template, templateId, isLoading };
+};
+
+export default useCheckInTemplate;
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getCopingToolbox, setStrategyPinned } from '../services/copingToolbox';
+import { CopingToolboxEntry } from '../utils/copingToolbox';
+
+/**
+ * Loads a patient's coping toolbox and pins or unpins strategies in it
+ */
+export const useCopingToolbox = (patientId: string | undefined) => {
+  const [toolbox, setToolbox] = useState<CopingToolboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!patientId) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setToolbox(await getCopingToolbox(patientId));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your coping toolbox.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setPinned = useCallback(
+    async (strategy: string, pinned: boolean) => {
+      if (!patientId) {
+        return;
+      }
+
+      try {
+        setError(null);
+        await setStrategyPinned(patientId, strategy, pinned);
+        await refresh();
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to update your toolbox.');
+      }
+    },
+    [patientId, refresh]
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { toolbox, isLoading, error, refresh, setPinned, clearError };
+};
+
+export default useCopingToolbox;
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EatingAdherence, EatingScheduleFormData, UserRole } from '../types';
+import {
+  getDefaultEatingSchedule,
+  getEatingAdherence,
+  getEatingSchedule,
+  refreshEatingAdherence,
+  saveEatingSchedule,
+  syncEatingReminders,
+} from '../services/eatingSchedule';
+
+/**
+ * Loads a patient's regular eating schedule and recent adherence, and saves edits.
+ * Reminders are rescheduled only when the patient edits on their own device.
+ */
+export const useEatingSchedule = (
+  patientId: string | undefined,
+  editor: { id: string; role: UserRole } | null
+) => {
+  const [schedule, setSchedule] = useState<EatingScheduleFormData | null>(null);
+  const [isCustomSchedule, setIsCustomSchedule] = useState(false);
+  const [adherence, setAdherence] = useState<EatingAdherence | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedule = useCallback(async () => {
+    if (!patientId) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsLoading(true);
+      const saved = await getEatingSchedule(patientId);
+      setSchedule(saved ?? getDefaultEatingSchedule());
+      setIsCustomSchedule(!!saved);
+      setAdherence(saved ? await getEatingAdherence(patientId, saved) : null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the eating schedule.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const save = useCallback(
+    async (data: EatingScheduleFormData) => {
+      if (!patientId || !editor) {
+        return;
+      }
+
+      try {
+        setError(null);
+        setIsSaving(true);
+        const saved = await saveEatingSchedule(patientId, data, editor);
+        setSchedule(saved);
+        setIsCustomSchedule(true);
+
+        if (editor.id === patientId) {
+          await syncEatingReminders(patientId);
+        }
+        setAdherence(await refreshEatingAdherence(patientId));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to save the eating schedule.');
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [patientId, editor]
+  );
+
+  return {
+    schedule,
+    isCustomSchedule,
+    adherence,
+    isLoading,
+    isSaving,
+    error,
+    clearError: () => setError(null),
+    save,
+    reload: loadSchedule,
+  };
+};
+
+export default useEatingSchedule;
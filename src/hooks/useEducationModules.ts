@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EducationModule } from '../types';
+import { getEducationModules } from '../services/education';
+
+/**
+ * Loads the education catalogue
+ */
+export const useEducationModules = () => {
+  const [modules, setModules] = useState<EducationModule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setModules(await getEducationModules());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the learning modules.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { modules, isLoading, error, refresh, clearError };
+};
+
+export default useEducationModules;
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SyncQueueStatus } from '../types';
+import { getQueueStatus, processQueue, subscribeToQueueStatus } from '../services/offlineQueue';
+
+/**
+ * Exposes the offline write queue status (pending count, last sync error)
+ * so screens can show entries that are still waiting to sync.
+ */
+export const useOfflineQueue = () => {
+  const [status, setStatus] = useState<SyncQueueStatus>(getQueueStatus());
+
+  useEffect(() => subscribeToQueueStatus(setStatus), []);
+
+  const syncNow = useCallback(() => processQueue(), []);
+
+  return {
+    ...status,
+    syncNow,
+  };
+};
+
+export default useOfflineQueue;
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PatientProgress } from '../types';
+import { getPatientProgress } from '../services/progress';
+
+/**
+ * Loads a patient's progress document. `progress` is null until the
+ * patient's first check-in or episode has been recorded.
+ */
+export const useProgress = (patientId: string | undefined) => {
+  const [progress, setProgress] = useState<PatientProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!patientId) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setProgress(await getPatientProgress(patientId));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your progress.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { progress, isLoading, error, refresh, clearError };
+};
+
+export default useProgress;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { View, StyleSheet } from 'react-native';
+import { Button, IconButton } from 'react-native-paper';
+import { PatientStackParamList } from '../types';
+
+// Import check-in screens
+import CheckInScreen from '../screens/patient/CheckInScreen';
+import LogEpisodeScreen from '../screens/patient/LogEpisodeScreen';
+import FoodRecordScreen from '../screens/patient/FoodRecordScreen';
+import EatingScheduleScreen from '../screens/patient/EatingScheduleScreen';
+import CheckInHistoryScreen from '../screens/patient/CheckInHistoryScreen';
+import CheckInDetailScreen from '../screens/patient/CheckInDetailScreen';
+import EditCheckInScreen from '../screens/patient/EditCheckInScreen';
+
+const Stack = createStackNavigator<PatientStackParamList>();
+
+const CheckInNavigator: React.FC = () => {
+  return (
+    <Stack.Navigator
+      initialRouteName="CheckInForm"
+      screenOptions={{
+        cardStyle: { backgroundColor: '#f5f5f5' },
+        headerStyle: {
+          backgroundColor: '#ffffff',
+          borderBottomWidth: 1,
+          borderBottomColor: '#e5e7eb',
+          elevation: 0,
+          shadowOpacity: 0,
+        },
+        headerTitleStyle: {
+          fontSize: 18,
+          fontWeight: '600',
+          color: '#111827', // Gray-900
+        },
+        headerTintColor: '#6366f1',
+      }}
+    >
+      <Stack.Screen
+        name="CheckInForm"
+        component={CheckInScreen}
+        options={({ navigation }) => ({
+          title: 'Daily Check-in',
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <IconButton
+                icon="history"
+                iconColor="#6366f1"
+                accessibilityLabel="Check-in history"
+                onPress={() => navigation.navigate('CheckInHistory')}
+              />
+              <IconButton
+                icon="food-apple-outline"
+                iconColor="#6366f1"
+                accessibilityLabel="Food record"
+                onPress={() => navigation.navigate('FoodRecord', {})}
+              />
+              <Button compact icon="lightning-bolt" onPress={() => navigation.navigate('LogEpisode')}>
+                Log episode
+              </Button>
+            </View>
+          ),
+        })}
+      />
+      <Stack.Screen
+        name="LogEpisode"
+        component={LogEpisodeScreen}
+        options={{
+          title: 'Log Episode',
+          presentation: 'modal',
+        }}
+      />
+      <Stack.Screen
+        name="FoodRecord"
+        component={FoodRecordScreen}
+        options={({ navigation }) => ({
+          title: 'Food Record',
+          headerRight: () => (
+            <IconButton
+              icon="calendar-clock"
+              iconColor="#6366f1"
+              accessibilityLabel="Eating plan"
+              onPress={() => navigation.navigate('EatingSchedule')}
+            />
+          ),
+        })}
+      />
+      <Stack.Screen
+        name="CheckInHistory"
+        component={CheckInHistoryScreen}
+        options={{ title: 'History' }}
+      />
+      <Stack.Screen
+        name="CheckInDetail"
+        component={CheckInDetailScreen}
+        options={{ title: 'Check-in' }}
+      />
+      <Stack.Screen
+        name="EditCheckIn"
+        component={EditCheckInScreen}
+        options={{ title: 'Edit Check-in' }}
+      />
+      <Stack.Screen
+        name="EatingSchedule"
+        component={EatingScheduleScreen}
+        options={{ title: 'Eating Plan' }}
+      />
+    </Stack.Navigator>
+  );
+};
+
+const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
+
+export default CheckInNavigator;
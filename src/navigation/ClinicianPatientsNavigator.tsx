@@ -0,0 +1,102 @@
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { ClinicianStackParamList } from '../types';
+
+// Import clinician screens
+import PatientListScreen from '../screens/clinician/PatientListScreen';
+import PatientDetailScreen from '../screens/clinician/PatientDetailScreen';
+import PatientFoodRecordScreen from '../screens/clinician/PatientFoodRecordScreen';
+import PatientCheckInScreen from '../screens/clinician/PatientCheckInScreen';
+import PatientEatingScheduleScreen from '../screens/clinician/PatientEatingScheduleScreen';
+import PatientCheckInTemplateScreen from '../screens/clinician/PatientCheckInTemplateScreen';
+import CheckInTemplateEditorScreen from '../screens/clinician/CheckInTemplateEditorScreen';
+import SuggestGoalScreen from '../screens/clinician/SuggestGoalScreen';
+import PatientInsightsScreen from '../screens/clinician/PatientInsightsScreen';
+import PatientWarningSettingsScreen from '../screens/clinician/PatientWarningSettingsScreen';
+import PatientReflectionsScreen from '../screens/clinician/PatientReflectionsScreen';
+
+const Stack = createStackNavigator<ClinicianStackParamList>();
+
+const ClinicianPatientsNavigator: React.FC = () => {
+  return (
+    <Stack.Navigator
+      initialRouteName="PatientList"
+      screenOptions={{
+        cardStyle: { backgroundColor: '#f0fdf4' },
+        headerStyle: {
+          backgroundColor: '#ffffff',
+          borderBottomWidth: 1,
+          borderBottomColor: '#e5e7eb',
+          elevation: 0,
+          shadowOpacity: 0,
+        },
+        headerTitleStyle: {
+          fontSize: 18,
+          fontWeight: '600',
+          color: '#111827', // Gray-900
+        },
+        headerTintColor: '#059669',
+      }}
+    >
+      <Stack.Screen
+        name="PatientList"
+        component={PatientListScreen}
+        options={{ title: 'Patient Management' }}
+      />
+      <Stack.Screen
+        name="PatientDetail"
+        component={PatientDetailScreen}
+        options={{ title: 'Patient' }}
+      />
+      <Stack.Screen
+        name="PatientCheckIn"
+        component={PatientCheckInScreen}
+        options={{ title: 'Check-in' }}
+      />
+      <Stack.Screen
+        name="PatientFoodRecord"
+        component={PatientFoodRecordScreen}
+        options={{ title: 'Food Record' }}
+      />
+      <Stack.Screen
+        name="PatientEatingSchedule"
+        component={PatientEatingScheduleScreen}
+        options={{ title: 'Eating Plan' }}
+      />
+      <Stack.Screen
+        name="PatientCheckInTemplate"
+        component={PatientCheckInTemplateScreen}
+        options={{ title: 'Check-in Template' }}
+      />
+      <Stack.Screen
+        name="CheckInTemplateEditor"
+        component={CheckInTemplateEditorScreen}
+        options={({ route }) => ({
+          title: route.params?.templateId ? 'Edit Template' : 'New Template',
+        })}
+      />
+      <Stack.Screen
+        name="SuggestGoal"
+        component={SuggestGoalScreen}
+        options={{ title: 'Suggest a Goal' }}
+      />
+      <Stack.Screen
+        name="PatientInsights"
+        component={PatientInsightsScreen}
+        options={{ title: 'Patterns' }}
+      />
+      <Stack.Screen
+        name="PatientWarningSettings"
+        component={PatientWarningSettingsScreen}
+        options={{ title: 'Early Warnings' }}
+      />
+      <Stack.Screen
+        name="PatientReflections"
+        component={PatientReflectionsScreen}
+        options={{ title: 'Shared Reflections' }}
+      />
+    </Stack.Navigator>
+  );
+};
+
+export default ClinicianPatientsNavigator;
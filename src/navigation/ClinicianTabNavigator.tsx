@@ -3,6 +3,7 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { Platform } from 'react-native';
 import { MainTabParamList } from '../types';
+import ClinicianPatientsNavigator from './ClinicianPatientsNavigator';
 
 // Import clinician screens (these will be created later)
 // For now, we'll create placeholder components
@@ -15,12 +16,6 @@ const DashboardScreen = () => (
   </View>
 );
 
-const PatientsScreen = () => (
-  <View style={styles.placeholder}>
-    <Text style={styles.placeholderText}>Patients Screen</Text>
-  </View>
-);
-
 const AnalyticsScreen = () => (
   <View style={styles.placeholder}>
     <Text style={styles.placeholderText}>Analytics Screen</Text>
@@ -102,10 +97,10 @@ const ClinicianTabNavigator: React.FC = () => {
       />
       <Tab.Screen
         name="CheckIn" // This will show as "Patients" for clinicians
-        component={PatientsScreen}
+        component={ClinicianPatientsNavigator}
         options={{
           title: 'Patients',
-          headerTitle: 'Patient Management',
+          headerShown: false, // The patients stack renders its own header
         }}
       />
       <Tab.Screen
@@ -0,0 +1,60 @@
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { EducationStackParamList } from '../types';
+
+// Import education screens
+import ModuleListScreen from '../screens/education/ModuleListScreen';
+import ModuleDetailScreen from '../screens/education/ModuleDetailScreen';
+import ModuleQuizScreen from '../screens/education/ModuleQuizScreen';
+import ModuleReflectionScreen from '../screens/education/ModuleReflectionScreen';
+import ReflectionsScreen from '../screens/education/ReflectionsScreen';
+
+const Stack = createStackNavigator<EducationStackParamList>();
+
+const EducationNavigator: React.FC = () => {
+  return (
+    <Stack.Navigator
+      initialRouteName="ModuleList"
+      screenOptions={{
+        cardStyle: { backgroundColor: '#f5f5f5' },
+        headerStyle: {
+          backgroundColor: '#ffffff',
+          borderBottomWidth: 1,
+          borderBottomColor: '#e5e7eb',
+          elevation: 0,
+          shadowOpacity: 0,
+        },
+        headerTitleStyle: {
+          fontSize: 18,
+          fontWeight: '600',
+          color: '#111827', // Gray-900
+        },
+        headerTintColor: '#6366f1',
+      }}
+    >
+      <Stack.Screen
+        name="ModuleList"
+        component={ModuleListScreen}
+        options={{ title: 'Learning Modules' }}
+      />
+      <Stack.Screen
+        name="ModuleDetail"
+        component={ModuleDetailScreen}
+        options={{ title: 'Module' }}
+      />
+      <Stack.Screen name="ModuleQuiz" component={ModuleQuizScreen} options={{ title: 'Quiz' }} />
+      <Stack.Screen
+        name="ModuleReflection"
+        component={ModuleReflectionScreen}
+        options={{ title: 'Reflection' }}
+      />
+      <Stack.Screen
+        name="Reflections"
+        component={ReflectionsScreen}
+        options={{ title: 'My Reflections' }}
+      />
+    </Stack.Navigator>
+  );
+};
+
+export default EducationNavigator;
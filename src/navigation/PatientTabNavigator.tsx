@@ -1,32 +1,23 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { Platform } from 'react-native';
 import { MainTabParamList } from '../types';
+import CheckInNavigator from './CheckInNavigator';
+import ProgressNavigator from './ProgressNavigator';
+import EducationNavigator from './EducationNavigator';
+import { startQueueSync } from '../services/offlineQueue';
+import { startProgressCatchUp } from '../services/progress';
+import { syncEatingReminders } from '../services/eatingSchedule';
+import { generateProgressSummaries } from '../services/progressSummaries';
+import { syncGoalReminders } from '../services/goals';
+import { useAuth } from '../context/AuthContext';
 
 // Import patient screens (these will be created later)
 // For now, we'll create placeholder components
 import { View, Text, StyleSheet } from 'react-native';
 
 // Placeholder components - replace with actual screens when created
-const EducationScreen = () => (
-  <View style={styles.placeholder}>
-    <Text style={styles.placeholderText}>Education Screen</Text>
-  </View>
-);
-
-const CheckInScreen = () => (
-  <View style={styles.placeholder}>
-    <Text style={styles.placeholderText}>Check-in Screen</Text>
-  </View>
-);
-
-const ProgressScreen = () => (
-  <View style={styles.placeholder}>
-    <Text style={styles.placeholderText}>Progress Screen</Text>
-  </View>
-);
-
 const ProfileScreen = () => (
   <View style={styles.placeholder}>
     <Text style={styles.placeholderText}>Profile Screen</Text>
@@ -36,6 +27,27 @@ const ProfileScreen = () => (
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
 const PatientTabNavigator: React.FC = () => {
+  const { user } = useAuth();
+
+  // Replay check-ins and episode logs saved while offline, then add them to progress
+  useEffect(() => startQueueSync(), []);
+  useEffect(() => startProgressCatchUp(), []);
+
+  // Keep meal and goal reminders in step with what's saved
+  useEffect(() => {
+    if (user) {
+      syncEatingReminders(user.uid);
+      syncGoalReminders(user.uid);
+    }
+  }, [user]);
+
+  // Summarize any weeks or months that closed since the last visit
+  useEffect(() => {
+    if (user) {
+      generateProgressSummaries(user.uid);
+    }
+  }, [user]);
+
   return (
     <Tab.Navigator
       initialRouteName="Education"
@@ -94,26 +106,26 @@ const PatientTabNavigator: React.FC = () => {
     >
       <Tab.Screen
         name="Education"
-        component={EducationScreen}
+        component={EducationNavigator}
         options={{
           title: 'Education',
-          headerTitle: 'Learning Modules',
+          headerShown: false, // The education stack renders its own header
         }}
       />
       <Tab.Screen
         name="CheckIn"
-        component={CheckInScreen}
+        component={CheckInNavigator}
         options={{
           title: 'Check-in',
-          headerTitle: 'Daily Check-in',
+          headerShown: false, // The check-in stack renders its own header
         }}
       />
       <Tab.Screen
         name="Progress"
-        component={ProgressScreen}
+        component={ProgressNavigator}
         options={{
           title: 'Progress',
-          headerTitle: 'Your Progress',
+          headerShown: false, // The progress stack renders its own header
         }}
       />
       <Tab.Screen
@@ -0,0 +1,75 @@
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { PatientStackParamList } from '../types';
+
+// Import progress screens
+import ProgressOverviewScreen from '../screens/patient/ProgressOverviewScreen';
+import ProgressDetailScreen from '../screens/patient/ProgressDetailScreen';
+import SummaryReflectionScreen from '../screens/patient/SummaryReflectionScreen';
+import AchievementsScreen from '../screens/patient/AchievementsScreen';
+import GoalsScreen from '../screens/patient/GoalsScreen';
+import GoalEditorScreen from '../screens/patient/GoalEditorScreen';
+import InsightsScreen from '../screens/patient/InsightsScreen';
+import CopingToolboxScreen from '../screens/patient/CopingToolboxScreen';
+
+const Stack = createStackNavigator<PatientStackParamList>();
+
+const ProgressNavigator: React.FC = () => {
+  return (
+    <Stack.Navigator
+      initialRouteName="ProgressOverview"
+      screenOptions={{
+        cardStyle: { backgroundColor: '#f5f5f5' },
+        headerStyle: {
+          backgroundColor: '#ffffff',
+          borderBottomWidth: 1,
+          borderBottomColor: '#e5e7eb',
+          elevation: 0,
+          shadowOpacity: 0,
+        },
+        headerTitleStyle: {
+          fontSize: 18,
+          fontWeight: '600',
+          color: '#111827', // Gray-900
+        },
+        headerTintColor: '#6366f1',
+      }}
+    >
+      <Stack.Screen
+        name="ProgressOverview"
+        component={ProgressOverviewScreen}
+        options={{ title: 'Your Progress' }}
+      />
+      <Stack.Screen
+        name="ProgressDetail"
+        component={ProgressDetailScreen}
+        initialParams={{ period: 'week' }}
+        options={{ title: 'Trends' }}
+      />
+      <Stack.Screen
+        name="SummaryReflection"
+        component={SummaryReflectionScreen}
+        options={{ title: 'Reflection' }}
+      />
+      <Stack.Screen
+        name="Achievements"
+        component={AchievementsScreen}
+        options={{ title: 'Achievements' }}
+      />
+      <Stack.Screen name="Goals" component={GoalsScreen} options={{ title: 'Goals' }} />
+      <Stack.Screen
+        name="GoalEditor"
+        component={GoalEditorScreen}
+        options={{ title: 'New Goal', presentation: 'modal' }}
+      />
+      <Stack.Screen name="Insights" component={InsightsScreen} options={{ title: 'Patterns' }} />
+      <Stack.Screen
+        name="CopingToolbox"
+        component={CopingToolboxScreen}
+        options={{ title: 'Coping Toolbox' }}
+      />
+    </Stack.Navigator>
+  );
+};
+
+export default ProgressNavigator;
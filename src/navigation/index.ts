@@ -3,3 +3,7 @@ export { default as AppNavigator } from './AppNavigator';
 export { default as AuthNavigator } from './AuthNavigator';
 export { default as PatientTabNavigator } from './PatientTabNavigator';
 export { default as ClinicianTabNavigator } from './ClinicianTabNavigator';
+export { default as CheckInNavigator } from './CheckInNavigator';
+export { default as ClinicianPatientsNavigator } from './ClinicianPatientsNavigator';
+export { default as ProgressNavigator } from './ProgressNavigator';
+export { default as EducationNavigator } from './EducationNavigator';
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Paragraph, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import {
+  assignCheckInTemplate,
+  getCheckInTemplate,
+  saveCheckInTemplate,
+} from '../../services/checkInTemplates';
+import { CheckInTemplateFormData } from '../../types';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../../constants/checkInTemplates';
+import CheckInTemplateForm from '../../components/forms/CheckInTemplateForm';
+
+// Navigation types
+interface CheckInTemplateEditorScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params?: {
+      templateId?: string;
+      patientId?: string; // a new template is given to this patient once saved
+    };
+  };
+}
+
+/**
+ * Create or edit one of the clinician's check-in templates
+ */
+const CheckInTemplateEditorScreen: React.FC<CheckInTemplateEditorScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { templateId, patientId } = route.params || {};
+  const { user } = useAuth();
+  const [initialValues, setInitialValues] = useState<CheckInTemplateFormData | null>(
+    templateId ? null : { ...DEFAULT_CHECK_IN_TEMPLATE, name: '' }
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the template being edited
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadTemplate = async () => {
+      if (!templateId) {
+        return;
+      }
+
+      try {
+        const template = await getCheckInTemplate(templateId);
+        if (!isMounted) {
+          return;
+        }
+        if (template) {
+          const { name, sections, hiddenFields, customQuestions } = template;
+          setInitialValues({ name, sections, hiddenFields, customQuestions });
+        } else {
+          setError('This template could not be found.');
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load the template.');
+        }
+      }
+    };
+
+    loadTemplate();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [templateId]);
+
+  // Handle save
+  const handleSave = async (data: CheckInTemplateFormData) => {
+    if (!user) {
+      setError('You need to be signed in to save a template.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      const saved = await saveCheckInTemplate(user.uid, data, templateId);
+      if (!templateId && patientId) {
+        await assignCheckInTemplate(user.uid, patientId, saved.id);
+      }
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      {initialValues ? (
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Paragraph style={styles.subtitle}>
+            Changes apply to your patients' next check-ins. Answers already given are not
+            affected.
+          </Paragraph>
+          <CheckInTemplateForm
+            initialValues={initialValues}
+            onSubmit={handleSave}
+            isSubmitting={isSaving}
+          />
+        </ScrollView>
+      ) : (
+        <View style={styles.centered}>
+          {!error && <ActivityIndicator color="#059669" />}
+        </View>
+      )}
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default CheckInTemplateEditorScreen;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Title, Paragraph, Card, ActivityIndicator } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientCheckIn } from '../../services/checkIns';
+import { CheckInRevision, CheckInSurvey } from '../../types';
+import { toDate } from '../../utils/firestore';
+import { formatDayLabel, formatTime, toDayKey } from '../../utils/date';
+import {
+  diffCheckIns,
+  formatChangePath,
+  formatChangeValue,
+  getCheckInFormData,
+} from '../../utils/checkInRevisions';
+import { ReviewStep } from '../../components/forms/checkIn';
+
+// Navigation types
+interface PatientCheckInScreenProps {
+  route: {
+    params: {
+      patientId: string;
+      checkInId: string;
+    };
+  };
+}
+
+// "Mon 3 Mar, 14:05"
+const formatDateTime = (date: Date): string =>
+  `${formatDayLabel(toDayKey(date))}, ${formatTime(date)}`;
+
+/**
+ * A patient's check-in as it stands now, with what changed in each edit
+ */
+const PatientCheckInScreen: React.FC<PatientCheckInScreenProps> = ({ route }) => {
+  const { patientId, checkInId } = route.params;
+  const { user } = useAuth();
+  const [checkIn, setCheckIn] = useState<CheckInSurvey | null>(null);
+  const [revisions, setRevisions] = useState<CheckInRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCheckIn = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const result = await getPatientCheckIn(user.uid, patientId, checkInId);
+        if (isMounted) {
+          setCheckIn(result?.checkIn ?? null);
+          setRevisions(result?.revisions ?? []);
+          setError(result ? null : 'This check-in could not be found.');
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load this check-in.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadCheckIn();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId, checkInId]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  if (!checkIn) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  // Each revision is compared with the version that replaced it
+  const versions = [...revisions.map((revision) => revision.data), getCheckInFormData(checkIn)];
+  const edits = revisions
+    .map((revision, index) => ({
+      revision,
+      changes: diffCheckIns(revision.data, versions[index + 1]),
+    }))
+    .reverse();
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {/* Header */}
+      <Title style={styles.title}>{formatDateTime(toDate(checkIn.completedAt))}</Title>
+      {checkIn.editedAt && (
+        <Paragraph style={styles.subtitle}>
+          Edited {revisions.length} {revisions.length === 1 ? 'time' : 'times'}, last on{' '}
+          {formatDateTime(toDate(checkIn.editedAt))}
+        </Paragraph>
+      )}
+
+      <ReviewStep values={checkIn} />
+
+      {/* Edit history */}
+      {edits.length > 0 && <Text style={styles.sectionTitle}>Edit history</Text>}
+      {edits.map(({ revision, changes }) => (
+        <Card key={revision.id} style={styles.card}>
+          <Card.Title
+            title={`Edited ${formatDateTime(toDate(revision.editedAt))}`}
+            subtitle={`${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`}
+          />
+          <Card.Content>
+            {changes.map((change) => (
+              <View key={change.path} style={styles.change}>
+                <Text style={styles.changePath}>
+                  {formatChangePath(change.path, checkIn.customQuestions)}
+                </Text>
+                <Text style={styles.changeValues}>
+                  <Text style={styles.before}>{formatChangeValue(change.before)}</Text>
+                  {'  →  '}
+                  <Text style={styles.after}>{formatChangeValue(change.after)}</Text>
+                </Text>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#92400e',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
+  change: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  changePath: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  changeValues: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  before: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  after: {
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+});
+
+export default PatientCheckInScreen;
@@ -0,0 +1,233 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Paragraph,
+  Button,
+  Card,
+  RadioButton,
+  IconButton,
+  ActivityIndicator,
+  Snackbar,
+} from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getLinkedPatient } from '../../services/clinicianPatients';
+import { assignCheckInTemplate, getClinicianTemplates } from '../../services/checkInTemplates';
+import { CheckInTemplate } from '../../types';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../../constants/checkInTemplates';
+
+// Navigation types
+interface PatientCheckInTemplateScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+// Radio value for the standard check-in
+const STANDARD_TEMPLATE = 'standard';
+
+/**
+ * Choose which check-in template a linked patient answers
+ */
+const PatientCheckInTemplateScreen: React.FC<PatientCheckInTemplateScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<CheckInTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(STANDARD_TEMPLATE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on focus so new and edited templates show straight away
+  useFocusEffect(
+    useCallback(() => {
+      let isMounted = true;
+
+      const loadTemplates = async () => {
+        if (!user) {
+          return;
+        }
+
+        try {
+          const [linkedPatient, clinicianTemplates] = await Promise.all([
+            getLinkedPatient(user.uid, patientId),
+            getClinicianTemplates(user.uid),
+          ]);
+          if (isMounted) {
+            setTemplates(clinicianTemplates);
+            setSelectedId(linkedPatient.relation.checkInTemplateId || STANDARD_TEMPLATE);
+          }
+        } catch (error) {
+          if (isMounted) {
+            setError(error instanceof Error ? error.message : 'Failed to load check-in templates.');
+          }
+        } finally {
+          if (isMounted) {
+            setIsLoading(false);
+          }
+        }
+      };
+
+      loadTemplates();
+
+      return () => {
+        isMounted = false;
+      };
+    }, [user, patientId])
+  );
+
+  const handleSelect = async (templateId: string) => {
+    if (!user || templateId === selectedId) {
+      return;
+    }
+
+    const previousId = selectedId;
+    try {
+      setError(null);
+      setIsSaving(true);
+      setSelectedId(templateId);
+      await assignCheckInTemplate(
+        user.uid,
+        patientId,
+        templateId === STANDARD_TEMPLATE ? null : templateId
+      );
+    } catch (error) {
+      setSelectedId(previousId);
+      setError(error instanceof Error ? error.message : 'Failed to change the check-in template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Paragraph style={styles.subtitle}>
+          The patient's next check-in will use the template chosen here. Past check-ins keep the
+          questions they were answered with.
+        </Paragraph>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <RadioButton.Group onValueChange={handleSelect} value={selectedId}>
+              <RadioButton.Item
+                label={DEFAULT_CHECK_IN_TEMPLATE.name}
+                value={STANDARD_TEMPLATE}
+                disabled={isSaving}
+                color="#059669"
+              />
+              {templates.map((template) => (
+                <View key={template.id} style={styles.templateRow}>
+                  <RadioButton.Item
+                    label={template.name}
+                    value={template.id}
+                    disabled={isSaving}
+                    color="#059669"
+                    style={styles.templateItem}
+                  />
+                  <IconButton
+                    icon="pencil-outline"
+                    iconColor="#059669"
+                    accessibilityLabel={`Edit ${template.name}`}
+                    onPress={() =>
+                      navigation.navigate('CheckInTemplateEditor', { templateId: template.id })
+                    }
+                  />
+                </View>
+              ))}
+            </RadioButton.Group>
+            {templates.length === 0 && (
+              <Text style={styles.emptyText}>
+                Create a template to change sections or add your own questions.
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        <Button
+          mode="outlined"
+          icon="plus"
+          textColor="#059669"
+          onPress={() => navigation.navigate('CheckInTemplateEditor', { patientId })}
+          style={styles.button}
+        >
+          New template
+        </Button>
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  templateItem: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  button: {
+    borderRadius: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default PatientCheckInTemplateScreen;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { List, Title, Paragraph, ActivityIndicator, Text } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getLinkedPatient, LinkedPatient } from '../../services/clinicianPatients';
+import { getPatientCheckIns } from '../../services/checkIns';
+import { CheckInSurvey } from '../../types';
+import CheckInListItem from '../../components/common/CheckInListItem';
+
+// Navigation types
+interface PatientDetailScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Overview of a linked patient with links to their records
+ */
+const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ navigation, route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [patient, setPatient] = useState<LinkedPatient | null>(null);
+  const [checkIns, setCheckIns] = useState<CheckInSurvey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadPatient = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const [linkedPatient, recentCheckIns] = await Promise.all([
+          getLinkedPatient(user.uid, patientId),
+          getPatientCheckIns(user.uid, patientId),
+        ]);
+        if (isMounted) {
+          setPatient(linkedPatient);
+          setCheckIns(recentCheckIns);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load this patient.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadPatient();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const profile = patient?.profile;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {/* Header */}
+      <Title style={styles.title}>
+        {profile ? `${profile.firstName} ${profile.lastName}` : 'Patient'}
+      </Title>
+      {profile?.email && <Paragraph style={styles.subtitle}>{profile.email}</Paragraph>}
+
+      <List.Section style={styles.section}>
+        <List.Item
+          title="Food record"
+          description="Daily eating records"
+          left={(props) => <List.Icon {...props} icon="food-apple-outline" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientFoodRecord', { patientId })}
+        />
+        <List.Item
+          title="Eating plan"
+          description="Regular eating schedule and adherence"
+          left={(props) => <List.Icon {...props} icon="calendar-clock" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientEatingSchedule', { patientId })}
+        />
+        <List.Item
+          title="Check-in template"
+          description="Sections and questions in daily check-ins"
+          left={(props) => <List.Icon {...props} icon="clipboard-text-outline" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientCheckInTemplate', { patientId })}
+        />
+        <List.Item
+          title="Suggest a goal"
+          description="Goals the patient can choose to work towards"
+          left={(props) => <List.Icon {...props} icon="flag-outline" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('SuggestGoal', { patientId })}
+        />
+        <List.Item
+          title="Patterns"
+          description="Triggers, times and feelings that come with episodes or low mood"
+          left={(props) => <List.Icon {...props} icon="chart-scatter-plot" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientInsights', { patientId })}
+        />
+        <List.Item
+          title="Early warnings"
+          description="When you're notified about signs of relapse"
+          left={(props) => <List.Icon {...props} icon="bell-alert-outline" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientWarningSettings', { patientId })}
+        />
+        <List.Item
+          title="Shared reflections"
+          description="Module reflections the patient has shared with you"
+          left={(props) => <List.Icon {...props} icon="notebook-outline" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('PatientReflections', { patientId })}
+        />
+      </List.Section>
+
+      {/* Recent check-ins, flagged when the patient edited them */}
+      <Text style={styles.sectionTitle}>Recent check-ins</Text>
+      {checkIns.length > 0 ? (
+        checkIns.map((checkIn) => (
+          <CheckInListItem
+            key={checkIn.id}
+            checkIn={checkIn}
+            onPress={() =>
+              navigation.navigate('PatientCheckIn', { patientId, checkInId: checkIn.id })
+            }
+          />
+        ))
+      ) : (
+        <Text style={styles.emptyText}>No check-ins yet.</Text>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+});
+
+export default PatientDetailScreen;
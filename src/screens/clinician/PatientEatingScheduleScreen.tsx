@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Paragraph, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useEatingSchedule } from '../../hooks/useEatingSchedule';
+import EatingScheduleForm from '../../components/forms/EatingScheduleForm';
+import AdherenceSummary from '../../components/common/AdherenceSummary';
+
+// Navigation types
+interface PatientEatingScheduleScreenProps {
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Clinician view of a linked patient's regular eating schedule and adherence
+ */
+const PatientEatingScheduleScreen: React.FC<PatientEatingScheduleScreenProps> = ({ route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const editor = useMemo(() => (user ? { id: user.uid, role: 'clinician' as const } : null), [user]);
+  const { schedule, isCustomSchedule, adherence, isLoading, isSaving, error, clearError, save } =
+    useEatingSchedule(patientId, editor);
+
+  if (isLoading || !schedule) {
+    return (
+      <View style={styles.centered}>
+        {isLoading ? <ActivityIndicator color="#059669" /> : <Paragraph>{error}</Paragraph>}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        {!isCustomSchedule && (
+          <Paragraph style={styles.subtitle}>
+            This patient hasn't set a schedule yet. Saving will set the suggested plan below.
+          </Paragraph>
+        )}
+
+        {adherence && adherence.planned > 0 && (
+          <AdherenceSummary adherence={adherence} color="#059669" />
+        )}
+
+        <EatingScheduleForm
+          initialValues={schedule}
+          onSubmit={save}
+          isSubmitting={isSaving}
+          showReminderToggles={false}
+        />
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar visible={!!error} onDismiss={clearError} duration={5000} style={styles.snackbar}>
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default PatientEatingScheduleScreen;
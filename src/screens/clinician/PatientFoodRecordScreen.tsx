@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, ScrollView } from 'react-native';
+import { ActivityIndicator, Text } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientFoodRecordsForDay } from '../../services/foodRecords';
+import { FoodRecord } from '../../types';
+import { toDayKey } from '../../utils/date';
+import DaySelector from '../../components/common/DaySelector';
+import FoodRecordDayView from '../../components/common/FoodRecordDayView';
+
+// Navigation types
+interface PatientFoodRecordScreenProps {
+  route: {
+    params: {
+      patientId: string;
+      day?: string;
+    };
+  };
+}
+
+/**
+ * Read-only view of a linked patient's food record for one day
+ */
+const PatientFoodRecordScreen: React.FC<PatientFoodRecordScreenProps> = ({ route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [day, setDay] = useState(route.params.day || toDayKey(new Date()));
+  const [records, setRecords] = useState<FoodRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadRecords = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        setError(null);
+        setIsLoading(true);
+        const dayRecords = await getPatientFoodRecordsForDay(user.uid, patientId, day);
+        if (isMounted) {
+          setRecords(dayRecords);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setRecords([]);
+          setError(error instanceof Error ? error.message : 'Failed to load food records.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadRecords();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId, day]);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <DaySelector day={day} onChange={setDay} />
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color="#059669" />
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <FoodRecordDayView records={records} emptyMessage="No entries recorded for this day." />
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
+
+export default PatientFoodRecordScreen;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { ActivityIndicator, Text } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientPatternInsights } from '../../services/insights';
+import { PatternInsights } from '../../types';
+import InsightList from '../../components/common/InsightList';
+
+// Navigation types
+interface PatientInsightsScreenProps {
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Patterns in a linked patient's check-ins and episodes
+ */
+const PatientInsightsScreen: React.FC<PatientInsightsScreenProps> = ({ route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [patterns, setPatterns] = useState<PatternInsights | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadPatterns = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const found = await getPatientPatternInsights(user.uid, patientId);
+        if (isMounted) {
+          setPatterns(found);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to look for patterns.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadPatterns();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  if (error || !patterns) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <InsightList patterns={patterns} audience="clinician" color="#059669" />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+});
+
+export default PatientInsightsScreen;
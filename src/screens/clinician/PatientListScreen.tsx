@@ -0,0 +1,189 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { List, Text, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getLinkedPatients, LinkedPatient } from '../../services/clinicianPatients';
+import { getUnreadNotifications, markNotificationRead } from '../../services/notifications';
+import { checkLinkedPatientsRelapseWarnings } from '../../services/relapseWarnings';
+import { Notification } from '../../types';
+
+// Navigation types
+interface PatientListScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [patients, setPatients] = useState<LinkedPatient[]>([]);
+  const [warnings, setWarnings] = useState<Notification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Look for new warning signs (such as check-ins that have stopped), then load unread warnings
+  const loadWarnings = useCallback(
+    async (linkedPatients: LinkedPatient[]) => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        await checkLinkedPatientsRelapseWarnings(user.uid, linkedPatients);
+        const notifications = await getUnreadNotifications(user.uid);
+        setWarnings(notifications.filter((notification) => notification.type === 'warning'));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load early warnings.');
+      }
+    },
+    [user]
+  );
+
+  // Load actively linked patients
+  const loadPatients = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsLoading(true);
+      const linkedPatients = await getLinkedPatients(user.uid);
+      setPatients(linkedPatients);
+      loadWarnings(linkedPatients);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your patients.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, loadWarnings]);
+
+  // Open the patient a warning is about; it counts as read once opened
+  const handleOpenWarning = async (warning: Notification) => {
+    setWarnings((current) => current.filter((item) => item.id !== warning.id));
+    if (warning.patientId) {
+      navigation.navigate('PatientDetail', { patientId: warning.patientId });
+    }
+
+    try {
+      await markNotificationRead(warning.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update the warning.');
+    }
+  };
+
+  useEffect(() => {
+    loadPatients();
+  }, [loadPatients]);
+
+  if (isLoading && patients.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={patients}
+        keyExtractor={(item) => item.relation.id}
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadPatients} />}
+        ListHeaderComponent={
+          warnings.length > 0 ? (
+            <View style={styles.warnings}>
+              <Text style={styles.sectionTitle}>Early warnings</Text>
+              {warnings.map((warning) => (
+                <List.Item
+                  key={warning.id}
+                  title={warning.title}
+                  description={warning.message}
+                  descriptionNumberOfLines={3}
+                  left={(props) => <List.Icon {...props} icon="alert-outline" color="#d97706" />}
+                  onPress={() => handleOpenWarning(warning)}
+                  style={styles.warningItem}
+                />
+              ))}
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No active patients are linked to your account yet.</Text>
+        }
+        renderItem={({ item }) => (
+          <List.Item
+            title={
+              item.profile
+                ? `${item.profile.firstName} ${item.profile.lastName}`
+                : 'Unknown patient'
+            }
+            description={item.profile?.email}
+            left={(props) => <List.Icon {...props} icon="account" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() =>
+              navigation.navigate('PatientDetail', { patientId: item.relation.patientId })
+            }
+            style={styles.item}
+          />
+        )}
+      />
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  warnings: {
+    paddingTop: 16,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  warningItem: {
+    backgroundColor: '#fffbeb', // Amber-50
+    borderBottomWidth: 1,
+    borderBottomColor: '#fde68a',
+  },
+  item: {
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default PatientListScreen;
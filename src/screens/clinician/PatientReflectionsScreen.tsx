@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { ActivityIndicator, Text } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getSharedReflections } from '../../services/reflections';
+import { ModuleReflection } from '../../types';
+import ReflectionCard from '../../components/common/ReflectionCard';
+
+// Navigation types
+interface PatientReflectionsScreenProps {
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Module reflections a linked patient has chosen to share
+ */
+const PatientReflectionsScreen: React.FC<PatientReflectionsScreenProps> = ({ route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [reflections, setReflections] = useState<ModuleReflection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadReflections = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const shared = await getSharedReflections(user.uid, patientId);
+        if (isMounted) {
+          setReflections(shared);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load the reflections.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadReflections();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#059669" />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {reflections.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Reflections are private to the patient. Any they choose to share with you will
+          appear here.
+        </Text>
+      ) : (
+        reflections.map((reflection) => (
+          <ReflectionCard key={reflection.id} reflection={reflection} />
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
+
+export default PatientReflectionsScreen;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Paragraph, Button, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import {
+  getRelapseWarningSettings,
+  saveRelapseWarningSettings,
+} from '../../services/relapseWarnings';
+import { RelapseWarningSettings } from '../../types';
+import {
+  RELAPSE_WARNING_BASELINE_DAYS,
+  RELAPSE_WARNING_RECENT_DAYS,
+} from '../../constants/relapseWarnings';
+import RelapseWarningSettingsForm from '../../components/forms/RelapseWarningSettingsForm';
+
+// Navigation types
+interface PatientWarningSettingsScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Tune when a linked patient's entries send the clinician an early warning
+ */
+const PatientWarningSettingsScreen: React.FC<PatientWarningSettingsScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<RelapseWarningSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadSettings = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const current = await getRelapseWarningSettings(user.uid, patientId);
+        if (isMounted) {
+          setSettings(current);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load the settings.');
+        }
+      }
+    };
+
+    loadSettings();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId]);
+
+  const save = async (data: RelapseWarningSettings | null) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      await saveRelapseWarningSettings(user.uid, patientId, data);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <View style={styles.centered}>
+        {error ? <Paragraph>{error}</Paragraph> : <ActivityIndicator color="#059669" />}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Paragraph style={styles.subtitle}>
+          You'll get a notification when this patient's entries show one of these signs. Rises
+          compare the last {RELAPSE_WARNING_RECENT_DAYS} days with the weekly average over the{' '}
+          {RELAPSE_WARNING_BASELINE_DAYS} days before.
+        </Paragraph>
+
+        <RelapseWarningSettingsForm
+          initialValues={settings}
+          onSubmit={save}
+          isSubmitting={isSaving}
+        />
+        <Button
+          mode="text"
+          textColor="#059669"
+          onPress={() => save(null)}
+          disabled={isSaving}
+          style={styles.resetButton}
+        >
+          Use the default settings
+        </Button>
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f0fdf4',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  resetButton: {
+    marginTop: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default PatientWarningSettingsScreen;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Text, Paragraph, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientGoals, suggestGoal } from '../../services/goals';
+import { Goal, GoalFormData, PatientProgress } from '../../types';
+import GoalForm from '../../components/forms/GoalForm';
+import GoalCard from '../../components/common/GoalCard';
+
+// Navigation types
+interface SuggestGoalScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params: {
+      patientId: string;
+    };
+  };
+}
+
+/**
+ * Suggest a goal to a patient, alongside the goals they already have
+ */
+const SuggestGoalScreen: React.FC<SuggestGoalScreenProps> = ({ navigation, route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [progress, setProgress] = useState<PatientProgress | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the patient's current goals
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadGoals = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const result = await getPatientGoals(user.uid, patientId);
+        if (isMounted) {
+          setGoals(result.goals);
+          setProgress(result.progress);
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : "Failed to load the patient's goals.");
+        }
+      }
+    };
+
+    loadGoals();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, patientId]);
+
+  const handleSave = async (data: GoalFormData) => {
+    if (!user) {
+      setError('You need to be signed in to suggest a goal.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      await suggestGoal(user.uid, patientId, data);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to suggest this goal.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentGoals = goals.filter((goal) => !goal.isCompleted);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Paragraph style={styles.subtitle}>
+          Your patient will see this suggestion and can choose to add it to their goals.
+        </Paragraph>
+        <GoalForm
+          onSubmit={handleSave}
+          isSubmitting={isSaving}
+          progress={progress}
+          submitLabel="Suggest goal"
+          color="#059669"
+        />
+
+        {currentGoals.length > 0 && (
+          <View style={styles.currentGoals}>
+            <Text style={styles.sectionTitle}>Current goals</Text>
+            {currentGoals.map((goal) => (
+              <GoalCard key={goal.id} goal={goal} color="#059669" />
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fdf4', // Green-50
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  currentGoals: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default SuggestGoalScreen;
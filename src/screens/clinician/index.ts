@@ -1,3 +1,12 @@
 // Clinician screens exports
-// Add your clinician screens here as you create them
-// Example: export { default as PatientListScreen } from './PatientListScreen';
+export { default as PatientListScreen } from './PatientListScreen';
+export { default as PatientFoodRecordScreen } from './PatientFoodRecordScreen';
+export { default as PatientEatingScheduleScreen } from './PatientEatingScheduleScreen';
+export { default as PatientDetailScreen } from './PatientDetailScreen';
+export { default as PatientCheckInScreen } from './PatientCheckInScreen';
+export { default as PatientCheckInTemplateScreen } from './PatientCheckInTemplateScreen';
+export { default as CheckInTemplateEditorScreen } from './CheckInTemplateEditorScreen';
+export { default as SuggestGoalScreen } from './SuggestGoalScreen';
+export { default as PatientInsightsScreen } from './PatientInsightsScreen';
+export { default as PatientWarningSettingsScreen } from './PatientWarningSettingsScreen';
+export { default as PatientReflectionsScreen } from './PatientReflectionsScreen';
@@ -0,0 +1,499 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Image, Linking, TouchableOpacity } from 'react-native';
+import { Text, List, Chip, Icon, Button, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getEducationModule, recordModuleActivity } from '../../services/education';
+import { getPatientProgress } from '../../services/progress';
+import { useActiveReadingTime } from '../../hooks/useActiveReadingTime';
+import { EducationModule, ModuleActivity, ModuleInteractiveElement } from '../../types';
+import { DIFFICULTY_LEVEL_LABELS, EDUCATION_CATEGORY_LABELS } from '../../constants/education';
+import { formatMediaDuration, parseModuleText } from '../../utils/education';
+import { getModuleQuiz, getPassThreshold } from '../../utils/quiz';
+import { getModuleReflectionPrompts } from '../../utils/reflections';
+import { ModuleActivityUpdate, getInteractionKey } from '../../utils/moduleCompletion';
+import ModuleCompletionCard from '../../components/common/ModuleCompletionCard';
+
+// Navigation types
+interface ModuleDetailScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+    setOptions: (options: object) => void;
+  };
+  route: {
+    params: {
+      moduleId: string;
+    };
+  };
+}
+
+/**
+ * Reader for a learning module: its text, images, and videos and audio,
+ * which open in the device's player. Active reading time is saved as the
+ * patient reads, and a checklist shows what's left to complete the module.
+ */
+const ModuleDetailScreen: React.FC<ModuleDetailScreenProps> = ({ navigation, route }) => {
+  const { moduleId } = route.params;
+  const { user } = useAuth();
+  const [module, setModule] = useState<EducationModule | null>(null);
+  const [activity, setActivity] = useState<ModuleActivity>();
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActivityLoaded, setIsActivityLoaded] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recordActivity = useCallback(
+    async (update: ModuleActivityUpdate) => {
+      if (!user || !module) {
+        return;
+      }
+
+      try {
+        const result = await recordModuleActivity(user.uid, module, update);
+        setActivity(result.activity);
+        setIsCompleted(result.isCompleted);
+        if (result.newlyCompleted) {
+          setMessage('Module complete!');
+        }
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to save your progress.');
+      }
+    },
+    [user, module]
+  );
+
+  const recordReading = useCallback(
+    (activeSeconds: number) => {
+      recordActivity({ activeSeconds });
+    },
+    [recordActivity]
+  );
+
+  useActiveReadingTime(recordReading, !!user && !!module);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadModule = async () => {
+      try {
+        const found = await getEducationModule(moduleId);
+        if (isMounted) {
+          setModule(found);
+          setError(found ? null : 'This module could not be found.');
+          if (found) {
+            navigation.setOptions({ title: found.title });
+          }
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load this module.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadModule();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [navigation, moduleId]);
+
+  // Refresh on focus, to pick up a quiz or reflection finished since
+  useFocusEffect(
+    useCallback(() => {
+      let isMounted = true;
+
+      const loadActivity = async () => {
+        if (!user) {
+          return;
+        }
+
+        try {
+          const progress = await getPatientProgress(user.uid);
+          if (isMounted) {
+            setActivity(progress?.moduleActivity?.[moduleId]);
+            setIsCompleted(
+              (progress?.completedModules || []).some(
+                (completed) => completed.moduleId === moduleId
+              )
+            );
+            setIsActivityLoaded(true);
+          }
+        } catch (error) {
+          if (isMounted) {
+            setError(error instanceof Error ? error.message : 'Failed to load your progress.');
+          }
+        }
+      };
+
+      loadActivity();
+
+      return () => {
+        isMounted = false;
+      };
+    }, [user, moduleId])
+  );
+
+  // Opening a module starts its activity, which is all a module without criteria needs
+  useEffect(() => {
+    if (module && isActivityLoaded && !activity) {
+      recordActivity({});
+    }
+  }, [module, isActivityLoaded, activity, recordActivity]);
+
+  const openMedia = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch {
+      setError('This media could not be opened on your device.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!module) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const { images = [], videos = [], audio = [] } = module.content;
+  const quiz = getModuleQuiz(module);
+  const reflectionPrompts = getModuleReflectionPrompts(module);
+  const exercises = (module.content.interactiveElements || []).filter(
+    (element): element is Extract<ModuleInteractiveElement, { type: 'exercise' }> =>
+      element.type === 'exercise'
+  );
+  const completedInteractions = activity?.completedInteractions || [];
+  const details = [
+    EDUCATION_CATEGORY_LABELS[module.category],
+    DIFFICULTY_LEVEL_LABELS[module.difficulty],
+    `${module.readingTime} min read`,
+  ];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Header */}
+        <Text style={styles.title}>{module.title}</Text>
+        <Text style={styles.details}>{details.join(' · ')}</Text>
+        {module.tags.length > 0 && (
+          <View style={styles.tags}>
+            {module.tags.map((tag) => (
+              <Chip key={tag} compact style={styles.tag} textStyle={styles.tagText}>
+                {tag}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        {/* Text */}
+        {parseModuleText(module.content.text).map((block, index) => {
+          if (block.type === 'heading') {
+            return (
+              <Text key={index} style={styles.heading}>
+                {block.text}
+              </Text>
+            );
+          }
+
+          if (block.type === 'bullet') {
+            return (
+              <View key={index} style={styles.bulletRow}>
+                <Text style={styles.bulletMark}>{'•'}</Text>
+                <Text style={styles.bulletText}>{block.text}</Text>
+              </View>
+            );
+          }
+
+          return (
+            <Text key={index} style={styles.paragraph}>
+              {block.text}
+            </Text>
+          );
+        })}
+
+        {/* Images */}
+        {images.map((uri) => (
+          <Image key={uri} source={{ uri }} style={styles.image} resizeMode="cover" />
+        ))}
+
+        {/* Videos */}
+        {videos.length > 0 && <Text style={styles.sectionTitle}>Videos</Text>}
+        {videos.map((video) => (
+          <TouchableOpacity
+            key={video.url}
+            onPress={() => openMedia(video.url)}
+            accessibilityRole="button"
+            accessibilityLabel={`Play video, ${formatMediaDuration(video.duration)}`}
+            style={styles.video}
+          >
+            {video.thumbnail ? (
+              <Image source={{ uri: video.thumbnail }} style={styles.videoThumbnail} />
+            ) : (
+              <View style={[styles.videoThumbnail, styles.videoPlaceholder]} />
+            )}
+            <View style={styles.videoOverlay}>
+              <Icon source="play-circle" size={48} color="#ffffff" />
+            </View>
+            <Text style={styles.videoDuration}>{formatMediaDuration(video.duration)}</Text>
+          </TouchableOpacity>
+        ))}
+
+        {/* Audio */}
+        {audio.length > 0 && <Text style={styles.sectionTitle}>Listen</Text>}
+        {audio.map((track, index) => (
+          <List.Item
+            key={track.url}
+            title={`Audio ${index + 1}`}
+            description={formatMediaDuration(track.duration)}
+            left={(props) => <List.Icon {...props} icon="headphones" color="#6366f1" />}
+            right={(props) => <List.Icon {...props} icon="play" />}
+            onPress={() => openMedia(track.url)}
+            style={styles.audioItem}
+          />
+        ))}
+
+        {/* Exercises */}
+        {exercises.map((exercise, index) => {
+          const key = getInteractionKey(exercise);
+          const isDone = completedInteractions.includes(key);
+          const { title, instructions } = exercise.content || {};
+
+          return (
+            <View key={`${key}-${index}`} style={styles.activity}>
+              <Text style={styles.sectionTitle}>
+                {typeof title === 'string' ? title : 'Exercise'}
+              </Text>
+              {typeof instructions === 'string' && (
+                <Text style={styles.activityText}>{instructions}</Text>
+              )}
+              <Button
+                mode={isDone ? 'text' : 'outlined'}
+                icon={isDone ? 'check-circle' : 'checkbox-blank-circle-outline'}
+                onPress={() => recordActivity({ interaction: key })}
+                disabled={isDone}
+                textColor={isDone ? '#27ae60' : '#6366f1'}
+                style={styles.activityButton}
+              >
+                {isDone ? 'Done' : 'Mark as done'}
+              </Button>
+            </View>
+          );
+        })}
+
+        {/* Reflection */}
+        {reflectionPrompts && (
+          <View style={styles.activity}>
+            <Text style={styles.sectionTitle}>Reflect</Text>
+            <Text style={styles.activityText}>
+              {reflectionPrompts.prompts.length} question
+              {reflectionPrompts.prompts.length === 1 ? '' : 's'} to think through in your own
+              words. Only you will see your answers unless you share them.
+            </Text>
+            <Button
+              mode="outlined"
+              icon="notebook-edit-outline"
+              onPress={() => navigation.navigate('ModuleReflection', { moduleId })}
+              textColor="#6366f1"
+              style={styles.activityButton}
+            >
+              Write a reflection
+            </Button>
+          </View>
+        )}
+
+        {/* Quiz */}
+        {quiz && (
+          <View style={styles.activity}>
+            <Text style={styles.sectionTitle}>Check what you've learned</Text>
+            <Text style={styles.activityText}>
+              {quiz.questions.length} question{quiz.questions.length === 1 ? '' : 's'}. Get{' '}
+              {getPassThreshold(quiz)}% or more to complete this module.
+            </Text>
+            <Button
+              mode="contained"
+              icon="help-circle-outline"
+              onPress={() => navigation.navigate('ModuleQuiz', { moduleId })}
+              buttonColor="#6366f1"
+              style={styles.activityButton}
+            >
+              Take the quiz
+            </Button>
+          </View>
+        )}
+
+        {/* Completion */}
+        <ModuleCompletionCard module={module} activity={activity} isCompleted={isCompleted} />
+      </ScrollView>
+
+      {/* Confirmation Snackbar */}
+      <Snackbar visible={!!message} onDismiss={() => setMessage(null)} duration={3000}>
+        {message}
+      </Snackbar>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  content: {
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  details: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 4,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  tag: {
+    backgroundColor: '#eef2ff', // Indigo-50
+    marginRight: 6,
+    marginTop: 6,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#4338ca', // Indigo-700
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 20,
+  },
+  paragraph: {
+    fontSize: 16,
+    color: '#2c3e50',
+    lineHeight: 24,
+    marginTop: 12,
+  },
+  bulletRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    paddingLeft: 8,
+  },
+  bulletMark: {
+    fontSize: 16,
+    color: '#6366f1',
+    lineHeight: 24,
+    marginRight: 8,
+  },
+  bulletText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    lineHeight: 24,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+    borderRadius: 12,
+    marginTop: 16,
+    backgroundColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  video: {
+    marginTop: 12,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  videoThumbnail: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+  },
+  videoPlaceholder: {
+    backgroundColor: '#312e81', // Indigo-900
+  },
+  videoOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  videoDuration: {
+    position: 'absolute',
+    right: 8,
+    bottom: 8,
+    fontSize: 12,
+    color: '#ffffff',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  audioItem: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  activity: {
+    marginTop: 8,
+  },
+  activityText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+  },
+  activityButton: {
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ModuleDetailScreen;
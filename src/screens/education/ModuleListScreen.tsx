@@ -0,0 +1,256 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, FlatList, ScrollView, RefreshControl } from 'react-native';
+import {
+  Text,
+  Chip,
+  Button,
+  SegmentedButtons,
+  ActivityIndicator,
+  Snackbar,
+} from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { useEducationModules } from '../../hooks/useEducationModules';
+import { useProgress } from '../../hooks/useProgress';
+import { EducationModule, EducationModuleFilters } from '../../types';
+import {
+  DIFFICULTY_LEVEL_LABELS,
+  DIFFICULTY_LEVELS,
+  EDUCATION_CATEGORIES,
+  EDUCATION_CATEGORY_LABELS,
+} from '../../constants/education';
+import { filterEducationModules } from '../../utils/education';
+import { buildLearningPaths, resolveModuleStates } from '../../utils/learningPaths';
+import ModuleCard from '../../components/common/ModuleCard';
+import LearningPathView from '../../components/common/LearningPathView';
+
+type CatalogueView = 'modules' | 'paths';
+
+// Navigation types
+interface ModuleListScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+/**
+ * The catalogue of learning modules, filterable by category and difficulty,
+ * or shown as a learning path per category. Modules stay locked until their
+ * prerequisites are completed.
+ */
+const ModuleListScreen: React.FC<ModuleListScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { modules, isLoading, error, refresh, clearError } = useEducationModules();
+  const {
+    progress,
+    isLoading: isProgressLoading,
+    error: progressError,
+    refresh: refreshProgress,
+    clearError: clearProgressError,
+  } = useProgress(user?.uid);
+  const [view, setView] = useState<CatalogueView>('modules');
+  const [filters, setFilters] = useState<EducationModuleFilters>({});
+  const [lockedMessage, setLockedMessage] = useState<string | null>(null);
+
+  // Completing a module elsewhere unlocks the ones after it
+  useFocusEffect(
+    useCallback(() => {
+      refreshProgress();
+    }, [refreshProgress])
+  );
+
+  const completedModuleIds = useMemo(
+    () => (progress?.completedModules || []).map((completed) => completed.moduleId),
+    [progress]
+  );
+  const states = useMemo(
+    () => resolveModuleStates(modules, completedModuleIds),
+    [modules, completedModuleIds]
+  );
+
+  const openModule = (module: EducationModule) => {
+    const state = states[module.id];
+    if (state?.status === 'locked') {
+      const titles = state.missingPrerequisites.map((prerequisite) => prerequisite.title);
+      setLockedMessage(`Finish ${titles.join(', ')} to unlock ${module.title}.`);
+      return;
+    }
+
+    navigation.navigate('ModuleDetail', { moduleId: module.id });
+  };
+
+  const handleRefresh = () => {
+    refresh();
+    refreshProgress();
+  };
+
+  // Selecting the active filter again clears it
+  const toggleFilter = <K extends keyof EducationModuleFilters>(
+    key: K,
+    value: EducationModuleFilters[K]
+  ) => {
+    setFilters((current) => ({ ...current, [key]: current[key] === value ? undefined : value }));
+  };
+
+  if (isLoading || (user && isProgressLoading)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  const shown = filterEducationModules(modules, filters);
+  const paths = buildLearningPaths(modules, completedModuleIds).filter(
+    (path) => !filters.category || path.category === filters.category
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={view === 'modules' ? shown : []}
+        keyExtractor={(module) => module.id}
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={handleRefresh} />}
+        ListHeaderComponent={
+          <View style={styles.filters}>
+            <Button
+              mode="text"
+              icon="notebook-outline"
+              onPress={() => navigation.navigate('Reflections')}
+              textColor="#6366f1"
+              style={styles.reflectionsButton}
+            >
+              My reflections
+            </Button>
+            <SegmentedButtons
+              value={view}
+              onValueChange={(value) => setView(value as CatalogueView)}
+              buttons={[
+                { value: 'modules', label: 'All modules', icon: 'view-list' },
+                { value: 'paths', label: 'Learning paths', icon: 'map-marker-path' },
+              ]}
+              style={styles.viewToggle}
+            />
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {EDUCATION_CATEGORIES.map((category) => (
+                <Chip
+                  key={category}
+                  selected={filters.category === category}
+                  onPress={() => toggleFilter('category', category)}
+                  showSelectedOverlay
+                  style={styles.chip}
+                >
+                  {EDUCATION_CATEGORY_LABELS[category]}
+                </Chip>
+              ))}
+            </ScrollView>
+            {/* Paths take modules of every difficulty, in the order they unlock */}
+            {view === 'modules' && (
+              <View style={styles.difficultyRow}>
+                {DIFFICULTY_LEVELS.map((difficulty) => (
+                  <Chip
+                    key={difficulty}
+                    selected={filters.difficulty === difficulty}
+                    onPress={() => toggleFilter('difficulty', difficulty)}
+                    showSelectedOverlay
+                    style={styles.chip}
+                  >
+                    {DIFFICULTY_LEVEL_LABELS[difficulty]}
+                  </Chip>
+                ))}
+              </View>
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <ModuleCard module={item} state={states[item.id]} onPress={() => openModule(item)} />
+        )}
+        ListEmptyComponent={
+          view === 'modules' || paths.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {modules.length === 0
+                ? 'Learning modules will appear here once they are available.'
+                : 'No modules match these filters.'}
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          view === 'paths' ? (
+            <View>
+              {paths.map((path) => (
+                <LearningPathView
+                  key={path.category}
+                  path={path}
+                  onSelect={(step) => openModule(step.module)}
+                />
+              ))}
+            </View>
+          ) : null
+        }
+      />
+
+      {/* Locked module notice */}
+      <Snackbar visible={!!lockedMessage} onDismiss={() => setLockedMessage(null)} duration={4000}>
+        {lockedMessage}
+      </Snackbar>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!(error || progressError)}
+        onDismiss={() => {
+          clearError();
+          clearProgressError();
+        }}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error || progressError}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  filters: {
+    marginBottom: 16,
+  },
+  reflectionsButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  viewToggle: {
+    marginBottom: 12,
+  },
+  difficultyRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ModuleListScreen;
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Button, ProgressBar, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getEducationModule, recordModuleActivity } from '../../services/education';
+import { EducationModule, Quiz, QuizAnswer, QuizResult } from '../../types';
+import {
+  getModuleQuiz,
+  getPassThreshold,
+  isAnswerComplete,
+  scoreQuiz,
+  shuffleItemOrder,
+} from '../../utils/quiz';
+import { getModuleInteractionKey } from '../../utils/moduleCompletion';
+import QuizQuestionView from '../../components/common/QuizQuestionView';
+
+// Navigation types
+interface ModuleQuizScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params: {
+      moduleId: string;
+    };
+  };
+}
+
+// Ordering questions start shuffled; everything else starts unanswered
+const getStartingAnswers = (quiz: Quiz): Record<string, QuizAnswer> =>
+  Object.fromEntries(
+    quiz.questions.flatMap((question) =>
+      question.type === 'ordering' ? [[question.id, shuffleItemOrder(question.items.length)]] : []
+    )
+  );
+
+/**
+ * Runs a module's quiz one question at a time, showing whether each answer
+ * was right. The result counts towards the module's completion criteria.
+ */
+const ModuleQuizScreen: React.FC<ModuleQuizScreenProps> = ({ navigation, route }) => {
+  const { moduleId } = route.params;
+  const { user } = useAuth();
+  const [module, setModule] = useState<EducationModule | null>(null);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [revealed, setRevealed] = useState(false);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [moduleCompleted, setModuleCompleted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadQuiz = async () => {
+      try {
+        const foundModule = await getEducationModule(moduleId);
+        const found = foundModule ? getModuleQuiz(foundModule) : null;
+        if (isMounted) {
+          setModule(foundModule);
+          setQuiz(found);
+          setAnswers(found ? getStartingAnswers(found) : {});
+          setError(found ? null : 'This module has no quiz.');
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load the quiz.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadQuiz();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [moduleId]);
+
+  // Score the quiz and save the attempt, which may complete the module
+  const finish = async (finished: Quiz) => {
+    const quizResult = scoreQuiz(finished, answers);
+    setResult(quizResult);
+
+    if (!user || !module) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      const { isCompleted } = await recordModuleActivity(user.uid, module, {
+        interaction: getModuleInteractionKey(module, 'quiz'),
+        quizScore: quizResult.score,
+        quizPassed: quizResult.passed,
+      });
+      setModuleCompleted(isCompleted);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your result.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const restart = (current: Quiz) => {
+    setAnswers(getStartingAnswers(current));
+    setQuestionIndex(0);
+    setRevealed(false);
+    setResult(null);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const question = quiz.questions[questionIndex];
+  const isLastQuestion = questionIndex === quiz.questions.length - 1;
+
+  const handleAnswer = (answer: QuizAnswer) => {
+    setAnswers((current) => ({ ...current, [question.id]: answer }));
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {result ? (
+          // Results
+          <View style={styles.results}>
+            <Text style={styles.score}>{result.score}%</Text>
+            <Text style={styles.resultTitle}>
+              {result.passed ? 'You passed!' : 'Not quite there yet'}
+            </Text>
+            <Text style={styles.resultText}>
+              {result.correctCount} of {result.questionCount} questions right.{' '}
+              {result.passed
+                ? isSaving
+                  ? 'Saving your result...'
+                  : moduleCompleted
+                    ? 'This module is complete.'
+                    : 'Finish the rest of the module to complete it.'
+                : `You need ${getPassThreshold(quiz)}% to pass - have another look at the ` +
+                  'module and try again when you are ready.'}
+            </Text>
+            {isSaving && <ActivityIndicator color="#6366f1" style={styles.saving} />}
+            <Button
+              mode="contained"
+              onPress={navigation.goBack}
+              disabled={isSaving}
+              buttonColor="#6366f1"
+              style={styles.button}
+            >
+              Back to the module
+            </Button>
+            {!result.passed && (
+              <Button
+                mode="outlined"
+                onPress={() => restart(quiz)}
+                textColor="#6366f1"
+                style={styles.button}
+              >
+                Try again
+              </Button>
+            )}
+          </View>
+        ) : (
+          <>
+            {/* Progress */}
+            <Text style={styles.counter}>
+              {quiz.title ? `${quiz.title} · ` : ''}Question {questionIndex + 1} of{' '}
+              {quiz.questions.length}
+            </Text>
+            <ProgressBar
+              progress={(questionIndex + (revealed ? 1 : 0)) / quiz.questions.length}
+              color="#6366f1"
+              style={styles.progress}
+            />
+
+            <QuizQuestionView
+              key={question.id}
+              question={question}
+              answer={answers[question.id]}
+              onChange={handleAnswer}
+              revealed={revealed}
+            />
+
+            {revealed ? (
+              <Button
+                mode="contained"
+                onPress={() => {
+                  if (isLastQuestion) {
+                    finish(quiz);
+                  } else {
+                    setQuestionIndex(questionIndex + 1);
+                    setRevealed(false);
+                  }
+                }}
+                buttonColor="#6366f1"
+                style={styles.button}
+              >
+                {isLastQuestion ? 'See your result' : 'Next question'}
+              </Button>
+            ) : (
+              <Button
+                mode="contained"
+                onPress={() => setRevealed(true)}
+                disabled={!isAnswerComplete(question, answers[question.id])}
+                buttonColor="#6366f1"
+                style={styles.button}
+              >
+                Check answer
+              </Button>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  content: {
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  counter: {
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  progress: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  button: {
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  results: {
+    alignItems: 'stretch',
+    paddingTop: 32,
+  },
+  score: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#6366f1',
+    textAlign: 'center',
+  },
+  resultTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  resultText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    lineHeight: 24,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  saving: {
+    marginTop: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ModuleQuizScreen;
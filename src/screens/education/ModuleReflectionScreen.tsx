@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Text, Switch, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { getEducationModule, recordModuleActivity } from '../../services/education';
+import {
+  getModuleReflection,
+  saveModuleReflection,
+  setReflectionShared,
+} from '../../services/reflections';
+import {
+  EducationModule,
+  ModuleReflection,
+  ModuleReflectionFormData,
+  ReflectionPrompts,
+} from '../../types';
+import {
+  getModuleReflectionPrompts,
+  toReflectionFormData,
+  toReflectionResponses,
+} from '../../utils/reflections';
+import { getModuleInteractionKey } from '../../utils/moduleCompletion';
+import { formatShortDate, toDayKey } from '../../utils/date';
+import { toDate } from '../../utils/firestore';
+import ModuleReflectionForm from '../../components/forms/ModuleReflectionForm';
+
+// Navigation types
+interface ModuleReflectionScreenProps {
+  route: {
+    params: {
+      moduleId: string;
+    };
+  };
+}
+
+/**
+ * Private journaling on a module's reflection prompts, with the option to
+ * share the reflection with the patient's clinician
+ */
+const ModuleReflectionScreen: React.FC<ModuleReflectionScreenProps> = ({ route }) => {
+  const { moduleId } = route.params;
+  const { user } = useAuth();
+  const [module, setModule] = useState<EducationModule | null>(null);
+  const [prompts, setPrompts] = useState<ReflectionPrompts | null>(null);
+  const [reflection, setReflection] = useState<ModuleReflection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadReflection = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const [found, saved] = await Promise.all([
+          getEducationModule(moduleId),
+          getModuleReflection(user.uid, moduleId),
+        ]);
+        const foundPrompts = found ? getModuleReflectionPrompts(found) : null;
+        if (isMounted) {
+          setModule(found);
+          setPrompts(foundPrompts);
+          setReflection(saved);
+          setError(foundPrompts ? null : 'This module has no reflection questions.');
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load your reflection.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadReflection();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, moduleId]);
+
+  const handleSave = async (data: ModuleReflectionFormData) => {
+    if (!user || !module || !prompts) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      setReflection(
+        await saveModuleReflection(user.uid, module, toReflectionResponses(prompts.prompts, data))
+      );
+      // Writing the reflection counts towards completing the module
+      const { newlyCompleted } = await recordModuleActivity(user.uid, module, {
+        interaction: getModuleInteractionKey(module, 'reflection'),
+      });
+      setMessage(newlyCompleted ? 'Reflection saved - module complete!' : 'Reflection saved');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your reflection.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleShare = async (shared: boolean) => {
+    if (!user || !reflection) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSharing(true);
+      await setReflectionShared(user.uid, moduleId, shared);
+      // Re-read so the clinician it was shared with is shown as saved
+      setReflection(await getModuleReflection(user.uid, moduleId));
+      setMessage(shared ? 'Shared with your clinician' : 'Your reflection is private again');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update sharing.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!module || !prompts) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const isShared = !!reflection?.sharedWith;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>{prompts.title || `Reflecting on ${module.title}`}</Text>
+        <Text style={styles.intro}>
+          Your reflections are private. Only you can read them unless you choose to share one
+          with your clinician.
+        </Text>
+
+        <ModuleReflectionForm
+          prompts={prompts.prompts}
+          initialValues={toReflectionFormData(prompts.prompts, reflection)}
+          onSubmit={handleSave}
+          isSubmitting={isSaving}
+        />
+
+        {/* Sharing, once there is something saved to share */}
+        {reflection && (
+          <View style={styles.shareCard}>
+            <View style={styles.shareRow}>
+              <Text style={styles.shareLabel}>Share with my clinician</Text>
+              <Switch
+                value={isShared}
+                onValueChange={handleToggleShare}
+                disabled={isSharing}
+                color="#6366f1"
+              />
+            </View>
+            <Text style={styles.shareText}>
+              {isShared && reflection.sharedAt
+                ? `Shared on ${formatShortDate(toDayKey(toDate(reflection.sharedAt)))}. ` +
+                  'Changes you save will be shared too.'
+                : 'Your clinician will be able to read this reflection, and nothing else you ' +
+                  'have written.'}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Confirmation Snackbar */}
+      <Snackbar visible={!!message} onDismiss={() => setMessage(null)} duration={3000}>
+        {message}
+      </Snackbar>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  content: {
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  intro: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  shareCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 24,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  shareLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  shareText: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ModuleReflectionScreen;
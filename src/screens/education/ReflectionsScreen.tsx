@@ -0,0 +1,117 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { Text, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientReflections } from '../../services/reflections';
+import { ModuleReflection } from '../../types';
+import ReflectionCard from '../../components/common/ReflectionCard';
+
+// Navigation types
+interface ReflectionsScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+/**
+ * "My reflections": everything the patient has written across modules
+ */
+const ReflectionsScreen: React.FC<ReflectionsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [reflections, setReflections] = useState<ModuleReflection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReflections = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setReflections(await getPatientReflections(user.uid));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your reflections.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  // Reload on focus so edits and sharing changes show straight away
+  useFocusEffect(
+    useCallback(() => {
+      loadReflections();
+    }, [loadReflections])
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={reflections}
+        keyExtractor={(reflection) => reflection.id}
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={loadReflections} />}
+        renderItem={({ item }) => (
+          <ReflectionCard
+            reflection={item}
+            showSharing
+            onPress={() => navigation.navigate('ModuleReflection', { moduleId: item.moduleId })}
+          />
+        )}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            Modules with reflection questions let you write down your thoughts. What you write
+            will be kept here.
+          </Text>
+        }
+      />
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ReflectionsScreen;
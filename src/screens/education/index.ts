@@ -1,3 +1,6 @@
 // Education screens exports
-// Add your education screens here as you create them
-// Example: export { default as EducationScreen } from './EducationScreen';
+export { default as ModuleListScreen } from './ModuleListScreen';
+export { default as ModuleDetailScreen } from './ModuleDetailScreen';
+export { default as ModuleQuizScreen } from './ModuleQuizScreen';
+export { default as ModuleReflectionScreen } from './ModuleReflectionScreen';
+export { default as ReflectionsScreen } from './ReflectionsScreen';
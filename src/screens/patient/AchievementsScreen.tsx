@@ -0,0 +1,189 @@
+import React, { useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, Avatar, ProgressBar, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { useProgress } from '../../hooks/useProgress';
+import { AchievementCategory } from '../../types';
+import { ACHIEVEMENT_CATEGORY_LABELS, ACHIEVEMENT_RULES } from '../../constants/achievements';
+import { getAchievementProgress, getAchievementStats } from '../../utils/achievements';
+import { formatShortDate, toDayKey } from '../../utils/date';
+import { toDate } from '../../utils/firestore';
+
+/**
+ * Gallery of every achievement, earned or still to come
+ */
+const AchievementsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const { progress, isLoading, error, refresh, clearError } = useProgress(user?.uid);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  const earned = new Map(
+    (progress?.achievements || []).map((achievement) => [achievement.id, achievement])
+  );
+  const stats = getAchievementStats(progress || {});
+  const categories = Object.keys(ACHIEVEMENT_CATEGORY_LABELS) as AchievementCategory[];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+      >
+        <Text style={styles.summary}>
+          {earned.size} of {ACHIEVEMENT_RULES.length} earned
+        </Text>
+
+        {categories.map((category) => (
+          <View key={category}>
+            <Text style={styles.sectionTitle}>{ACHIEVEMENT_CATEGORY_LABELS[category]}</Text>
+            <View style={styles.card}>
+              {ACHIEVEMENT_RULES.filter((rule) => rule.category === category).map((rule) => {
+                const achievement = earned.get(rule.id);
+                const current = Math.min(stats[rule.metric], rule.threshold);
+
+                return (
+                  <View key={rule.id} style={styles.row}>
+                    <Avatar.Icon
+                      size={44}
+                      icon={rule.icon}
+                      color="#ffffff"
+                      style={achievement ? styles.earnedIcon : styles.lockedIcon}
+                    />
+                    <View style={styles.rowText}>
+                      <Text style={[styles.title, !achievement && styles.lockedText]}>
+                        {rule.title}
+                      </Text>
+                      <Text style={styles.description}>{rule.description}</Text>
+                      {achievement ? (
+                        <Text style={styles.earnedAt}>
+                          Earned {formatShortDate(toDayKey(toDate(achievement.earnedAt)))}
+                        </Text>
+                      ) : (
+                        rule.threshold > 1 && (
+                          <View style={styles.progress}>
+                            <ProgressBar
+                              progress={getAchievementProgress(rule, stats)}
+                              color="#6366f1"
+                              style={styles.progressBar}
+                            />
+                            <Text style={styles.progressText}>
+                              {current} of {rule.threshold}
+                            </Text>
+                          </View>
+                        )
+                      )}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar visible={!!error} onDismiss={clearError} duration={5000} style={styles.snackbar}>
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  summary: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  earnedIcon: {
+    backgroundColor: '#6366f1',
+  },
+  lockedIcon: {
+    backgroundColor: '#bdc3c7',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  lockedText: {
+    color: '#7f8c8d',
+  },
+  description: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  earnedAt: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginTop: 4,
+  },
+  progress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  progressBar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 8,
+  },
+  progressText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default AchievementsScreen;
@@ -0,0 +1,147 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Title, Paragraph, Button, ActivityIndicator } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getCheckIn } from '../../services/checkIns';
+import { CheckInSurvey } from '../../types';
+import { toDate } from '../../utils/firestore';
+import { formatDayLabel, formatTime, toDayKey } from '../../utils/date';
+import { isWithinEditWindow } from '../../utils/checkInRevisions';
+import { ReviewStep } from '../../components/forms/checkIn';
+
+// Navigation types
+interface CheckInDetailScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+  route: {
+    params: {
+      checkInId: string;
+    };
+  };
+}
+
+/**
+ * Read-only view of a past check-in, with editing while it is recent
+ */
+const CheckInDetailScreen: React.FC<CheckInDetailScreenProps> = ({ navigation, route }) => {
+  const { checkInId } = route.params;
+  const { user } = useAuth();
+  const [checkIn, setCheckIn] = useState<CheckInSurvey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on focus so saved edits show straight away
+  useFocusEffect(
+    useCallback(() => {
+      let isMounted = true;
+
+      const loadCheckIn = async () => {
+        if (!user) {
+          return;
+        }
+
+        try {
+          const found = await getCheckIn(user.uid, checkInId);
+          if (isMounted) {
+            setCheckIn(found);
+            setError(found ? null : 'This check-in could not be found.');
+          }
+        } catch (error) {
+          if (isMounted) {
+            setError(error instanceof Error ? error.message : 'Failed to load this check-in.');
+          }
+        } finally {
+          if (isMounted) {
+            setIsLoading(false);
+          }
+        }
+      };
+
+      loadCheckIn();
+
+      return () => {
+        isMounted = false;
+      };
+    }, [user, checkInId])
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!checkIn) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const completedAt = toDate(checkIn.completedAt);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {/* Header */}
+      <Title style={styles.title}>{formatDayLabel(toDayKey(completedAt))}</Title>
+      <Paragraph style={styles.subtitle}>
+        Completed at {formatTime(completedAt)}
+        {checkIn.editedAt ? ` · edited ${formatDayLabel(toDayKey(toDate(checkIn.editedAt)))}` : ''}
+      </Paragraph>
+
+      <ReviewStep values={checkIn} />
+
+      {isWithinEditWindow(completedAt) && (
+        <Button
+          mode="outlined"
+          icon="pencil"
+          onPress={() => navigation.navigate('EditCheckIn', { checkInId })}
+          style={styles.editButton}
+        >
+          Correct this check-in
+        </Button>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  editButton: {
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+});
+
+export default CheckInDetailScreen;
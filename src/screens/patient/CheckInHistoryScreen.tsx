@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, FlatList, ScrollView, RefreshControl } from 'react-native';
+import { Text, SegmentedButtons, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useCheckInHistory } from '../../hooks/useCheckInHistory';
+import { getCheckInsInRange } from '../../services/checkIns';
+import { CheckInSurvey } from '../../types';
+import { summarizeCheckInsByDay } from '../../utils/checkInHistory';
+import { formatDayLabel, toDayKey } from '../../utils/date';
+import { toDate } from '../../utils/firestore';
+import CheckInCalendar from '../../components/common/CheckInCalendar';
+import CheckInListItem from '../../components/common/CheckInListItem';
+
+// Navigation types
+interface CheckInHistoryScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+type HistoryView = 'calendar' | 'list';
+
+const VIEW_OPTIONS = [
+  { value: 'calendar', label: 'Calendar', icon: 'calendar-month' },
+  { value: 'list', label: 'List', icon: 'format-list-bulleted' },
+];
+
+/**
+ * Past check-ins as a mood calendar or an infinite list
+ */
+const CheckInHistoryScreen: React.FC<CheckInHistoryScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [view, setView] = useState<HistoryView>('calendar');
+  const history = useCheckInHistory(user?.uid);
+
+  // Calendar state
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [monthCheckIns, setMonthCheckIns] = useState<CheckInSurvey[]>([]);
+  const [selectedDay, setSelectedDay] = useState(toDayKey(new Date()));
+  const [isMonthLoading, setIsMonthLoading] = useState(true);
+  const [monthError, setMonthError] = useState<string | null>(null);
+
+  const loadMonth = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setMonthError(null);
+      setIsMonthLoading(true);
+      const start = new Date(month.year, month.month, 1);
+      const end = new Date(month.year, month.month + 1, 1);
+      setMonthCheckIns(await getCheckInsInRange(user.uid, start, end));
+    } catch (error) {
+      setMonthError(error instanceof Error ? error.message : 'Failed to load this month.');
+    } finally {
+      setIsMonthLoading(false);
+    }
+  }, [user, month]);
+
+  useEffect(() => {
+    loadMonth();
+  }, [loadMonth]);
+
+  const openCheckIn = (checkIn: CheckInSurvey) =>
+    navigation.navigate('CheckInDetail', { checkInId: checkIn.id });
+
+  const summaries = summarizeCheckInsByDay(monthCheckIns);
+  const selectedCheckIns = monthCheckIns.filter(
+    (checkIn) => toDayKey(toDate(checkIn.completedAt)) === selectedDay
+  );
+
+  const renderCalendar = () => (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isMonthLoading} onRefresh={loadMonth} />}
+    >
+      <CheckInCalendar
+        year={month.year}
+        month={month.month}
+        summaries={summaries}
+        selectedDay={selectedDay}
+        onSelectDay={setSelectedDay}
+        onChangeMonth={(year, newMonth) => setMonth({ year, month: newMonth })}
+      />
+
+      {/* Check-ins on the selected day */}
+      <Text style={styles.sectionTitle}>{formatDayLabel(selectedDay)}</Text>
+      {selectedCheckIns.length > 0 ? (
+        selectedCheckIns.map((checkIn) => (
+          <CheckInListItem key={checkIn.id} checkIn={checkIn} onPress={() => openCheckIn(checkIn)} />
+        ))
+      ) : (
+        <Text style={styles.emptyText}>
+          {isMonthLoading ? 'Loading...' : 'No check-in on this day.'}
+        </Text>
+      )}
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <FlatList
+      data={history.checkIns}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={history.isLoading} onRefresh={history.refresh} />
+      }
+      onEndReached={history.loadMore}
+      onEndReachedThreshold={0.5}
+      renderItem={({ item }) => <CheckInListItem checkIn={item} onPress={() => openCheckIn(item)} />}
+      ListEmptyComponent={
+        history.isLoading ? null : (
+          <Text style={styles.emptyText}>Your completed check-ins will appear here.</Text>
+        )
+      }
+      ListFooterComponent={
+        history.isLoadingMore ? <ActivityIndicator style={styles.footer} color="#6366f1" /> : null
+      }
+    />
+  );
+
+  const error = view === 'calendar' ? monthError : history.error;
+
+  return (
+    <View style={styles.container}>
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as HistoryView)}
+        buttons={VIEW_OPTIONS}
+        style={styles.viewToggle}
+      />
+
+      {view === 'calendar' ? renderCalendar() : renderList()}
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => (view === 'calendar' ? setMonthError(null) : history.clearError())}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  viewToggle: {
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  footer: {
+    marginVertical: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default CheckInHistoryScreen;
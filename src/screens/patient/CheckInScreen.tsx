@@ -0,0 +1,477 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  Text,
+  Button,
+  Card,
+  Title,
+  Paragraph,
+  ProgressBar,
+  ActivityIndicator,
+  Snackbar,
+} from 'react-native-paper';
+import { useForm, SubmitHandler, SubmitErrorHandler, get } from 'react-hook-form';
+import { useFocusEffect } from '@react-navigation/native';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { useAuth } from '../../context/AuthContext';
+import { submitCheckIn } from '../../services/checkIns';
+import { getEpisodesForNextCheckIn } from '../../services/episodeLogs';
+import { recordCheckInProgress } from '../../services/progress';
+import { checkRelapseWarnings } from '../../services/relapseWarnings';
+import { evaluateAchievements } from '../../services/achievements';
+import { useCheckInDraft } from '../../hooks/useCheckInDraft';
+import { useCheckInTemplate } from '../../hooks/useCheckInTemplate';
+import { Achievement, CheckInFormData, CheckInStep, MoodScale } from '../../types';
+import {
+  CHECK_IN_STEP_FIELDS,
+  CHECK_IN_STEP_TITLES,
+  DEFAULT_CHECK_IN_VALUES,
+} from '../../constants/checkIn';
+import { buildCheckInSchema } from '../../utils/checkInTemplateValidation';
+import {
+  getSectionQuestions,
+  getTemplateFormValues,
+  getTemplateStepFields,
+  getTemplateSteps,
+} from '../../utils/checkInTemplates';
+import { CheckInStepFields, ReviewStep } from '../../components/forms/checkIn';
+import SyncStatusBanner from '../../components/common/SyncStatusBanner';
+
+const CheckInScreen: React.FC = () => {
+  const { user } = useAuth();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showRestoredNotice, setShowRestoredNotice] = useState(false);
+  const { draft, isLoading: isDraftLoading, saveDraft, clearDraft } = useCheckInDraft(user?.uid);
+  const { template, templateId, isLoading: isTemplateLoading } = useCheckInTemplate(user?.uid);
+  const stepIndexRef = useRef(stepIndex);
+  const steps = getTemplateSteps(template);
+
+  // Form setup - validation runs per step via trigger()
+  const {
+    control,
+    handleSubmit,
+    trigger,
+    getValues,
+    setValue,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<CheckInFormData>({
+    resolver: yupResolver(buildCheckInSchema(template)),
+    mode: 'onTouched',
+    defaultValues: DEFAULT_CHECK_IN_VALUES,
+  });
+
+  // Record the template layout with the answers
+  const applyTemplate = useCallback(() => {
+    const templateValues = getTemplateFormValues(template, templateId);
+    setValue('templateId', templateValues.templateId);
+    setValue('customQuestions', templateValues.customQuestions);
+    setValue('omittedFields', templateValues.omittedFields);
+  }, [template, templateId, setValue]);
+
+  useEffect(() => {
+    applyTemplate();
+  }, [applyTemplate]);
+
+  // Restore an unfinished check-in
+  useEffect(() => {
+    if (draft) {
+      // Drafts saved by an older version may lack newer fields
+      reset({ ...DEFAULT_CHECK_IN_VALUES, ...draft.data });
+      applyTemplate();
+      stepIndexRef.current = draft.stepIndex;
+      setStepIndex(draft.stepIndex);
+      setShowRestoredNotice(true);
+    }
+    // Only a new draft is restored; template changes are applied above
+  }, [draft, reset]);
+
+  // Autosave answers as the patient goes
+  useEffect(() => {
+    const subscription = watch((values, { name }) => {
+      // Resets also notify watchers; only field edits are worth saving
+      if (name) {
+        saveDraft(values as CheckInFormData, stepIndexRef.current);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [watch, saveDraft]);
+
+  // Autosave the current step so the wizard reopens where it was left
+  useEffect(() => {
+    if (stepIndexRef.current !== stepIndex) {
+      stepIndexRef.current = stepIndex;
+      saveDraft(getValues(), stepIndex);
+    }
+  }, [stepIndex, getValues, saveDraft]);
+
+  // Carry over episodes logged since the last check-in (skipping any already added)
+  const addLoggedEpisodes = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    const loggedEpisodes = await getEpisodesForNextCheckIn(user.uid);
+    const currentEpisodes = getValues('bingeEpisodes.episodes');
+    const newEpisodes = loggedEpisodes.filter(
+      (episode) =>
+        !currentEpisodes.some((existing) => existing.episodeLogId === episode.episodeLogId)
+    );
+
+    if (newEpisodes.length > 0) {
+      setValue(
+        'bingeEpisodes',
+        { hadBingeEpisode: true, episodes: [...currentEpisodes, ...newEpisodes] },
+        { shouldDirty: true }
+      );
+
+      // Logged episodes were urges acted on; keep the strongest rating
+      const urges = getValues('urges');
+      const ratings = [urges.peakIntensity, ...newEpisodes.map((episode) => episode.urgeIntensity)]
+        .filter((intensity): intensity is MoodScale => intensity !== undefined);
+      const peakIntensity = ratings.length > 0 ? (Math.max(...ratings) as MoodScale) : undefined;
+      setValue('urges', { hadUrge: true, actedOn: true, peakIntensity }, { shouldDirty: true });
+
+      const loggedBehaviors = newEpisodes.flatMap((episode) => episode.compensatoryBehaviors || []);
+      if (loggedBehaviors.length > 0) {
+        const { behaviors } = getValues('compensatoryBehaviors');
+        setValue(
+          'compensatoryBehaviors',
+          { engaged: true, behaviors: Array.from(new Set([...behaviors, ...loggedBehaviors])) },
+          { shouldDirty: true }
+        );
+      }
+    }
+  }, [user, getValues, setValue]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!isDraftLoading) {
+        addLoggedEpisodes();
+      }
+    }, [isDraftLoading, addLoggedEpisodes])
+  );
+
+  // A draft may have been saved against a longer template
+  const currentIndex = Math.min(stepIndex, steps.length - 1);
+  const currentStep = steps[currentIndex];
+  const isFirstStep = currentIndex === 0;
+  const isReviewStep = currentStep === 'review';
+  const isOptionalStep = !isReviewStep && template.sections[currentStep] === 'optional';
+
+  // Validate the current step before moving on
+  const handleNext = async () => {
+    const isStepValid = await trigger(getTemplateStepFields(template, currentStep));
+    if (isStepValid) {
+      // Answering a previously skipped section counts it again
+      const skippedSections = getValues('skippedSections') || [];
+      if (skippedSections.some((section) => section === currentStep)) {
+        setValue(
+          'skippedSections',
+          skippedSections.filter((section) => section !== currentStep)
+        );
+      }
+      setStepIndex(Math.min(currentIndex + 1, steps.length - 1));
+    }
+  };
+
+  // Leave an optional section unanswered; its answers go back to the defaults
+  const handleSkip = () => {
+    if (currentStep === 'review') {
+      return;
+    }
+
+    const values = getValues();
+    const customAnswers = { ...values.customAnswers };
+    getSectionQuestions(template, currentStep).forEach((question) => {
+      delete customAnswers[question.id];
+    });
+
+    reset(
+      {
+        ...values,
+        ...Object.fromEntries(
+          CHECK_IN_STEP_FIELDS[currentStep].map((field) => [field, DEFAULT_CHECK_IN_VALUES[field]])
+        ),
+        customAnswers,
+        skippedSections: [
+          ...(values.skippedSections || []).filter((section) => section !== currentStep),
+          currentStep,
+        ],
+      },
+      { keepDefaultValues: true }
+    );
+    setStepIndex(Math.min(currentIndex + 1, steps.length - 1));
+  };
+
+  const handleBack = () => {
+    setStepIndex((index) => Math.max(index - 1, 0));
+  };
+
+  const goToStep = (step: CheckInStep) => {
+    setStepIndex(steps.indexOf(step));
+  };
+
+  // Handle check-in submission
+  const onSubmit: SubmitHandler<CheckInFormData> = async (data) => {
+    if (!user) {
+      setError('You need to be signed in to save a check-in.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSubmitting(true);
+      const checkIn = await submitCheckIn(user.uid, data);
+      // Update progress metrics, then look for new achievements, in the background
+      recordCheckInProgress(user.uid, checkIn)
+        .then(() => evaluateAchievements(user.uid))
+        .then(setNewAchievements);
+      // Let the patient's clinician know of any early warning signs
+      checkRelapseWarnings(user.uid);
+      await clearDraft();
+      setIsComplete(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your check-in.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Jump back to the first step with errors if final validation fails
+  const onInvalid: SubmitErrorHandler<CheckInFormData> = (formErrors) => {
+    const invalidStep = steps.find((step) =>
+      getTemplateStepFields(template, step).some((field) => get(formErrors, field))
+    );
+    if (invalidStep) {
+      goToStep(invalidStep);
+    }
+  };
+
+  const startNewCheckIn = () => {
+    reset(DEFAULT_CHECK_IN_VALUES);
+    applyTemplate();
+    stepIndexRef.current = 0;
+    setStepIndex(0);
+    setIsComplete(false);
+    setNewAchievements([]);
+    addLoggedEpisodes();
+  };
+
+  // Discard a restored draft and start from scratch
+  const discardDraft = async () => {
+    setShowRestoredNotice(false);
+    await clearDraft();
+    startNewCheckIn();
+  };
+
+  const renderStep = () =>
+    currentStep === 'review' ? (
+      <ReviewStep values={getValues()} onEditStep={goToStep} />
+    ) : (
+      <CheckInStepFields
+        step={currentStep}
+        template={template}
+        control={control}
+        errors={errors}
+      />
+    );
+
+  if (isTemplateLoading) {
+    return (
+      <View style={styles.completeContainer}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (isComplete) {
+    return (
+      <View style={styles.completeContainer}>
+        <Title style={styles.title}>Check-in saved</Title>
+        <Paragraph style={styles.subtitle}>
+          Thank you for taking a moment for yourself today.
+        </Paragraph>
+        {newAchievements.map((achievement) => (
+          <Paragraph key={achievement.id} style={styles.achievement}>
+            New achievement: {achievement.title}
+          </Paragraph>
+        ))}
+        <Button mode="contained" onPress={startNewCheckIn} style={styles.button}>
+          Done
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <SyncStatusBanner />
+
+      {/* Step progress */}
+      <View style={styles.progressContainer}>
+        <Text style={styles.stepCounter}>
+          Step {currentIndex + 1} of {steps.length}
+        </Text>
+        <ProgressBar
+          progress={(currentIndex + 1) / steps.length}
+          color="#6366f1"
+          style={styles.progressBar}
+        />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Title style={styles.title}>{CHECK_IN_STEP_TITLES[currentStep]}</Title>
+        <Card style={styles.card}>
+          <Card.Content>{renderStep()}</Card.Content>
+        </Card>
+        {isOptionalStep && (
+          <Button mode="text" onPress={handleSkip} disabled={isSubmitting}>
+            Skip this section
+          </Button>
+        )}
+      </ScrollView>
+
+      {/* Step navigation */}
+      <View style={styles.footer}>
+        <Button
+          mode="outlined"
+          onPress={handleBack}
+          disabled={isFirstStep || isSubmitting}
+          style={[styles.button, styles.footerButton]}
+        >
+          Back
+        </Button>
+        {isReviewStep ? (
+          <Button
+            mode="contained"
+            onPress={handleSubmit(onSubmit, onInvalid)}
+            disabled={isSubmitting}
+            style={[styles.button, styles.footerButton]}
+          >
+            {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Submit'}
+          </Button>
+        ) : (
+          <Button
+            mode="contained"
+            onPress={handleNext}
+            style={[styles.button, styles.footerButton]}
+          >
+            Next
+          </Button>
+        )}
+      </View>
+
+      {/* Restored draft notice */}
+      <Snackbar
+        visible={showRestoredNotice}
+        onDismiss={() => setShowRestoredNotice(false)}
+        duration={5000}
+        action={{ label: 'Start over', onPress: discardDraft }}
+      >
+        We saved your unfinished check-in.
+      </Snackbar>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  progressContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  stepCounter: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginBottom: 6,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  achievement: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  card: {
+    elevation: 4,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  footerButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  button: {
+    borderRadius: 8,
+  },
+  completeContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f5f5f5',
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default CheckInScreen;
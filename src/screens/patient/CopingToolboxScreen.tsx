@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, List, IconButton, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useCopingToolbox } from '../../hooks/useCopingToolbox';
+import { COPING_STRATEGY_OPTIONS } from '../../constants/checkIn';
+import { CopingToolboxEntry, normalizeStrategy } from '../../utils/copingToolbox';
+import { formatShortDate, toDayKey } from '../../utils/date';
+
+const describeEntry = (entry: CopingToolboxEntry): string => {
+  if (entry.uses === 0) {
+    return 'Not tried yet';
+  }
+
+  const helped = `Helped ${entry.helpfulUses} of ${entry.uses} time${entry.uses === 1 ? '' : 's'}`;
+  return entry.lastUsedAt
+    ? `${helped} · last used ${formatShortDate(toDayKey(entry.lastUsedAt))}`
+    : helped;
+};
+
+/**
+ * The coping strategies the patient has tried, ranked by how much they
+ * helped, with favourites pinned to the top
+ */
+const CopingToolboxScreen: React.FC = () => {
+  const { user } = useAuth();
+  const { toolbox, isLoading, error, refresh, setPinned, clearError } = useCopingToolbox(
+    user?.uid
+  );
+  const [savingStrategy, setSavingStrategy] = useState<string | null>(null);
+
+  const handleTogglePin = async (strategy: string, pinned: boolean) => {
+    setSavingStrategy(strategy);
+    await setPinned(strategy, pinned);
+    setSavingStrategy(null);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  const toolboxKeys = toolbox.map((entry) => entry.key);
+  const ideas = COPING_STRATEGY_OPTIONS.filter(
+    (strategy) => !toolboxKeys.includes(normalizeStrategy(strategy))
+  );
+
+  const renderPinButton = (strategy: string, isPinned: boolean) => (
+    <IconButton
+      icon={isPinned ? 'pin' : 'pin-outline'}
+      iconColor={isPinned ? '#6366f1' : '#7f8c8d'}
+      accessibilityLabel={isPinned ? `Unpin ${strategy}` : `Pin ${strategy}`}
+      disabled={savingStrategy !== null}
+      onPress={() => handleTogglePin(strategy, !isPinned)}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+      >
+        <Text style={styles.intro}>
+          Ranked by how helpful you rated each strategy in your check-ins. Pin your favourites
+          to keep them at the top - they'll be suggested when things get hard.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Your toolbox</Text>
+        <View style={styles.card}>
+          {toolbox.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Strategies you use and rate in your check-ins will show up here.
+            </Text>
+          ) : (
+            toolbox.map((entry) => (
+              <List.Item
+                key={entry.key}
+                title={entry.strategy}
+                description={describeEntry(entry)}
+                left={(props) => (
+                  <List.Icon
+                    {...props}
+                    icon={entry.helpfulUses > 0 ? 'star' : 'star-outline'}
+                    color="#6366f1"
+                  />
+                )}
+                right={() => renderPinButton(entry.strategy, entry.isPinned)}
+              />
+            ))
+          )}
+        </View>
+
+        {ideas.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Ideas to try</Text>
+            <View style={styles.card}>
+              {ideas.map((strategy) => (
+                <List.Item
+                  key={strategy}
+                  title={strategy}
+                  left={(props) => <List.Icon {...props} icon="lightbulb-outline" />}
+                  right={() => renderPinButton(strategy, false)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar visible={!!error} onDismiss={clearError} duration={5000} style={styles.snackbar}>
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    padding: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default CopingToolboxScreen;
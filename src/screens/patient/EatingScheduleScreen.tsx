@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Title, Paragraph, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useEatingSchedule } from '../../hooks/useEatingSchedule';
+import EatingScheduleForm from '../../components/forms/EatingScheduleForm';
+import AdherenceSummary from '../../components/common/AdherenceSummary';
+
+/**
+ * Patient's regular eating plan: planned meal and snack times with reminders
+ */
+const EatingScheduleScreen: React.FC = () => {
+  const { user } = useAuth();
+  const editor = useMemo(() => (user ? { id: user.uid, role: 'patient' as const } : null), [user]);
+  const { schedule, isCustomSchedule, adherence, isLoading, isSaving, error, clearError, save } =
+    useEatingSchedule(user?.uid, editor);
+
+  if (isLoading || !schedule) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <Title style={styles.title}>Regular eating</Title>
+        <Paragraph style={styles.subtitle}>
+          {isCustomSchedule
+            ? 'Eating at planned times, without long gaps, makes binges less likely.'
+            : 'Here is a suggested plan of 3 meals and 3 snacks. Adjust the times to fit your day.'}
+        </Paragraph>
+
+        {adherence && adherence.planned > 0 && <AdherenceSummary adherence={adherence} />}
+
+        <EatingScheduleForm initialValues={schedule} onSubmit={save} isSubmitting={isSaving} />
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar visible={!!error} onDismiss={clearError} duration={5000} style={styles.snackbar}>
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default EatingScheduleScreen;
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Button, Card, Title, Paragraph, ActivityIndicator, Snackbar, Text } from 'react-native-paper';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { useAuth } from '../../context/AuthContext';
+import { getCheckIn, updateCheckIn } from '../../services/checkIns';
+import { recomputeProgressMetrics } from '../../services/progress';
+import { CheckInFormData, CheckInSection, CheckInTemplateFormData } from '../../types';
+import {
+  CHECK_IN_EDIT_WINDOW_HOURS,
+  CHECK_IN_STEP_TITLES,
+  DEFAULT_CHECK_IN_VALUES,
+} from '../../constants/checkIn';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../../constants/checkInTemplates';
+import { buildCheckInSchema } from '../../utils/checkInTemplateValidation';
+import { getCheckInLayout, getTemplateSteps } from '../../utils/checkInTemplates';
+import { getCheckInFormData } from '../../utils/checkInRevisions';
+import { CheckInStepFields } from '../../components/forms/checkIn';
+
+// Navigation types
+interface EditCheckInScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params: {
+      checkInId: string;
+    };
+  };
+}
+
+/**
+ * Correct a recent check-in. The previous answers are kept as a revision
+ * that the patient's clinician can see.
+ */
+const EditCheckInScreen: React.FC<EditCheckInScreenProps> = ({ navigation, route }) => {
+  const { checkInId } = route.params;
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<CheckInTemplateFormData>(DEFAULT_CHECK_IN_TEMPLATE);
+
+  // Only the sections the check-in was answered with can be edited
+  const editableSteps = getTemplateSteps(layout).filter(
+    (step): step is CheckInSection => step !== 'review'
+  );
+
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<CheckInFormData>({
+    resolver: yupResolver(buildCheckInSchema(layout)),
+    defaultValues: DEFAULT_CHECK_IN_VALUES,
+  });
+
+  // Load the saved answers
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCheckIn = async () => {
+      if (!user) {
+        return;
+      }
+
+      try {
+        const checkIn = await getCheckIn(user.uid, checkInId);
+        if (!isMounted) {
+          return;
+        }
+        if (checkIn) {
+          const values = { ...DEFAULT_CHECK_IN_VALUES, ...getCheckInFormData(checkIn) };
+          setLayout(getCheckInLayout(values));
+          reset(values);
+        } else {
+          setError('This check-in could not be found.');
+        }
+      } catch (error) {
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : 'Failed to load this check-in.');
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadCheckIn();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user, checkInId, reset]);
+
+  // Handle save
+  const onSubmit: SubmitHandler<CheckInFormData> = async (data) => {
+    if (!user) {
+      setError('You need to be signed in to edit a check-in.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSubmitting(true);
+      await updateCheckIn(user.uid, checkInId, data);
+      // Edited answers can change past days, so rebuild progress in the background
+      recomputeProgressMetrics(user.uid);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your changes.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <Title style={styles.title}>Edit check-in</Title>
+        <Paragraph style={styles.subtitle}>
+          Check-ins can be corrected for {CHECK_IN_EDIT_WINDOW_HOURS} hours. Your original answers
+          are kept, and your clinician can see what changed.
+        </Paragraph>
+
+        {editableSteps.map((step) => (
+          <Card key={step} style={styles.card}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>{CHECK_IN_STEP_TITLES[step]}</Text>
+              <CheckInStepFields
+                step={step}
+                template={layout}
+                control={control}
+                errors={errors}
+              />
+            </Card.Content>
+          </Card>
+        ))}
+      </ScrollView>
+
+      {/* Save Button */}
+      <View style={styles.footer}>
+        <Button
+          mode="contained"
+          onPress={handleSubmit(onSubmit, () => setError('Please check the highlighted answers.'))}
+          disabled={isSubmitting}
+          style={styles.saveButton}
+          contentStyle={styles.buttonContent}
+        >
+          {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save changes'}
+        </Button>
+      </View>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  card: {
+    elevation: 4,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  saveButton: {
+    borderRadius: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default EditCheckInScreen;
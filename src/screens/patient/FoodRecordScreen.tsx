@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Button, Card, Paragraph, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { addFoodRecord, getFoodRecordsForDay } from '../../services/foodRecords';
+import { refreshEatingAdherence } from '../../services/eatingSchedule';
+import { FoodRecord, FoodRecordFormData } from '../../types';
+import { toDayKey } from '../../utils/date';
+import DaySelector from '../../components/common/DaySelector';
+import FoodRecordDayView from '../../components/common/FoodRecordDayView';
+import FoodRecordForm from '../../components/forms/FoodRecordForm';
+
+// Navigation types
+interface FoodRecordScreenProps {
+  route: {
+    params?: {
+      day?: string;
+    };
+  };
+}
+
+/**
+ * Daily food and eating record. Entries are best made soon after eating.
+ */
+const FoodRecordScreen: React.FC<FoodRecordScreenProps> = ({ route }) => {
+  const { user } = useAuth();
+  const [day, setDay] = useState(route.params?.day || toDayKey(new Date()));
+  const [records, setRecords] = useState<FoodRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load records for the selected day
+  const loadRecords = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    setIsLoading(true);
+    setRecords(await getFoodRecordsForDay(user.uid, day));
+    setIsLoading(false);
+  }, [user, day]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  // Handle new entry submission
+  const handleAddRecord = async (data: FoodRecordFormData) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSubmitting(true);
+      await addFoodRecord(user.uid, data);
+      setIsAdding(false);
+      // Update the regular eating adherence metric in the background
+      refreshEatingAdherence(user.uid);
+      await loadRecords();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your food record.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <DaySelector day={day} onChange={setDay} />
+
+        {isAdding ? (
+          <Card style={styles.card}>
+            <Card.Title title="New entry" />
+            <Card.Content>
+              <FoodRecordForm
+                day={day}
+                onSubmit={handleAddRecord}
+                onCancel={() => setIsAdding(false)}
+                isSubmitting={isSubmitting}
+              />
+            </Card.Content>
+          </Card>
+        ) : (
+          <Button
+            mode="contained"
+            icon="plus"
+            onPress={() => setIsAdding(true)}
+            style={styles.addButton}
+          >
+            Add what you ate
+          </Button>
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#6366f1" />
+        ) : (
+          <FoodRecordDayView
+            records={records}
+            emptyMessage="No entries yet. Try recording each time you eat - it gets easier."
+          />
+        )}
+
+        <Paragraph style={styles.hint}>
+          Mark anything that felt like a binge with * - it helps you and your clinician see
+          patterns, not judge them.
+        </Paragraph>
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  card: {
+    elevation: 4,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  addButton: {
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default FoodRecordScreen;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Paragraph, Snackbar } from 'react-native-paper';
+import { useAuth } from '../../context/AuthContext';
+import { useProgress } from '../../hooks/useProgress';
+import { createGoal } from '../../services/goals';
+import { GoalFormData } from '../../types';
+import GoalForm from '../../components/forms/GoalForm';
+
+// Navigation types
+interface GoalEditorScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+}
+
+/**
+ * Set a new goal
+ */
+const GoalEditorScreen: React.FC<GoalEditorScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { progress } = useProgress(user?.uid);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (data: GoalFormData) => {
+    if (!user) {
+      setError('You need to be signed in to save a goal.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      await createGoal(user.uid, data);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your goal.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Paragraph style={styles.subtitle}>
+          Pick something specific you can work on, and a date to aim for. Breaking it into
+          steps makes it easier to see how far you've come.
+        </Paragraph>
+        <GoalForm onSubmit={handleSave} isSubmitting={isSaving} progress={progress} />
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default GoalEditorScreen;
@@ -0,0 +1,227 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, Button, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { useProgress } from '../../hooks/useProgress';
+import {
+  completeGoal,
+  deleteGoal,
+  respondToSuggestedGoal,
+  toggleMilestone,
+} from '../../services/goals';
+import { Goal } from '../../types';
+import GoalCard from '../../components/common/GoalCard';
+
+// Navigation types
+interface GoalsScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+/**
+ * The patient's goals: suggestions to consider, goals in progress and goals achieved
+ */
+const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const { progress, isLoading, error: loadError, refresh, clearError } = useProgress(user?.uid);
+  const [busyGoalId, setBusyGoalId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  // Run a goal change, then reload
+  const runGoalAction = async (goalId: string, action: (patientId: string) => Promise<Goal[]>) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setBusyGoalId(goalId);
+      await action(user.uid);
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update this goal.');
+    } finally {
+      setBusyGoalId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  const goals = progress?.goals || [];
+  const suggested = goals.filter((goal) => goal.status === 'suggested');
+  const active = goals.filter((goal) => goal.status === 'active' && !goal.isCompleted);
+  const achieved = goals.filter((goal) => goal.status === 'active' && goal.isCompleted);
+  const displayError = error || loadError;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+      >
+        <Button
+          mode="contained"
+          icon="plus"
+          onPress={() => navigation.navigate('GoalEditor')}
+          style={styles.newButton}
+          buttonColor="#6366f1"
+        >
+          New goal
+        </Button>
+
+        {suggested.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Suggested by your clinician</Text>
+            {suggested.map((goal) => (
+              <GoalCard key={goal.id} goal={goal}>
+                <View style={styles.actions}>
+                  <Button
+                    onPress={() =>
+                      runGoalAction(goal.id, (patientId) =>
+                        respondToSuggestedGoal(patientId, goal.id, false)
+                      )
+                    }
+                    disabled={busyGoalId === goal.id}
+                    textColor="#7f8c8d"
+                  >
+                    Not now
+                  </Button>
+                  <Button
+                    mode="contained"
+                    onPress={() =>
+                      runGoalAction(goal.id, (patientId) =>
+                        respondToSuggestedGoal(patientId, goal.id, true)
+                      )
+                    }
+                    loading={busyGoalId === goal.id}
+                    disabled={busyGoalId === goal.id}
+                    buttonColor="#6366f1"
+                  >
+                    Add to my goals
+                  </Button>
+                </View>
+              </GoalCard>
+            ))}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>In progress</Text>
+        {active.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Small, specific goals with a date work best. Add one when you're ready.
+          </Text>
+        ) : (
+          active.map((goal) => (
+            <GoalCard
+              key={goal.id}
+              goal={goal}
+              onToggleMilestone={(milestoneId) =>
+                runGoalAction(goal.id, (patientId) =>
+                  toggleMilestone(patientId, goal.id, milestoneId)
+                )
+              }
+            >
+              <View style={styles.actions}>
+                <Button
+                  onPress={() =>
+                    runGoalAction(goal.id, (patientId) => deleteGoal(patientId, goal.id))
+                  }
+                  disabled={busyGoalId === goal.id}
+                  textColor="#7f8c8d"
+                >
+                  Remove
+                </Button>
+                <Button
+                  onPress={() =>
+                    runGoalAction(goal.id, (patientId) => completeGoal(patientId, goal.id))
+                  }
+                  disabled={busyGoalId === goal.id}
+                  textColor="#6366f1"
+                >
+                  Mark as achieved
+                </Button>
+              </View>
+            </GoalCard>
+          ))
+        )}
+
+        {achieved.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Achieved</Text>
+            {achieved.map((goal) => (
+              <GoalCard key={goal.id} goal={goal} />
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!displayError}
+        onDismiss={() => {
+          setError(null);
+          clearError();
+        }}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {displayError}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  newButton: {
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default GoalsScreen;
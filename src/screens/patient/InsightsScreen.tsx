@@ -0,0 +1,100 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getPatternInsights } from '../../services/insights';
+import { PatternInsights } from '../../types';
+import InsightList from '../../components/common/InsightList';
+
+/**
+ * Patterns in the patient's check-ins and episodes, such as triggers that
+ * tend to come before an episode
+ */
+const InsightsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const [patterns, setPatterns] = useState<PatternInsights | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPatterns = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setPatterns(await getPatternInsights(user.uid));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to look for patterns.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPatterns();
+    }, [loadPatterns])
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={loadPatterns} />}
+      >
+        <Text style={styles.intro}>
+          Knowing what tends to come before a hard day can help you plan for it. Your
+          clinician can see these patterns too, to help you make that plan.
+        </Text>
+        {patterns && <InsightList patterns={patterns} audience="patient" />}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default InsightsScreen;
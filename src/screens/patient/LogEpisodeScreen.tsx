@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Button,
+  Card,
+  Title,
+  Paragraph,
+  ActivityIndicator,
+  Snackbar,
+} from 'react-native-paper';
+import { useForm, Controller, SubmitHandler } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { useAuth } from '../../context/AuthContext';
+import { logEpisode } from '../../services/episodeLogs';
+import { recordEpisodeLogProgress } from '../../services/progress';
+import { checkRelapseWarnings } from '../../services/relapseWarnings';
+import { BingeEpisode } from '../../types';
+import { createDefaultEpisode } from '../../constants/checkIn';
+import { bingeEpisodeSchema } from '../../utils/checkInValidation';
+import { EpisodeFields } from '../../components/forms/checkIn';
+import CopingSuggestions from '../../components/common/CopingSuggestions';
+
+// Navigation types
+interface LogEpisodeScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+}
+
+// Form data interface
+interface LogEpisodeFormData {
+  episode: BingeEpisode;
+}
+
+// Form validation schema
+const logEpisodeSchema: yup.ObjectSchema<LogEpisodeFormData> = yup.object({
+  episode: bingeEpisodeSchema.required(),
+});
+
+/**
+ * Quick episode log - a few taps and save, with optional details.
+ * The episode is carried into the next daily check-in.
+ */
+const LogEpisodeScreen: React.FC<LogEpisodeScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [showDetails, setShowDetails] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LogEpisodeFormData>({
+    resolver: yupResolver(logEpisodeSchema),
+    defaultValues: {
+      episode: createDefaultEpisode(),
+    },
+  });
+
+  // Handle episode submission
+  const onSubmit: SubmitHandler<LogEpisodeFormData> = async (data) => {
+    if (!user) {
+      setError('You need to be signed in to log an episode.');
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSubmitting(true);
+      const episodeLog = await logEpisode(user.uid, data.episode);
+      // Update progress metrics and check for early warning signs in the background
+      recordEpisodeLogProgress(user.uid, episodeLog);
+      checkRelapseWarnings(user.uid);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to log your episode.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <Title style={styles.title}>Log an episode</Title>
+        <Paragraph style={styles.subtitle}>
+          Noticing what happened is a real step. The basics are enough for now - this will be
+          added to your next daily check-in.
+        </Paragraph>
+
+        <CopingSuggestions
+          message={
+            "If you're still in a hard moment, it's okay to look after yourself first " +
+            'and log this later.'
+          }
+        />
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Controller
+              control={control}
+              name="episode"
+              render={({ field: { onChange, value } }) => (
+                <EpisodeFields
+                  value={value}
+                  onChange={onChange}
+                  errors={errors.episode}
+                  compact={!showDetails}
+                />
+              )}
+            />
+            <Button
+              mode="text"
+              icon={showDetails ? 'chevron-up' : 'chevron-down'}
+              onPress={() => setShowDetails(!showDetails)}
+            >
+              {showDetails ? 'Fewer details' : 'Add more details'}
+            </Button>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      {/* Save Button */}
+      <View style={styles.footer}>
+        <Button
+          mode="contained"
+          onPress={handleSubmit(onSubmit)}
+          disabled={isSubmitting}
+          style={styles.saveButton}
+          contentStyle={styles.buttonContent}
+        >
+          {isSubmitting ? <ActivityIndicator size="small" color="white" /> : 'Save episode'}
+        </Button>
+      </View>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  card: {
+    elevation: 4,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  saveButton: {
+    borderRadius: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default LogEpisodeScreen;
@@ -0,0 +1,214 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, useWindowDimensions } from 'react-native';
+import { Text, SegmentedButtons, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { getCheckInsInRange } from '../../services/checkIns';
+import { getEpisodeLogsSince } from '../../services/episodeLogs';
+import {
+  buildProgressChartData,
+  ChartPeriod,
+  getChartPeriodStart,
+  ProgressChartData,
+} from '../../utils/progressCharts';
+import { getDeviceTimeZone } from '../../utils/date';
+import {
+  BingeFrequencyChart,
+  CheckInHeatmap,
+  CopingEffectivenessChart,
+  MoodTrendChart,
+  WellbeingRadarChart,
+} from '../../components/charts';
+
+// Navigation types
+interface ProgressDetailScreenProps {
+  navigation: {
+    setParams: (params: { period: ChartPeriod }) => void;
+  };
+  route: {
+    params: {
+      period: ChartPeriod;
+    };
+  };
+}
+
+const PERIOD_OPTIONS: { value: ChartPeriod; label: string }[] = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+];
+
+const PERIOD_DESCRIPTIONS: Record<ChartPeriod, string> = {
+  week: 'The last 7 days',
+  month: 'The last 30 days',
+  year: 'The last 12 months',
+};
+
+// Horizontal padding of the screen and of each card
+const SCREEN_PADDING = 16;
+const CARD_PADDING = 16;
+
+/**
+ * Charts of the patient's check-ins and episodes over a week, month or year
+ */
+const ProgressDetailScreen: React.FC<ProgressDetailScreenProps> = ({ navigation, route }) => {
+  const { period } = route.params;
+  const { user } = useAuth();
+  const { width: windowWidth } = useWindowDimensions();
+  const [chartData, setChartData] = useState<ProgressChartData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload when the period changes or the screen comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      let isActive = true;
+
+      const loadChartData = async () => {
+        if (!user) {
+          return;
+        }
+
+        try {
+          setError(null);
+          setIsLoading(true);
+          const timeZone = getDeviceTimeZone();
+          const now = new Date();
+          const start = getChartPeriodStart(period, timeZone, now);
+          const [checkIns, episodeLogs] = await Promise.all([
+            getCheckInsInRange(user.uid, start, new Date(now.getTime() + 1)),
+            getEpisodeLogsSince(user.uid, start),
+          ]);
+          if (isActive) {
+            setChartData(buildProgressChartData(checkIns, episodeLogs, period, timeZone, now));
+          }
+        } catch (error) {
+          if (isActive) {
+            setError(error instanceof Error ? error.message : 'Failed to load your progress.');
+          }
+        } finally {
+          if (isActive) {
+            setIsLoading(false);
+          }
+        }
+      };
+
+      loadChartData();
+
+      return () => {
+        isActive = false;
+      };
+    }, [user, period])
+  );
+
+  const chartWidth = windowWidth - 2 * (SCREEN_PADDING + CARD_PADDING);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <SegmentedButtons
+          value={period}
+          onValueChange={(value) => navigation.setParams({ period: value as ChartPeriod })}
+          buttons={PERIOD_OPTIONS}
+          style={styles.periodSelector}
+        />
+        <Text style={styles.periodDescription}>{PERIOD_DESCRIPTIONS[period]}</Text>
+
+        {isLoading || !chartData ? (
+          <View style={styles.loading}>
+            {isLoading && <ActivityIndicator color="#6366f1" />}
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Mood</Text>
+              <MoodTrendChart series={chartData.mood} width={chartWidth} />
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Binge episodes</Text>
+              <BingeFrequencyChart series={chartData.bingeEpisodes} width={chartWidth} />
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Wellbeing</Text>
+              <Text style={styles.cardSubtitle}>Average ratings out of 10</Text>
+              <WellbeingRadarChart axes={chartData.wellbeing} size={Math.min(chartWidth, 320)} />
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Coping strategies</Text>
+              <CopingEffectivenessChart counts={chartData.copingEffectiveness} width={chartWidth} />
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Check-ins</Text>
+              <CheckInHeatmap
+                days={chartData.checkInDays}
+                fromDay={chartData.fromDay}
+                toDay={chartData.toDay}
+                width={chartWidth}
+              />
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!error}
+        onDismiss={() => setError(null)}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {error}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: SCREEN_PADDING,
+  },
+  periodSelector: {
+    marginBottom: 8,
+  },
+  periodDescription: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  loading: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: CARD_PADDING,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ProgressDetailScreen;
@@ -0,0 +1,276 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, List, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../context/AuthContext';
+import { useProgress } from '../../hooks/useProgress';
+import { getStreakOptions, setWeeklyRestDay } from '../../services/progress';
+import { generateProgressSummaries } from '../../services/progressSummaries';
+import { ACHIEVEMENT_RULES } from '../../constants/achievements';
+import { createStreakState, deriveCheckInStreak } from '../../utils/checkInStreak';
+import { toMonthKey } from '../../utils/progressSummaries';
+import { addDays, formatMonthLabel, formatShortDate } from '../../utils/date';
+import StreakCard from '../../components/common/StreakCard';
+
+// Navigation types
+interface ProgressOverviewScreenProps {
+  navigation: {
+    navigate: (screen: string, params?: object) => void;
+  };
+}
+
+// Summaries shown before the patient has to scroll
+const RECENT_WEEKS = 4;
+const RECENT_MONTHS = 3;
+
+/**
+ * The patient's progress at a glance
+ */
+const ProgressOverviewScreen: React.FC<ProgressOverviewScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const {
+    progress,
+    isLoading,
+    error: loadError,
+    refresh,
+    clearError,
+  } = useProgress(user?.uid);
+  const [isSavingRestDay, setIsSavingRestDay] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up check-ins made, and weeks that closed, since the tab was last open
+  useFocusEffect(
+    useCallback(() => {
+      const loadProgress = async () => {
+        if (user) {
+          await generateProgressSummaries(user.uid);
+        }
+        refresh();
+      };
+
+      loadProgress();
+    }, [user, refresh])
+  );
+
+  const handleWeeklyRestDayChange = async (enabled: boolean) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSavingRestDay(true);
+      await setWeeklyRestDay(user.uid, enabled);
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update your streak settings.');
+    } finally {
+      setIsSavingRestDay(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  const streakOptions = getStreakOptions(progress);
+  const streak = deriveCheckInStreak(progress?.streakState ?? createStreakState(), streakOptions);
+  const displayError = error || loadError;
+  const goals = progress?.goals || [];
+  const activeGoals = goals.filter((goal) => goal.status === 'active' && !goal.isCompleted);
+  const suggestedGoals = goals.filter((goal) => goal.status === 'suggested');
+  const achievements = progress?.achievements || [];
+  const latestAchievement = achievements[achievements.length - 1];
+  const weeklySummaries = (progress?.weeklySummaries || []).slice(-RECENT_WEEKS).reverse();
+  const monthlySummaries = (progress?.monthlySummaries || []).slice(-RECENT_MONTHS).reverse();
+
+  const reflectionIcon = (reflected: boolean) =>
+    reflected ? 'check-circle-outline' : 'flag-outline';
+  const countCheckIns = (count: number) => `${count} check-in${count === 1 ? '' : 's'}`;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+      >
+        <Text style={styles.sectionTitle}>Check-ins</Text>
+        <StreakCard
+          streak={streak}
+          weeklyRestDay={!!streakOptions.weeklyRestDay}
+          onWeeklyRestDayChange={handleWeeklyRestDayChange}
+          disabled={isSavingRestDay}
+        />
+
+        <Text style={styles.sectionTitle}>Trends</Text>
+        <View style={styles.card}>
+          <List.Item
+            title="Mood, episodes and wellbeing"
+            description="Charts for the last week, month or year"
+            left={(props) => <List.Icon {...props} icon="chart-line" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('ProgressDetail', { period: 'week' })}
+          />
+          <List.Item
+            title="Patterns"
+            description="What tends to come with episodes or low mood"
+            left={(props) => <List.Icon {...props} icon="chart-scatter-plot" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('Insights')}
+          />
+          <List.Item
+            title="Coping toolbox"
+            description="The strategies that have helped you most"
+            left={(props) => <List.Icon {...props} icon="toolbox-outline" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('CopingToolbox')}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Goals</Text>
+        <View style={styles.card}>
+          <List.Item
+            title={
+              activeGoals.length === 0
+                ? 'Set a goal'
+                : `${activeGoals.length} goal${activeGoals.length === 1 ? '' : 's'} in progress`
+            }
+            description={
+              suggestedGoals.length > 0
+                ? `${suggestedGoals.length} suggested by your clinician`
+                : activeGoals[0]?.description
+            }
+            left={(props) => <List.Icon {...props} icon="flag-outline" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('Goals')}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Achievements</Text>
+        <View style={styles.card}>
+          <List.Item
+            title={`${achievements.length} of ${ACHIEVEMENT_RULES.length} earned`}
+            description={
+              latestAchievement
+                ? `Latest: ${latestAchievement.title}`
+                : 'Your first check-in earns your first achievement.'
+            }
+            left={(props) => <List.Icon {...props} icon="trophy-outline" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('Achievements')}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Weekly summaries</Text>
+        <View style={styles.card}>
+          {weeklySummaries.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Your first summary will be ready once you've finished a week of check-ins.
+            </Text>
+          ) : (
+            weeklySummaries.map((summary) => (
+              <List.Item
+                key={summary.weekStartDay}
+                title={`${formatShortDate(summary.weekStartDay)} - ${formatShortDate(
+                  addDays(summary.weekStartDay, 6)
+                )}`}
+                description={`${countCheckIns(summary.checkInsCompleted)} · ${
+                  summary.reflectedAt ? 'goals set' : 'set your goals for next week'
+                }`}
+                left={(props) => (
+                  <List.Icon {...props} icon={reflectionIcon(!!summary.reflectedAt)} />
+                )}
+                right={(props) => <List.Icon {...props} icon="chevron-right" />}
+                onPress={() =>
+                  navigation.navigate('SummaryReflection', {
+                    period: 'week',
+                    periodKey: summary.weekStartDay,
+                  })
+                }
+              />
+            ))
+          )}
+        </View>
+
+        {monthlySummaries.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Monthly summaries</Text>
+            <View style={styles.card}>
+              {monthlySummaries.map((summary) => (
+                <List.Item
+                  key={toMonthKey(summary.year, summary.month)}
+                  title={formatMonthLabel(summary.year, summary.month)}
+                  description={`Checked in on ${summary.overallProgress}% of days`}
+                  left={(props) => (
+                    <List.Icon {...props} icon={reflectionIcon(!!summary.reflectedAt)} />
+                  )}
+                  right={(props) => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={() =>
+                    navigation.navigate('SummaryReflection', {
+                      period: 'month',
+                      periodKey: toMonthKey(summary.year, summary.month),
+                    })
+                  }
+                />
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!displayError}
+        onDismiss={() => {
+          setError(null);
+          clearError();
+        }}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {displayError}
+      </Snackbar>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default ProgressOverviewScreen;
@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import {
+  Text,
+  Title,
+  Paragraph,
+  TextInput,
+  Button,
+  HelperText,
+  ActivityIndicator,
+  Snackbar,
+} from 'react-native-paper';
+import { useForm, Controller, useFieldArray } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { useAuth } from '../../context/AuthContext';
+import { useProgress } from '../../hooks/useProgress';
+import { saveSummaryGoals } from '../../services/progressSummaries';
+import { evaluateAchievements } from '../../services/achievements';
+import { SUMMARY_MAX_GOALS } from '../../constants/progress';
+import { addDays, formatMonthLabel, formatShortDate } from '../../utils/date';
+import { fromMonthKey, toMonthKey } from '../../utils/progressSummaries';
+
+// Navigation types
+interface SummaryReflectionScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+  route: {
+    params: {
+      period: 'week' | 'month';
+      periodKey: string; // weekStartDay or "YYYY-MM"
+    };
+  };
+}
+
+// Form validation schema
+const reflectionSchema = yup.object({
+  goals: yup
+    .array(
+      yup.object({
+        text: yup.string().trim().max(200, 'Please keep each goal under 200 characters').defined(),
+      })
+    )
+    .test('has-goal', 'Add at least one goal', (goals) =>
+      (goals || []).some((goal) => !!goal.text?.trim())
+    )
+    .required(),
+});
+
+// Form data interface
+interface ReflectionFormData {
+  goals: { text: string }[];
+}
+
+const toFormGoals = (goals: string[]): ReflectionFormData['goals'] =>
+  Array.from({ length: SUMMARY_MAX_GOALS }, (_, index) => ({ text: goals[index] || '' }));
+
+/**
+ * Guided look back at a week or month summary, ending with goals for the next one
+ */
+const SummaryReflectionScreen: React.FC<SummaryReflectionScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { period, periodKey } = route.params;
+  const { user } = useAuth();
+  const { progress, isLoading, error: loadError, clearError } = useProgress(user?.uid);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Find the summary being reflected on
+  const { year, month } = fromMonthKey(periodKey);
+  const weekly =
+    period === 'week'
+      ? progress?.weeklySummaries?.find((summary) => summary.weekStartDay === periodKey)
+      : undefined;
+  const monthly =
+    period === 'month'
+      ? progress?.monthlySummaries?.find(
+          (summary) => toMonthKey(summary.year, summary.month) === periodKey
+        )
+      : undefined;
+  const summary = weekly || monthly;
+  const periodName = period === 'week' ? 'week' : 'month';
+
+  // Form setup
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ReflectionFormData>({
+    resolver: yupResolver(reflectionSchema),
+    defaultValues: { goals: toFormGoals([]) },
+  });
+  const { fields } = useFieldArray({ control, name: 'goals' });
+
+  // Start from any goals already set
+  const savedGoals = weekly?.goalsForNextWeek ?? monthly?.nextMonthGoals;
+  useEffect(() => {
+    if (savedGoals) {
+      reset({ goals: toFormGoals(savedGoals) });
+    }
+  }, [savedGoals, reset]);
+
+  const onSubmit = async (data: ReflectionFormData) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSaving(true);
+      await saveSummaryGoals(
+        user.uid,
+        period,
+        periodKey,
+        data.goals.map((goal) => goal.text)
+      );
+      // Setting goals can earn an achievement
+      evaluateAchievements(user.uid);
+      navigation.goBack();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your goals.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <View style={styles.centered}>
+        <Paragraph style={styles.mutedText}>This summary could not be found.</Paragraph>
+      </View>
+    );
+  }
+
+  const title = weekly
+    ? `${formatShortDate(weekly.weekStartDay)} - ${formatShortDate(
+        addDays(weekly.weekStartDay, 6)
+      )}`
+    : formatMonthLabel(year, month);
+  const highlights = weekly?.highlights ?? monthly?.keyAchievements ?? [];
+  const challenges = weekly?.challenges ?? monthly?.areasForImprovement ?? [];
+  const stats = [
+    { label: 'Check-ins', value: summary.checkInsCompleted },
+    { label: 'Average mood', value: summary.moodAverage > 0 ? `${summary.moodAverage}/10` : '-' },
+    { label: 'Episodes', value: summary.bingeEpisodes },
+    { label: 'Modules', value: summary.modulesCompleted },
+  ];
+  const displayError = error || loadError;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Title style={styles.title}>{title}</Title>
+
+        {/* Step 1: the numbers */}
+        <View style={styles.card}>
+          <Text style={styles.stepTitle}>Your {periodName} at a glance</Text>
+          <View style={styles.stats}>
+            {stats.map((stat) => (
+              <View key={stat.label} style={styles.stat}>
+                <Text style={styles.statValue}>{stat.value}</Text>
+                <Text style={styles.statLabel}>{stat.label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Step 2: looking back */}
+        <View style={styles.card}>
+          <Text style={styles.stepTitle}>What went well</Text>
+          {highlights.length > 0 ? (
+            highlights.map((item) => (
+              <Text key={item} style={styles.listItem}>
+                • {item}
+              </Text>
+            ))
+          ) : (
+            <Paragraph style={styles.mutedText}>
+              Think of one thing, however small, that you're glad you did this {periodName}.
+            </Paragraph>
+          )}
+
+          <Text style={[styles.stepTitle, styles.spaced]}>What was hard</Text>
+          {challenges.length > 0 ? (
+            challenges.map((item) => (
+              <Text key={item} style={styles.listItem}>
+                • {item}
+              </Text>
+            ))
+          ) : (
+            <Paragraph style={styles.mutedText}>
+              Was there a moment that felt difficult? Noticing it is part of the work.
+            </Paragraph>
+          )}
+        </View>
+
+        {/* Step 3: looking ahead */}
+        <View style={styles.card}>
+          <Text style={styles.stepTitle}>Your goals for next {periodName}</Text>
+          <Paragraph style={styles.mutedText}>
+            Small, specific goals work best, such as "Eat breakfast before 9am on weekdays".
+          </Paragraph>
+
+          {fields.map((field, index) => (
+            <View key={field.id}>
+              <Controller
+                control={control}
+                name={`goals.${index}.text`}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    label={`Goal ${index + 1}`}
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    mode="outlined"
+                    style={styles.input}
+                    error={!!errors.goals?.[index]?.text}
+                  />
+                )}
+              />
+              {errors.goals?.[index]?.text && (
+                <HelperText type="error">{errors.goals[index]?.text?.message}</HelperText>
+              )}
+            </View>
+          ))}
+          {errors.goals?.root && <HelperText type="error">{errors.goals.root.message}</HelperText>}
+          {errors.goals?.message && <HelperText type="error">{errors.goals.message}</HelperText>}
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSaving}
+            disabled={isSaving}
+            style={styles.saveButton}
+            buttonColor="#6366f1"
+          >
+            Save goals
+          </Button>
+        </View>
+      </ScrollView>
+
+      {/* Error Snackbar */}
+      <Snackbar
+        visible={!!displayError}
+        onDismiss={() => {
+          setError(null);
+          clearError();
+        }}
+        duration={5000}
+        style={styles.snackbar}
+      >
+        {displayError}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  content: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  stepTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  spaced: {
+    marginTop: 16,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  listItem: {
+    fontSize: 15,
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  input: {
+    marginTop: 12,
+    backgroundColor: '#ffffff',
+  },
+  saveButton: {
+    marginTop: 16,
+  },
+  snackbar: {
+    backgroundColor: '#e74c3c',
+  },
+});
+
+export default SummaryReflectionScreen;
@@ -1,3 +1,16 @@
 // Patient screens exports
-// Add your patient screens here as you create them
-// Example: export { default as DashboardScreen } from './DashboardScreen';
+export { default as CheckInScreen } from './CheckInScreen';
+export { default as LogEpisodeScreen } from './LogEpisodeScreen';
+export { default as FoodRecordScreen } from './FoodRecordScreen';
+export { default as EatingScheduleScreen } from './EatingScheduleScreen';
+export { default as CheckInHistoryScreen } from './CheckInHistoryScreen';
+export { default as CheckInDetailScreen } from './CheckInDetailScreen';
+export { default as EditCheckInScreen } from './EditCheckInScreen';
+export { default as ProgressOverviewScreen } from './ProgressOverviewScreen';
+export { default as ProgressDetailScreen } from './ProgressDetailScreen';
+export { default as SummaryReflectionScreen } from './SummaryReflectionScreen';
+export { default as AchievementsScreen } from './AchievementsScreen';
+export { default as GoalsScreen } from './GoalsScreen';
+export { default as GoalEditorScreen } from './GoalEditorScreen';
+export { default as InsightsScreen } from './InsightsScreen';
+export { default as CopingToolboxScreen } from './CopingToolboxScreen';
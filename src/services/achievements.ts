@@ -0,0 +1,60 @@
+import { doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { PATIENT_PROGRESS_COLLECTION } from './progress';
+import { Achievement, PatientProgress } from '../types';
+import { getAchievementStats, getNewAchievements } from '../utils/achievements';
+
+/**
+ * Achievements Service
+ *
+ * Awards achievements from the catalogue in `constants/achievements.ts`
+ * onto the patient's `patientProgress` document. Evaluation runs after each
+ * check-in and module completion, once progress has been updated.
+ */
+
+/**
+ * Award any achievements the patient has newly earned, returning them.
+ * The document is read inside a transaction, so runs that overlap can't
+ * award the same achievement twice. Best-effort: failures are logged and
+ * return an empty list, and the next evaluation catches up.
+ */
+export const evaluateAchievements = async (patientId: string): Promise<Achievement[]> => {
+  try {
+    const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+    const awarded = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(progressRef);
+      if (!snapshot.exists()) {
+        return [];
+      }
+
+      const progress = snapshot.data() as PatientProgress;
+      const earned = progress.achievements || [];
+      const earnedAt = Timestamp.now();
+      const newAchievements: Achievement[] = getNewAchievements(
+        getAchievementStats(progress),
+        earned
+      ).map(({ id, title, description, category }) => ({
+        id,
+        title,
+        description,
+        category,
+        earnedAt,
+      }));
+
+      if (newAchievements.length > 0) {
+        transaction.update(progressRef, { achievements: [...earned, ...newAchievements] });
+      }
+      return newAchievements;
+    });
+
+    if (__DEV__ && awarded.length > 0) {
+      console.log('Achievements awarded:', awarded.map((achievement) => achievement.id));
+    }
+
+    return awarded;
+  } catch (error) {
+    console.error('Error evaluating achievements:', error);
+    return [];
+  }
+};
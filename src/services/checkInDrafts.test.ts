@@ -0,0 +1,121 @@
+/**
+ * Check-in draft tests
+ *
+ * Run with: npm test or jest
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CheckInDraft } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import {
+  clearAllCheckInDrafts,
+  loadCheckInDraft,
+  saveCheckInDraft,
+  scheduleCheckInDraftSave,
+} from './checkInDrafts';
+
+const USER_ID = 'patient-1';
+const DRAFT_KEY = `@checkInDraft:${USER_ID}`;
+const HOUR_MS = 60 * 60 * 1000;
+
+const storeDraft = (savedAt: Date, overrides: Partial<CheckInDraft> = {}) =>
+  AsyncStorage.setItem(
+    DRAFT_KEY,
+    JSON.stringify({
+      userId: USER_ID,
+      stepIndex: 2,
+      data: DEFAULT_CHECK_IN_VALUES,
+      savedAt: savedAt.toISOString(),
+      ...overrides,
+    })
+  );
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('loadCheckInDraft', () => {
+  it('restores a recent draft with its episode dates', async () => {
+    const episodeDate = new Date('2025-03-10T20:00:00Z');
+    await saveCheckInDraft(
+      USER_ID,
+      {
+        ...DEFAULT_CHECK_IN_VALUES,
+        bingeEpisodes: {
+          hadBingeEpisode: true,
+          episodes: [
+            {
+              date: episodeDate,
+              severity: 'mild',
+              triggers: [],
+              emotions: [],
+              duration: 10,
+              foodTypes: [],
+              amount: 'small',
+              location: '',
+              aloneOrWithOthers: 'alone',
+            },
+          ],
+        },
+      },
+      3
+    );
+
+    const draft = await loadCheckInDraft(USER_ID);
+    expect(draft?.stepIndex).toBe(3);
+    expect(draft?.data.bingeEpisodes.episodes[0].date).toEqual(episodeDate);
+  });
+
+  it('keeps a draft up to the maximum age', async () => {
+    await storeDraft(new Date(Date.now() - 23 * HOUR_MS));
+
+    expect(await loadCheckInDraft(USER_ID, 24)).not.toBeNull();
+  });
+
+  it('discards a draft older than the maximum age', async () => {
+    await storeDraft(new Date(Date.now() - 25 * HOUR_MS));
+
+    expect(await loadCheckInDraft(USER_ID, 24)).toBeNull();
+    expect(await AsyncStorage.getItem(DRAFT_KEY)).toBeNull();
+  });
+
+  it('discards a draft with an unreadable save time', async () => {
+    await storeDraft(new Date(), { savedAt: 'not a date' });
+
+    expect(await loadCheckInDraft(USER_ID)).toBeNull();
+  });
+
+  it('discards a draft that belongs to someone else', async () => {
+    await storeDraft(new Date(), { userId: 'patient-2' });
+
+    expect(await loadCheckInDraft(USER_ID)).toBeNull();
+  });
+});
+
+describe('scheduleCheckInDraftSave', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves only the latest changes after the pause', async () => {
+    scheduleCheckInDraftSave(USER_ID, DEFAULT_CHECK_IN_VALUES, 1, 1000);
+    scheduleCheckInDraftSave(USER_ID, DEFAULT_CHECK_IN_VALUES, 2, 1000);
+    expect(await AsyncStorage.getItem(DRAFT_KEY)).toBeNull();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const stored = JSON.parse((await AsyncStorage.getItem(DRAFT_KEY)) as string) as CheckInDraft;
+    expect(stored.stepIndex).toBe(2);
+  });
+
+  it("doesn't write a draft back after all drafts are cleared on logout", async () => {
+    scheduleCheckInDraftSave(USER_ID, DEFAULT_CHECK_IN_VALUES, 1, 1000);
+    await clearAllCheckInDrafts();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(await AsyncStorage.getItem(DRAFT_KEY)).toBeNull();
+  });
+});
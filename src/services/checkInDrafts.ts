@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CheckInDraft, CheckInFormData } from '../types';
+import { CHECK_IN_DRAFT_MAX_AGE_HOURS, CHECK_IN_DRAFT_SAVE_DELAY_MS } from '../constants/checkIn';
+
+/**
+ * Check-in Draft Service
+ *
+ * Keeps the in-progress check-in wizard on the device so patients can
+ * pick up where they left off. Drafts are stored per user and never
+ * leave the device.
+ */
+
+const DRAFT_KEY_PREFIX = '@checkInDraft:';
+
+const getDraftKey = (userId: string): string => `${DRAFT_KEY_PREFIX}${userId}`;
+
+// The debounced autosave waiting to be written, if any
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+// Restore Date values that JSON serialisation turned into strings
+const reviveDraftData = (data: CheckInFormData): CheckInFormData => ({
+  ...data,
+  bingeEpisodes: {
+    ...data.bingeEpisodes,
+    episodes: data.bingeEpisodes.episodes.map((episode) => ({
+      ...episode,
+      date: new Date(episode.date),
+    })),
+  },
+});
+
+// Save the current wizard state for a user
+export const saveCheckInDraft = async (
+  userId: string,
+  data: CheckInFormData,
+  stepIndex: number
+): Promise<void> => {
+  try {
+    const draft: CheckInDraft = {
+      userId,
+      stepIndex,
+      data,
+      savedAt: new Date().toISOString(),
+    };
+
+    await AsyncStorage.setItem(getDraftKey(userId), JSON.stringify(draft));
+  } catch (error) {
+    // Autosave failures shouldn't interrupt the check-in
+    console.error('Error saving check-in draft:', error);
+  }
+};
+
+// Save after a pause, so typing doesn't write to storage on every key press.
+// A newer call replaces the pending save.
+export const scheduleCheckInDraftSave = (
+  userId: string,
+  data: CheckInFormData,
+  stepIndex: number,
+  delayMs: number = CHECK_IN_DRAFT_SAVE_DELAY_MS
+): void => {
+  cancelPendingDraftSave();
+  pendingSave = setTimeout(() => {
+    pendingSave = null;
+    saveCheckInDraft(userId, data, stepIndex);
+  }, delayMs);
+};
+
+// Drop the pending autosave, if any
+export const cancelPendingDraftSave = (): void => {
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    pendingSave = null;
+  }
+};
+
+// Load a user's draft, discarding it if it is older than maxAgeHours
+export const loadCheckInDraft = async (
+  userId: string,
+  maxAgeHours: number = CHECK_IN_DRAFT_MAX_AGE_HOURS
+): Promise<CheckInDraft | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(getDraftKey(userId));
+    if (!stored) {
+      return null;
+    }
+
+    const draft = JSON.parse(stored) as CheckInDraft;
+    const ageMs = Date.now() - new Date(draft.savedAt).getTime();
+
+    if (draft.userId !== userId || !(ageMs <= maxAgeHours * 60 * 60 * 1000)) {
+      await clearCheckInDraft(userId);
+      return null;
+    }
+
+    return { ...draft, data: reviveDraftData(draft.data) };
+  } catch (error) {
+    console.error('Error loading check-in draft:', error);
+    return null;
+  }
+};
+
+// Remove a user's draft (after submitting or discarding)
+export const clearCheckInDraft = async (userId: string): Promise<void> => {
+  cancelPendingDraftSave();
+  try {
+    await AsyncStorage.removeItem(getDraftKey(userId));
+  } catch (error) {
+    console.error('Error clearing check-in draft:', error);
+  }
+};
+
+// Remove every stored draft on this device. The pending autosave is dropped
+// first, so it can't write a draft back after logout.
+export const clearAllCheckInDrafts = async (): Promise<void> => {
+  cancelPendingDraftSave();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const draftKeys = keys.filter((key) => key.startsWith(DRAFT_KEY_PREFIX));
+
+    if (draftKeys.length > 0) {
+      await AsyncStorage.multiRemove(draftKeys);
+    }
+  } catch (error) {
+    console.error('Error clearing check-in drafts:', error);
+  }
+};
@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { assertActiveRelation, getPatientRelation, RELATIONS_COLLECTION } from './clinicianPatients';
+import { CheckInTemplate, CheckInTemplateFormData } from '../types';
+import { deserializeFromStorage, removeUndefined, serializeForStorage } from '../utils/firestore';
+
+/**
+ * Check-in Template Service
+ *
+ * Clinicians define check-in templates in the `checkInTemplates`
+ * collection and attach one to a patient through
+ * `ClinicianPatientRelation.checkInTemplateId`. Patients without a
+ * template get the standard check-in. The patient's template is cached
+ * on the device so the wizard still works offline.
+ */
+
+export const CHECK_IN_TEMPLATES_COLLECTION = 'checkInTemplates';
+
+const TEMPLATE_CACHE_KEY_PREFIX = '@checkInTemplate:';
+
+const getTemplateCacheKey = (patientId: string): string => `${TEMPLATE_CACHE_KEY_PREFIX}${patientId}`;
+
+// Get a template by id
+export const getCheckInTemplate = async (templateId: string): Promise<CheckInTemplate | null> => {
+  try {
+    const templateDoc = await getDoc(doc(db, CHECK_IN_TEMPLATES_COLLECTION, templateId));
+    return templateDoc.exists()
+      ? { ...(templateDoc.data() as Omit<CheckInTemplate, 'id'>), id: templateDoc.id }
+      : null;
+  } catch (error) {
+    console.error('Error getting check-in template:', error);
+    throw new Error('Failed to load the check-in template. Please try again.');
+  }
+};
+
+// Get the templates a clinician has created, by name
+export const getClinicianTemplates = async (clinicianId: string): Promise<CheckInTemplate[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, CHECK_IN_TEMPLATES_COLLECTION), where('clinicianId', '==', clinicianId))
+    );
+
+    return snapshot.docs
+      .map((templateDoc) => ({
+        ...(templateDoc.data() as Omit<CheckInTemplate, 'id'>),
+        id: templateDoc.id,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting check-in templates:', error);
+    throw new Error('Failed to load your check-in templates. Please try again.');
+  }
+};
+
+// Create a template, or update one the clinician owns
+export const saveCheckInTemplate = async (
+  clinicianId: string,
+  data: CheckInTemplateFormData,
+  templateId?: string
+): Promise<CheckInTemplate> => {
+  const existing = templateId ? await getCheckInTemplate(templateId) : null;
+  if (existing && existing.clinicianId !== clinicianId) {
+    throw new Error('You can only edit your own check-in templates.');
+  }
+
+  try {
+    const id = templateId || doc(collection(db, CHECK_IN_TEMPLATES_COLLECTION)).id;
+    const now = Timestamp.now();
+    const template = removeUndefined({
+      ...data,
+      clinicianId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+
+    await setDoc(doc(db, CHECK_IN_TEMPLATES_COLLECTION, id), template);
+
+    if (__DEV__) {
+      console.log('Check-in template saved:', id);
+    }
+
+    return { ...template, id };
+  } catch (error) {
+    console.error('Save check-in template error:', error);
+    throw new Error('Failed to save the check-in template. Please try again.');
+  }
+};
+
+// Attach a template to a linked patient, or pass null for the standard check-in
+export const assignCheckInTemplate = async (
+  clinicianId: string,
+  patientId: string,
+  templateId: string | null
+): Promise<void> => {
+  const relation = await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    await updateDoc(doc(db, RELATIONS_COLLECTION, relation.id), {
+      checkInTemplateId: templateId ?? deleteField(),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Assign check-in template error:', error);
+    throw new Error('Failed to update the check-in template. Please try again.');
+  }
+};
+
+// The template attached to a patient's active relation, or null for the standard check-in.
+// Falls back to the last template seen on this device when offline.
+export const getPatientCheckInTemplate = async (
+  patientId: string
+): Promise<CheckInTemplate | null> => {
+  const cacheKey = getTemplateCacheKey(patientId);
+
+  try {
+    const relation = await getPatientRelation(patientId);
+    const template = relation?.checkInTemplateId
+      ? await getCheckInTemplate(relation.checkInTemplateId)
+      : null;
+
+    if (template) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(serializeForStorage(template)));
+    } else {
+      await AsyncStorage.removeItem(cacheKey);
+    }
+    return template;
+  } catch (error) {
+    console.error('Error getting patient check-in template:', error);
+
+    const cached = await AsyncStorage.getItem(cacheKey);
+    return cached ? deserializeFromStorage(JSON.parse(cached) as CheckInTemplate) : null;
+  }
+};
@@ -0,0 +1,381 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { enqueueWrite, getQueuedWrites } from './offlineQueue';
+import { assertActiveRelation } from './clinicianPatients';
+import {
+  BingeEpisode,
+  CheckInFormData,
+  CheckInRevision,
+  CheckInSurvey,
+  PaginatedResponse,
+} from '../types';
+import { CHECK_IN_EDIT_WINDOW_HOURS } from '../constants/checkIn';
+import { removeUndefined, toDate } from '../utils/firestore';
+import {
+  buildEditedCheckIn,
+  getCheckInFormData,
+  isWithinEditWindow,
+} from '../utils/checkInRevisions';
+import { getDeviceTimeZone } from '../utils/date';
+
+/**
+ * Check-in Service
+ *
+ * Stores daily check-in surveys in the `checkIns` collection,
+ * keyed by the patient's user id. Writes go through the offline queue
+ * so check-ins can be completed without a connection.
+ *
+ * Edits never overwrite silently: the previous answers are kept as an
+ * immutable document in the check-in's `revisions` subcollection.
+ */
+
+export const CHECK_INS_COLLECTION = 'checkIns';
+export const CHECK_IN_REVISIONS_SUBCOLLECTION = 'revisions';
+
+// Map stored check-in data to a CheckInSurvey
+const mapCheckIn = (id: string, data: DocumentData): CheckInSurvey => ({
+  ...(data as Omit<CheckInSurvey, 'id'>),
+  id,
+  bingeEpisodes: {
+    hadBingeEpisode: data.bingeEpisodes?.hadBingeEpisode ?? false,
+    episodes: (data.bingeEpisodes?.episodes || []).map(
+      (episode: DocumentData): BingeEpisode => ({
+        ...(episode as BingeEpisode),
+        date: toDate(episode.date),
+      })
+    ),
+  },
+  // Not recorded before urge tracking was added
+  urges: data.urges ?? { hadUrge: false },
+  compensatoryBehaviors: data.compensatoryBehaviors ?? { engaged: false, behaviors: [] },
+});
+
+// Map a Firestore document to a CheckInSurvey
+export const mapCheckInDoc = (snapshot: QueryDocumentSnapshot<DocumentData>): CheckInSurvey =>
+  mapCheckIn(snapshot.id, snapshot.data());
+
+// Check-ins completed on this device that have not synced yet
+const getPendingCheckIns = async (patientId: string): Promise<CheckInSurvey[]> => {
+  const queued = await getQueuedWrites(patientId, 'checkIn');
+  return queued.map(({ id, payload }) => mapCheckIn(id, payload));
+};
+
+// Newest first, without duplicates (pending entries may have synced meanwhile)
+const mergeCheckIns = (...lists: CheckInSurvey[][]): CheckInSurvey[] => {
+  const byId = new Map<string, CheckInSurvey>();
+  lists.flat().forEach((checkIn) => byId.set(checkIn.id, checkIn));
+  return Array.from(byId.values()).sort(
+    (a, b) => toDate(b.completedAt).getTime() - toDate(a.completedAt).getTime()
+  );
+};
+
+// Save a completed check-in for a patient (synced in the background)
+export const submitCheckIn = async (
+  patientId: string,
+  data: CheckInFormData
+): Promise<CheckInSurvey> => {
+  try {
+    // Generated locally so the id is stable across offline replays
+    const id = doc(collection(db, CHECK_INS_COLLECTION)).id;
+    const checkIn = removeUndefined({
+      ...data,
+      patientId,
+      completedAt: Timestamp.now(),
+      timeZone: getDeviceTimeZone(),
+    });
+
+    await enqueueWrite({
+      id,
+      type: 'checkIn',
+      collection: CHECK_INS_COLLECTION,
+      userId: patientId,
+      payload: checkIn,
+    });
+
+    if (__DEV__) {
+      console.log('Check-in saved successfully:', id);
+    }
+
+    return { ...checkIn, id };
+  } catch (error) {
+    console.error('Submit check-in error:', error);
+    throw new Error('Failed to save your check-in. Please try again.');
+  }
+};
+
+// Get a patient's most recent check-ins, newest first
+export const getRecentCheckIns = async (
+  patientId: string,
+  count: number = 30
+): Promise<CheckInSurvey[]> => {
+  try {
+    const checkInsQuery = query(
+      collection(db, CHECK_INS_COLLECTION),
+      where('patientId', '==', patientId),
+      orderBy('completedAt', 'desc'),
+      limit(count)
+    );
+
+    const snapshot = await getDocs(checkInsQuery);
+    return snapshot.docs.map(mapCheckInDoc);
+  } catch (error) {
+    console.error('Error getting check-ins:', error);
+    throw new Error('Failed to load check-ins. Please try again.');
+  }
+};
+
+// Get one page of a patient's check-in history, newest first.
+// Pass the completedAt of the last check-in already shown as `before`
+// to continue from there; unsynced check-ins are included on page 1.
+export const getCheckInHistory = async (
+  patientId: string,
+  page: number,
+  pageSize: number = 20,
+  before?: Date
+): Promise<PaginatedResponse<CheckInSurvey>> => {
+  try {
+    const patientCheckIns = query(
+      collection(db, CHECK_INS_COLLECTION),
+      where('patientId', '==', patientId)
+    );
+    const constraints = [orderBy('completedAt', 'desc'), limit(pageSize)];
+    const pageQuery = before
+      ? query(patientCheckIns, where('completedAt', '<', Timestamp.fromDate(before)), ...constraints)
+      : query(patientCheckIns, ...constraints);
+
+    // Counting needs the server, so offline the history still loads from the cache
+    const [snapshot, serverTotal] = await Promise.all([
+      getDocs(pageQuery),
+      getCountFromServer(patientCheckIns).then(
+        (countSnapshot) => countSnapshot.data().count,
+        (error) => {
+          console.error('Error counting check-ins:', error);
+          return null;
+        }
+      ),
+    ]);
+
+    let data = snapshot.docs.map(mapCheckInDoc);
+    if (page === 1) {
+      data = mergeCheckIns(data, await getPendingCheckIns(patientId));
+    }
+
+    const isFullPage = snapshot.docs.length === pageSize;
+    // Without a count, the total is what has been loaded so far
+    const total = serverTotal ?? (page - 1) * pageSize + snapshot.docs.length;
+    const totalPages =
+      serverTotal === null
+        ? page + (isFullPage ? 1 : 0)
+        : Math.max(1, Math.ceil(serverTotal / pageSize));
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit: pageSize,
+        total,
+        totalPages,
+        hasNext: isFullPage && page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  } catch (error) {
+    console.error('Error getting check-in history:', error);
+    throw new Error('Failed to load your check-in history. Please try again.');
+  }
+};
+
+// Get a patient's check-ins completed within [start, end), newest first
+export const getCheckInsInRange = async (
+  patientId: string,
+  start: Date,
+  end: Date
+): Promise<CheckInSurvey[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, CHECK_INS_COLLECTION),
+        where('patientId', '==', patientId),
+        where('completedAt', '>=', Timestamp.fromDate(start)),
+        where('completedAt', '<', Timestamp.fromDate(end)),
+        orderBy('completedAt', 'desc')
+      )
+    );
+
+    const pending = (await getPendingCheckIns(patientId)).filter((checkIn) => {
+      const completedAt = toDate(checkIn.completedAt);
+      return completedAt >= start && completedAt < end;
+    });
+
+    return mergeCheckIns(snapshot.docs.map(mapCheckInDoc), pending);
+  } catch (error) {
+    console.error('Error getting check-ins for range:', error);
+    throw new Error('Failed to load check-ins. Please try again.');
+  }
+};
+
+// Get every check-in a patient has completed, newest first (includes unsynced ones)
+export const getAllCheckIns = async (patientId: string): Promise<CheckInSurvey[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, CHECK_INS_COLLECTION),
+        where('patientId', '==', patientId),
+        orderBy('completedAt', 'desc')
+      )
+    );
+
+    return mergeCheckIns(snapshot.docs.map(mapCheckInDoc), await getPendingCheckIns(patientId));
+  } catch (error) {
+    console.error('Error getting all check-ins:', error);
+    throw new Error('Failed to load check-ins. Please try again.');
+  }
+};
+
+// Get a single check-in, including one that has not synced yet
+export const getCheckIn = async (
+  patientId: string,
+  checkInId: string
+): Promise<CheckInSurvey | null> => {
+  const pending = (await getPendingCheckIns(patientId)).find((checkIn) => checkIn.id === checkInId);
+  if (pending) {
+    return pending;
+  }
+
+  try {
+    const checkInDoc = await getDoc(doc(db, CHECK_INS_COLLECTION, checkInId));
+    if (!checkInDoc.exists() || checkInDoc.data().patientId !== patientId) {
+      return null;
+    }
+    return mapCheckIn(checkInDoc.id, checkInDoc.data());
+  } catch (error) {
+    console.error('Error getting check-in:', error);
+    throw new Error('Failed to load this check-in. Please try again.');
+  }
+};
+
+// Edit a past check-in within the edit window, keeping the previous answers as a revision
+export const updateCheckIn = async (
+  patientId: string,
+  checkInId: string,
+  data: CheckInFormData,
+  editWindowHours: number = CHECK_IN_EDIT_WINDOW_HOURS
+): Promise<CheckInSurvey> => {
+  const pending = await getPendingCheckIns(patientId);
+  if (pending.some((checkIn) => checkIn.id === checkInId)) {
+    throw new Error('This check-in has not synced yet. Please try again once you are back online.');
+  }
+
+  const existing = await getCheckIn(patientId, checkInId);
+  if (!existing) {
+    throw new Error('This check-in could not be found.');
+  }
+  if (!isWithinEditWindow(toDate(existing.completedAt), editWindowHours)) {
+    throw new Error('This check-in is too old to edit.');
+  }
+
+  try {
+    const checkInRef = doc(db, CHECK_INS_COLLECTION, checkInId);
+
+    // Read inside the transaction so concurrent edits can't lose a revision
+    const updated = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(checkInRef);
+      if (!snapshot.exists()) {
+        throw new Error('Check-in no longer exists');
+      }
+
+      const current = mapCheckIn(snapshot.id, snapshot.data());
+      const editedAt = Timestamp.now();
+      const next = buildEditedCheckIn(current, data, patientId, editedAt);
+
+      transaction.set(
+        doc(collection(checkInRef, CHECK_IN_REVISIONS_SUBCOLLECTION)),
+        removeUndefined({
+          checkInId,
+          patientId,
+          revision: next.revisionCount,
+          data: getCheckInFormData(current),
+          editedBy: patientId,
+          editedAt,
+        })
+      );
+      transaction.set(checkInRef, next);
+      return next;
+    });
+
+    if (__DEV__) {
+      console.log('Check-in updated successfully:', checkInId);
+    }
+
+    return { ...updated, id: checkInId };
+  } catch (error) {
+    console.error('Update check-in error:', error);
+    throw new Error('Failed to save your changes. Please try again.');
+  }
+};
+
+// Prior versions of a check-in, oldest first
+const fetchCheckInRevisions = async (checkInId: string): Promise<CheckInRevision[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, CHECK_INS_COLLECTION, checkInId, CHECK_IN_REVISIONS_SUBCOLLECTION),
+      orderBy('revision', 'asc')
+    )
+  );
+
+  return snapshot.docs.map((revisionDoc) => {
+    const revision = revisionDoc.data();
+    return {
+      ...(revision as Omit<CheckInRevision, 'id' | 'data'>),
+      id: revisionDoc.id,
+      data: getCheckInFormData(mapCheckIn(checkInId, revision.data)),
+    };
+  });
+};
+
+// Get a linked patient's most recent check-ins (clinician view)
+export const getPatientCheckIns = async (
+  clinicianId: string,
+  patientId: string,
+  count: number = 10
+): Promise<CheckInSurvey[]> => {
+  await assertActiveRelation(clinicianId, patientId);
+  return getRecentCheckIns(patientId, count);
+};
+
+// Get one of a linked patient's check-ins with its revisions (clinician view)
+export const getPatientCheckIn = async (
+  clinicianId: string,
+  patientId: string,
+  checkInId: string
+): Promise<{ checkIn: CheckInSurvey; revisions: CheckInRevision[] } | null> => {
+  await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    const checkInDoc = await getDoc(doc(db, CHECK_INS_COLLECTION, checkInId));
+    if (!checkInDoc.exists() || checkInDoc.data().patientId !== patientId) {
+      return null;
+    }
+
+    const checkIn = mapCheckIn(checkInDoc.id, checkInDoc.data());
+    const revisions = checkIn.revisionCount ? await fetchCheckInRevisions(checkInId) : [];
+    return { checkIn, revisions };
+  } catch (error) {
+    console.error('Error getting patient check-in:', error);
+    throw new Error('Failed to load this check-in. Please try again.');
+  }
+};
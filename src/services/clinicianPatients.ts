@@ -0,0 +1,145 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { UserProfile } from './auth';
+import { ClinicianPatientRelation } from '../types';
+
+/**
+ * Clinician-Patient Relation Service
+ *
+ * Clinicians can only read a patient's records through an active
+ * relation in the `clinicianPatientRelations` collection.
+ */
+
+export const RELATIONS_COLLECTION = 'clinicianPatientRelations';
+
+export interface LinkedPatient {
+  relation: ClinicianPatientRelation;
+  profile: UserProfile | null;
+}
+
+// Get the active relation between a clinician and a patient, if any
+export const getActiveRelation = async (
+  clinicianId: string,
+  patientId: string
+): Promise<ClinicianPatientRelation | null> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, RELATIONS_COLLECTION),
+        where('clinicianId', '==', clinicianId),
+        where('patientId', '==', patientId),
+        where('status', '==', 'active')
+      )
+    );
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const relationDoc = snapshot.docs[0];
+    return { ...(relationDoc.data() as Omit<ClinicianPatientRelation, 'id'>), id: relationDoc.id };
+  } catch (error) {
+    console.error('Error getting clinician-patient relation:', error);
+    throw new Error('Failed to verify access to this patient.');
+  }
+};
+
+// Throw unless the clinician has an active relation with the patient
+export const assertActiveRelation = async (
+  clinicianId: string,
+  patientId: string
+): Promise<ClinicianPatientRelation> => {
+  const relation = await getActiveRelation(clinicianId, patientId);
+  if (!relation) {
+    throw new Error('You do not have access to this patient\'s records.');
+  }
+  return relation;
+};
+
+// Get the active relation for a patient (their current clinician), if any
+export const getPatientRelation = async (
+  patientId: string
+): Promise<ClinicianPatientRelation | null> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, RELATIONS_COLLECTION),
+        where('patientId', '==', patientId),
+        where('status', '==', 'active')
+      )
+    );
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const relationDoc = snapshot.docs[0];
+    return { ...(relationDoc.data() as Omit<ClinicianPatientRelation, 'id'>), id: relationDoc.id };
+  } catch (error) {
+    console.error('Error getting patient relation:', error);
+    throw new Error('Failed to load your clinician details. Please try again.');
+  }
+};
+
+// Get a clinician's actively linked patients with their profiles
+export const getLinkedPatients = async (clinicianId: string): Promise<LinkedPatient[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, RELATIONS_COLLECTION),
+        where('clinicianId', '==', clinicianId),
+        where('status', '==', 'active')
+      )
+    );
+
+    return await Promise.all(
+      snapshot.docs.map(async (relationDoc) => {
+        const relation = {
+          ...(relationDoc.data() as Omit<ClinicianPatientRelation, 'id'>),
+          id: relationDoc.id,
+        };
+
+        // One unreadable profile shouldn't hide the rest of the list
+        try {
+          const profileDoc = await getDoc(doc(db, 'users', relation.patientId));
+          return {
+            relation,
+            profile: profileDoc.exists() ? (profileDoc.data() as UserProfile) : null,
+          };
+        } catch (error) {
+          console.error('Error getting linked patient profile:', error);
+          return { relation, profile: null };
+        }
+      })
+    );
+  } catch (error) {
+    console.error('Error getting linked patients:', error);
+    throw new Error('Failed to load your patients. Please try again.');
+  }
+};
+
+// Get a single linked patient, throwing unless the relation is active
+export const getLinkedPatient = async (
+  clinicianId: string,
+  patientId: string
+): Promise<LinkedPatient> => {
+  const relation = await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    const profileDoc = await getDoc(doc(db, 'users', patientId));
+    return {
+      relation,
+      profile: profileDoc.exists() ? (profileDoc.data() as UserProfile) : null,
+    };
+  } catch (error) {
+    console.error('Error getting linked patient:', error);
+    throw new Error('Failed to load this patient. Please try again.');
+  }
+};
@@ -0,0 +1,64 @@
+import { doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { getAllCheckIns } from './checkIns';
+import { getPatientProgress, PATIENT_PROGRESS_COLLECTION } from './progress';
+import { PatientProgress } from '../types';
+import {
+  buildCopingToolbox,
+  CopingToolboxEntry,
+  setStrategyPinnedIn,
+} from '../utils/copingToolbox';
+
+/**
+ * Coping Toolbox Service
+ *
+ * Ranks the coping strategies a patient has used by their own ratings (see
+ * `utils/copingToolbox.ts`). Strategies the patient pins are kept in
+ * `copingPreferences` on their `patientProgress` document and always come
+ * first.
+ */
+
+// The patient's strategies, pinned first and then by how much they've helped
+export const getCopingToolbox = async (patientId: string): Promise<CopingToolboxEntry[]> => {
+  try {
+    const [checkIns, progress] = await Promise.all([
+      getAllCheckIns(patientId),
+      getPatientProgress(patientId),
+    ]);
+    return buildCopingToolbox(checkIns, progress?.copingPreferences?.pinnedStrategies);
+  } catch (error) {
+    console.error('Error getting coping toolbox:', error);
+    throw new Error('Failed to load your coping toolbox. Please try again.');
+  }
+};
+
+// Pin a strategy to the top of the toolbox, or unpin it
+export const setStrategyPinned = async (
+  patientId: string,
+  strategy: string,
+  pinned: boolean
+): Promise<string[]> => {
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(progressRef);
+      const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+      const pinnedStrategies = setStrategyPinnedIn(
+        progress.copingPreferences?.pinnedStrategies || [],
+        strategy,
+        pinned
+      );
+
+      transaction.set(
+        progressRef,
+        { patientId, copingPreferences: { pinnedStrategies }, lastUpdated: Timestamp.now() },
+        { merge: true }
+      );
+      return pinnedStrategies;
+    });
+  } catch (error) {
+    console.error('Error updating pinned strategies:', error);
+    throw new Error('Failed to update your toolbox. Please try again.');
+  }
+};
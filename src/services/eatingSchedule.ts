@@ -0,0 +1,124 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { assertActiveRelation } from './clinicianPatients';
+import { getFoodRecordsForDays } from './foodRecords';
+import { updateProgressMetrics } from './progress';
+import { scheduleEatingReminders } from './reminders';
+import { EatingAdherence, EatingSchedule, EatingScheduleFormData, UserRole } from '../types';
+import {
+  ADHERENCE_PERIOD_DAYS,
+  DEFAULT_ADHERENCE_WINDOW_MINUTES,
+  DEFAULT_EATING_OCCASIONS,
+} from '../constants/foodRecords';
+import { calculateEatingAdherence } from '../utils/eatingAdherence';
+import { getDayRange, toDayKey } from '../utils/date';
+
+/**
+ * Regular Eating Schedule Service
+ *
+ * One `eatingSchedules` document per patient (document id = patientId).
+ * The patient or their actively linked clinician can edit it.
+ */
+
+export const EATING_SCHEDULES_COLLECTION = 'eatingSchedules';
+
+// Suggested starting schedule for patients who haven't set one yet
+export const getDefaultEatingSchedule = (): EatingScheduleFormData => ({
+  occasions: DEFAULT_EATING_OCCASIONS.map((occasion, index) => ({
+    ...occasion,
+    id: `occasion-${index + 1}`,
+    remindersEnabled: true,
+  })),
+  adherenceWindowMinutes: DEFAULT_ADHERENCE_WINDOW_MINUTES,
+});
+
+// Get a patient's eating schedule, or null if none has been set
+export const getEatingSchedule = async (patientId: string): Promise<EatingSchedule | null> => {
+  try {
+    const scheduleDoc = await getDoc(doc(db, EATING_SCHEDULES_COLLECTION, patientId));
+    return scheduleDoc.exists() ? (scheduleDoc.data() as EatingSchedule) : null;
+  } catch (error) {
+    console.error('Error getting eating schedule:', error);
+    throw new Error('Failed to load the eating schedule. Please try again.');
+  }
+};
+
+// Save a patient's eating schedule; clinicians need an active relation
+export const saveEatingSchedule = async (
+  patientId: string,
+  data: EatingScheduleFormData,
+  editor: { id: string; role: UserRole }
+): Promise<EatingSchedule> => {
+  if (editor.role === 'clinician') {
+    await assertActiveRelation(editor.id, patientId);
+  } else if (editor.id !== patientId) {
+    throw new Error('You can only edit your own eating schedule.');
+  }
+
+  try {
+    const schedule: EatingSchedule = {
+      ...data,
+      occasions: [...data.occasions].sort((a, b) => a.time.localeCompare(b.time)),
+      patientId,
+      updatedBy: editor.id,
+      updatedByRole: editor.role,
+      updatedAt: Timestamp.now(),
+    };
+
+    await setDoc(doc(db, EATING_SCHEDULES_COLLECTION, patientId), schedule);
+
+    if (__DEV__) {
+      console.log('Eating schedule saved for patient:', patientId);
+    }
+
+    return schedule;
+  } catch (error) {
+    console.error('Save eating schedule error:', error);
+    throw new Error('Failed to save the eating schedule. Please try again.');
+  }
+};
+
+// Reschedule this device's reminders from the saved schedule (picks up clinician edits)
+export const syncEatingReminders = async (patientId: string): Promise<void> => {
+  try {
+    const schedule = await getEatingSchedule(patientId);
+    if (schedule) {
+      await scheduleEatingReminders(schedule.occasions);
+    }
+  } catch (error) {
+    console.error('Error syncing eating reminders:', error);
+  }
+};
+
+// Adherence over the last ADHERENCE_PERIOD_DAYS days, including today
+export const getEatingAdherence = async (
+  patientId: string,
+  schedule: EatingSchedule | EatingScheduleFormData
+): Promise<EatingAdherence> => {
+  const days = getDayRange(toDayKey(new Date()), ADHERENCE_PERIOD_DAYS);
+  const records = await getFoodRecordsForDays(patientId, days[0], days[days.length - 1]);
+
+  return calculateEatingAdherence(
+    schedule.occasions,
+    schedule.adherenceWindowMinutes,
+    records,
+    days
+  );
+};
+
+// Recompute adherence and store it in the patient's progress metrics
+export const refreshEatingAdherence = async (patientId: string): Promise<EatingAdherence | null> => {
+  try {
+    const schedule = await getEatingSchedule(patientId);
+    if (!schedule) {
+      return null;
+    }
+
+    const adherence = await getEatingAdherence(patientId, schedule);
+    await updateProgressMetrics(patientId, { regularEatingAdherence: adherence.adherenceRate });
+    return adherence;
+  } catch (error) {
+    console.error('Error refreshing eating adherence:', error);
+    return null;
+  }
+};
@@ -0,0 +1,156 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { PATIENT_PROGRESS_COLLECTION } from './progress';
+import { evaluateAchievements } from './achievements';
+import {
+  EducationModule,
+  ModuleActivity,
+  ModuleCompletionStatus,
+  PatientProgress,
+} from '../types';
+import { filterEducationModules } from '../utils/education';
+import { findPrerequisiteCycles } from '../utils/learningPaths';
+import {
+  addModuleActivity,
+  getModuleCompletionStatus,
+  ModuleActivityUpdate,
+  recordModuleCompletion,
+  toMinutesSpent,
+} from '../utils/moduleCompletion';
+
+/**
+ * Education Service
+ *
+ * Learning modules in the `educationModules` collection. Only active modules
+ * are shown to patients, in the catalogue's `order`; filtering by category
+ * and difficulty happens on the device (see `utils/education.ts`).
+ *
+ * Modules are locked until their prerequisites are completed (see
+ * `utils/learningPaths.ts`). Prerequisite cycles are logged when the
+ * catalogue loads so the content can be fixed.
+ *
+ * What a patient does in a module (reading time, quizzes, reflections and
+ * exercises) is kept in `moduleActivity` on their progress document. Once
+ * the module's completion criteria are met it is added to
+ * `completedModules` with the time spent and best quiz score (see
+ * `utils/moduleCompletion.ts`).
+ */
+
+export const EDUCATION_MODULES_COLLECTION = 'educationModules';
+
+// Active modules, in catalogue order
+export const getEducationModules = async (): Promise<EducationModule[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, EDUCATION_MODULES_COLLECTION), where('isActive', '==', true))
+    );
+
+    const modules = filterEducationModules(
+      snapshot.docs.map((moduleDoc) => ({
+        ...(moduleDoc.data() as Omit<EducationModule, 'id'>),
+        id: moduleDoc.id,
+      }))
+    );
+
+    // The modules still load; prerequisites within a cycle are ignored
+    const cycles = findPrerequisiteCycles(modules);
+    if (cycles.length > 0) {
+      console.error(
+        'Education module prerequisite cycles:',
+        cycles.map((cycle) => cycle.join(' -> '))
+      );
+    }
+
+    return modules;
+  } catch (error) {
+    console.error('Error getting education modules:', error);
+    throw new Error('Failed to load the learning modules. Please try again.');
+  }
+};
+
+// Get an active module by id
+export const getEducationModule = async (moduleId: string): Promise<EducationModule | null> => {
+  try {
+    const moduleDoc = await getDoc(doc(db, EDUCATION_MODULES_COLLECTION, moduleId));
+    if (!moduleDoc.exists()) {
+      return null;
+    }
+
+    const module = { ...(moduleDoc.data() as Omit<EducationModule, 'id'>), id: moduleDoc.id };
+    return module.isActive ? module : null;
+  } catch (error) {
+    console.error('Error getting education module:', error);
+    throw new Error('Failed to load this module. Please try again.');
+  }
+};
+
+// What recordModuleActivity() saved, and whether it completed the module
+export interface ModuleActivityResult {
+  activity: ModuleActivity;
+  status: ModuleCompletionStatus;
+  isCompleted: boolean; // complete now or before, even if the criteria have since changed
+  newlyCompleted: boolean;
+}
+
+// Add reading time, a finished interaction or a quiz result to the patient's
+// activity in a module, completing the module once its criteria are met
+export const recordModuleActivity = async (
+  patientId: string,
+  module: EducationModule,
+  update: ModuleActivityUpdate
+): Promise<ModuleActivityResult> => {
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+  try {
+    const result = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(progressRef);
+      const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+      const now = Timestamp.now();
+      const activity = addModuleActivity(progress.moduleActivity?.[module.id], update, now);
+      const status = getModuleCompletionStatus(module, activity);
+      const completedModules = progress.completedModules || [];
+      const wasCompleted = completedModules.some((completed) => completed.moduleId === module.id);
+      const isCompleted = wasCompleted || status.isComplete;
+
+      // Once complete, the entry keeps up with later reading time and quiz attempts
+      const updatedModules = isCompleted
+        ? recordModuleCompletion(
+            completedModules,
+            module.id,
+            { score: activity.quizScore, timeSpent: toMinutesSpent(activity) },
+            now
+          )
+        : completedModules;
+
+      transaction.set(
+        progressRef,
+        {
+          patientId,
+          moduleActivity: { [module.id]: activity },
+          completedModules: updatedModules,
+          progressMetrics: { totalModulesCompleted: updatedModules.length },
+          lastUpdated: now,
+        },
+        { merge: true }
+      );
+      return { activity, status, isCompleted, newlyCompleted: isCompleted && !wasCompleted };
+    });
+
+    if (result.newlyCompleted) {
+      evaluateAchievements(patientId);
+    }
+    return result;
+  } catch (error) {
+    console.error('Error recording module activity:', error);
+    throw new Error('Failed to save your progress on this module. Please try again.');
+  }
+};
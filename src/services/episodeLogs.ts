@@ -0,0 +1,130 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { enqueueWrite, getQueuedWrites } from './offlineQueue';
+import { getRecentCheckIns } from './checkIns';
+import { BingeEpisode, EpisodeLog } from '../types';
+import { removeUndefined, toDate } from '../utils/firestore';
+
+/**
+ * Episode Log Service
+ *
+ * Stores binge episodes logged in the moment in the `episodeLogs`
+ * collection. Episodes logged since the last check-in are carried into
+ * the next daily check-in.
+ */
+
+export const EPISODE_LOGS_COLLECTION = 'episodeLogs';
+
+// Map stored episode log data to an EpisodeLog
+const mapEpisodeLog = (id: string, data: DocumentData): EpisodeLog => ({
+  ...(data as Omit<EpisodeLog, 'id'>),
+  id,
+  date: toDate(data.date),
+});
+
+const mapEpisodeLogDoc = (snapshot: QueryDocumentSnapshot<DocumentData>): EpisodeLog =>
+  mapEpisodeLog(snapshot.id, snapshot.data());
+
+// Log a binge episode now (synced in the background)
+export const logEpisode = async (
+  patientId: string,
+  episode: BingeEpisode
+): Promise<EpisodeLog> => {
+  try {
+    const id = doc(collection(db, EPISODE_LOGS_COLLECTION)).id;
+    const { episodeLogId, ...episodeData } = episode;
+    const episodeLog = removeUndefined({
+      ...episodeData,
+      patientId,
+      loggedAt: Timestamp.now(),
+    });
+
+    await enqueueWrite({
+      id,
+      type: 'episodeLog',
+      collection: EPISODE_LOGS_COLLECTION,
+      userId: patientId,
+      payload: episodeLog,
+    });
+
+    if (__DEV__) {
+      console.log('Episode logged successfully:', id);
+    }
+
+    return { ...episodeLog, id };
+  } catch (error) {
+    console.error('Log episode error:', error);
+    throw new Error('Failed to log your episode. Please try again.');
+  }
+};
+
+// Get episodes logged after a given time, oldest first (includes unsynced entries)
+export const getEpisodeLogsSince = async (
+  patientId: string,
+  since: Date | null
+): Promise<EpisodeLog[]> => {
+  const logs = new Map<string, EpisodeLog>();
+
+  try {
+    const constraints = [where('patientId', '==', patientId)];
+    if (since) {
+      constraints.push(where('loggedAt', '>', Timestamp.fromDate(since)));
+    }
+
+    const snapshot = await getDocs(
+      query(collection(db, EPISODE_LOGS_COLLECTION), ...constraints, orderBy('loggedAt', 'asc'))
+    );
+    snapshot.docs.map(mapEpisodeLogDoc).forEach((log) => logs.set(log.id, log));
+  } catch (error) {
+    // Offline - fall back to entries still waiting in the queue
+    console.error('Error getting episode logs:', error);
+  }
+
+  const queued = await getQueuedWrites(patientId, 'episodeLog');
+  queued
+    .map(({ id, payload }) => mapEpisodeLog(id, payload))
+    .filter((log) => !since || toDate(log.loggedAt) > since)
+    .forEach((log) => logs.set(log.id, log));
+
+  return Array.from(logs.values()).sort(
+    (a, b) => toDate(a.loggedAt).getTime() - toDate(b.loggedAt).getTime()
+  );
+};
+
+// Episodes logged since the patient's last check-in, ready to pre-fill the next one
+export const getEpisodesForNextCheckIn = async (patientId: string): Promise<BingeEpisode[]> => {
+  let lastCheckInAt: Date | null = null;
+
+  try {
+    const [lastCheckIn] = await getRecentCheckIns(patientId, 1);
+    lastCheckInAt = lastCheckIn ? toDate(lastCheckIn.completedAt) : null;
+  } catch (error) {
+    console.error('Error getting last check-in for episode pre-fill:', error);
+  }
+
+  // A check-in completed offline may not have reached the server yet
+  const queuedCheckIns = await getQueuedWrites(patientId, 'checkIn');
+  queuedCheckIns.forEach(({ payload }) => {
+    const completedAt = toDate(payload.completedAt as Timestamp);
+    if (!lastCheckInAt || completedAt > lastCheckInAt) {
+      lastCheckInAt = completedAt;
+    }
+  });
+
+  const logs = await getEpisodeLogsSince(patientId, lastCheckInAt);
+
+  return logs.map(({ id, patientId: _patientId, loggedAt, ...episode }) => ({
+    ...episode,
+    episodeLogId: id,
+  }));
+};
@@ -0,0 +1,154 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { enqueueWrite, getQueuedWrites } from './offlineQueue';
+import { assertActiveRelation } from './clinicianPatients';
+import { FoodRecord, FoodRecordFormData } from '../types';
+import { removeUndefined, toDate } from '../utils/firestore';
+import { toDayKey } from '../utils/date';
+
+/**
+ * Food Record Service
+ *
+ * Real-time eating records (CBT-E self-monitoring) stored in the
+ * `foodRecords` collection, one document per eating occasion.
+ */
+
+export const FOOD_RECORDS_COLLECTION = 'foodRecords';
+
+const mapFoodRecord = (id: string, data: DocumentData): FoodRecord => ({
+  ...(data as Omit<FoodRecord, 'id'>),
+  id,
+  eatenAt: toDate(data.eatenAt),
+  compensatoryBehaviors: data.compensatoryBehaviors || [],
+});
+
+const sortByTime = (records: FoodRecord[]): FoodRecord[] =>
+  records.sort((a, b) => a.eatenAt.getTime() - b.eatenAt.getTime());
+
+// Add an eating record (synced in the background)
+export const addFoodRecord = async (
+  patientId: string,
+  data: FoodRecordFormData
+): Promise<FoodRecord> => {
+  try {
+    const id = doc(collection(db, FOOD_RECORDS_COLLECTION)).id;
+    const record = removeUndefined({
+      ...data,
+      patientId,
+      day: toDayKey(data.eatenAt),
+      createdAt: Timestamp.now(),
+    });
+
+    await enqueueWrite({
+      id,
+      type: 'foodRecord',
+      collection: FOOD_RECORDS_COLLECTION,
+      userId: patientId,
+      payload: record,
+    });
+
+    return { ...record, id };
+  } catch (error) {
+    console.error('Add food record error:', error);
+    throw new Error('Failed to save your food record. Please try again.');
+  }
+};
+
+// Fetch a patient's records for one day from Firestore
+const fetchFoodRecordsForDay = async (patientId: string, day: string): Promise<FoodRecord[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, FOOD_RECORDS_COLLECTION),
+      where('patientId', '==', patientId),
+      where('day', '==', day),
+      orderBy('eatenAt', 'asc')
+    )
+  );
+  return snapshot.docs.map((recordDoc) => mapFoodRecord(recordDoc.id, recordDoc.data()));
+};
+
+// Add the patient's records still waiting in the queue for an inclusive range of days
+const withQueuedRecords = async (
+  patientId: string,
+  fetched: FoodRecord[],
+  startDay: string,
+  endDay: string
+): Promise<FoodRecord[]> => {
+  const records = new Map(fetched.map((record) => [record.id, record]));
+
+  const queued = await getQueuedWrites(patientId, 'foodRecord');
+  queued
+    .map(({ id, payload }) => mapFoodRecord(id, payload))
+    .filter((record) => record.day >= startDay && record.day <= endDay)
+    .forEach((record) => records.set(record.id, record));
+
+  return sortByTime(Array.from(records.values()));
+};
+
+// Get the patient's own records for an inclusive range of days (includes unsynced entries)
+export const getFoodRecordsForDays = async (
+  patientId: string,
+  startDay: string,
+  endDay: string
+): Promise<FoodRecord[]> => {
+  let fetched: FoodRecord[];
+
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, FOOD_RECORDS_COLLECTION),
+        where('patientId', '==', patientId),
+        where('day', '>=', startDay),
+        where('day', '<=', endDay)
+      )
+    );
+    fetched = snapshot.docs.map((recordDoc) => mapFoodRecord(recordDoc.id, recordDoc.data()));
+  } catch (error) {
+    console.error('Error getting food records:', error);
+    throw new Error('Failed to load food records. Please try again.');
+  }
+
+  return withQueuedRecords(patientId, fetched, startDay, endDay);
+};
+
+// Get the patient's own records for a day (includes unsynced entries)
+export const getFoodRecordsForDay = async (
+  patientId: string,
+  day: string
+): Promise<FoodRecord[]> => {
+  let fetched: FoodRecord[] = [];
+
+  try {
+    fetched = await fetchFoodRecordsForDay(patientId, day);
+  } catch (error) {
+    // Offline - show what is still waiting in the queue
+    console.error('Error getting food records:', error);
+  }
+
+  return withQueuedRecords(patientId, fetched, day, day);
+};
+
+// Get a linked patient's records for a day (clinician view)
+export const getPatientFoodRecordsForDay = async (
+  clinicianId: string,
+  patientId: string,
+  day: string
+): Promise<FoodRecord[]> => {
+  await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    return await fetchFoodRecordsForDay(patientId, day);
+  } catch (error) {
+    console.error('Error getting patient food records:', error);
+    throw new Error('Failed to load food records. Please try again.');
+  }
+};
@@ -0,0 +1,193 @@
+import { doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { getPatientProgress, PATIENT_PROGRESS_COLLECTION } from './progress';
+import { assertActiveRelation } from './clinicianPatients';
+import { scheduleGoalReminders } from './reminders';
+import { Goal, GoalFormData, PatientProgress } from '../types';
+import { buildGoal, toggleGoalMilestone, withGoalProgress } from '../utils/goals';
+import { removeUndefined } from '../utils/firestore';
+
+/**
+ * Goals Service
+ *
+ * SMART goals live in the `goals` list on the patient's `patientProgress`
+ * document. Patients add their own goals; clinicians can suggest goals,
+ * which wait for the patient to accept or decline them. Goals linked to a
+ * metric are kept up to date when progress metrics are saved (see
+ * `services/progress.ts`), and due-date reminders are scheduled on the
+ * patient's device.
+ */
+
+// Apply a change to a patient's goals, reading inside a transaction so concurrent edits aren't lost
+const updateGoals = async (
+  patientId: string,
+  update: (goals: Goal[], progress: Partial<PatientProgress>) => Goal[]
+): Promise<Goal[]> => {
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(progressRef);
+    const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+    const goals = update(progress.goals || [], progress);
+
+    transaction.set(
+      progressRef,
+      removeUndefined({ patientId, goals, lastUpdated: Timestamp.now() }),
+      { merge: true }
+    );
+    return goals;
+  });
+};
+
+// Create a new goal id
+const createGoalId = (): string => `goal-${Date.now()}`;
+
+// Add a goal the patient has written themselves
+export const createGoal = async (patientId: string, data: GoalFormData): Promise<Goal[]> => {
+  try {
+    const goals = await updateGoals(patientId, (goals, progress) => [
+      ...goals,
+      buildGoal(data, progress, {
+        id: createGoalId(),
+        status: 'active',
+        createdBy: 'patient',
+        createdAt: Timestamp.now(),
+      }),
+    ]);
+
+    await scheduleGoalReminders(goals);
+    return goals;
+  } catch (error) {
+    console.error('Error creating goal:', error);
+    throw new Error('Failed to save your goal. Please try again.');
+  }
+};
+
+// A patient's goals, for their clinician (with the progress the goals are measured against)
+export const getPatientGoals = async (
+  clinicianId: string,
+  patientId: string
+): Promise<{ goals: Goal[]; progress: PatientProgress | null }> => {
+  await assertActiveRelation(clinicianId, patientId);
+
+  const progress = await getPatientProgress(patientId);
+  return { goals: progress?.goals || [], progress };
+};
+
+// Suggest a goal to a patient; it appears for them to accept or decline
+export const suggestGoal = async (
+  clinicianId: string,
+  patientId: string,
+  data: GoalFormData
+): Promise<void> => {
+  await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    await updateGoals(patientId, (goals, progress) => [
+      ...goals,
+      buildGoal(data, progress, {
+        id: createGoalId(),
+        status: 'suggested',
+        createdBy: 'clinician',
+        suggestedBy: clinicianId,
+        createdAt: Timestamp.now(),
+      }),
+    ]);
+
+    if (__DEV__) {
+      console.log('Goal suggested for patient:', patientId);
+    }
+  } catch (error) {
+    console.error('Error suggesting goal:', error);
+    throw new Error('Failed to suggest this goal. Please try again.');
+  }
+};
+
+// Accept a clinician's suggested goal, or decline it (which removes it)
+export const respondToSuggestedGoal = async (
+  patientId: string,
+  goalId: string,
+  accept: boolean
+): Promise<Goal[]> => {
+  try {
+    const goals = await updateGoals(patientId, (goals) => {
+      if (!accept) {
+        return goals.filter((goal) => goal.id !== goalId);
+      }
+      return goals.map((goal) =>
+        goal.id === goalId ? withGoalProgress({ ...goal, status: 'active' }, Timestamp.now()) : goal
+      );
+    });
+
+    await scheduleGoalReminders(goals);
+    return goals;
+  } catch (error) {
+    console.error('Error responding to suggested goal:', error);
+    throw new Error('Failed to update this goal. Please try again.');
+  }
+};
+
+// Check a milestone off (or back on), recomputing the goal's progress
+export const toggleMilestone = async (
+  patientId: string,
+  goalId: string,
+  milestoneId: string
+): Promise<Goal[]> => {
+  try {
+    const goals = await updateGoals(patientId, (goals) =>
+      goals.map((goal) =>
+        goal.id === goalId ? toggleGoalMilestone(goal, milestoneId, Timestamp.now()) : goal
+      )
+    );
+
+    await scheduleGoalReminders(goals);
+    return goals;
+  } catch (error) {
+    console.error('Error updating milestone:', error);
+    throw new Error('Failed to update this step. Please try again.');
+  }
+};
+
+// Mark a goal as achieved, whatever its progress
+export const completeGoal = async (patientId: string, goalId: string): Promise<Goal[]> => {
+  try {
+    const goals = await updateGoals(patientId, (goals) =>
+      goals.map((goal) =>
+        goal.id === goalId
+          ? { ...goal, isCompleted: true, completedAt: Timestamp.now(), progress: 100 }
+          : goal
+      )
+    );
+
+    await scheduleGoalReminders(goals);
+    return goals;
+  } catch (error) {
+    console.error('Error completing goal:', error);
+    throw new Error('Failed to update this goal. Please try again.');
+  }
+};
+
+// Remove a goal
+export const deleteGoal = async (patientId: string, goalId: string): Promise<Goal[]> => {
+  try {
+    const goals = await updateGoals(patientId, (goals) =>
+      goals.filter((goal) => goal.id !== goalId)
+    );
+
+    await scheduleGoalReminders(goals);
+    return goals;
+  } catch (error) {
+    console.error('Error deleting goal:', error);
+    throw new Error('Failed to delete this goal. Please try again.');
+  }
+};
+
+// Reschedule this device's goal reminders from the saved goals (picks up accepted suggestions)
+export const syncGoalReminders = async (patientId: string): Promise<void> => {
+  try {
+    const progress = await getPatientProgress(patientId);
+    await scheduleGoalReminders(progress?.goals || []);
+  } catch (error) {
+    console.error('Error syncing goal reminders:', error);
+  }
+};
@@ -1,3 +1,22 @@
 // Services exports
 export { default as firebase, auth, db } from './firebase';
 export * from './auth';
+export * from './checkIns';
+export * from './checkInDrafts';
+export * from './offlineQueue';
+export * from './episodeLogs';
+export * from './clinicianPatients';
+export * from './foodRecords';
+export * from './progress';
+export * from './eatingSchedule';
+export * from './reminders';
+export * from './checkInTemplates';
+export * from './progressSummaries';
+export * from './achievements';
+export * from './goals';
+export * from './insights';
+export * from './copingToolbox';
+export * from './notifications';
+export * from './relapseWarnings';
+export * from './education';
+export * from './reflections';
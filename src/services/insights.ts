@@ -0,0 +1,51 @@
+import { getCheckInsInRange } from './checkIns';
+import { getEpisodeLogsSince } from './episodeLogs';
+import { assertActiveRelation } from './clinicianPatients';
+import { PatternInsights } from '../types';
+import { INSIGHT_LOOKBACK_DAYS } from '../constants/insights';
+import { getDeviceTimeZone } from '../utils/date';
+import { findPatternInsights } from '../utils/insights';
+
+/**
+ * Insights Service
+ *
+ * Finds patterns in a patient's last INSIGHT_LOOKBACK_DAYS days of
+ * check-ins and episode logs (see `utils/insights.ts`). Nothing is stored:
+ * patterns are worked out each time they are viewed, so they always match
+ * the latest entries.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const loadPatternInsights = async (patientId: string): Promise<PatternInsights> => {
+  const now = new Date();
+  // A day extra covers timezones ahead of the device's
+  const since = new Date(now.getTime() - (INSIGHT_LOOKBACK_DAYS + 1) * DAY_MS);
+
+  try {
+    const [checkIns, episodeLogs] = await Promise.all([
+      getCheckInsInRange(patientId, since, new Date(now.getTime() + 1)),
+      getEpisodeLogsSince(patientId, since),
+    ]);
+
+    // Count days where the patient is, as of their latest check-in
+    const timeZone = checkIns[0]?.timeZone || getDeviceTimeZone();
+    return findPatternInsights(checkIns, episodeLogs, timeZone, now);
+  } catch (error) {
+    console.error('Error finding pattern insights:', error);
+    throw new Error('Failed to look for patterns. Please try again.');
+  }
+};
+
+// Patterns in the signed-in patient's own entries
+export const getPatternInsights = async (patientId: string): Promise<PatternInsights> =>
+  loadPatternInsights(patientId);
+
+// Patterns in a linked patient's entries (clinician view)
+export const getPatientPatternInsights = async (
+  clinicianId: string,
+  patientId: string
+): Promise<PatternInsights> => {
+  await assertActiveRelation(clinicianId, patientId);
+  return loadPatternInsights(patientId);
+};
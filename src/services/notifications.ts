@@ -0,0 +1,75 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { Notification } from '../types';
+import { removeUndefined } from '../utils/firestore';
+
+/**
+ * Notification Service
+ *
+ * In-app notifications in the `notifications` collection, one document per
+ * notification, addressed to a user by `userId`. Patients' devices create
+ * notifications for their clinician, such as early warnings (see
+ * `services/relapseWarnings.ts`).
+ */
+
+export const NOTIFICATIONS_COLLECTION = 'notifications';
+
+export type NewNotification = Omit<Notification, 'id' | 'isRead' | 'createdAt'>;
+
+// The document for a new, unread notification, for writing in a batch or transaction
+export const toNotificationData = (notification: NewNotification): Omit<Notification, 'id'> =>
+  removeUndefined({ ...notification, isRead: false, createdAt: Timestamp.now() });
+
+// Send a notification to a user
+export const createNotification = async (
+  notification: NewNotification
+): Promise<Notification> => {
+  try {
+    const data = toNotificationData(notification);
+    const notificationRef = await addDoc(collection(db, NOTIFICATIONS_COLLECTION), data);
+    return { ...data, id: notificationRef.id };
+  } catch (error) {
+    console.error('Create notification error:', error);
+    throw new Error('Failed to send the notification.');
+  }
+};
+
+// A user's unread notifications, newest first
+export const getUnreadNotifications = async (userId: string): Promise<Notification[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, NOTIFICATIONS_COLLECTION),
+        where('userId', '==', userId),
+        where('isRead', '==', false),
+        orderBy('createdAt', 'desc')
+      )
+    );
+    return snapshot.docs.map((notificationDoc) => ({
+      ...(notificationDoc.data() as Omit<Notification, 'id'>),
+      id: notificationDoc.id,
+    }));
+  } catch (error) {
+    console.error('Error getting notifications:', error);
+    throw new Error('Failed to load your notifications. Please try again.');
+  }
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, NOTIFICATIONS_COLLECTION, notificationId), { isRead: true });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    throw new Error('Failed to update the notification. Please try again.');
+  }
+};
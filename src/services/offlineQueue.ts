@@ -0,0 +1,251 @@
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, setDoc } from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { onAuthStateChange } from './auth';
+import { QueuedWrite, QueuedWriteType, SyncQueueStatus } from '../types';
+import { deserializeFromStorage, removeUndefined, serializeForStorage } from '../utils/firestore';
+import { SYNC_WRITE_TIMEOUT_MS } from '../constants/sync';
+import {
+  addQueuedWrite,
+  getDueWrites,
+  getNextAttemptAt,
+  getPendingForUser,
+  markWriteFailed,
+  removeSyncedWrite,
+} from '../utils/offlineQueue';
+
+/**
+ * Offline Write Queue
+ *
+ * Patient entries are written to a persistent on-device queue first and
+ * replayed to Firestore in the background. Each entry carries a
+ * client-generated document id, so replaying a write that already reached
+ * the server simply overwrites it with the same data.
+ */
+
+const QUEUE_STORAGE_KEY = '@offlineQueue';
+
+let status: SyncQueueStatus = {
+  pendingCount: 0,
+  isSyncing: false,
+  lastSyncError: null,
+  lastSyncedAt: null,
+};
+
+const statusListeners = new Set<(status: SyncQueueStatus) => void>();
+const syncedListeners = new Set<(userId: string, synced: QueuedWrite[]) => void>();
+let isProcessing = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Queue read-modify-write operations run one at a time
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const readQueue = async (): Promise<QueuedWrite[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as QueuedWrite[]) : [];
+  } catch (error) {
+    console.error('Error reading offline queue:', error);
+    return [];
+  }
+};
+
+const updateQueue = (
+  update: (queue: QueuedWrite[]) => QueuedWrite[]
+): Promise<QueuedWrite[]> => {
+  const operation = queueLock.then(async () => {
+    const queue = update(await readQueue());
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    return queue;
+  });
+  queueLock = operation.catch(() => undefined);
+  return operation;
+};
+
+const setStatus = (changes: Partial<SyncQueueStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach((listener) => listener(status));
+};
+
+const refreshPendingCount = async (queue?: QueuedWrite[]) => {
+  const currentQueue = queue ?? (await readQueue());
+  setStatus({ pendingCount: getPendingForUser(currentQueue, auth.currentUser?.uid).length });
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error('Timed out waiting for the server. You may be offline.')),
+      timeoutMs
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+const scheduleRetry = (queue: QueuedWrite[]) => {
+  if (retryTimeout) {
+    clearTimeout(retryTimeout);
+    retryTimeout = null;
+  }
+
+  const nextAttempt = getNextAttemptAt(queue, auth.currentUser?.uid);
+  if (nextAttempt === null) {
+    return;
+  }
+
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    processQueue();
+  }, Math.max(nextAttempt - Date.now(), 0));
+};
+
+// Add a write to the queue, replacing any pending write with the same id
+export const enqueueWrite = async (write: {
+  id: string;
+  type: QueuedWriteType;
+  collection: string;
+  userId: string;
+  payload: Record<string, unknown>;
+}): Promise<void> => {
+  const now = new Date().toISOString();
+  const entry: QueuedWrite = {
+    ...write,
+    payload: serializeForStorage(removeUndefined(write.payload)),
+    queuedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+
+  const queue = await updateQueue((current) => addQueuedWrite(current, entry));
+  await refreshPendingCount(queue);
+
+  if (__DEV__) {
+    console.log('Queued offline write:', write.type, write.id);
+  }
+
+  // Try straight away; failures are retried in the background
+  processQueue();
+};
+
+// Replay due writes for the signed-in user
+export const processQueue = async (): Promise<void> => {
+  const userId = auth.currentUser?.uid;
+  if (isProcessing || !userId) {
+    return;
+  }
+
+  isProcessing = true;
+  setStatus({ isSyncing: true });
+
+  let lastError: string | null = null;
+  const synced: QueuedWrite[] = [];
+
+  try {
+    const due = getDueWrites(await readQueue(), userId);
+
+    for (const item of due) {
+      try {
+        await withTimeout(
+          setDoc(doc(db, item.collection, item.id), deserializeFromStorage(item.payload)),
+          SYNC_WRITE_TIMEOUT_MS
+        );
+        synced.push(item);
+
+        // Leave the entry if it was replaced while this write was in flight
+        await updateQueue((queue) => removeSyncedWrite(queue, item));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to sync entry';
+        lastError = message;
+        console.error('Offline queue sync error:', item.type, item.id, error);
+
+        await updateQueue((queue) => markWriteFailed(queue, item, message));
+      }
+    }
+  } finally {
+    const queue = await readQueue();
+    isProcessing = false;
+    setStatus({
+      isSyncing: false,
+      lastSyncError: lastError,
+      lastSyncedAt: synced.length > 0 ? new Date().toISOString() : status.lastSyncedAt,
+    });
+    await refreshPendingCount(queue);
+    scheduleRetry(queue);
+
+    if (synced.length > 0) {
+      syncedListeners.forEach((listener) => listener(userId, synced));
+    }
+
+    if (__DEV__ && synced.length > 0) {
+      console.log(`Offline queue synced ${synced.length} entries`);
+    }
+  }
+};
+
+// Start replaying the queue on sign-in and whenever the app returns to the foreground
+export const startQueueSync = (): (() => void) => {
+  const handleAppStateChange = (nextState: AppStateStatus) => {
+    if (nextState === 'active') {
+      processQueue();
+    }
+  };
+
+  const appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  const unsubscribeAuth = onAuthStateChange(() => {
+    refreshPendingCount();
+    processQueue();
+  });
+
+  return () => {
+    appStateSubscription.remove();
+    unsubscribeAuth();
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+  };
+};
+
+// Entries of one type still waiting to sync for a user, decoded for reading
+export const getQueuedWrites = async (
+  userId: string,
+  type: QueuedWriteType
+): Promise<{ id: string; payload: Record<string, unknown> }[]> => {
+  const queue = await readQueue();
+  return getPendingForUser(queue, userId)
+    .filter((item) => item.type === type)
+    .map((item) => ({ id: item.id, payload: deserializeFromStorage(item.payload) }));
+};
+
+// Current queue status
+export const getQueueStatus = (): SyncQueueStatus => status;
+
+// Listen for queue status changes; the listener is called immediately
+export const subscribeToQueueStatus = (
+  listener: (status: SyncQueueStatus) => void
+): (() => void) => {
+  statusListeners.add(listener);
+  listener(status);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+// Listen for entries reaching Firestore, e.g. to catch up on work that needed them
+export const subscribeToSyncedWrites = (
+  listener: (userId: string, synced: QueuedWrite[]) => void
+): (() => void) => {
+  syncedListeners.add(listener);
+  return () => {
+    syncedListeners.delete(listener);
+  };
+};
@@ -0,0 +1,272 @@
+import { doc, getDoc, runTransaction, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { getAllCheckIns } from './checkIns';
+import { getEpisodeLogsSince } from './episodeLogs';
+import { subscribeToSyncedWrites } from './offlineQueue';
+import {
+  CheckInStreakState,
+  CheckInSurvey,
+  EpisodeLog,
+  PatientProgress,
+  ProgressMetricsState,
+} from '../types';
+import { WELLBEING_SCORE_VERSION } from '../constants/wellbeing';
+import { fromDayKey, getDeviceTimeZone } from '../utils/date';
+import {
+  addCheckInToMetricsState,
+  addEpisodeLogToMetricsState,
+  buildMetricsState,
+  deriveProgressMetrics,
+} from '../utils/progressMetrics';
+import {
+  addCheckInToStreak,
+  buildStreakState,
+  deriveCheckInStreak,
+  StreakOptions,
+} from '../utils/checkInStreak';
+import { updateGoalMetrics } from '../utils/goals';
+
+/**
+ * Patient Progress Service
+ *
+ * One `patientProgress` document per patient (document id = patientId).
+ * Progress metrics and the check-in streak are kept up to date one
+ * check-in or episode at a time from the running totals in `metricsState`
+ * and `streakState`, and rebuilt from the full history when there are none
+ * yet, the patient's timezone has changed, the wellbeing score formula has
+ * changed (`WELLBEING_SCORE_VERSION`), or a past check-in was edited.
+ * Goals linked to a metric are updated in the same write. Each write reads
+ * the stored totals in a transaction, so overlapping updates aren't lost.
+ *
+ * An entry made offline often can't be added when it's made, as the progress
+ * document can't be read; it is taken in by a rebuild once the offline queue
+ * has synced it (see `startProgressCatchUp`).
+ */
+
+export const PATIENT_PROGRESS_COLLECTION = 'patientProgress';
+
+// Patients with an entry that couldn't be added to their progress this session
+const patientsNeedingRebuild = new Set<string>();
+
+// Merge updated metric values into the patient's progress document
+export const updateProgressMetrics = async (
+  patientId: string,
+  metrics: Partial<PatientProgress['progressMetrics']>
+): Promise<void> => {
+  try {
+    await setDoc(
+      doc(db, PATIENT_PROGRESS_COLLECTION, patientId),
+      {
+        patientId,
+        progressMetrics: metrics,
+        lastUpdated: Timestamp.now(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error updating progress metrics:', error);
+    throw new Error('Failed to update progress. Please try again.');
+  }
+};
+
+// Get a patient's progress document, if one exists yet
+export const getPatientProgress = async (patientId: string): Promise<PatientProgress | null> => {
+  try {
+    const progressDoc = await getDoc(doc(db, PATIENT_PROGRESS_COLLECTION, patientId));
+    return progressDoc.exists()
+      ? ({ ...progressDoc.data(), id: progressDoc.id } as PatientProgress)
+      : null;
+  } catch (error) {
+    console.error('Error getting patient progress:', error);
+    throw new Error('Failed to load progress. Please try again.');
+  }
+};
+
+// Streak rules for a patient on this device
+export const getStreakOptions = (progress: Partial<PatientProgress> | null): StreakOptions => ({
+  timeZone: getDeviceTimeZone(),
+  weeklyRestDay: progress?.streakPreferences?.weeklyRestDay ?? false,
+});
+
+// The stored form of a streak, once there has been a check-in
+const toStoredStreak = (
+  streakState: CheckInStreakState,
+  options: StreakOptions
+): PatientProgress['checkInStreak'] | null => {
+  const streak = deriveCheckInStreak(streakState, options);
+  if (!streak.lastCheckInAt || !streak.streakStartDay) {
+    return null;
+  }
+
+  return {
+    current: streak.current,
+    longest: streak.longest,
+    lastCheckIn: Timestamp.fromDate(streak.lastCheckInAt),
+    streakStartDate: Timestamp.fromDate(fromDayKey(streak.streakStartDay)),
+    restDaysUsed: streak.restDaysUsed,
+  };
+};
+
+// New running totals worked out from the stored progress, or null if the stored ones can't be used
+type ProgressStateUpdate = (
+  progress: Partial<PatientProgress>
+) => [ProgressMetricsState, CheckInStreakState] | null;
+
+// Store new running totals and the metrics and streak derived from them. The
+// stored progress is read and written in one transaction, so updates saved
+// in the meantime (another entry, goal changes in `services/goals.ts`)
+// aren't undone. Returns null, saving nothing, if `update` returns null.
+const saveProgressState = async (
+  patientId: string,
+  update: ProgressStateUpdate
+): Promise<PatientProgress['progressMetrics'] | null> => {
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(progressRef);
+    const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+    const next = update(progress);
+    if (!next) {
+      return null;
+    }
+
+    const [metricsState, streakState] = next;
+    const metrics = deriveProgressMetrics(metricsState, {
+      totalModulesCompleted: progress.completedModules?.length ?? 0,
+    });
+    const checkInStreak = toStoredStreak(streakState, getStreakOptions(progress));
+    // Goals linked to a metric move with it
+    const goals = updateGoalMetrics(
+      progress.goals || [],
+      {
+        progressMetrics: { ...progress.progressMetrics, ...metrics },
+        checkInStreak: checkInStreak ?? progress.checkInStreak,
+      },
+      Timestamp.now()
+    );
+
+    // The running totals are replaced rather than merged so pruned entries
+    // are dropped, and metrics computed elsewhere (e.g. eating adherence)
+    // are left alone
+    transaction.set(
+      progressRef,
+      {
+        patientId,
+        progressMetrics: metrics,
+        metricsState,
+        streakState,
+        ...(checkInStreak && { checkInStreak }),
+        ...(goals && { goals }),
+        lastUpdated: Timestamp.now(),
+      },
+      {
+        mergeFields: [
+          'patientId',
+          'metricsState',
+          'streakState',
+          'lastUpdated',
+          ...(checkInStreak ? ['checkInStreak'] : []),
+          ...(goals ? ['goals'] : []),
+          ...Object.keys(metrics).map((key) => `progressMetrics.${key}`),
+        ],
+      }
+    );
+
+    return { ...progress.progressMetrics, ...metrics };
+  });
+};
+
+// Rebuild a patient's progress metrics from their whole history
+export const recomputeProgressMetrics = async (
+  patientId: string
+): Promise<PatientProgress['progressMetrics'] | null> => {
+  try {
+    const [checkIns, episodeLogs] = await Promise.all([
+      getAllCheckIns(patientId),
+      getEpisodeLogsSince(patientId, null),
+    ]);
+
+    return await saveProgressState(patientId, (progress) => [
+      buildMetricsState(checkIns, episodeLogs, getDeviceTimeZone()),
+      buildStreakState(checkIns, getStreakOptions(progress)),
+    ]);
+  } catch (error) {
+    console.error('Error recomputing progress metrics:', error);
+    return null;
+  }
+};
+
+// Fold one new entry into the stored totals, or rebuild when they can't be used
+const recordProgress = async (
+  patientId: string,
+  add: (
+    metricsState: ProgressMetricsState,
+    streakState: CheckInStreakState,
+    options: StreakOptions
+  ) => [ProgressMetricsState, CheckInStreakState]
+): Promise<PatientProgress['progressMetrics'] | null> => {
+  try {
+    const metrics = await saveProgressState(patientId, (progress) => {
+      const { metricsState, streakState } = progress;
+      if (
+        !metricsState ||
+        !streakState ||
+        metricsState.timeZone !== getDeviceTimeZone() ||
+        metricsState.wellbeingScoreVersion !== WELLBEING_SCORE_VERSION
+      ) {
+        return null;
+      }
+
+      return add(metricsState, streakState, getStreakOptions(progress));
+    });
+    return metrics ?? (await recomputeProgressMetrics(patientId));
+  } catch (error) {
+    console.error('Error recording progress:', error);
+    patientsNeedingRebuild.add(patientId);
+    return null;
+  }
+};
+
+// Update progress metrics and the streak after a new check-in
+export const recordCheckInProgress = (patientId: string, checkIn: CheckInSurvey) =>
+  recordProgress(patientId, (metricsState, streakState, options) => [
+    addCheckInToMetricsState(metricsState, checkIn),
+    addCheckInToStreak(streakState, checkIn, options),
+  ]);
+
+// Update progress metrics after a newly logged episode
+export const recordEpisodeLogProgress = (patientId: string, episodeLog: EpisodeLog) =>
+  recordProgress(patientId, (metricsState, streakState) => [
+    addEpisodeLogToMetricsState(metricsState, episodeLog),
+    streakState,
+  ]);
+
+// Rebuild progress once check-ins or episodes that couldn't be added have synced. Entries
+// that failed to sync at first were made offline, including before an app restart.
+export const startProgressCatchUp = (): (() => void) =>
+  subscribeToSyncedWrites((userId, synced) => {
+    const entries = synced.filter((item) => item.type === 'checkIn' || item.type === 'episodeLog');
+    if (
+      entries.length > 0 &&
+      (patientsNeedingRebuild.has(userId) || entries.some((item) => item.attempts > 0))
+    ) {
+      patientsNeedingRebuild.delete(userId);
+      recomputeProgressMetrics(userId);
+    }
+  });
+
+// Turn the weekly rest day on or off; the streak is recounted under the new rule
+export const setWeeklyRestDay = async (patientId: string, enabled: boolean): Promise<void> => {
+  try {
+    await setDoc(
+      doc(db, PATIENT_PROGRESS_COLLECTION, patientId),
+      { patientId, streakPreferences: { weeklyRestDay: enabled } },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error updating streak preferences:', error);
+    throw new Error('Failed to update your streak settings. Please try again.');
+  }
+
+  await recomputeProgressMetrics(patientId);
+};
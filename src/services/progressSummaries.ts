@@ -0,0 +1,190 @@
+import { doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { getCheckInsInRange } from './checkIns';
+import { getEpisodeLogsSince } from './episodeLogs';
+import { getPatientProgress, PATIENT_PROGRESS_COLLECTION } from './progress';
+import { MonthlySummary, PatientProgress, WeeklySummary } from '../types';
+import { addDays, fromDayKey, getDeviceTimeZone, toZonedDayKey } from '../utils/date';
+import { removeUndefined } from '../utils/firestore';
+import {
+  buildMonthlySummary,
+  buildWeeklySummary,
+  getClosedMonths,
+  getClosedWeekStarts,
+  toMonthKey,
+} from '../utils/progressSummaries';
+
+/**
+ * Progress Summaries Service
+ *
+ * Weekly and monthly summaries are stored on the patient's `patientProgress`
+ * document. Each closed period is summarized once (see
+ * `utils/progressSummaries.ts`); `summaryState` records how far that has
+ * got, so a patient who hasn't opened the app for a while catches up on
+ * their next visit. Patients add their goals for the next period from a
+ * reflection screen.
+ */
+
+type SummaryPeriod = 'week' | 'month';
+
+const getMonthKey = (summary: MonthlySummary): string => toMonthKey(summary.year, summary.month);
+
+// Replace summaries with the same key, keeping the list oldest first
+const mergeSummaries = <T>(existing: T[], added: T[], getKey: (summary: T) => string): T[] => {
+  const byKey = new Map(existing.map((summary) => [getKey(summary), summary]));
+  added.forEach((summary) => byKey.set(getKey(summary), summary));
+  return Array.from(byKey.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, summary]) => summary);
+};
+
+// Read-modify-write the summaries in one transaction, so a summary run and a
+// reflection (or two summary runs) saved at the same time don't undo each other
+const updateSummaries = <T>(
+  patientId: string,
+  update: (progress: Partial<PatientProgress>) => [Partial<PatientProgress>, T]
+): Promise<T> => {
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(progressRef);
+    const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+    const [fields, result] = update(progress);
+    transaction.set(
+      progressRef,
+      removeUndefined({ ...fields, patientId, lastUpdated: Timestamp.now() }),
+      { merge: true }
+    );
+    return result;
+  });
+};
+
+/**
+ * Summarize any weeks and months that have closed since the last run.
+ * Best-effort: failures are logged and return null, and the next run
+ * picks up where this one stopped.
+ */
+export const generateProgressSummaries = async (
+  patientId: string
+): Promise<Pick<PatientProgress, 'weeklySummaries' | 'monthlySummaries'> | null> => {
+  try {
+    const progress = await getPatientProgress(patientId);
+    const firstDay = progress?.metricsState?.firstDay;
+    if (!progress || !firstDay) {
+      return null;
+    }
+
+    const timeZone = getDeviceTimeZone();
+    const today = toZonedDayKey(new Date(), timeZone);
+    const weeks = getClosedWeekStarts(progress.summaryState?.lastWeekStart, firstDay, today);
+    const months = getClosedMonths(progress.summaryState?.lastMonth, firstDay, today);
+    if (weeks.length === 0 && months.length === 0) {
+      return {
+        weeklySummaries: progress.weeklySummaries || [],
+        monthlySummaries: progress.monthlySummaries || [],
+      };
+    }
+
+    // A day either side covers the difference between device and patient timezone
+    const fromDay = [weeks[0], months.length > 0 ? `${months[0]}-01` : undefined]
+      .filter((day): day is string => !!day)
+      .sort()[0];
+    const since = fromDayKey(addDays(fromDay, -1));
+    const [checkIns, episodeLogs] = await Promise.all([
+      getCheckInsInRange(patientId, since, fromDayKey(addDays(today, 1))),
+      getEpisodeLogsSince(patientId, since),
+    ]);
+    const entries = { checkIns, episodeLogs, completedModules: progress.completedModules || [] };
+
+    const newWeeks = weeks
+      .map((weekStart) => buildWeeklySummary(entries, weekStart, timeZone))
+      .filter((summary): summary is WeeklySummary => !!summary);
+    const newMonths = months
+      .map((month) => buildMonthlySummary(entries, month, timeZone))
+      .filter((summary): summary is MonthlySummary => !!summary);
+
+    const updated = await updateSummaries(patientId, (stored) => {
+      // Periods another run summarized in the meantime keep their stored
+      // summary, along with any goals already set from it
+      const { lastWeekStart, lastMonth } = stored.summaryState || {};
+      const addedWeeks = newWeeks.filter(
+        (summary) => !lastWeekStart || summary.weekStartDay > lastWeekStart
+      );
+      const addedMonths = newMonths.filter(
+        (summary) => !lastMonth || getMonthKey(summary) > lastMonth
+      );
+      const summaries = {
+        weeklySummaries: mergeSummaries(
+          stored.weeklySummaries || [],
+          addedWeeks,
+          (summary) => summary.weekStartDay
+        ),
+        monthlySummaries: mergeSummaries(stored.monthlySummaries || [], addedMonths, getMonthKey),
+      };
+      const summaryState = {
+        lastWeekStart: [lastWeekStart, weeks[weeks.length - 1]].filter(Boolean).sort().pop(),
+        lastMonth: [lastMonth, months[months.length - 1]].filter(Boolean).sort().pop(),
+      };
+      return [{ ...summaries, summaryState }, summaries];
+    });
+
+    if (__DEV__) {
+      console.log('Progress summaries generated:', newWeeks.length, newMonths.length);
+    }
+
+    return updated;
+  } catch (error) {
+    console.error('Error generating progress summaries:', error);
+    return null;
+  }
+};
+
+// Save the goals a patient set while reflecting on a week ("2025-03-03") or month ("2025-03")
+export const saveSummaryGoals = async (
+  patientId: string,
+  period: SummaryPeriod,
+  periodKey: string,
+  goals: string[]
+): Promise<void> => {
+  try {
+    const reflectedAt = Timestamp.now();
+    const cleanGoals = goals.map((goal) => goal.trim()).filter(Boolean);
+
+    await updateSummaries(patientId, (progress) => {
+      if (period === 'week') {
+        const summaries = progress.weeklySummaries || [];
+        if (!summaries.some((summary) => summary.weekStartDay === periodKey)) {
+          throw new Error(`Weekly summary not found: ${periodKey}`);
+        }
+        return [
+          {
+            weeklySummaries: summaries.map((summary) =>
+              summary.weekStartDay === periodKey
+                ? { ...summary, goalsForNextWeek: cleanGoals, reflectedAt }
+                : summary
+            ),
+          },
+          undefined,
+        ];
+      }
+
+      const summaries = progress.monthlySummaries || [];
+      if (!summaries.some((summary) => getMonthKey(summary) === periodKey)) {
+        throw new Error(`Monthly summary not found: ${periodKey}`);
+      }
+      return [
+        {
+          monthlySummaries: summaries.map((summary) =>
+            getMonthKey(summary) === periodKey
+              ? { ...summary, nextMonthGoals: cleanGoals, reflectedAt }
+              : summary
+          ),
+        },
+        undefined,
+      ];
+    });
+  } catch (error) {
+    console.error('Error saving summary goals:', error);
+    throw new Error('Failed to save your goals. Please try again.');
+  }
+};
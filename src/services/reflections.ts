@@ -0,0 +1,153 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { assertActiveRelation, getPatientRelation } from './clinicianPatients';
+import { EducationModule, ModuleReflection } from '../types';
+import { toDate } from '../utils/firestore';
+
+/**
+ * Module Reflection Service
+ *
+ * Patients' journal entries for education modules, in the
+ * `moduleReflections` collection with one document per patient and module
+ * (document id = `${patientId}_${moduleId}`). Reflections are private: a
+ * clinician only sees one the patient has shared with them, recorded in
+ * `sharedWith`. Editing a shared reflection keeps it shared.
+ */
+
+export const MODULE_REFLECTIONS_COLLECTION = 'moduleReflections';
+
+const getReflectionId = (patientId: string, moduleId: string): string =>
+  `${patientId}_${moduleId}`;
+
+const byMostRecent = (reflections: ModuleReflection[]): ModuleReflection[] =>
+  reflections.sort((a, b) => toDate(b.updatedAt).getTime() - toDate(a.updatedAt).getTime());
+
+// The patient's reflection on a module, if they have written one
+export const getModuleReflection = async (
+  patientId: string,
+  moduleId: string
+): Promise<ModuleReflection | null> => {
+  try {
+    const reflectionDoc = await getDoc(
+      doc(db, MODULE_REFLECTIONS_COLLECTION, getReflectionId(patientId, moduleId))
+    );
+    return reflectionDoc.exists()
+      ? { ...(reflectionDoc.data() as Omit<ModuleReflection, 'id'>), id: reflectionDoc.id }
+      : null;
+  } catch (error) {
+    console.error('Error getting module reflection:', error);
+    throw new Error('Failed to load your reflection. Please try again.');
+  }
+};
+
+// Save the patient's responses to a module's prompts
+export const saveModuleReflection = async (
+  patientId: string,
+  module: Pick<EducationModule, 'id' | 'title'>,
+  responses: ModuleReflection['responses']
+): Promise<ModuleReflection> => {
+  const existing = await getModuleReflection(patientId, module.id);
+
+  try {
+    const now = Timestamp.now();
+    const reflection: ModuleReflection = {
+      ...existing,
+      id: getReflectionId(patientId, module.id),
+      patientId,
+      moduleId: module.id,
+      moduleTitle: module.title,
+      responses,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    const { id, ...data } = reflection;
+
+    await setDoc(doc(db, MODULE_REFLECTIONS_COLLECTION, id), data);
+    return reflection;
+  } catch (error) {
+    console.error('Save module reflection error:', error);
+    throw new Error('Failed to save your reflection. Please try again.');
+  }
+};
+
+// All of the patient's reflections, most recently written first
+export const getPatientReflections = async (patientId: string): Promise<ModuleReflection[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, MODULE_REFLECTIONS_COLLECTION), where('patientId', '==', patientId))
+    );
+
+    return byMostRecent(
+      snapshot.docs.map((reflectionDoc) => ({
+        ...(reflectionDoc.data() as Omit<ModuleReflection, 'id'>),
+        id: reflectionDoc.id,
+      }))
+    );
+  } catch (error) {
+    console.error('Error getting reflections:', error);
+    throw new Error('Failed to load your reflections. Please try again.');
+  }
+};
+
+// Share a reflection with the patient's current clinician, or stop sharing it
+export const setReflectionShared = async (
+  patientId: string,
+  moduleId: string,
+  shared: boolean
+): Promise<void> => {
+  const relation = shared ? await getPatientRelation(patientId) : null;
+  if (shared && !relation) {
+    throw new Error('You need a linked clinician to share a reflection.');
+  }
+
+  try {
+    await updateDoc(
+      doc(db, MODULE_REFLECTIONS_COLLECTION, getReflectionId(patientId, moduleId)),
+      relation
+        ? { sharedWith: relation.clinicianId, sharedAt: Timestamp.now() }
+        : { sharedWith: deleteField(), sharedAt: deleteField() }
+    );
+  } catch (error) {
+    console.error('Share module reflection error:', error);
+    throw new Error('Failed to update sharing for this reflection. Please try again.');
+  }
+};
+
+// Reflections a linked patient has shared with the clinician, most recent first
+export const getSharedReflections = async (
+  clinicianId: string,
+  patientId: string
+): Promise<ModuleReflection[]> => {
+  await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, MODULE_REFLECTIONS_COLLECTION),
+        where('patientId', '==', patientId),
+        where('sharedWith', '==', clinicianId)
+      )
+    );
+
+    return byMostRecent(
+      snapshot.docs.map((reflectionDoc) => ({
+        ...(reflectionDoc.data() as Omit<ModuleReflection, 'id'>),
+        id: reflectionDoc.id,
+      }))
+    );
+  } catch (error) {
+    console.error('Error getting shared reflections:', error);
+    throw new Error('Failed to load the shared reflections. Please try again.');
+  }
+};
@@ -0,0 +1,193 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { getCurrentUserProfile, UserProfile } from './auth';
+import { getCheckInsInRange } from './checkIns';
+import { getEpisodeLogsSince } from './episodeLogs';
+import {
+  assertActiveRelation,
+  getPatientRelation,
+  LinkedPatient,
+  RELATIONS_COLLECTION,
+} from './clinicianPatients';
+import { NOTIFICATIONS_COLLECTION, toNotificationData } from './notifications';
+import { PATIENT_PROGRESS_COLLECTION } from './progress';
+import {
+  ClinicianPatientRelation,
+  PatientProgress,
+  RelapseWarning,
+  RelapseWarningSettings,
+} from '../types';
+import {
+  RELAPSE_WARNING_LOOKBACK_DAYS,
+  RELAPSE_WARNING_TITLES,
+} from '../constants/relapseWarnings';
+import { getDeviceTimeZone, toZonedDayKey } from '../utils/date';
+import {
+  detectRelapseWarnings,
+  getDueRelapseWarnings,
+  resolveRelapseWarningSettings,
+} from '../utils/relapseWarnings';
+
+/**
+ * Relapse Early-Warning Service
+ *
+ * Looks for warning signs in a patient's recent entries (see
+ * `utils/relapseWarnings.ts`) and sends their clinician a 'warning'
+ * notification for each new one. The check runs on the patient's device
+ * after each check-in and episode log, and on the clinician's when they open
+ * their patient list, which is what notices check-ins that have stopped.
+ *
+ * Each kind of warning is sent at most once every
+ * RELAPSE_WARNING_COOLDOWN_DAYS days, tracked in `relapseWarningsSent` on the
+ * patient's progress document. Thresholds are kept on the clinician-patient
+ * relation, with defaults for anything the clinician hasn't set.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const runRelapseWarningCheck = async (
+  relation: ClinicianPatientRelation,
+  patientName?: string
+): Promise<RelapseWarning[]> => {
+  const { patientId, clinicianId } = relation;
+  const settings = resolveRelapseWarningSettings(relation.relapseWarningSettings);
+  if (!settings.enabled) {
+    return [];
+  }
+
+  const now = new Date();
+  // A day extra covers timezones ahead of the device's
+  const since = new Date(now.getTime() - (RELAPSE_WARNING_LOOKBACK_DAYS + 1) * DAY_MS);
+  const [checkIns, episodeLogs] = await Promise.all([
+    getCheckInsInRange(patientId, since, new Date(now.getTime() + 1)),
+    getEpisodeLogsSince(patientId, since),
+  ]);
+
+  // Count days where the patient is, as of their latest check-in
+  const timeZone = checkIns[0]?.timeZone || getDeviceTimeZone();
+  const today = toZonedDayKey(now, timeZone);
+  const warnings = detectRelapseWarnings(checkIns, episodeLogs, settings, timeZone, now);
+  if (warnings.length === 0) {
+    return [];
+  }
+
+  // Claim the warnings and send them in one transaction, so two devices checking at once
+  // don't both send them and a warning is never marked sent without reaching the clinician
+  const progressRef = doc(db, PATIENT_PROGRESS_COLLECTION, patientId);
+  const due = await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(progressRef);
+    const progress = (snapshot.exists() ? snapshot.data() : {}) as Partial<PatientProgress>;
+    const dueWarnings = getDueRelapseWarnings(warnings, progress.relapseWarningsSent, today);
+
+    if (dueWarnings.length > 0) {
+      transaction.set(
+        progressRef,
+        {
+          patientId,
+          relapseWarningsSent: Object.fromEntries(
+            dueWarnings.map((warning) => [warning.type, today])
+          ),
+          lastUpdated: Timestamp.now(),
+        },
+        { merge: true }
+      );
+    }
+
+    dueWarnings.forEach((warning) => {
+      transaction.set(
+        doc(collection(db, NOTIFICATIONS_COLLECTION)),
+        toNotificationData({
+          userId: clinicianId,
+          title: patientName
+            ? `${patientName}: ${RELAPSE_WARNING_TITLES[warning.type]}`
+            : RELAPSE_WARNING_TITLES[warning.type],
+          message: warning.message,
+          type: 'warning',
+          patientId,
+          relapseWarning: warning.type,
+        })
+      );
+    });
+
+    return dueWarnings;
+  });
+
+  if (__DEV__ && due.length > 0) {
+    console.log('Relapse warnings sent for patient:', patientId);
+  }
+
+  return due;
+};
+
+const formatName = (profile: UserProfile | null): string | undefined =>
+  profile ? `${profile.firstName} ${profile.lastName}` : undefined;
+
+// Check the signed-in patient's entries after they add one (best effort: failures are logged)
+export const checkRelapseWarnings = async (patientId: string): Promise<RelapseWarning[]> => {
+  try {
+    const relation = await getPatientRelation(patientId);
+    if (!relation) {
+      return [];
+    }
+
+    return await runRelapseWarningCheck(relation, formatName(await getCurrentUserProfile()));
+  } catch (error) {
+    console.error('Error checking relapse warnings:', error);
+    return [];
+  }
+};
+
+// Check each of a clinician's linked patients (best effort: failures are logged)
+export const checkLinkedPatientsRelapseWarnings = async (
+  clinicianId: string,
+  patients: LinkedPatient[]
+): Promise<RelapseWarning[]> => {
+  const results = await Promise.all(
+    patients
+      .filter(({ relation }) => relation.clinicianId === clinicianId)
+      .map(async ({ relation, profile }) => {
+        try {
+          return await runRelapseWarningCheck(relation, formatName(profile));
+        } catch (error) {
+          console.error('Error checking relapse warnings:', error);
+          return [];
+        }
+      })
+  );
+  return results.flat();
+};
+
+// Early-warning thresholds for a linked patient, with defaults filled in
+export const getRelapseWarningSettings = async (
+  clinicianId: string,
+  patientId: string
+): Promise<RelapseWarningSettings> => {
+  const relation = await assertActiveRelation(clinicianId, patientId);
+  return resolveRelapseWarningSettings(relation.relapseWarningSettings);
+};
+
+// Save a linked patient's early-warning thresholds, or pass null to go back to the defaults
+export const saveRelapseWarningSettings = async (
+  clinicianId: string,
+  patientId: string,
+  settings: RelapseWarningSettings | null
+): Promise<void> => {
+  const relation = await assertActiveRelation(clinicianId, patientId);
+
+  try {
+    await updateDoc(doc(db, RELATIONS_COLLECTION, relation.id), {
+      relapseWarningSettings: settings ?? deleteField(),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Save relapse warning settings error:', error);
+    throw new Error('Failed to save the early-warning settings. Please try again.');
+  }
+};
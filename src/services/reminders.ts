@@ -0,0 +1,154 @@
+import * as Notifications from 'expo-notifications';
+import { Goal, PlannedEatingOccasion } from '../types';
+import { MEAL_TYPE_OPTIONS } from '../constants/foodRecords';
+import { GOAL_REMINDER_HOUR } from '../constants/goals';
+import { toDate } from '../utils/firestore';
+
+/**
+ * Local Reminder Service
+ *
+ * Schedules on-device notifications. Reminders are identified by a
+ * prefix so each feature can replace its own set without touching others.
+ */
+
+const EATING_REMINDER_PREFIX = 'eating-reminder-';
+const GOAL_REMINDER_PREFIX = 'goal-reminder-';
+
+// Show reminders while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+// Ask for notification permission if it hasn't been granted yet
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      return true;
+    }
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    return false;
+  }
+};
+
+// Cancel scheduled reminders whose identifier starts with a prefix
+const cancelRemindersWithPrefix = async (prefix: string): Promise<void> => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((notification) => notification.identifier.startsWith(prefix))
+      .map((notification) =>
+        Notifications.cancelScheduledNotificationAsync(notification.identifier)
+      )
+  );
+};
+
+// Replace the daily reminders for planned meals and snacks
+export const scheduleEatingReminders = async (
+  occasions: PlannedEatingOccasion[]
+): Promise<void> => {
+  try {
+    await cancelRemindersWithPrefix(EATING_REMINDER_PREFIX);
+
+    const enabled = occasions.filter((occasion) => occasion.remindersEnabled);
+    if (enabled.length === 0 || !(await ensureNotificationPermission())) {
+      return;
+    }
+
+    await Promise.all(
+      enabled.map((occasion) => {
+        const [hour, minute] = occasion.time.split(':').map(Number);
+        const label =
+          MEAL_TYPE_OPTIONS.find((option) => option.value === occasion.mealType)?.label || 'Meal';
+
+        return Notifications.scheduleNotificationAsync({
+          identifier: `${EATING_REMINDER_PREFIX}${occasion.id}`,
+          content: {
+            title: `Time for ${label.toLowerCase()}`,
+            body: 'Sticking to your planned eating times helps keep things steady.',
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DAILY,
+            hour,
+            minute,
+          },
+        });
+      })
+    );
+
+    if (__DEV__) {
+      console.log(`Scheduled ${enabled.length} eating reminders`);
+    }
+  } catch (error) {
+    console.error('Error scheduling eating reminders:', error);
+  }
+};
+
+// Replace the reminders for goals due soon: the day before and on the day, in the morning
+export const scheduleGoalReminders = async (goals: Goal[]): Promise<void> => {
+  try {
+    await cancelRemindersWithPrefix(GOAL_REMINDER_PREFIX);
+
+    const now = new Date();
+    const reminders = goals
+      .filter((goal) => goal.status === 'active' && !goal.isCompleted)
+      .flatMap((goal) => {
+        const dueDay = toDate(goal.targetDate);
+        const dayBefore = new Date(dueDay);
+        dayBefore.setDate(dayBefore.getDate() - 1);
+        dayBefore.setHours(GOAL_REMINDER_HOUR, 0, 0, 0);
+        const onTheDay = new Date(dueDay);
+        onTheDay.setHours(GOAL_REMINDER_HOUR, 0, 0, 0);
+
+        return [
+          { id: `${goal.id}-before`, date: dayBefore, title: 'Goal due tomorrow', goal },
+          { id: `${goal.id}-due`, date: onTheDay, title: 'Goal due today', goal },
+        ];
+      })
+      .filter((reminder) => reminder.date > now);
+
+    if (reminders.length === 0 || !(await ensureNotificationPermission())) {
+      return;
+    }
+
+    await Promise.all(
+      reminders.map((reminder) =>
+        Notifications.scheduleNotificationAsync({
+          identifier: `${GOAL_REMINDER_PREFIX}${reminder.id}`,
+          content: {
+            title: reminder.title,
+            body: `${reminder.goal.description} (${reminder.goal.progress}% of the way there)`,
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: reminder.date,
+          },
+        })
+      )
+    );
+
+    if (__DEV__) {
+      console.log(`Scheduled ${reminders.length} goal reminders`);
+    }
+  } catch (error) {
+    console.error('Error scheduling goal reminders:', error);
+  }
+};
+
+// Remove every reminder scheduled on this device (e.g. on logout)
+export const cancelAllReminders = async (): Promise<void> => {
+  try {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  } catch (error) {
+    console.error('Error cancelling reminders:', error);
+  }
+};
@@ -62,11 +62,35 @@ export type BingeSeverity = 'mild' | 'moderate' | 'severe';
 // Coping strategy effectiveness
 export type CopingEffectiveness = 'not_helpful' | 'somewhat_helpful' | 'helpful' | 'very_helpful';
 
+// Binge episode details
+export interface BingeEpisode {
+  date: Date;
+  severity: BingeSeverity;
+  triggers: string[];
+  emotions: string[];
+  duration: number; // in minutes
+  foodTypes: string[];
+  amount: 'small' | 'medium' | 'large' | 'excessive';
+  location: string;
+  aloneOrWithOthers: 'alone' | 'with_others' | 'mixed';
+  urgeIntensity?: MoodScale; // strength of the urge beforehand
+  compensatoryBehaviors?: CompensatoryBehavior[]; // sensitive - see SENSITIVE_FIELDS
+  episodeLogId?: string; // set when carried over from a standalone episode log
+}
+
+// Episode logged in the moment, outside the daily check-in
+export interface EpisodeLog extends Omit<BingeEpisode, 'episodeLogId'> {
+  id: string;
+  patientId: string;
+  loggedAt: Timestamp;
+}
+
 // Check-in survey interface
 export interface CheckInSurvey {
   id: string;
   patientId: string;
   completedAt: Timestamp;
+  timeZone?: string; // IANA timezone the check-in was completed in
   
   // Mood assessment
   mood: {
@@ -80,17 +104,20 @@ export interface CheckInSurvey {
   // Binge eating episodes
   bingeEpisodes: {
     hadBingeEpisode: boolean;
-    episodes: {
-      date: Date;
-      severity: BingeSeverity;
-      triggers: string[];
-      emotions: string[];
-      duration: number; // in minutes
-      foodTypes: string[];
-      amount: 'small' | 'medium' | 'large' | 'excessive';
-      location: string;
-      aloneOrWithOthers: 'alone' | 'with_others' | 'mixed';
-    }[];
+    episodes: BingeEpisode[];
+  };
+  
+  // Urges to binge, including ones that were resisted
+  urges: {
+    hadUrge: boolean;
+    peakIntensity?: MoodScale;
+    actedOn?: boolean;
+  };
+  
+  // Compensatory behaviours (sensitive - see SENSITIVE_FIELDS)
+  compensatoryBehaviors: {
+    engaged: boolean;
+    behaviors: CompensatoryBehavior[];
   };
   
   // Triggers and coping strategies
@@ -132,6 +159,177 @@ export interface CheckInSurvey {
   goalsForToday?: string[];
   challenges?: string[];
   wins?: string[];
+  
+  // Template the check-in was completed with (absent for the standard check-in)
+  templateId?: string;
+  customQuestions?: CustomQuestion[]; // as asked, so answers stay readable if the template changes
+  customAnswers?: Record<string, CustomAnswer>; // keyed by CustomQuestion id
+  omittedFields?: (CheckInSection | CheckInTemplateField)[]; // not asked by the template - values are defaults
+  skippedSections?: CheckInSection[]; // optional sections the patient skipped - values are defaults
+  
+  // Set once the patient has edited the check-in
+  editedAt?: Timestamp;
+  lastEditedBy?: string;
+  revisionCount?: number;
+}
+
+// Check-in form values (survey fields the patient fills in)
+export type CheckInFormData = Omit<
+  CheckInSurvey,
+  'id' | 'patientId' | 'completedAt' | 'timeZone' | 'editedAt' | 'lastEditedBy' | 'revisionCount'
+>;
+
+// Immutable copy of a check-in as it was before an edit
+export interface CheckInRevision {
+  id: string;
+  checkInId: string;
+  patientId: string;
+  revision: number; // 1 for the original answers
+  data: CheckInFormData;
+  editedBy: string;
+  editedAt: Timestamp;
+}
+
+// One field that differs between two versions of a check-in
+export interface CheckInFieldChange {
+  path: string; // e.g. 'mood.overall' or 'bingeEpisodes.episodes.0.severity'
+  before: unknown;
+  after: unknown;
+}
+
+// In-progress check-in saved on the device
+export interface CheckInDraft {
+  userId: string;
+  stepIndex: number;
+  data: CheckInFormData;
+  savedAt: string; // ISO timestamp
+}
+
+// Check-in wizard steps
+export type CheckInStep =
+  | 'mood'
+  | 'episodes'
+  | 'urges'
+  | 'triggers'
+  | 'coping'
+  | 'wellbeing'
+  | 'notes'
+  | 'review';
+
+// Survey sections, one per wizard step before the review
+export type CheckInSection = Exclude<CheckInStep, 'review'>;
+
+// How a template presents a survey section
+export type CheckInSectionMode =
+  | 'required'
+  | 'optional' // the patient can skip it
+  | 'hidden'
+  | 'custom'; // built-in questions replaced by the template's custom questions
+
+// Built-in questions a template can leave out
+export type CheckInTemplateField =
+  | 'mood.anxiety'
+  | 'mood.depression'
+  | 'mood.stress'
+  | 'mood.selfEsteem'
+  | 'episode.triggers'
+  | 'episode.emotions'
+  | 'episode.foodTypes';
+
+export type CustomQuestionType = 'scale' | 'multi_select' | 'free_text';
+
+// Clinician-written question shown in a check-in section
+export interface CustomQuestion {
+  id: string;
+  section: CheckInSection;
+  type: CustomQuestionType;
+  prompt: string;
+  required: boolean;
+  options?: string[]; // multi_select only
+  lowLabel?: string; // scale only
+  highLabel?: string; // scale only
+}
+
+export type CustomAnswer = MoodScale | string | string[];
+
+// Check-in layout a clinician attaches to a ClinicianPatientRelation
+export interface CheckInTemplate {
+  id: string;
+  clinicianId: string;
+  name: string;
+  sections: Record<CheckInSection, CheckInSectionMode>;
+  hiddenFields: CheckInTemplateField[];
+  customQuestions: CustomQuestion[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Check-in template editor values
+export type CheckInTemplateFormData = Pick<
+  CheckInTemplate,
+  'name' | 'sections' | 'hiddenFields' | 'customQuestions'
+>;
+
+// Compensatory behaviours recorded alongside eating
+export type CompensatoryBehavior = 'restriction' | 'over_exercise' | 'laxatives' | 'vomiting';
+
+// Record types that can hold sensitive fields
+export type SensitiveRecordType = 'checkIn' | 'episodeLog' | 'foodRecord';
+
+// Meal types for self-monitoring records
+export type MealType =
+  | 'breakfast'
+  | 'morning_snack'
+  | 'lunch'
+  | 'afternoon_snack'
+  | 'dinner'
+  | 'evening_snack'
+  | 'other';
+
+// Real-time food and eating record (CBT-E self-monitoring)
+export interface FoodRecord {
+  id: string;
+  patientId: string;
+  day: string; // local calendar day, YYYY-MM-DD
+  eatenAt: Date;
+  foodAndDrink: string;
+  place: string;
+  mealType: MealType;
+  wasBinge: boolean; // felt excessive / loss of control
+  compensatoryBehaviors: CompensatoryBehavior[]; // sensitive - see SENSITIVE_FIELDS
+  thoughtsAndContext?: string;
+  createdAt: Timestamp;
+}
+
+// Food record form values
+export type FoodRecordFormData = Omit<FoodRecord, 'id' | 'patientId' | 'day' | 'createdAt'>;
+
+// Planned meal or snack in a regular eating schedule
+export interface PlannedEatingOccasion {
+  id: string;
+  mealType: MealType;
+  time: string; // local time, HH:MM
+  remindersEnabled: boolean;
+}
+
+// Regular eating schedule (3 meals + 2-3 snacks at planned times)
+export interface EatingSchedule {
+  patientId: string;
+  occasions: PlannedEatingOccasion[];
+  adherenceWindowMinutes: number; // eating within +/- this of the planned time counts
+  updatedBy: string;
+  updatedByRole: UserRole;
+  updatedAt: Timestamp;
+}
+
+// Eating schedule form values
+export type EatingScheduleFormData = Pick<EatingSchedule, 'occasions' | 'adherenceWindowMinutes'>;
+
+// Planned vs eaten-within-window counts for a period
+export interface EatingAdherence {
+  planned: number;
+  eatenWithinWindow: number;
+  adherenceRate: number; // 0-100
 }
 
 // Education module categories
@@ -148,6 +346,92 @@ export type EducationCategory =
 // Education module difficulty levels
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
 
+// Quiz question types
+export type QuizQuestionType = 'single_choice' | 'multiple_choice' | 'true_false' | 'ordering';
+
+interface QuizQuestionBase {
+  id: string;
+  prompt: string;
+  explanation?: string; // shown once the question has been answered
+}
+
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+  type: 'single_choice';
+  options: string[];
+  correctIndex: number;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
+  options: string[];
+  correctIndices: number[]; // every one must be chosen, and nothing else
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true_false';
+  correctAnswer: boolean;
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[]; // in the correct order; shown shuffled
+}
+
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion;
+
+// The quiz in a module's interactive elements
+export interface Quiz {
+  title?: string;
+  passThreshold?: number; // percent of questions answered correctly, default when absent
+  questions: QuizQuestion[];
+}
+
+// An answer by question type: the chosen option index, the chosen option
+// indices, true or false, or the item indices in the order the patient put them
+export type QuizAnswer = number | number[] | boolean;
+
+export interface QuizResult {
+  score: number; // 0-100
+  correctCount: number;
+  questionCount: number;
+  passed: boolean;
+  correctQuestionIds: string[];
+}
+
+// A journaling question in a module
+export interface ReflectionPrompt {
+  id: string;
+  question: string;
+  hint?: string; // placeholder suggesting how to start
+}
+
+// The reflection prompts in a module's interactive elements
+export interface ReflectionPrompts {
+  title?: string;
+  prompts: ReflectionPrompt[];
+}
+
+// Quizzes, reflections and exercises within a module. `id` tells apart
+// elements of the same type in completion criteria.
+export type ModuleInteractiveElement = { id?: string } & (
+  | {
+      type: 'quiz';
+      content: Quiz;
+    }
+  | {
+      type: 'reflection';
+      content: ReflectionPrompts;
+    }
+  | {
+      type: 'exercise';
+      content: any;
+    }
+);
+
 // Education module interface
 export interface EducationModule {
   id: string;
@@ -165,10 +449,7 @@ export interface EducationModule {
       url: string;
       duration: number; // in seconds
     }[];
-    interactiveElements?: {
-      type: 'quiz' | 'reflection' | 'exercise';
-      content: any;
-    }[];
+    interactiveElements?: ModuleInteractiveElement[];
   };
   category: EducationCategory;
   difficulty: DifficultyLevel;
@@ -183,11 +464,85 @@ export interface EducationModule {
   // Completion tracking
   completionCriteria?: {
     minTimeSpent?: number; // in minutes
-    requiredInteractions?: string[];
+    requiredInteractions?: string[]; // interaction keys: an element's id, or its type
     quizPassed?: boolean;
   };
 }
 
+// What a patient has done in a module so far, towards its completion criteria
+export interface ModuleActivity {
+  activeSeconds: number; // reading time with the module open and the app in the foreground
+  completedInteractions: string[]; // interaction keys
+  quizScore?: number; // best score, 0-100
+  quizPassed?: boolean;
+  lastActiveAt: Timestamp;
+}
+
+// How a module's completion criteria stand for a patient
+export interface ModuleCompletionStatus {
+  isComplete: boolean;
+  minutesSpent: number;
+  minutesRequired: number;
+  missingInteractions: ModuleInteractiveElement[]; // required elements not done yet
+  quizRequired: boolean;
+  quizPassed: boolean;
+}
+
+// A patient's journal entry for a module. Private to the patient unless
+// they share it with their clinician.
+export interface ModuleReflection {
+  id: string; // patientId_moduleId
+  patientId: string;
+  moduleId: string;
+  moduleTitle: string;
+  responses: {
+    promptId: string;
+    prompt: string; // the question as it was asked
+    response: string;
+  }[];
+  sharedWith?: string; // clinician id while shared
+  sharedAt?: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Reflection form values, one response per prompt
+export interface ModuleReflectionFormData {
+  responses: { promptId: string; response: string }[];
+}
+
+// Catalogue filters; an unset filter shows every category or difficulty
+export interface EducationModuleFilters {
+  category?: EducationCategory;
+  difficulty?: DifficultyLevel;
+}
+
+// A block of a module's text, split out for display
+export interface ModuleTextBlock {
+  type: 'heading' | 'paragraph' | 'bullet';
+  text: string;
+}
+
+// Where a patient is with a module: prerequisites still to finish, ready to start, or done
+export type ModuleStatus = 'locked' | 'unlocked' | 'completed';
+
+export interface ModuleState {
+  status: ModuleStatus;
+  missingPrerequisites: EducationModule[]; // prerequisites not completed yet, in catalogue order
+}
+
+// One step on a category's learning path
+export interface LearningPathStep extends ModuleState {
+  module: EducationModule;
+  unlocks: EducationModule[]; // modules that list this one as a prerequisite
+}
+
+// A category's modules, with prerequisites before the modules that need them
+export interface LearningPath {
+  category: EducationCategory;
+  steps: LearningPathStep[];
+}
+
 // Clinician-Patient relationship interface
 export interface ClinicianPatientRelation {
   id: string;
@@ -197,6 +552,8 @@ export interface ClinicianPatientRelation {
   startDate: Timestamp;
   endDate?: Timestamp;
   notes?: string;
+  checkInTemplateId?: string; // standard check-in when absent
+  relapseWarningSettings?: RelapseWarningSettings; // defaults when absent
   
   // Treatment plan
   treatmentPlan?: {
@@ -231,6 +588,230 @@ export interface ClinicianPatientRelation {
   updatedAt: Timestamp;
 }
 
+// Warning signs the early-warning check looks for in a patient's recent entries
+export type RelapseWarningType =
+  | 'risingBingeFrequency'
+  | 'lowMoodRun'
+  | 'missedCheckIns'
+  | 'compensatorySpike';
+
+// Early-warning thresholds a clinician can tune for each patient
+export interface RelapseWarningSettings {
+  enabled: boolean;
+  bingeIncreasePercent: number; // last week's episodes vs the weekly baseline average
+  minRecentEpisodes: number;
+  lowMoodScore: number; // overall mood at or below this counts as low
+  lowMoodDays: number; // consecutive days of low mood
+  missedCheckInDays: number; // days without a check-in after a stable period
+  stableCheckInDays: number; // check-in days in the fortnight before the gap
+  compensatoryIncreasePercent: number; // last week's days with compensatory behaviours vs baseline
+  minRecentCompensatoryDays: number;
+}
+
+export type RelapseWarningThreshold = Exclude<keyof RelapseWarningSettings, 'enabled'>;
+
+// A warning sign found in a patient's entries
+export interface RelapseWarning {
+  type: RelapseWarningType;
+  message: string; // written for the clinician
+  recentValue: number;
+  baselineValue?: number; // weekly average over the baseline weeks
+}
+
+// One local day of check-in and episode activity, as counted by the metrics engine
+export interface DailyProgressAggregate {
+  checkInIds: string[];
+  episodeLogIds: string[];
+  moodTotal: number; // sum of mood.overall over check-ins that asked it
+  moodCount: number;
+  wellbeingTotal: number; // sum of the 0-100 wellbeing scores of check-ins that could be scored
+  wellbeingCount: number; // number of scores in wellbeingTotal
+  bingeEpisodes: number;
+  copingStrategies: string[]; // distinct strategies used
+}
+
+// Running totals that let progress metrics be updated one entry at a time
+export interface ProgressMetricsState {
+  timeZone: string; // IANA timezone the day keys were computed in
+  totalCheckIns: number;
+  copingRatings: Partial<Record<CopingEffectiveness, number>>; // all-time strategy uses by rating
+  firstDay?: string; // day of the first check-in or episode
+  lastBingeDay?: string;
+  days: Record<string, DailyProgressAggregate>; // recent days only, keyed by day
+  wellbeingScoreVersion?: number; // formula the wellbeing totals were scored with
+}
+
+// Parts of a check-in that make up the composite wellbeing score
+export type WellbeingComponent =
+  | 'mood'
+  | 'sleep'
+  | 'energy'
+  | 'connection'
+  | 'physicalActivity'
+  | 'selfCare';
+
+// One check-in's wellbeing score, with the formula version it was computed with
+export interface WellbeingScore {
+  score: number; // 0-100
+  version: number;
+  components: Partial<Record<WellbeingComponent, number>>; // 0-1 each, answered parts only
+}
+
+// Where a patient's run of daily check-ins stands, updated one check-in at a time
+export interface CheckInStreakState {
+  runStartDay?: string;
+  runLength: number; // check-in days in the latest run
+  longest: number;
+  lastDay?: string;
+  lastCheckInAt?: number; // millis
+  lastTimeZone?: string;
+  restDaysUsed: string[]; // days in the latest run covered by a rest day
+  restWeeksUsed: string[]; // Mondays of recent weeks whose rest day is taken
+}
+
+// Progress measures a goal can be linked to
+export type GoalMetric =
+  | 'weeklyBingeEpisodes'
+  | 'averageMoodScore'
+  | 'wellbeingScore'
+  | 'copingStrategiesUsed'
+  | 'checkInStreak'
+  | 'regularEatingAdherence';
+
+// A measurable target, e.g. at most 1 binge episode a week
+export interface GoalMetricTarget {
+  metric: GoalMetric;
+  comparison: 'atMost' | 'atLeast';
+  target: number;
+  baseline: number; // value when the goal was set, so progress can be measured from it
+  current?: number; // latest value
+}
+
+export interface GoalMilestone {
+  id: string;
+  description: string;
+  isCompleted: boolean;
+  completedAt?: Timestamp;
+}
+
+export interface Goal {
+  id: string;
+  description: string;
+  reason?: string; // why the goal matters to the patient
+  targetDate: Date;
+  isCompleted: boolean;
+  completedAt?: Timestamp;
+  progress: number; // 0-100, from milestones and the linked metric
+  milestones: GoalMilestone[];
+  metricTarget?: GoalMetricTarget;
+  status: 'suggested' | 'active'; // clinician suggestions wait for the patient to accept
+  createdBy: 'patient' | 'clinician';
+  suggestedBy?: string; // clinician uid
+  createdAt: Timestamp;
+}
+
+// Goal editor form data
+export interface GoalFormData {
+  description: string;
+  reason?: string;
+  targetDay: string; // YYYY-MM-DD
+  milestones: { description: string }[];
+  linkMetric: boolean;
+  metric: GoalMetric;
+  comparison: 'atMost' | 'atLeast';
+  target: number;
+}
+
+export type AchievementCategory = 'streak' | 'module' | 'wellbeing' | 'coping' | 'milestone';
+
+// An achievement a patient has earned; id is the AchievementRule it came from
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  earnedAt: Timestamp;
+  category: AchievementCategory;
+}
+
+// Measures achievement rules are judged on
+export type AchievementMetric =
+  | 'checkIns'
+  | 'longestStreak'
+  | 'modulesCompleted'
+  | 'veryHelpfulCopingUses'
+  | 'wellbeingScore'
+  | 'daysSinceLastBinge'
+  | 'reflections';
+
+// One entry in the achievements catalogue: earned once `metric` reaches `threshold`
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  category: AchievementCategory;
+  icon: string; // MaterialCommunityIcons name
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+// Summary of a closed week (Monday to Sunday) in the patient's timezone
+export interface WeeklySummary {
+  weekStartDay: string; // YYYY-MM-DD of the Monday
+  weekStart: Date;
+  weekEnd: Date;
+  moodAverage: number; // 0 if mood wasn't answered that week
+  bingeEpisodes: number;
+  modulesCompleted: number;
+  checkInsCompleted: number;
+  highlights: string[]; // from check-in wins
+  challenges: string[]; // from check-in challenges
+  goalsForNextWeek: string[];
+  reflectedAt?: Timestamp; // when the patient set their goals
+}
+
+// Summary of a closed calendar month (month is 0-based, as in Date)
+export interface MonthlySummary {
+  month: number;
+  year: number;
+  overallProgress: number; // 0-100, share of the month's days with a check-in
+  moodAverage: number;
+  bingeEpisodes: number;
+  modulesCompleted: number;
+  checkInsCompleted: number;
+  keyAchievements: string[]; // from check-in wins
+  areasForImprovement: string[]; // from check-in challenges
+  nextMonthGoals: string[];
+  reflectedAt?: Timestamp;
+}
+
+// What a pattern insight looks at
+export type InsightFactor = 'trigger' | 'dayOfWeek' | 'emotion' | 'location' | 'timeOfDay';
+
+// What a pattern insight is about
+export type InsightOutcome = 'bingeEpisode' | 'lowMood';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+// A pattern in a patient's check-ins or episodes, e.g. more episodes on days with a trigger
+export interface PatternInsight {
+  id: string; // factor, outcome and value, so the same pattern keeps its id
+  factor: InsightFactor;
+  outcome: InsightOutcome;
+  value: string; // normalized trigger, emotion or location, a TimeOfDay, or a weekday (0 = Sunday)
+  label: string; // the value as the patient wrote it, or its display name
+  matches: number; // days or episodes with both the factor and the outcome
+  occurrences: number; // days with the factor, or all episodes for episode patterns
+  comparisonRate?: number; // share of other days with the outcome (day patterns only)
+  strength: number; // how far the pattern stands out from what would be expected, 0-1
+}
+
+// Patterns found in a patient's recent history, and how much history there was
+export interface PatternInsights {
+  insights: PatternInsight[];
+  daysAnalysed: number; // days with a check-in
+  episodesAnalysed: number;
+}
+
 // Patient progress tracking interface
 export interface PatientProgress {
   id: string;
@@ -251,7 +832,12 @@ export interface PatientProgress {
     current: number;
     longest: number;
     lastCheckIn: Timestamp;
-    streakStartDate: Timestamp;
+    streakStartDate: Timestamp; // start of the latest run of check-ins
+    restDaysUsed?: string[]; // days in the current run covered by the weekly rest day
+  };
+  streakState?: CheckInStreakState; // running totals behind checkInStreak
+  streakPreferences?: {
+    weeklyRestDay: boolean; // one day a week without a check-in keeps the run going
   };
   
   // Overall progress metrics
@@ -264,52 +850,34 @@ export interface PatientProgress {
     copingStrategiesUsed: number;
     daysSinceLastBinge: number;
     wellbeingScore: number;
+    wellbeingScoreVersion?: number; // formula behind wellbeingScore; unset before versioning
+    regularEatingAdherence?: number; // 0-100, last 7 days
+  };
+  metricsState?: ProgressMetricsState; // running totals behind progressMetrics
+  
+  // Progress towards each module's completion criteria, by module id
+  moduleActivity?: Record<string, ModuleActivity>;
+  
+  // Day each early warning was last sent to the patient's clinician
+  relapseWarningsSent?: Partial<Record<RelapseWarningType, string>>;
+  
+  // Coping strategies the patient has pinned to the top of their toolbox, in order
+  copingPreferences?: {
+    pinnedStrategies: string[];
   };
   
   // Goals and achievements
-  goals: {
-    id: string;
-    description: string;
-    targetDate: Date;
-    isCompleted: boolean;
-    completedAt?: Timestamp;
-    progress: number; // 0-100
-    milestones: {
-      description: string;
-      isCompleted: boolean;
-      completedAt?: Timestamp;
-    }[];
-  }[];
+  goals: Goal[];
   
-  achievements: {
-    id: string;
-    title: string;
-    description: string;
-    earnedAt: Timestamp;
-    category: 'streak' | 'module' | 'wellbeing' | 'coping' | 'milestone';
-  }[];
+  achievements: Achievement[];
   
   // Weekly and monthly summaries
-  weeklySummaries: {
-    weekStart: Date;
-    weekEnd: Date;
-    moodAverage: number;
-    bingeEpisodes: number;
-    modulesCompleted: number;
-    checkInsCompleted: number;
-    highlights: string[];
-    challenges: string[];
-    goalsForNextWeek: string[];
-  }[];
-  
-  monthlySummaries: {
-    month: number;
-    year: number;
-    overallProgress: number; // 0-100
-    keyAchievements: string[];
-    areasForImprovement: string[];
-    nextMonthGoals: string[];
-  }[];
+  weeklySummaries: WeeklySummary[];
+  monthlySummaries: MonthlySummary[];
+  summaryState?: {
+    lastWeekStart?: string; // Monday of the latest week already summarized
+    lastMonth?: string; // latest month already summarized, e.g. "2025-03"
+  };
   
   lastUpdated: Timestamp;
 }
@@ -339,11 +907,22 @@ export type MainTabParamList = {
 export type PatientStackParamList = {
   PatientDashboard: undefined;
   CheckInForm: undefined;
+  LogEpisode: undefined;
   CheckInHistory: undefined;
+  CheckInDetail: { checkInId: string };
+  EditCheckIn: { checkInId: string };
+  FoodRecord: { day?: string };
+  EatingSchedule: undefined;
   EducationModules: undefined;
   ModuleDetail: { moduleId: string };
   ProgressOverview: undefined;
   ProgressDetail: { period: 'week' | 'month' | 'year' };
+  Achievements: undefined;
+  Goals: undefined;
+  GoalEditor: undefined;
+  Insights: undefined;
+  CopingToolbox: undefined;
+  SummaryReflection: { period: 'week' | 'month'; periodKey: string }; // weekStartDay or "YYYY-MM"
   Profile: undefined;
   Settings: undefined;
 };
@@ -352,7 +931,16 @@ export type ClinicianStackParamList = {
   ClinicianDashboard: undefined;
   PatientList: undefined;
   PatientDetail: { patientId: string };
+  PatientCheckIn: { patientId: string; checkInId: string };
+  PatientFoodRecord: { patientId: string; day?: string };
+  PatientEatingSchedule: { patientId: string };
+  PatientCheckInTemplate: { patientId: string };
+  CheckInTemplateEditor: { templateId?: string; patientId?: string } | undefined;
   PatientProgress: { patientId: string };
+  SuggestGoal: { patientId: string };
+  PatientInsights: { patientId: string };
+  PatientWarningSettings: { patientId: string };
+  PatientReflections: { patientId: string };
   AssignModule: { patientId: string };
   Messages: undefined;
   Reports: undefined;
@@ -365,6 +953,7 @@ export type EducationStackParamList = {
   ModuleDetail: { moduleId: string };
   ModuleQuiz: { moduleId: string };
   ModuleReflection: { moduleId: string };
+  Reflections: undefined;
   CompletedModules: undefined;
 };
 
@@ -408,6 +997,28 @@ export interface FormState<T> {
   isValid: boolean;
 }
 
+// Offline write queue types
+export type QueuedWriteType = 'checkIn' | 'episodeLog' | 'foodRecord';
+
+export interface QueuedWrite {
+  id: string; // client-generated document id, used to dedupe replays
+  type: QueuedWriteType;
+  collection: string;
+  userId: string;
+  payload: Record<string, unknown>;
+  queuedAt: string; // ISO timestamp, changes when the entry is replaced
+  attempts: number;
+  nextAttemptAt: string; // ISO timestamp
+  lastError?: string;
+}
+
+export interface SyncQueueStatus {
+  pendingCount: number;
+  isSyncing: boolean;
+  lastSyncError: string | null;
+  lastSyncedAt: string | null; // ISO timestamp
+}
+
 // Notification types
 export interface Notification {
   id: string;
@@ -417,6 +1028,8 @@ export interface Notification {
   type: 'info' | 'success' | 'warning' | 'error' | 'reminder';
   isRead: boolean;
   actionUrl?: string;
+  patientId?: string; // the patient a clinician notification is about
+  relapseWarning?: RelapseWarningType;
   createdAt: Timestamp;
 }
 
@@ -0,0 +1,86 @@
+/**
+ * Achievements evaluator tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { AchievementRule, PatientProgress } from '../types';
+import { ACHIEVEMENT_RULES } from '../constants/achievements';
+import { getAchievementProgress, getAchievementStats, getNewAchievements } from './achievements';
+
+const rule = (id: string, threshold: number): AchievementRule => ({
+  id,
+  title: id,
+  description: id,
+  category: 'milestone',
+  icon: 'star',
+  metric: 'checkIns',
+  threshold,
+});
+
+const stats = (overrides: Partial<ReturnType<typeof getAchievementStats>> = {}) => ({
+  ...getAchievementStats({}),
+  ...overrides,
+});
+
+describe('getAchievementStats', () => {
+  test('reads the measures from the progress document', () => {
+    const progress: Partial<PatientProgress> = {
+      metricsState: {
+        timeZone: 'Europe/London',
+        totalCheckIns: 12,
+        copingRatings: { very_helpful: 4, helpful: 2 },
+        days: {},
+      },
+      streakState: { runLength: 2, longest: 6, restDaysUsed: [], restWeeksUsed: [] },
+      weeklySummaries: [
+        { weekStartDay: '2025-03-03', goalsForNextWeek: ['Walk'], reflectedAt: {} },
+        { weekStartDay: '2025-03-10', goalsForNextWeek: [] },
+      ] as unknown as PatientProgress['weeklySummaries'],
+    };
+
+    expect(getAchievementStats(progress)).toEqual({
+      checkIns: 12,
+      longestStreak: 6,
+      modulesCompleted: 0,
+      veryHelpfulCopingUses: 4,
+      wellbeingScore: 0,
+      daysSinceLastBinge: 0,
+      reflections: 1,
+    });
+  });
+});
+
+describe('getNewAchievements', () => {
+  const rules = [rule('one', 1), rule('ten', 10), rule('fifty', 50)];
+
+  test('awards every rule whose threshold has been reached', () => {
+    const awarded = getNewAchievements(stats({ checkIns: 10 }), [], rules);
+    expect(awarded.map((achievement) => achievement.id)).toEqual(['one', 'ten']);
+  });
+
+  test('never awards a rule twice', () => {
+    const earned = [{ id: 'one' }, { id: 'ten' }];
+    expect(getNewAchievements(stats({ checkIns: 10 }), earned, rules)).toEqual([]);
+  });
+
+  test('awards the coping catalogue rule after ten very helpful uses', () => {
+    const awarded = getNewAchievements(stats({ veryHelpfulCopingUses: 10 }), []);
+    expect(awarded.map((achievement) => achievement.id)).toEqual([
+      'coping-very-helpful-1',
+      'coping-very-helpful-10',
+    ]);
+  });
+});
+
+describe('catalogue', () => {
+  test('has unique rule ids', () => {
+    const ids = ACHIEVEMENT_RULES.map((achievement) => achievement.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('reports progress towards a rule, capped at complete', () => {
+    expect(getAchievementProgress(rule('ten', 10), stats({ checkIns: 4 }))).toBe(0.4);
+    expect(getAchievementProgress(rule('ten', 10), stats({ checkIns: 25 }))).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { Achievement, AchievementMetric, AchievementRule, PatientProgress } from '../types';
+import { ACHIEVEMENT_RULES } from '../constants/achievements';
+
+/**
+ * Achievements evaluator. Each rule in the catalogue is earned once its
+ * metric reaches the threshold; the measures come from the patient's
+ * progress document, so evaluating is cheap and can run after every
+ * check-in or module. Rules already earned are never awarded again.
+ */
+
+export type AchievementStats = Record<AchievementMetric, number>;
+
+// The measures rules are judged on, from a patient's progress document
+export const getAchievementStats = (progress: Partial<PatientProgress>): AchievementStats => {
+  const reflected = [...(progress.weeklySummaries || []), ...(progress.monthlySummaries || [])]
+    .filter((summary) => !!summary.reflectedAt);
+
+  return {
+    checkIns: progress.metricsState?.totalCheckIns ?? progress.progressMetrics?.totalCheckIns ?? 0,
+    longestStreak: progress.streakState?.longest ?? progress.checkInStreak?.longest ?? 0,
+    modulesCompleted: progress.completedModules?.length ?? 0,
+    veryHelpfulCopingUses: progress.metricsState?.copingRatings?.very_helpful ?? 0,
+    wellbeingScore: progress.progressMetrics?.wellbeingScore ?? 0,
+    daysSinceLastBinge: progress.progressMetrics?.daysSinceLastBinge ?? 0,
+    reflections: reflected.length,
+  };
+};
+
+// Rules met by `stats` that haven't been earned yet, in catalogue order
+export const getNewAchievements = (
+  stats: AchievementStats,
+  earned: Pick<Achievement, 'id'>[],
+  rules: AchievementRule[] = ACHIEVEMENT_RULES
+): AchievementRule[] => {
+  const earnedIds = new Set(earned.map((achievement) => achievement.id));
+  return rules.filter((rule) => !earnedIds.has(rule.id) && stats[rule.metric] >= rule.threshold);
+};
+
+// How far towards a rule the patient is, from 0 to 1
+export const getAchievementProgress = (rule: AchievementRule, stats: AchievementStats): number =>
+  Math.min(stats[rule.metric] / rule.threshold, 1);
@@ -0,0 +1,35 @@
+import { CheckInSurvey } from '../types';
+import { toDate } from './firestore';
+import { toDayKey } from './date';
+
+// What a calendar day shows for the check-ins completed on it
+export interface CheckInDaySummary {
+  day: string; // YYYY-MM-DD
+  checkInIds: string[];
+  averageMood: number;
+  hadBingeEpisode: boolean;
+}
+
+// Group check-ins by the local day they were completed
+export const summarizeCheckInsByDay = (
+  checkIns: CheckInSurvey[]
+): Record<string, CheckInDaySummary> => {
+  const grouped: Record<string, CheckInSurvey[]> = {};
+  checkIns.forEach((checkIn) => {
+    const day = toDayKey(toDate(checkIn.completedAt));
+    grouped[day] = [...(grouped[day] || []), checkIn];
+  });
+
+  return Object.fromEntries(
+    Object.entries(grouped).map(([day, dayCheckIns]) => [
+      day,
+      {
+        day,
+        checkInIds: dayCheckIns.map((checkIn) => checkIn.id),
+        averageMood:
+          dayCheckIns.reduce((sum, checkIn) => sum + checkIn.mood.overall, 0) / dayCheckIns.length,
+        hadBingeEpisode: dayCheckIns.some((checkIn) => checkIn.bingeEpisodes.hadBingeEpisode),
+      },
+    ])
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * Check-in revision tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInFormData, CustomQuestion, Timestamp } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import {
+  buildEditedCheckIn,
+  diffCheckIns,
+  formatChangePath,
+  getCheckInFormData,
+} from './checkInRevisions';
+import { makeCheckIn, makeEpisodeLog, withMood } from './testFixtures';
+
+const at = (iso: string) => new Date(iso) as unknown as Timestamp;
+
+describe('buildEditedCheckIn', () => {
+  test('keeps when and where the check-in was completed and counts the revision', () => {
+    const current = makeCheckIn('check-in-1', '2025-03-11T20:00:00Z', {
+      timeZone: 'Asia/Tokyo',
+      revisionCount: 1,
+    });
+    const edited = buildEditedCheckIn(
+      current,
+      { ...getCheckInFormData(current), ...withMood(8) },
+      'patient-1',
+      at('2025-03-12T08:00:00Z')
+    );
+
+    expect(edited).toMatchObject({
+      patientId: 'patient-1',
+      completedAt: current.completedAt,
+      timeZone: 'Asia/Tokyo',
+      editedAt: at('2025-03-12T08:00:00Z'),
+      lastEditedBy: 'patient-1',
+      revisionCount: 2,
+      mood: { overall: 8 },
+    });
+  });
+});
+
+describe('diffCheckIns', () => {
+  const before: CheckInFormData = {
+    ...DEFAULT_CHECK_IN_VALUES,
+    bingeEpisodes: {
+      hadBingeEpisode: true,
+      episodes: [{ ...makeEpisodeLog('log-1', '2025-03-11T18:00:00Z'), severity: 'mild' }],
+    },
+  };
+
+  test('lists changed fields by path, down into episodes', () => {
+    const after: CheckInFormData = {
+      ...before,
+      ...withMood(3),
+      triggers: { ...before.triggers, emotional: ['lonely'] },
+      bingeEpisodes: {
+        hadBingeEpisode: true,
+        episodes: [{ ...before.bingeEpisodes.episodes[0], severity: 'severe' }],
+      },
+    };
+
+    expect(diffCheckIns(before, after)).toEqual([
+      { path: 'mood.overall', before: 5, after: 3 },
+      { path: 'bingeEpisodes.episodes.0.severity', before: 'mild', after: 'severe' },
+      { path: 'triggers.emotional', before: [], after: ['lonely'] },
+    ]);
+  });
+
+  test('treats an empty and a missing text answer as the same', () => {
+    const { notes, ...withoutNotes } = before;
+    expect(notes).toBe('');
+    expect(diffCheckIns(before, withoutNotes as CheckInFormData)).toEqual([]);
+  });
+
+  test('compares dates by instant', () => {
+    const sameInstant: CheckInFormData = {
+      ...before,
+      bingeEpisodes: {
+        hadBingeEpisode: true,
+        episodes: [
+          { ...before.bingeEpisodes.episodes[0], date: new Date('2025-03-11T18:00:00Z') },
+        ],
+      },
+    };
+    expect(diffCheckIns(before, sameInstant)).toEqual([]);
+  });
+});
+
+describe('formatChangePath', () => {
+  test('labels each segment and numbers list items from one', () => {
+    expect(formatChangePath('bingeEpisodes.episodes.0.severity')).toBe(
+      'Binge episodes › Episode 1 › severity'
+    );
+    expect(formatChangePath('wellbeing.sleepQuality')).toBe('Wellbeing › Sleep');
+  });
+
+  test("shows a custom answer by its question's prompt", () => {
+    const questions: CustomQuestion[] = [
+      { id: 'q1', section: 'mood', type: 'free_text', prompt: 'What helped?', required: false },
+    ];
+    expect(formatChangePath('customAnswers.q1', questions)).toBe(
+      'Clinician questions › What helped?'
+    );
+    expect(formatChangePath('customAnswers.q2', questions)).toBe('Clinician questions › q2');
+  });
+});
@@ -0,0 +1,193 @@
+import { Timestamp as FirestoreTimestamp } from 'firebase/firestore';
+import {
+  CheckInFieldChange,
+  CheckInFormData,
+  CheckInSurvey,
+  CustomQuestion,
+  Timestamp,
+} from '../types';
+import { CHECK_IN_EDIT_WINDOW_HOURS } from '../constants/checkIn';
+import { formatTime } from './date';
+import { removeUndefined } from './firestore';
+
+// Whether a check-in completed at the given time can still be edited
+export const isWithinEditWindow = (
+  completedAt: Date,
+  windowHours: number = CHECK_IN_EDIT_WINDOW_HOURS,
+  now: Date = new Date()
+): boolean => now.getTime() - completedAt.getTime() <= windowHours * 60 * 60 * 1000;
+
+// The answers of a check-in, without ids and edit metadata
+export const getCheckInFormData = (checkIn: CheckInSurvey): CheckInFormData => {
+  const { id, patientId, completedAt, timeZone, editedAt, lastEditedBy, revisionCount, ...data } =
+    checkIn;
+  return data;
+};
+
+// The stored check-in after an edit: the new answers, keeping when and in
+// which timezone it was completed
+export const buildEditedCheckIn = (
+  current: CheckInSurvey,
+  data: CheckInFormData,
+  editedBy: string,
+  editedAt: Timestamp
+): Omit<CheckInSurvey, 'id'> =>
+  removeUndefined({
+    ...data,
+    patientId: current.patientId,
+    completedAt: current.completedAt,
+    timeZone: current.timeZone,
+    editedAt,
+    lastEditedBy: editedBy,
+    revisionCount: (current.revisionCount ?? 0) + 1,
+  });
+
+// Dates are compared by instant, whether stored as Date or Timestamp
+const normalize = (value: unknown): unknown => {
+  if (value instanceof FirestoreTimestamp) {
+    return value.toDate();
+  }
+  return value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const collectChanges = (
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: CheckInFieldChange[]
+) => {
+  const left = normalize(before);
+  const right = normalize(after);
+
+  if (left instanceof Date || right instanceof Date) {
+    const leftTime = left instanceof Date ? left.getTime() : undefined;
+    const rightTime = right instanceof Date ? right.getTime() : undefined;
+    if (leftTime !== rightTime) {
+      changes.push({ path, before: left, after: right });
+    }
+    return;
+  }
+
+  // Lists of plain values (e.g. selected triggers) are compared as a whole
+  if (Array.isArray(left) && Array.isArray(right)) {
+    const hasObjects = [...left, ...right].some(isPlainObject);
+    if (!hasObjects) {
+      if (JSON.stringify(left) !== JSON.stringify(right)) {
+        changes.push({ path, before: left, after: right });
+      }
+      return;
+    }
+
+    const length = Math.max(left.length, right.length);
+    for (let index = 0; index < length; index++) {
+      collectChanges(left[index], right[index], `${path}.${index}`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    keys.forEach((key) =>
+      collectChanges(left[key], right[key], path ? `${path}.${key}` : key, changes)
+    );
+    return;
+  }
+
+  // An untouched optional text field may be stored as '' or left out
+  const isBlank = (value: unknown) => value === undefined || value === '';
+  if (left !== right && !(isBlank(left) && isBlank(right))) {
+    changes.push({ path, before: left, after: right });
+  }
+};
+
+// Fields that differ between two versions of a check-in's answers
+export const diffCheckIns = (
+  before: CheckInFormData,
+  after: CheckInFormData
+): CheckInFieldChange[] => {
+  const changes: CheckInFieldChange[] = [];
+  collectChanges(before, after, '', changes);
+  return changes;
+};
+
+// Readable names for path segments shown to clinicians
+const PATH_LABELS: Record<string, string> = {
+  mood: 'Mood',
+  overall: 'Overall',
+  anxiety: 'Anxiety',
+  depression: 'Low mood',
+  stress: 'Stress',
+  selfEsteem: 'Self-esteem',
+  bingeEpisodes: 'Binge episodes',
+  hadBingeEpisode: 'Had episode',
+  episodes: 'Episode',
+  urges: 'Urges',
+  hadUrge: 'Had urge',
+  peakIntensity: 'Strongest urge',
+  actedOn: 'Acted on urge',
+  urgeIntensity: 'Urge strength',
+  compensatoryBehaviors: 'Compensatory behaviours',
+  engaged: 'Any',
+  behaviors: 'Behaviours',
+  triggers: 'Triggers',
+  copingStrategies: 'Coping',
+  used: 'Strategy',
+  available: 'Available',
+  wellbeing: 'Wellbeing',
+  sleepQuality: 'Sleep',
+  energyLevel: 'Energy',
+  socialConnection: 'Connection',
+  physicalActivity: 'Exercise',
+  didExercise: 'Exercised',
+  selfCare: 'Self-care',
+  timeSpent: 'Time spent',
+  notes: 'Notes',
+  goalsForToday: 'Goals',
+  challenges: 'Challenges',
+  wins: 'Wins',
+  customAnswers: 'Clinician questions',
+};
+
+// e.g. 'bingeEpisodes.episodes.0.severity' -> 'Binge episodes › Episode 1 › severity'.
+// Custom answers are labelled with their question's prompt.
+export const formatChangePath = (path: string, customQuestions: CustomQuestion[] = []): string =>
+  path
+    .split('.')
+    .reduce<string[]>((parts, segment, index, segments) => {
+      const question =
+        index === 1 && segments[0] === 'customAnswers'
+          ? customQuestions.find((item) => item.id === segment)
+          : undefined;
+      if (question) {
+        parts.push(question.prompt);
+      } else if (/^\d+$/.test(segment)) {
+        parts[parts.length - 1] = `${parts[parts.length - 1]} ${Number(segment) + 1}`;
+      } else {
+        parts.push(PATH_LABELS[segment] || segment);
+      }
+      return parts;
+    }, [])
+    .join(' › ');
+
+// Display a changed value
+export const formatChangeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return formatTime(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : 'None';
+  }
+  if (typeof value === 'object') {
+    return 'Entry';
+  }
+  return String(value);
+};
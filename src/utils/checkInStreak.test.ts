@@ -0,0 +1,126 @@
+/**
+ * Check-in streak tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInSurvey } from '../types';
+import {
+  addCheckInToStreak,
+  buildStreakState,
+  createStreakState,
+  deriveCheckInStreak,
+  getStreakMessage,
+} from './checkInStreak';
+
+const LONDON = 'Europe/London';
+const TOKYO = 'Asia/Tokyo';
+const LOS_ANGELES = 'America/Los_Angeles';
+
+type StreakCheckIn = Pick<CheckInSurvey, 'completedAt' | 'timeZone'>;
+
+const checkInAt = (iso: string, timeZone?: string): StreakCheckIn => ({
+  completedAt: new Date(iso) as unknown as CheckInSurvey['completedAt'],
+  timeZone,
+});
+
+// Evening check-ins in London on the given days of March 2025
+const londonDays = (...days: number[]): StreakCheckIn[] =>
+  days.map((day) => checkInAt(`2025-03-${String(day).padStart(2, '0')}T19:00:00Z`, LONDON));
+
+// Wednesday 12 March 2025, midday in London
+const NOW = new Date('2025-03-12T12:00:00Z');
+
+describe('check-in streaks', () => {
+  test('counts consecutive days and keeps the run going until today is over', () => {
+    const state = buildStreakState(londonDays(8, 9, 10, 11), { timeZone: LONDON });
+    const streak = deriveCheckInStreak(state, { timeZone: LONDON }, NOW);
+
+    expect(streak.current).toBe(4);
+    expect(streak.isActive).toBe(true);
+    expect(streak.checkedInToday).toBe(false);
+    expect(streak.streakStartDay).toBe('2025-03-08');
+  });
+
+  test('counts several check-ins on one day once', () => {
+    const checkIns = [...londonDays(10, 11), checkInAt('2025-03-11T08:00:00Z', LONDON)];
+    const state = buildStreakState(checkIns, { timeZone: LONDON });
+    expect(state.runLength).toBe(2);
+  });
+
+  test('starts a new run after a missed day but keeps the longest', () => {
+    const state = buildStreakState(londonDays(1, 2, 3, 5), { timeZone: LONDON });
+    const streak = deriveCheckInStreak(state, { timeZone: LONDON }, NOW);
+
+    expect(state.runLength).toBe(1);
+    expect(streak.longest).toBe(3);
+    expect(streak.current).toBe(0);
+  });
+
+  test('covers one missed day a week with the rest day', () => {
+    const options = { timeZone: LONDON, weeklyRestDay: true };
+    const state = buildStreakState(londonDays(4, 5, 7, 8, 10, 11), options);
+    const streak = deriveCheckInStreak(state, options, NOW);
+
+    // 6 March (week of 3 March) and 9 March (week of 3 March) - only one is covered
+    expect(streak.current).toBe(2);
+    expect(streak.longest).toBe(4);
+  });
+
+  test('uses the rest day for a missed day in each week', () => {
+    const options = { timeZone: LONDON, weeklyRestDay: true };
+    // 6 March is in the week of 3 March, 11 March in the week of 10 March
+    const state = buildStreakState(londonDays(4, 5, 7, 8, 9, 10), options);
+    const streak = deriveCheckInStreak(state, options, new Date('2025-03-12T20:00:00Z'));
+
+    expect(streak.current).toBe(6);
+    expect(streak.restDaysUsed).toEqual(['2025-03-06', '2025-03-11']);
+    expect(streak.restDayAvailable).toBe(false);
+  });
+
+  test('does not treat a calendar day skipped by a flight as missed', () => {
+    const checkIns = [
+      // Monday evening in Los Angeles
+      checkInAt('2025-03-11T04:00:00Z', LOS_ANGELES),
+      // Landed in Tokyo - it is already Wednesday there
+      checkInAt('2025-03-12T10:00:00Z', TOKYO),
+    ];
+    const state = buildStreakState(checkIns, { timeZone: TOKYO });
+
+    expect(state.runLength).toBe(2);
+  });
+
+  test('counts days in the timezone each check-in was completed in', () => {
+    // 23:30 in Los Angeles on 10 March is already 11 March in London
+    const checkIns = [...londonDays(9), checkInAt('2025-03-11T06:30:00Z', LOS_ANGELES)];
+    const state = buildStreakState(checkIns, { timeZone: LONDON });
+
+    expect(state.lastDay).toBe('2025-03-10');
+    expect(state.runLength).toBe(2);
+  });
+
+  test('adds check-ins incrementally to the same result as a rebuild', () => {
+    const options = { timeZone: LONDON, weeklyRestDay: true };
+    const checkIns = londonDays(1, 2, 4, 5, 6, 9, 10, 12);
+    const incremental = checkIns.reduce(
+      (state, checkIn) => addCheckInToStreak(state, checkIn, options),
+      createStreakState()
+    );
+    expect(incremental).toEqual(buildStreakState(checkIns, options));
+  });
+});
+
+describe('getStreakMessage', () => {
+  test('welcomes the patient back after a run ends', () => {
+    const state = buildStreakState(londonDays(1, 2, 3), { timeZone: LONDON });
+    const message = getStreakMessage(deriveCheckInStreak(state, { timeZone: LONDON }, NOW));
+
+    expect(message).toContain('Welcome back');
+    expect(message).toContain('3 days');
+  });
+
+  test('invites a first check-in', () => {
+    const streak = deriveCheckInStreak(createStreakState(), { timeZone: LONDON }, NOW);
+    expect(getStreakMessage(streak)).toBe('Your first check-in starts your run.');
+  });
+});
@@ -0,0 +1,184 @@
+import { CheckInStreakState, CheckInSurvey } from '../types';
+import { TRAVEL_BRIDGE_HOURS } from '../constants/progress';
+import { toDate } from './firestore';
+import { addDays, getDaysBetween, getDayRange, getWeekStart, toZonedDayKey } from './date';
+
+/**
+ * Check-in streaks. A run is a sequence of days with a check-in, each day
+ * counted in the timezone the check-in was completed in, so travelling
+ * doesn't split a day in two.
+ *
+ * Days without a check-in don't end a run when:
+ * - the check-ins either side were in different timezones and less than
+ *   TRAVEL_BRIDGE_HOURS apart (a flight can skip a calendar day), or
+ * - the patient has turned on the weekly rest day and that week's rest day
+ *   is still free (weeks start on Monday).
+ *
+ * Today never counts against a run, since there is still time to check in.
+ * When a run ends the longest run is kept, and the wording in
+ * getStreakMessage welcomes the patient back rather than counting what
+ * was lost.
+ */
+
+export interface StreakOptions {
+  weeklyRestDay?: boolean;
+  timeZone: string; // the patient's timezone now, and for check-ins that didn't record one
+}
+
+export interface CheckInStreak {
+  current: number; // check-in days in the ongoing run (0 if there isn't one)
+  longest: number;
+  isActive: boolean;
+  checkedInToday: boolean;
+  streakStartDay?: string; // start of the latest run
+  lastCheckInAt?: Date;
+  restDaysUsed: string[]; // days in the ongoing run covered by the rest day
+  restDayAvailable: boolean; // this week's rest day is on and still free
+}
+
+export const createStreakState = (): CheckInStreakState => ({
+  runLength: 0,
+  longest: 0,
+  restDaysUsed: [],
+  restWeeksUsed: [],
+});
+
+// How the days between the last check-in and a later one are covered, or null if they can't be
+const bridgeGap = (
+  state: CheckInStreakState,
+  day: string,
+  at: number,
+  timeZone: string,
+  weeklyRestDay: boolean
+): { restDays: string[]; restWeeks: string[] } | null => {
+  if (!state.lastDay) {
+    return null;
+  }
+
+  const missedCount = getDaysBetween(state.lastDay, day) - 1;
+  if (missedCount <= 0) {
+    return { restDays: [], restWeeks: state.restWeeksUsed };
+  }
+
+  const crossedTimeZones = !!state.lastTimeZone && state.lastTimeZone !== timeZone;
+  if (
+    crossedTimeZones &&
+    state.lastCheckInAt !== undefined &&
+    at - state.lastCheckInAt < TRAVEL_BRIDGE_HOURS * 60 * 60 * 1000
+  ) {
+    return { restDays: [], restWeeks: state.restWeeksUsed };
+  }
+
+  if (!weeklyRestDay) {
+    return null;
+  }
+
+  // One rest day per week
+  const missedDays = getDayRange(addDays(day, -1), missedCount);
+  const restWeeks = [...state.restWeeksUsed];
+  for (const missedDay of missedDays) {
+    const week = getWeekStart(missedDay);
+    if (restWeeks.includes(week)) {
+      return null;
+    }
+    restWeeks.push(week);
+  }
+  return { restDays: missedDays, restWeeks };
+};
+
+/**
+ * Add a check-in to the streak. Check-ins are expected in the order they
+ * were completed; one on a day already counted changes nothing.
+ */
+export const addCheckInToStreak = (
+  state: CheckInStreakState,
+  checkIn: Pick<CheckInSurvey, 'completedAt' | 'timeZone'>,
+  { weeklyRestDay = false, timeZone }: StreakOptions
+): CheckInStreakState => {
+  const checkInTimeZone = checkIn.timeZone || timeZone;
+  const at = toDate(checkIn.completedAt).getTime();
+  const day = toZonedDayKey(new Date(at), checkInTimeZone);
+
+  // Same day, or an earlier one after flying west
+  if (state.lastDay && day <= state.lastDay) {
+    return {
+      ...state,
+      lastCheckInAt: Math.max(at, state.lastCheckInAt ?? at),
+      lastTimeZone: at >= (state.lastCheckInAt ?? 0) ? checkInTimeZone : state.lastTimeZone,
+    };
+  }
+
+  const bridge = bridgeGap(state, day, at, checkInTimeZone, weeklyRestDay);
+  const runLength = bridge ? state.runLength + 1 : 1;
+
+  return {
+    runStartDay: bridge ? state.runStartDay : day,
+    runLength,
+    longest: Math.max(state.longest, runLength),
+    lastDay: day,
+    lastCheckInAt: at,
+    lastTimeZone: checkInTimeZone,
+    restDaysUsed: bridge ? [...state.restDaysUsed, ...bridge.restDays] : [],
+    // Only weeks from the latest check-in on can still be bridged
+    restWeeksUsed: (bridge?.restWeeks ?? state.restWeeksUsed).filter(
+      (week) => week >= getWeekStart(day)
+    ),
+  };
+};
+
+// Streak state for a patient's whole history
+export const buildStreakState = (
+  checkIns: Pick<CheckInSurvey, 'completedAt' | 'timeZone'>[],
+  options: StreakOptions
+): CheckInStreakState =>
+  [...checkIns]
+    .sort((a, b) => toDate(a.completedAt).getTime() - toDate(b.completedAt).getTime())
+    .reduce((state, checkIn) => addCheckInToStreak(state, checkIn, options), createStreakState());
+
+// The streak as of `now`
+export const deriveCheckInStreak = (
+  state: CheckInStreakState,
+  { weeklyRestDay = false, timeZone }: StreakOptions,
+  now: Date = new Date()
+): CheckInStreak => {
+  const today = toZonedDayKey(now, timeZone);
+  // After flying west the last check-in's day can be later than today here
+  const checkedInToday = !!state.lastDay && state.lastDay >= today;
+
+  // The days since the last check-in, not counting today, must be bridged
+  const bridge = checkedInToday
+    ? { restDays: [], restWeeks: state.restWeeksUsed }
+    : bridgeGap(state, today, now.getTime(), timeZone, weeklyRestDay);
+  const isActive = state.runLength > 0 && !!bridge;
+  const restWeeks = bridge?.restWeeks ?? state.restWeeksUsed;
+
+  return {
+    current: isActive ? state.runLength : 0,
+    longest: state.longest,
+    isActive,
+    checkedInToday,
+    streakStartDay: state.runStartDay,
+    lastCheckInAt: state.lastCheckInAt !== undefined ? new Date(state.lastCheckInAt) : undefined,
+    restDaysUsed: isActive && bridge ? [...state.restDaysUsed, ...bridge.restDays] : [],
+    restDayAvailable: weeklyRestDay && !restWeeks.includes(getWeekStart(today)),
+  };
+};
+
+const formatDays = (count: number): string => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+// Encouraging wording for the streak - never framed as a loss
+export const getStreakMessage = (streak: CheckInStreak): string => {
+  if (streak.isActive && streak.checkedInToday) {
+    return streak.current === 1
+      ? "You've checked in today. Nice work looking after yourself."
+      : `You've checked in ${streak.current} days in a row. Nice work looking after yourself.`;
+  }
+  if (streak.isActive) {
+    return `${formatDays(streak.current)} so far. Today's check-in adds to your run.`;
+  }
+  if (streak.longest > 0) {
+    const longest = formatDays(streak.longest);
+    return `Welcome back. Every check-in counts, and your longest run is ${longest}.`;
+  }
+  return 'Your first check-in starts your run.';
+};
@@ -0,0 +1,117 @@
+/**
+ * Check-in template validation tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInFormData, CheckInTemplateFormData, CustomQuestion, MoodScale } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../constants/checkInTemplates';
+import { checkInSchema } from './checkInValidation';
+import { buildCheckInSchema, checkInTemplateSchema } from './checkInTemplateValidation';
+
+const question = (id: string, overrides: Partial<CustomQuestion> = {}): CustomQuestion => ({
+  id,
+  section: 'notes',
+  type: 'free_text',
+  prompt: 'What helped today?',
+  required: true,
+  ...overrides,
+});
+
+const template = (overrides: Partial<CheckInTemplateFormData> = {}): CheckInTemplateFormData => ({
+  ...DEFAULT_CHECK_IN_TEMPLATE,
+  ...overrides,
+});
+
+const answers = (
+  customAnswers: CheckInFormData['customAnswers'],
+  overrides: Partial<CheckInFormData> = {}
+): CheckInFormData => ({ ...DEFAULT_CHECK_IN_VALUES, customAnswers, ...overrides });
+
+describe('checkInTemplateSchema', () => {
+  it('accepts the standard check-in', () => {
+    expect(checkInTemplateSchema.isValidSync(DEFAULT_CHECK_IN_TEMPLATE)).toBe(true);
+  });
+
+  it('needs at least one section shown', () => {
+    const sections = Object.fromEntries(
+      Object.keys(DEFAULT_CHECK_IN_TEMPLATE.sections).map((section) => [section, 'hidden'])
+    ) as CheckInTemplateFormData['sections'];
+
+    expect(() => checkInTemplateSchema.validateSync(template({ sections }))).toThrow(
+      'At least one section must be shown'
+    );
+  });
+
+  it('needs two options for a multi-select question', () => {
+    const layout = template({
+      customQuestions: [question('q1', { type: 'multi_select', options: ['Walk', ''] })],
+    });
+
+    expect(() => checkInTemplateSchema.validateSync(layout)).toThrow(
+      'Please add at least two options'
+    );
+  });
+});
+
+describe('buildCheckInSchema', () => {
+  it('uses the standard schema when the template has no visible questions', () => {
+    expect(buildCheckInSchema(DEFAULT_CHECK_IN_TEMPLATE)).toBe(checkInSchema);
+    expect(
+      buildCheckInSchema(
+        template({
+          sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, notes: 'hidden' },
+          customQuestions: [question('q1')],
+        })
+      )
+    ).toBe(checkInSchema);
+  });
+
+  it('requires answers to required questions', () => {
+    const schema = buildCheckInSchema(template({ customQuestions: [question('q1')] }));
+
+    expect(() => schema.validateSync(answers({}))).toThrow('Please answer this question');
+    expect(schema.isValidSync(answers({ q1: 'A walk' }))).toBe(true);
+  });
+
+  it('lets optional questions be left out', () => {
+    const schema = buildCheckInSchema(
+      template({ customQuestions: [question('q1', { required: false })] })
+    );
+
+    expect(schema.isValidSync(answers({}))).toBe(true);
+  });
+
+  it('checks answers against the question type', () => {
+    const schema = buildCheckInSchema(
+      template({
+        customQuestions: [
+          question('scale', { type: 'scale' }),
+          question('choices', { type: 'multi_select', options: ['Walk', 'Call a friend'] }),
+        ],
+      })
+    );
+
+    const outOfRange = 11 as unknown as MoodScale;
+    expect(() => schema.validateSync(answers({ scale: outOfRange, choices: ['Walk'] }))).toThrow(
+      'Please choose 1-10'
+    );
+    expect(() => schema.validateSync(answers({ scale: 4, choices: [] }))).toThrow(
+      'Please choose at least one'
+    );
+    expect(schema.isValidSync(answers({ scale: 4, choices: ['Walk'] }))).toBe(true);
+  });
+
+  it("doesn't require answers in a section the patient skipped", () => {
+    const schema = buildCheckInSchema(
+      template({
+        sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, notes: 'optional' },
+        customQuestions: [question('q1')],
+      })
+    );
+
+    expect(schema.isValidSync(answers({}, { skippedSections: ['notes'] }))).toBe(true);
+    expect(schema.isValidSync(answers({}))).toBe(false);
+  });
+});
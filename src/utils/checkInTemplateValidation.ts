@@ -0,0 +1,138 @@
+import * as yup from 'yup';
+import {
+  CheckInFormData,
+  CheckInSection,
+  CheckInSectionMode,
+  CheckInTemplateField,
+  CheckInTemplateFormData,
+  CustomQuestion,
+  CustomQuestionType,
+  MoodScale,
+} from '../types';
+import { MOOD_SCALE_VALUES } from '../constants/checkIn';
+import { CHECK_IN_SECTIONS, TEMPLATE_FIELD_OPTIONS } from '../constants/checkInTemplates';
+import { checkInSchema } from './checkInValidation';
+
+// Validation for the clinician's template editor and for answers to custom questions
+
+const sectionMode = () =>
+  yup
+    .mixed<CheckInSectionMode>()
+    .oneOf(['required', 'optional', 'hidden', 'custom'] as const)
+    .required();
+
+export const customQuestionSchema: yup.ObjectSchema<CustomQuestion> = yup.object({
+  id: yup.string().required(),
+  section: yup
+    .mixed<CheckInSection>()
+    .oneOf(CHECK_IN_SECTIONS, 'Please choose a section')
+    .required('Please choose a section'),
+  type: yup
+    .mixed<CustomQuestionType>()
+    .oneOf(['scale', 'multi_select', 'free_text'] as const, 'Please choose a question type')
+    .required('Please choose a question type'),
+  prompt: yup
+    .string()
+    .trim()
+    .max(200, 'Please keep the question under 200 characters')
+    .required('Please enter the question'),
+  required: yup.boolean().required(),
+  options: yup
+    .array(yup.string().trim().required())
+    .compact()
+    .when('type', {
+      is: 'multi_select',
+      then: (schema) => schema.min(2, 'Please add at least two options').required(),
+      otherwise: (schema) => schema.strip(),
+    }),
+  lowLabel: yup.string().trim().max(30, 'Please keep labels short').optional(),
+  highLabel: yup.string().trim().max(30, 'Please keep labels short').optional(),
+});
+
+export const checkInTemplateSchema: yup.ObjectSchema<CheckInTemplateFormData> = yup.object({
+  name: yup
+    .string()
+    .trim()
+    .max(60, 'Please keep the name under 60 characters')
+    .required('Please name the template'),
+  sections: yup
+    .object({
+      mood: sectionMode(),
+      episodes: sectionMode(),
+      urges: sectionMode(),
+      triggers: sectionMode(),
+      coping: sectionMode(),
+      wellbeing: sectionMode(),
+      notes: sectionMode(),
+    })
+    .required()
+    .test(
+      'has-visible-section',
+      'At least one section must be shown',
+      (sections) => !!sections && Object.values(sections).some((mode) => mode !== 'hidden')
+    ),
+  hiddenFields: yup
+    .array(
+      yup
+        .mixed<CheckInTemplateField>()
+        .oneOf(TEMPLATE_FIELD_OPTIONS.map((option) => option.value))
+        .required()
+    )
+    .required(),
+  customQuestions: yup.array(customQuestionSchema).required(),
+});
+
+// Answer validation for one custom question. Required answers may be left
+// out when the patient skipped the question's optional section.
+const customAnswerSchema = (question: CustomQuestion, isSkipped: boolean) => {
+  const isRequired = question.required && !isSkipped;
+
+  switch (question.type) {
+    case 'scale': {
+      const schema = yup.mixed<MoodScale>().oneOf(MOOD_SCALE_VALUES, 'Please choose 1-10');
+      return isRequired ? schema.required('Please answer this question') : schema.optional();
+    }
+    case 'multi_select': {
+      const schema = yup.array(yup.string().required()).default([]);
+      return isRequired ? schema.min(1, 'Please choose at least one') : schema;
+    }
+    case 'free_text': {
+      const schema = yup.string().max(1000, 'Please keep this under 1000 characters');
+      return isRequired
+        ? schema.trim().required('Please answer this question')
+        : schema.optional();
+    }
+  }
+};
+
+// Check-in validation for a template: the standard rules plus its custom questions
+export const buildCheckInSchema = (
+  template: CheckInTemplateFormData
+): yup.ObjectSchema<CheckInFormData> => {
+  const visibleQuestions = template.customQuestions.filter(
+    (question) => template.sections[question.section] !== 'hidden'
+  );
+  if (visibleQuestions.length === 0) {
+    return checkInSchema;
+  }
+
+  const answersSchema = (skippedSections: CheckInSection[] = []) =>
+    yup
+      .object(
+        Object.fromEntries(
+          visibleQuestions.map((question) => [
+            question.id,
+            customAnswerSchema(question, skippedSections.includes(question.section)),
+          ])
+        )
+      )
+      .required();
+
+  return checkInSchema.shape({
+    customAnswers: yup
+      .object()
+      .when('skippedSections', ([skippedSections]: (CheckInSection[] | undefined)[]) =>
+        answersSchema(skippedSections)
+      ),
+  }) as unknown as yup.ObjectSchema<CheckInFormData>;
+};
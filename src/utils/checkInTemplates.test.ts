@@ -0,0 +1,154 @@
+/**
+ * Check-in template layout tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInFormData, CheckInTemplateFormData, CustomQuestion } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import { DEFAULT_CHECK_IN_TEMPLATE } from '../constants/checkInTemplates';
+import {
+  getCheckInLayout,
+  getTemplateFormValues,
+  getTemplateOmittedFields,
+  getTemplateStepFields,
+  getTemplateSteps,
+} from './checkInTemplates';
+
+const question = (id: string, overrides: Partial<CustomQuestion> = {}): CustomQuestion => ({
+  id,
+  section: 'mood',
+  type: 'scale',
+  prompt: 'How hungry were you?',
+  required: true,
+  ...overrides,
+});
+
+const template = (overrides: Partial<CheckInTemplateFormData> = {}): CheckInTemplateFormData => ({
+  ...DEFAULT_CHECK_IN_TEMPLATE,
+  ...overrides,
+});
+
+describe('getTemplateSteps', () => {
+  it('asks every section of the standard check-in', () => {
+    expect(getTemplateSteps(DEFAULT_CHECK_IN_TEMPLATE)).toEqual([
+      'mood',
+      'episodes',
+      'urges',
+      'triggers',
+      'coping',
+      'wellbeing',
+      'notes',
+      'review',
+    ]);
+  });
+
+  it('leaves out hidden sections and custom sections without questions', () => {
+    const steps = getTemplateSteps(
+      template({
+        sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, urges: 'hidden', coping: 'custom' },
+      })
+    );
+
+    expect(steps).not.toContain('urges');
+    expect(steps).not.toContain('coping');
+    expect(steps).toContain('triggers');
+  });
+
+  it('keeps a custom section that has questions', () => {
+    const steps = getTemplateSteps(
+      template({
+        sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, coping: 'custom' },
+        customQuestions: [question('q1', { section: 'coping' })],
+      })
+    );
+
+    expect(steps).toContain('coping');
+  });
+});
+
+describe('getTemplateStepFields', () => {
+  it('validates only the custom answers of a custom section', () => {
+    const layout = template({
+      sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, mood: 'custom' },
+      customQuestions: [question('q1')],
+    });
+
+    expect(getTemplateStepFields(layout, 'mood')).toEqual(['customAnswers.q1']);
+  });
+
+  it('validates built-in fields and custom answers of a required section', () => {
+    const fields = getTemplateStepFields(template({ customQuestions: [question('q1')] }), 'mood');
+
+    expect(fields).toContain('mood');
+    expect(fields).toContain('customAnswers.q1');
+  });
+
+  it('has nothing to validate on the review step', () => {
+    expect(getTemplateStepFields(DEFAULT_CHECK_IN_TEMPLATE, 'review')).toEqual([]);
+  });
+});
+
+describe('getTemplateOmittedFields', () => {
+  it('omits nothing from the standard check-in', () => {
+    expect(getTemplateOmittedFields(DEFAULT_CHECK_IN_TEMPLATE)).toEqual([]);
+  });
+
+  it('omits hidden and custom sections and hidden fields, but not optional sections', () => {
+    const omitted = getTemplateOmittedFields(
+      template({
+        sections: {
+          ...DEFAULT_CHECK_IN_TEMPLATE.sections,
+          urges: 'hidden',
+          coping: 'custom',
+          notes: 'optional',
+        },
+        hiddenFields: ['mood.stress'],
+      })
+    );
+
+    expect(omitted).toEqual(['urges', 'coping', 'mood.stress']);
+  });
+});
+
+describe('getTemplateFormValues', () => {
+  it('drops custom questions in hidden sections', () => {
+    const values = getTemplateFormValues(
+      template({
+        sections: { ...DEFAULT_CHECK_IN_TEMPLATE.sections, urges: 'hidden' },
+        customQuestions: [question('q1'), question('q2', { section: 'urges' })],
+      }),
+      'template-1'
+    );
+
+    expect(values.templateId).toBe('template-1');
+    expect(values.customQuestions?.map(({ id }) => id)).toEqual(['q1']);
+    expect(values.omittedFields).toEqual(['urges']);
+  });
+});
+
+describe('getCheckInLayout', () => {
+  it('rebuilds the layout a check-in was answered with', () => {
+    const values: CheckInFormData = {
+      ...DEFAULT_CHECK_IN_VALUES,
+      customQuestions: [question('q1', { section: 'coping' })],
+      omittedFields: ['urges', 'coping', 'mood.stress'],
+      skippedSections: ['notes'],
+    };
+
+    expect(getCheckInLayout(values)).toEqual({
+      name: '',
+      sections: {
+        mood: 'required',
+        episodes: 'required',
+        urges: 'hidden',
+        triggers: 'required',
+        coping: 'custom',
+        wellbeing: 'required',
+        notes: 'hidden',
+      },
+      hiddenFields: ['mood.stress'],
+      customQuestions: values.customQuestions,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  CheckInFormData,
+  CheckInSection,
+  CheckInSectionMode,
+  CheckInStep,
+  CheckInTemplateField,
+  CheckInTemplateFormData,
+  CustomQuestion,
+} from '../types';
+import { CHECK_IN_STEP_FIELDS } from '../constants/checkIn';
+import { CHECK_IN_SECTIONS } from '../constants/checkInTemplates';
+
+// Custom questions shown in a section, in template order
+export const getSectionQuestions = (
+  template: CheckInTemplateFormData,
+  section: CheckInSection
+): CustomQuestion[] => template.customQuestions.filter((question) => question.section === section);
+
+// Whether the built-in questions of a section are asked
+export const showsBuiltInQuestions = (
+  template: CheckInTemplateFormData,
+  section: CheckInSection
+): boolean => template.sections[section] === 'required' || template.sections[section] === 'optional';
+
+// Wizard steps for a template, ending with the review
+export const getTemplateSteps = (template: CheckInTemplateFormData): CheckInStep[] => [
+  ...CHECK_IN_SECTIONS.filter(
+    (section) =>
+      showsBuiltInQuestions(template, section) ||
+      (template.sections[section] === 'custom' && getSectionQuestions(template, section).length > 0)
+  ),
+  'review',
+];
+
+// Form fields validated before leaving a step
+export const getTemplateStepFields = (
+  template: CheckInTemplateFormData,
+  step: CheckInStep
+): (keyof CheckInFormData | `customAnswers.${string}`)[] => {
+  if (step === 'review') {
+    return [];
+  }
+
+  return [
+    ...(showsBuiltInQuestions(template, step) ? CHECK_IN_STEP_FIELDS[step] : []),
+    ...getSectionQuestions(template, step).map(
+      (question) => `customAnswers.${question.id}` as const
+    ),
+  ];
+};
+
+// Sections and fields the template never asks, so their stored values are only defaults
+export const getTemplateOmittedFields = (
+  template: CheckInTemplateFormData
+): (CheckInSection | CheckInTemplateField)[] => [
+  ...CHECK_IN_SECTIONS.filter((section) => !showsBuiltInQuestions(template, section)),
+  ...template.hiddenFields,
+];
+
+// Form values that record how a check-in was laid out by its template
+export const getTemplateFormValues = (
+  template: CheckInTemplateFormData,
+  templateId?: string
+): Pick<CheckInFormData, 'templateId' | 'customQuestions' | 'omittedFields'> => ({
+  templateId,
+  customQuestions: template.customQuestions.filter(
+    (question) => template.sections[question.section] !== 'hidden'
+  ),
+  omittedFields: getTemplateOmittedFields(template),
+});
+
+// The layout a saved check-in was answered with, so it can be corrected in
+// the same shape. Skipped sections stay out, as they were never answered.
+export const getCheckInLayout = (values: CheckInFormData): CheckInTemplateFormData => {
+  const omittedFields = values.omittedFields || [];
+  const customQuestions = values.customQuestions || [];
+
+  const getSectionMode = (section: CheckInSection): CheckInSectionMode => {
+    if (values.skippedSections?.includes(section)) {
+      return 'hidden';
+    }
+    if (omittedFields.includes(section)) {
+      return customQuestions.some((question) => question.section === section) ? 'custom' : 'hidden';
+    }
+    return 'required';
+  };
+
+  return {
+    name: '',
+    sections: Object.fromEntries(
+      CHECK_IN_SECTIONS.map((section) => [section, getSectionMode(section)])
+    ) as Record<CheckInSection, CheckInSectionMode>,
+    hiddenFields: omittedFields.filter(
+      (field): field is CheckInTemplateField => !CHECK_IN_SECTIONS.includes(field as CheckInSection)
+    ),
+    customQuestions,
+  };
+};
@@ -0,0 +1,121 @@
+/**
+ * Check-in validation tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { BingeEpisode, CheckInFormData, MoodScale } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import { bingeEpisodeSchema, checkInSchema } from './checkInValidation';
+
+const episode = (overrides: Partial<BingeEpisode> = {}): BingeEpisode => ({
+  date: new Date('2025-03-10T20:00:00Z'),
+  severity: 'moderate',
+  triggers: [],
+  emotions: [],
+  duration: 20,
+  foodTypes: [],
+  amount: 'medium',
+  location: '',
+  aloneOrWithOthers: 'alone',
+  ...overrides,
+});
+
+const checkIn = (overrides: Partial<CheckInFormData> = {}): CheckInFormData => ({
+  ...DEFAULT_CHECK_IN_VALUES,
+  ...overrides,
+});
+
+describe('bingeEpisodeSchema', () => {
+  it('accepts a complete episode', () => {
+    expect(bingeEpisodeSchema.isValidSync(episode())).toBe(true);
+  });
+
+  it('rejects durations below zero or of a day or more', () => {
+    expect(() => bingeEpisodeSchema.validateSync(episode({ duration: -5 }))).toThrow(
+      'Duration cannot be negative'
+    );
+    expect(() => bingeEpisodeSchema.validateSync(episode({ duration: 24 * 60 + 1 }))).toThrow(
+      'Duration must be less than a day'
+    );
+  });
+
+  it('only accepts known compensatory behaviours', () => {
+    const unknown = ['fasting'] as unknown as BingeEpisode['compensatoryBehaviors'];
+    expect(bingeEpisodeSchema.isValidSync(episode({ compensatoryBehaviors: unknown }))).toBe(
+      false
+    );
+  });
+});
+
+describe('checkInSchema', () => {
+  it('accepts the default check-in', () => {
+    expect(checkInSchema.isValidSync(checkIn())).toBe(true);
+  });
+
+  it('keeps mood ratings between 1 and 10', () => {
+    const mood = { ...DEFAULT_CHECK_IN_VALUES.mood, overall: 0 as unknown as MoodScale };
+    expect(() => checkInSchema.validateSync(checkIn({ mood }))).toThrow(
+      'Overall mood must be between 1 and 10'
+    );
+  });
+
+  it('needs an episode when the patient had one, and none otherwise', () => {
+    expect(() =>
+      checkInSchema.validateSync(
+        checkIn({ bingeEpisodes: { hadBingeEpisode: true, episodes: [] } })
+      )
+    ).toThrow('Please add at least one episode');
+    expect(
+      checkInSchema.isValidSync(
+        checkIn({ bingeEpisodes: { hadBingeEpisode: false, episodes: [episode()] } })
+      )
+    ).toBe(false);
+    expect(
+      checkInSchema.isValidSync(
+        checkIn({ bingeEpisodes: { hadBingeEpisode: true, episodes: [episode()] } })
+      )
+    ).toBe(true);
+  });
+
+  it('asks how strong an urge was and whether it was acted on', () => {
+    expect(() =>
+      checkInSchema.validateSync(checkIn({ urges: { hadUrge: true, actedOn: false } }))
+    ).toThrow('Please rate how strong the urge was');
+    expect(() =>
+      checkInSchema.validateSync(checkIn({ urges: { hadUrge: true, peakIntensity: 6 } }))
+    ).toThrow('Please say whether you acted on the urge');
+  });
+
+  it('drops urge details when there was no urge', () => {
+    const validated = checkInSchema.validateSync(
+      checkIn({ urges: { hadUrge: false, peakIntensity: 6, actedOn: true } })
+    );
+    expect(validated.urges).toEqual({ hadUrge: false });
+  });
+
+  it('needs a compensatory behaviour when the patient engaged in one', () => {
+    expect(() =>
+      checkInSchema.validateSync(
+        checkIn({ compensatoryBehaviors: { engaged: true, behaviors: [] } })
+      )
+    ).toThrow('Please select at least one');
+  });
+
+  it('rates each coping strategy used', () => {
+    const copingStrategies = {
+      ...DEFAULT_CHECK_IN_VALUES.copingStrategies,
+      used: [{ strategy: 'Go for a walk', duration: 15 }],
+    } as unknown as CheckInFormData['copingStrategies'];
+
+    expect(() => checkInSchema.validateSync(checkIn({ copingStrategies }))).toThrow(
+      'Please rate how helpful it was'
+    );
+  });
+
+  it('limits notes to 2000 characters', () => {
+    expect(() => checkInSchema.validateSync(checkIn({ notes: 'a'.repeat(2001) }))).toThrow(
+      'Notes must be 2000 characters or fewer'
+    );
+  });
+});
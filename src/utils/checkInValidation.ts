@@ -0,0 +1,193 @@
+import * as yup from 'yup';
+import {
+  BingeEpisode,
+  BingeSeverity,
+  CheckInFormData,
+  CheckInSection,
+  CheckInTemplateField,
+  CompensatoryBehavior,
+  CustomAnswer,
+  CustomQuestion,
+  CopingEffectiveness,
+  MoodScale,
+} from '../types';
+import { MOOD_SCALE_VALUES } from '../constants/checkIn';
+
+// Validation schemas shared by the check-in wizard and episode logging
+
+const moodScale = (label: string) =>
+  yup
+    .mixed<MoodScale>()
+    .oneOf(MOOD_SCALE_VALUES, `${label} must be between 1 and 10`)
+    .required(`${label} is required`);
+
+const stringList = () => yup.array(yup.string().required()).default([]);
+
+// Compensatory behaviours are sensitive - see SENSITIVE_FIELDS
+export const compensatoryBehaviorList = () =>
+  yup.array(
+    yup
+      .mixed<CompensatoryBehavior>()
+      .oneOf(['restriction', 'over_exercise', 'laxatives', 'vomiting'] as const)
+      .required()
+  );
+
+export const bingeEpisodeSchema: yup.ObjectSchema<BingeEpisode> = yup.object({
+  date: yup.date().required('Episode time is required'),
+  severity: yup
+    .mixed<BingeSeverity>()
+    .oneOf(['mild', 'moderate', 'severe'] as const, 'Please select a severity')
+    .required('Please select a severity'),
+  triggers: stringList().required(),
+  emotions: stringList().required(),
+  duration: yup
+    .number()
+    .typeError('Duration must be a number')
+    .min(0, 'Duration cannot be negative')
+    .max(24 * 60, 'Duration must be less than a day')
+    .required('Duration is required'),
+  foodTypes: stringList().required(),
+  amount: yup
+    .mixed<BingeEpisode['amount']>()
+    .oneOf(['small', 'medium', 'large', 'excessive'] as const, 'Please select an amount')
+    .required('Please select an amount'),
+  location: yup.string().defined().default(''),
+  aloneOrWithOthers: yup
+    .mixed<BingeEpisode['aloneOrWithOthers']>()
+    .oneOf(['alone', 'with_others', 'mixed'] as const, 'Please select who you were with')
+    .required('Please select who you were with'),
+  urgeIntensity: yup
+    .mixed<MoodScale>()
+    .oneOf(MOOD_SCALE_VALUES, 'Urge intensity must be between 1 and 10')
+    .optional(),
+  compensatoryBehaviors: compensatoryBehaviorList().optional(),
+  episodeLogId: yup.string().optional(),
+});
+
+export const checkInSchema: yup.ObjectSchema<CheckInFormData> = yup.object({
+  mood: yup
+    .object({
+      overall: moodScale('Overall mood'),
+      anxiety: moodScale('Anxiety'),
+      depression: moodScale('Low mood'),
+      stress: moodScale('Stress'),
+      selfEsteem: moodScale('Self-esteem'),
+    })
+    .required(),
+  bingeEpisodes: yup
+    .object({
+      hadBingeEpisode: yup.boolean().required(),
+      episodes: yup
+        .array(bingeEpisodeSchema)
+        .required()
+        .when('hadBingeEpisode', {
+          is: true,
+          then: (schema) => schema.min(1, 'Please add at least one episode'),
+          otherwise: (schema) => schema.max(0),
+        }),
+    })
+    .required(),
+  urges: yup
+    .object({
+      hadUrge: yup.boolean().required(),
+      peakIntensity: yup
+        .mixed<MoodScale>()
+        .oneOf(MOOD_SCALE_VALUES, 'Urge intensity must be between 1 and 10')
+        .when('hadUrge', {
+          is: true,
+          then: (schema) => schema.required('Please rate how strong the urge was'),
+          otherwise: (schema) => schema.strip(),
+        }),
+      actedOn: yup.boolean().when('hadUrge', {
+        is: true,
+        then: (schema) => schema.required('Please say whether you acted on the urge'),
+        otherwise: (schema) => schema.strip(),
+      }),
+    })
+    .required(),
+  compensatoryBehaviors: yup
+    .object({
+      engaged: yup.boolean().required(),
+      behaviors: compensatoryBehaviorList()
+        .required()
+        .when('engaged', {
+          is: true,
+          then: (schema) => schema.min(1, 'Please select at least one'),
+          otherwise: (schema) => schema.max(0),
+        }),
+    })
+    .required(),
+  triggers: yup
+    .object({
+      emotional: stringList().required(),
+      environmental: stringList().required(),
+      social: stringList().required(),
+      physical: stringList().required(),
+      other: stringList().required(),
+    })
+    .required(),
+  copingStrategies: yup
+    .object({
+      used: yup
+        .array(
+          yup.object({
+            strategy: yup.string().required('Strategy is required'),
+            effectiveness: yup
+              .mixed<CopingEffectiveness>()
+              .oneOf(
+                ['not_helpful', 'somewhat_helpful', 'helpful', 'very_helpful'] as const,
+                'Please rate how helpful it was'
+              )
+              .required('Please rate how helpful it was'),
+            duration: yup
+              .number()
+              .typeError('Duration must be a number')
+              .min(0, 'Duration cannot be negative')
+              .required('Duration is required'),
+          })
+        )
+        .required(),
+      available: stringList().required(),
+    })
+    .required(),
+  wellbeing: yup
+    .object({
+      sleepQuality: moodScale('Sleep quality'),
+      energyLevel: moodScale('Energy level'),
+      socialConnection: moodScale('Social connection'),
+      physicalActivity: yup
+        .object({
+          didExercise: yup.boolean().required(),
+          duration: yup
+            .number()
+            .typeError('Duration must be a number')
+            .min(0, 'Duration cannot be negative')
+            .optional(),
+          type: yup.string().optional(),
+        })
+        .required(),
+      selfCare: yup
+        .object({
+          activities: stringList().required(),
+          timeSpent: yup
+            .number()
+            .typeError('Time spent must be a number')
+            .min(0, 'Time spent cannot be negative')
+            .required('Time spent is required'),
+        })
+        .required(),
+    })
+    .required(),
+  notes: yup.string().max(2000, 'Notes must be 2000 characters or fewer').optional(),
+  goalsForToday: stringList().optional(),
+  challenges: stringList().optional(),
+  wins: stringList().optional(),
+  templateId: yup.string().optional(),
+  customQuestions: yup.mixed<CustomQuestion[]>().optional(),
+  // Custom answers are checked against the template - see buildCheckInSchema
+  customAnswers: yup.mixed<Record<string, CustomAnswer>>().optional(),
+  omittedFields: yup
+    .array(yup.mixed<CheckInSection | CheckInTemplateField>().required())
+    .optional(),
+  skippedSections: yup.array(yup.mixed<CheckInSection>().required()).optional(),
+});
@@ -0,0 +1,94 @@
+/**
+ * Coping toolbox tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInSurvey, CopingEffectiveness } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import {
+  buildCopingToolbox,
+  getSuggestedStrategies,
+  setStrategyPinnedIn,
+} from './copingToolbox';
+
+const makeCheckIn = (
+  id: string,
+  completedAt: string,
+  used: [string, CopingEffectiveness][]
+): CheckInSurvey => ({
+  ...DEFAULT_CHECK_IN_VALUES,
+  id,
+  patientId: 'patient-1',
+  completedAt: new Date(completedAt) as unknown as CheckInSurvey['completedAt'],
+  copingStrategies: {
+    used: used.map(([strategy, effectiveness]) => ({ strategy, effectiveness, duration: 10 })),
+    available: [],
+  },
+});
+
+const checkIns = [
+  makeCheckIn('a', '2025-03-01T12:00:00Z', [
+    ['Walk', 'helpful'],
+    ['Music', 'very_helpful'],
+  ]),
+  makeCheckIn('b', '2025-03-02T12:00:00Z', [
+    ['walk ', 'very_helpful'],
+    ['Journaling', 'not_helpful'],
+  ]),
+  makeCheckIn('c', '2025-03-03T12:00:00Z', [
+    ['Walk', 'helpful'],
+    ['Journaling', 'somewhat_helpful'],
+  ]),
+];
+
+describe('buildCopingToolbox', () => {
+  test('ranks strategies by smoothed average rating', () => {
+    const toolbox = buildCopingToolbox(checkIns);
+
+    expect(toolbox.map((entry) => entry.strategy)).toEqual(['Walk', 'Music', 'Journaling']);
+    expect(toolbox[0]).toMatchObject({
+      key: 'walk',
+      uses: 3,
+      helpfulUses: 3,
+      averageScore: 2.33,
+      rankScore: 2,
+    });
+    // One "very helpful" rating is pulled towards the middle of the scale
+    expect(toolbox[1]).toMatchObject({ uses: 1, averageScore: 3, rankScore: 2 });
+    expect(toolbox[2]).toMatchObject({ helpfulUses: 0, averageScore: 0.5 });
+  });
+
+  test('puts pinned strategies first, including ones not used yet', () => {
+    const toolbox = buildCopingToolbox(checkIns, ['Call a friend', 'journaling']);
+
+    expect(toolbox.map((entry) => [entry.strategy, entry.isPinned])).toEqual([
+      ['Call a friend', true],
+      ['Journaling', true],
+      ['Walk', false],
+      ['Music', false],
+    ]);
+    expect(toolbox[0]).toMatchObject({ uses: 0, averageScore: null });
+  });
+});
+
+describe('getSuggestedStrategies', () => {
+  test('suggests pinned strategies and ones that have helped before', () => {
+    const toolbox = buildCopingToolbox(checkIns, ['Call a friend']);
+    expect(getSuggestedStrategies(toolbox).map((entry) => entry.strategy)).toEqual([
+      'Call a friend',
+      'Walk',
+      'Music',
+    ]);
+    expect(getSuggestedStrategies(buildCopingToolbox([checkIns[1]]), 5)).toHaveLength(1);
+  });
+});
+
+describe('setStrategyPinnedIn', () => {
+  test('pins to the end and unpins ignoring case', () => {
+    const pinned = setStrategyPinnedIn(['Walk'], ' Music ', true);
+    expect(pinned).toEqual(['Walk', 'Music']);
+    expect(setStrategyPinnedIn(pinned, 'walk', true)).toEqual(pinned);
+    expect(setStrategyPinnedIn(pinned, 'WALK', false)).toEqual(['Music']);
+  });
+});
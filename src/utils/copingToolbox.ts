@@ -0,0 +1,127 @@
+import { CheckInSurvey } from '../types';
+import {
+  COPING_EFFECTIVENESS_SCORES,
+  COPING_RANK_PRIOR_SCORE,
+  COPING_RANK_PRIOR_WEIGHT,
+  COPING_SUGGESTION_COUNT,
+} from '../constants/coping';
+import { toDate } from './firestore';
+
+/**
+ * Personal coping toolbox. Ranks the strategies a patient has used by how
+ * helpful they rated them in their check-ins.
+ *
+ * Ratings are scored 0 (not helpful) to 3 (very helpful). A strategy ranks
+ * by its average score, pulled towards the middle of the scale by
+ * COPING_RANK_PRIOR_WEIGHT imaginary ratings, so a strategy that has helped
+ * many times ranks above one that helped once. Pinned strategies always come
+ * first, in the order they were pinned. Strategies are matched ignoring
+ * case and surrounding spaces, and shown with their latest wording.
+ */
+
+export interface CopingToolboxEntry {
+  key: string; // normalized strategy name
+  strategy: string;
+  uses: number;
+  helpfulUses: number; // rated helpful or very helpful
+  averageScore: number | null; // 0-3, null if never used
+  rankScore: number;
+  lastUsedAt?: Date;
+  isPinned: boolean;
+}
+
+export const normalizeStrategy = (strategy: string): string => strategy.trim().toLowerCase();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Every strategy the patient has used or pinned, pinned first and then best ranked
+export const buildCopingToolbox = (
+  checkIns: CheckInSurvey[],
+  pinnedStrategies: string[] = []
+): CopingToolboxEntry[] => {
+  const entries = new Map<string, CopingToolboxEntry & { totalScore: number }>();
+
+  [...checkIns]
+    .sort((a, b) => toDate(a.completedAt).getTime() - toDate(b.completedAt).getTime())
+    .forEach((checkIn) => {
+      const completedAt = toDate(checkIn.completedAt);
+      checkIn.copingStrategies.used.forEach(({ strategy, effectiveness }) => {
+        const key = normalizeStrategy(strategy);
+        if (!key) {
+          return;
+        }
+
+        const entry = entries.get(key);
+        const score = COPING_EFFECTIVENESS_SCORES[effectiveness];
+        const helped = score >= COPING_EFFECTIVENESS_SCORES.helpful;
+        entries.set(key, {
+          key,
+          strategy: strategy.trim(),
+          uses: (entry?.uses ?? 0) + 1,
+          helpfulUses: (entry?.helpfulUses ?? 0) + (helped ? 1 : 0),
+          averageScore: null,
+          rankScore: 0,
+          totalScore: (entry?.totalScore ?? 0) + score,
+          lastUsedAt: completedAt,
+          isPinned: false,
+        });
+      });
+    });
+
+  const pinnedKeys = pinnedStrategies.map(normalizeStrategy);
+  pinnedStrategies.forEach((strategy, index) => {
+    if (!entries.has(pinnedKeys[index])) {
+      entries.set(pinnedKeys[index], {
+        key: pinnedKeys[index],
+        strategy: strategy.trim(),
+        uses: 0,
+        helpfulUses: 0,
+        averageScore: null,
+        rankScore: 0,
+        totalScore: 0,
+        isPinned: true,
+      });
+    }
+  });
+
+  const toolbox = Array.from(entries.values()).map(({ totalScore, ...entry }) => ({
+    ...entry,
+    averageScore: entry.uses > 0 ? round(totalScore / entry.uses) : null,
+    rankScore: round(
+      (totalScore + COPING_RANK_PRIOR_SCORE * COPING_RANK_PRIOR_WEIGHT) /
+        (entry.uses + COPING_RANK_PRIOR_WEIGHT)
+    ),
+    isPinned: pinnedKeys.includes(entry.key),
+  }));
+
+  return toolbox.sort((a, b) => {
+    if (a.isPinned || b.isPinned) {
+      if (!a.isPinned || !b.isPinned) {
+        return a.isPinned ? -1 : 1;
+      }
+      return pinnedKeys.indexOf(a.key) - pinnedKeys.indexOf(b.key);
+    }
+    return b.rankScore - a.rankScore || b.uses - a.uses || a.strategy.localeCompare(b.strategy);
+  });
+};
+
+// Strategies to suggest in a hard moment: pinned ones, then ones that have helped before
+export const getSuggestedStrategies = (
+  toolbox: CopingToolboxEntry[],
+  count: number = COPING_SUGGESTION_COUNT
+): CopingToolboxEntry[] =>
+  toolbox.filter((entry) => entry.isPinned || entry.helpfulUses > 0).slice(0, count);
+
+// Pin or unpin a strategy; newly pinned strategies go to the end
+export const setStrategyPinnedIn = (
+  pinnedStrategies: string[],
+  strategy: string,
+  pinned: boolean
+): string[] => {
+  const key = normalizeStrategy(strategy);
+  const isPinned = pinnedStrategies.some((item) => normalizeStrategy(item) === key);
+  if (pinned) {
+    return isPinned ? pinnedStrategies : [...pinnedStrategies, strategy.trim()];
+  }
+  return pinnedStrategies.filter((item) => normalizeStrategy(item) !== key);
+};
@@ -0,0 +1,126 @@
+// Calendar-day helpers. Day keys are YYYY-MM-DD strings in the device's local time.
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Local calendar day for a date
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight at the start of a day key
+export const fromDayKey = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+// The device's IANA timezone, e.g. "Europe/London"
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar day for a date in the given IANA timezone, whatever the device's own
+export const toZonedDayKey = (date: Date, timeZone: string): string => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+const zonedHourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Hour of the day (0-23) for a date in the given IANA timezone
+export const toZonedHour = (date: Date, timeZone: string): number => {
+  let formatter = zonedHourFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+    zonedHourFormatters.set(timeZone, formatter);
+  }
+
+  const hour = formatter.formatToParts(date).find((part) => part.type === 'hour')?.value;
+  return Number(hour) % 24;
+};
+
+// Shift a day key by a number of days
+export const addDays = (day: string, amount: number): string => {
+  const date = fromDayKey(day);
+  date.setDate(date.getDate() + amount);
+  return toDayKey(date);
+};
+
+// Whole days from one day key to another (negative if `to` is earlier)
+export const getDaysBetween = (from: string, to: string): number => {
+  const toUtc = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+};
+
+// The Monday starting the week that contains a day
+export const getWeekStart = (day: string): string =>
+  addDays(day, -((fromDayKey(day).getDay() + 6) % 7));
+
+// e.g. "14:05"
+export const formatTime = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Parse "HH:MM" onto the given day, or null if invalid
+export const parseTime = (day: string, time: string): Date | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  const date = fromDayKey(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// "Today", "Yesterday" or e.g. "Mon 3 Mar"
+export const formatDayLabel = (day: string): string => {
+  const today = toDayKey(new Date());
+  if (day === today) {
+    return 'Today';
+  }
+  if (day === addDays(today, -1)) {
+    return 'Yesterday';
+  }
+  return fromDayKey(day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+};
+
+// The `count` day keys ending with (and including) endDay, oldest first
+export const getDayRange = (endDay: string, count: number): string[] =>
+  Array.from({ length: count }, (_, index) => addDays(endDay, index - count + 1));
+
+// All day keys in a calendar month (month is 0-based, as in Date)
+export const getMonthDays = (year: number, month: number): string[] => {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return Array.from({ length: daysInMonth }, (_, index) => toDayKey(new Date(year, month, index + 1)));
+};
+
+// e.g. "March 2025"
+export const formatMonthLabel = (year: number, month: number): string =>
+  new Date(year, month, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+// e.g. "3 Mar"
+export const formatShortDate = (day: string): string =>
+  fromDayKey(day).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
@@ -0,0 +1,121 @@
+/**
+ * Regular eating adherence tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { FoodRecord, PlannedEatingOccasion, Timestamp } from '../types';
+import { calculateEatingAdherence } from './eatingAdherence';
+
+const DAY = '2025-03-10';
+const WINDOW_MINUTES = 30;
+
+// Planned and eaten times are local, as parseTime reads them
+const at = (hours: number, minutes: number = 0) => new Date(2025, 2, 10, hours, minutes);
+const END_OF_DAY = at(23, 59);
+
+const occasion = (id: string, time: string): PlannedEatingOccasion => ({
+  id,
+  mealType: 'breakfast',
+  time,
+  remindersEnabled: false,
+});
+
+const record = (id: string, eatenAt: Date, overrides: Partial<FoodRecord> = {}): FoodRecord => ({
+  id,
+  patientId: 'patient-1',
+  day: DAY,
+  eatenAt,
+  foodAndDrink: 'Toast',
+  place: 'Kitchen',
+  mealType: 'breakfast',
+  wasBinge: false,
+  compensatoryBehaviors: [],
+  createdAt: { seconds: 0, nanoseconds: 0 } as unknown as Timestamp,
+  ...overrides,
+});
+
+const BREAKFAST = occasion('breakfast', '08:00');
+const LUNCH = occasion('lunch', '12:30');
+
+describe('calculateEatingAdherence', () => {
+  it('counts records eaten within the window of a planned occasion', () => {
+    const adherence = calculateEatingAdherence(
+      [BREAKFAST, LUNCH],
+      WINDOW_MINUTES,
+      [record('r1', at(8, 20)), record('r2', at(13, 30))],
+      [DAY],
+      END_OF_DAY
+    );
+
+    expect(adherence).toEqual({ planned: 2, eatenWithinWindow: 1, adherenceRate: 50 });
+  });
+
+  it('lets each record satisfy only one occasion', () => {
+    const adherence = calculateEatingAdherence(
+      [occasion('early', '08:00'), occasion('late', '08:20')],
+      WINDOW_MINUTES,
+      [record('r1', at(8, 10))],
+      [DAY],
+      END_OF_DAY
+    );
+
+    expect(adherence.eatenWithinWindow).toBe(1);
+  });
+
+  it('matches the closest record when several fall in the window', () => {
+    const adherence = calculateEatingAdherence(
+      [occasion('early', '08:00'), occasion('late', '08:40')],
+      WINDOW_MINUTES,
+      [record('r1', at(8, 5)), record('r2', at(8, 25))],
+      [DAY],
+      END_OF_DAY
+    );
+
+    expect(adherence.eatenWithinWindow).toBe(2);
+  });
+
+  it("doesn't count binges as planned eating", () => {
+    const adherence = calculateEatingAdherence(
+      [BREAKFAST],
+      WINDOW_MINUTES,
+      [record('r1', at(8), { wasBinge: true })],
+      [DAY],
+      END_OF_DAY
+    );
+
+    expect(adherence.eatenWithinWindow).toBe(0);
+  });
+
+  it('only matches records from the same day', () => {
+    const adherence = calculateEatingAdherence(
+      [BREAKFAST],
+      WINDOW_MINUTES,
+      [record('r1', at(8), { day: '2025-03-09' })],
+      [DAY],
+      END_OF_DAY
+    );
+
+    expect(adherence.eatenWithinWindow).toBe(0);
+  });
+
+  it("leaves out occasions whose window hasn't closed", () => {
+    const adherence = calculateEatingAdherence(
+      [BREAKFAST, LUNCH],
+      WINDOW_MINUTES,
+      [record('r1', at(8))],
+      [DAY],
+      at(12, 45)
+    );
+
+    expect(adherence).toEqual({ planned: 1, eatenWithinWindow: 1, adherenceRate: 100 });
+  });
+
+  it('is 0 with nothing planned', () => {
+    expect(calculateEatingAdherence([], WINDOW_MINUTES, [], [DAY], END_OF_DAY)).toEqual({
+      planned: 0,
+      eatenWithinWindow: 0,
+      adherenceRate: 0,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { EatingAdherence, FoodRecord, PlannedEatingOccasion } from '../types';
+import { parseTime } from './date';
+
+/**
+ * Regular eating adherence: how many planned meals and snacks were eaten
+ * within the adherence window of their planned time. Each food record can
+ * satisfy at most one planned occasion, and records marked as a binge
+ * don't count as planned eating. Occasions whose window hasn't closed
+ * by `now` are left out rather than counted as missed.
+ */
+export const calculateEatingAdherence = (
+  occasions: PlannedEatingOccasion[],
+  adherenceWindowMinutes: number,
+  records: FoodRecord[],
+  days: string[],
+  now: Date = new Date()
+): EatingAdherence => {
+  const windowMs = adherenceWindowMinutes * 60 * 1000;
+  let planned = 0;
+  let eatenWithinWindow = 0;
+
+  days.forEach((day) => {
+    const available = records.filter((record) => record.day === day && !record.wasBinge);
+    const used = new Set<string>();
+
+    occasions.forEach((occasion) => {
+      const plannedAt = parseTime(day, occasion.time);
+      if (!plannedAt || plannedAt.getTime() + windowMs > now.getTime()) {
+        return;
+      }
+      planned += 1;
+
+      // Match the closest unused record inside the window
+      let closestId: string | null = null;
+      let closestDistance = Infinity;
+      for (const record of available) {
+        const distance = Math.abs(record.eatenAt.getTime() - plannedAt.getTime());
+        if (!used.has(record.id) && distance <= windowMs && distance < closestDistance) {
+          closestId = record.id;
+          closestDistance = distance;
+        }
+      }
+
+      if (closestId) {
+        used.add(closestId);
+        eatenWithinWindow += 1;
+      }
+    });
+  });
+
+  return {
+    planned,
+    eatenWithinWindow,
+    adherenceRate: planned > 0 ? Math.round((eatenWithinWindow / planned) * 100) : 0,
+  };
+};
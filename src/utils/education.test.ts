@@ -0,0 +1,85 @@
+/**
+ * Education catalogue tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { EducationModule } from '../types';
+import { filterEducationModules, formatMediaDuration, parseModuleText } from './education';
+
+const makeModule = (
+  id: string,
+  order: number,
+  overrides: Partial<EducationModule> = {}
+): EducationModule => ({
+  id,
+  title: `Module ${id}`,
+  description: '',
+  content: { text: '' },
+  category: 'understanding_bed',
+  difficulty: 'beginner',
+  readingTime: 5,
+  tags: [],
+  isActive: true,
+  order,
+  createdAt: new Date() as unknown as EducationModule['createdAt'],
+  updatedAt: new Date() as unknown as EducationModule['updatedAt'],
+  ...overrides,
+});
+
+describe('filterEducationModules', () => {
+  const modules = [
+    makeModule('c', 3, { category: 'mindfulness' }),
+    makeModule('a', 1),
+    makeModule('d', 2, { category: 'mindfulness', difficulty: 'advanced' }),
+    makeModule('b', 1, { difficulty: 'intermediate' }),
+  ];
+
+  test('sorts by order, then title', () => {
+    expect(filterEducationModules(modules).map((module) => module.id)).toEqual([
+      'a',
+      'b',
+      'd',
+      'c',
+    ]);
+  });
+
+  test('applies the category and difficulty together', () => {
+    const ids = (filters: Parameters<typeof filterEducationModules>[1]) =>
+      filterEducationModules(modules, filters).map((module) => module.id);
+
+    expect(ids({ category: 'mindfulness' })).toEqual(['d', 'c']);
+    expect(ids({ difficulty: 'beginner' })).toEqual(['a', 'c']);
+    expect(ids({ category: 'mindfulness', difficulty: 'beginner' })).toEqual(['c']);
+  });
+});
+
+describe('parseModuleText', () => {
+  test('splits headings, paragraphs and bullet points', () => {
+    const text = [
+      '# What is binge eating?',
+      'Binge eating is common.',
+      'It can be treated.',
+      '',
+      '- Eat regularly',
+      '* Plan ahead',
+      '',
+      'Talk to your clinician.',
+    ].join('\n');
+
+    expect(parseModuleText(text)).toEqual([
+      { type: 'heading', text: 'What is binge eating?' },
+      { type: 'paragraph', text: 'Binge eating is common. It can be treated.' },
+      { type: 'bullet', text: 'Eat regularly' },
+      { type: 'bullet', text: 'Plan ahead' },
+      { type: 'paragraph', text: 'Talk to your clinician.' },
+    ]);
+  });
+});
+
+describe('formatMediaDuration', () => {
+  test('formats minutes and seconds, with hours when needed', () => {
+    expect(formatMediaDuration(65)).toBe('1:05');
+    expect(formatMediaDuration(3725)).toBe('1:02:05');
+  });
+});
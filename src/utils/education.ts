@@ -0,0 +1,68 @@
+import { EducationModule, EducationModuleFilters, ModuleTextBlock } from '../types';
+
+/**
+ * Education catalogue helpers: filtering and ordering modules, and splitting
+ * a module's text into headings, paragraphs and bullet points.
+ *
+ * Module text is plain text with light markup: blocks are separated by a
+ * blank line, a line starting with "#" is a heading and a line starting with
+ * "-" or "*" is a bullet point.
+ */
+
+// Modules matching the filters, in catalogue order
+export const filterEducationModules = (
+  modules: EducationModule[],
+  filters: EducationModuleFilters = {}
+): EducationModule[] =>
+  modules
+    .filter(
+      (module) =>
+        (!filters.category || module.category === filters.category) &&
+        (!filters.difficulty || module.difficulty === filters.difficulty)
+    )
+    .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title));
+
+export const parseModuleText = (text: string): ModuleTextBlock[] => {
+  const blocks: ModuleTextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const heading = line.match(/^#+\s*(.*)$/);
+    const bullet = line.match(/^[-*]\s+(.*)$/);
+
+    if (!line) {
+      endParagraph();
+    } else if (heading) {
+      endParagraph();
+      blocks.push({ type: 'heading', text: heading[1] });
+    } else if (bullet) {
+      endParagraph();
+      blocks.push({ type: 'bullet', text: bullet[1] });
+    } else {
+      paragraph.push(line);
+    }
+  });
+  endParagraph();
+
+  return blocks;
+};
+
+// A media length in seconds as "m:ss", or "h:mm:ss" from an hour
+export const formatMediaDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
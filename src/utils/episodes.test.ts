@@ -0,0 +1,38 @@
+/**
+ * Episode collection tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { BingeEpisode } from '../types';
+import { collectEpisodes, getCheckInOnlyEpisodes } from './episodes';
+import { makeCheckIn, makeEpisodeLog } from './testFixtures';
+
+const log = makeEpisodeLog('log-1', '2025-03-10T20:00:00Z');
+
+const { id: _id, patientId: _patientId, loggedAt: _loggedAt, ...logEpisode } = log;
+const carriedOver: BingeEpisode = { ...logEpisode, episodeLogId: log.id };
+const recordedInCheckIn: BingeEpisode = {
+  ...logEpisode,
+  date: new Date('2025-03-11T21:00:00Z'),
+};
+
+const checkIn = makeCheckIn('check-in-1', '2025-03-11T23:00:00Z', {
+  bingeEpisodes: { hadBingeEpisode: true, episodes: [carriedOver, recordedInCheckIn] },
+});
+
+describe('getCheckInOnlyEpisodes', () => {
+  it('leaves out episodes carried over from a log', () => {
+    expect(getCheckInOnlyEpisodes(checkIn)).toEqual([recordedInCheckIn]);
+  });
+});
+
+describe('collectEpisodes', () => {
+  it('counts a carried-over episode once, from the log', () => {
+    expect(collectEpisodes([checkIn], [log])).toEqual([log, recordedInCheckIn]);
+  });
+
+  it('returns nothing without entries', () => {
+    expect(collectEpisodes([], [])).toEqual([]);
+  });
+});
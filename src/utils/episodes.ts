@@ -0,0 +1,21 @@
+import { BingeEpisode, CheckInSurvey, EpisodeLog } from '../types';
+
+/**
+ * Binge episodes reach us two ways: logged in the moment as an `EpisodeLog`,
+ * or recorded in a check-in. A check-in can carry over an episode that was
+ * already logged (it keeps the log's id in `episodeLogId`), so such episodes
+ * are counted once, from the log.
+ */
+
+// Episodes recorded only in this check-in, not carried over from a log
+export const getCheckInOnlyEpisodes = (checkIn: CheckInSurvey): BingeEpisode[] =>
+  checkIn.bingeEpisodes.episodes.filter((episode) => !episode.episodeLogId);
+
+// Every episode across check-ins and episode logs, each counted once
+export const collectEpisodes = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[]
+): (BingeEpisode | EpisodeLog)[] => [
+  ...episodeLogs,
+  ...checkIns.flatMap(getCheckInOnlyEpisodes),
+];
@@ -0,0 +1,87 @@
+import { Timestamp as FirestoreTimestamp } from 'firebase/firestore';
+import { Timestamp } from '../types';
+
+// Firestore helpers shared by the data services
+
+// Firestore rejects undefined values, so drop them before writing
+export const removeUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map((item) => removeUndefined(item)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, removeUndefined(entry)])
+    ) as T;
+  }
+
+  return value;
+};
+
+// Convert a Firestore Timestamp, Date, ISO string or millis value to a Date
+export const toDate = (value: Timestamp | Date | string | number | undefined | null): Date => {
+  if (!value) {
+    return new Date(NaN);
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value);
+  }
+  return value.toDate();
+};
+
+// Tagged representation of a date value in JSON storage
+interface StoredTimestamp {
+  __timestamp: number; // millis
+}
+
+const isStoredTimestamp = (value: unknown): value is StoredTimestamp =>
+  !!value && typeof value === 'object' && typeof (value as StoredTimestamp).__timestamp === 'number';
+
+const isTimestampLike = (value: unknown): value is Timestamp =>
+  !!value && typeof value === 'object' && typeof (value as Timestamp).toMillis === 'function';
+
+// Encode Dates and Timestamps so a Firestore payload survives JSON storage
+export const serializeForStorage = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return { __timestamp: value.getTime() } as unknown as T;
+  }
+  if (isTimestampLike(value)) {
+    return { __timestamp: value.toMillis() } as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeForStorage(item)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        serializeForStorage(entry),
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+// Reverse serializeForStorage, producing Firestore Timestamps
+export const deserializeFromStorage = <T>(value: T): T => {
+  if (isStoredTimestamp(value)) {
+    return FirestoreTimestamp.fromMillis(value.__timestamp) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => deserializeFromStorage(item)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        deserializeFromStorage(entry),
+      ])
+    ) as T;
+  }
+  return value;
+};
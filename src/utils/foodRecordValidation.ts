@@ -0,0 +1,63 @@
+import * as yup from 'yup';
+import { CompensatoryBehavior, EatingScheduleFormData, MealType } from '../types';
+import { compensatoryBehaviorList } from './checkInValidation';
+
+// Food record entry form values (time entered as HH:MM text)
+export interface FoodRecordFormValues {
+  time: string;
+  foodAndDrink: string;
+  place: string;
+  mealType: MealType;
+  wasBinge: boolean;
+  compensatoryBehaviors: CompensatoryBehavior[];
+  thoughtsAndContext?: string;
+}
+
+export const foodRecordSchema: yup.ObjectSchema<FoodRecordFormValues> = yup.object({
+  time: yup
+    .string()
+    .matches(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Please enter a time like 13:30')
+    .required('Time is required'),
+  foodAndDrink: yup
+    .string()
+    .trim()
+    .max(500, 'Please keep this under 500 characters')
+    .required('Please describe what you ate or drank'),
+  place: yup.string().trim().max(100, 'Please keep this under 100 characters').defined(),
+  mealType: yup
+    .mixed<MealType>()
+    .oneOf(
+      ['breakfast', 'morning_snack', 'lunch', 'afternoon_snack', 'dinner', 'evening_snack', 'other'] as const
+    )
+    .required('Please choose a meal type'),
+  wasBinge: yup.boolean().required(),
+  compensatoryBehaviors: compensatoryBehaviorList().required(),
+  thoughtsAndContext: yup.string().max(1000, 'Please keep this under 1000 characters').optional(),
+});
+
+export const eatingScheduleSchema: yup.ObjectSchema<EatingScheduleFormData> = yup.object({
+  occasions: yup
+    .array(
+      yup.object({
+        id: yup.string().required(),
+        mealType: yup
+          .mixed<MealType>()
+          .oneOf(
+            ['breakfast', 'morning_snack', 'lunch', 'afternoon_snack', 'dinner', 'evening_snack', 'other'] as const
+          )
+          .required('Please choose a meal type'),
+        time: yup
+          .string()
+          .matches(/^([01]\d|2[0-3]):[0-5]\d$/, 'Please enter a time like 08:30')
+          .required('Time is required'),
+        remindersEnabled: yup.boolean().required(),
+      })
+    )
+    .min(1, 'Please plan at least one meal')
+    .required(),
+  adherenceWindowMinutes: yup
+    .number()
+    .min(5, 'Window must be at least 5 minutes')
+    .max(120, 'Window must be 2 hours or less')
+    .required(),
+});
@@ -0,0 +1,40 @@
+import * as yup from 'yup';
+import { GoalFormData, GoalMetric } from '../types';
+import { GOAL_MAX_MILESTONES, GOAL_METRIC_OPTIONS } from '../constants/goals';
+import { toDayKey } from './date';
+
+export const goalSchema: yup.ObjectSchema<GoalFormData> = yup.object({
+  description: yup
+    .string()
+    .trim()
+    .max(200, 'Please keep your goal under 200 characters')
+    .required('Please describe your goal'),
+  reason: yup.string().trim().max(300, 'Please keep this under 300 characters').optional(),
+  targetDay: yup
+    .string()
+    .required('Please choose when this goal is due')
+    .test('future', 'Please choose a day after today', (day) => day > toDayKey(new Date())),
+  milestones: yup
+    .array(
+      yup.object({
+        description: yup
+          .string()
+          .trim()
+          .max(150, 'Please keep each step under 150 characters')
+          .defined(),
+      })
+    )
+    .max(GOAL_MAX_MILESTONES, `Please add no more than ${GOAL_MAX_MILESTONES} steps`)
+    .required(),
+  linkMetric: yup.boolean().required(),
+  metric: yup
+    .mixed<GoalMetric>()
+    .oneOf(GOAL_METRIC_OPTIONS.map((option) => option.value))
+    .required(),
+  comparison: yup.mixed<'atMost' | 'atLeast'>().oneOf(['atMost', 'atLeast']).required(),
+  target: yup
+    .number()
+    .typeError('Please enter a number')
+    .min(0, 'Target cannot be negative')
+    .required('Please enter a target'),
+});
@@ -0,0 +1,137 @@
+/**
+ * SMART goal progress tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { Goal, GoalFormData, PatientProgress, Timestamp } from '../types';
+import {
+  buildGoal,
+  getMetricProgress,
+  toggleGoalMilestone,
+  updateGoalMetrics,
+} from './goals';
+
+const NOW = { seconds: 0, nanoseconds: 0 } as unknown as Timestamp;
+
+const metricsWith = (
+  overrides: Partial<PatientProgress['progressMetrics']>
+): Pick<PatientProgress, 'progressMetrics'> => ({
+  progressMetrics: {
+    totalModulesCompleted: 0,
+    totalCheckIns: 0,
+    averageMoodScore: 0,
+    bingeEpisodesThisWeek: 0,
+    bingeEpisodesLastWeek: 0,
+    copingStrategiesUsed: 0,
+    daysSinceLastBinge: 0,
+    wellbeingScore: 0,
+    ...overrides,
+  },
+});
+
+const formData = (overrides: Partial<GoalFormData> = {}): GoalFormData => ({
+  description: 'Fewer binges',
+  targetDay: '2025-04-30',
+  milestones: [],
+  linkMetric: false,
+  metric: 'weeklyBingeEpisodes',
+  comparison: 'atMost',
+  target: 1,
+  ...overrides,
+});
+
+const makeGoal = (overrides: Partial<GoalFormData>, progress = metricsWith({})): Goal =>
+  buildGoal(formData(overrides), progress, {
+    id: 'goal-1',
+    status: 'active',
+    createdBy: 'patient',
+    createdAt: NOW,
+  });
+
+describe('getMetricProgress', () => {
+  const fewerBinges = {
+    metric: 'weeklyBingeEpisodes' as const,
+    comparison: 'atMost' as const,
+    target: 1,
+    baseline: 5,
+  };
+
+  test('measures the distance travelled from the baseline', () => {
+    expect(getMetricProgress(fewerBinges, 5)).toBe(0);
+    expect(getMetricProgress(fewerBinges, 3)).toBe(50);
+    expect(getMetricProgress(fewerBinges, 1)).toBe(100);
+    expect(getMetricProgress(fewerBinges, 0)).toBe(100);
+  });
+
+  test('never goes below zero when things get harder', () => {
+    expect(getMetricProgress(fewerBinges, 7)).toBe(0);
+  });
+
+  test('works towards an upper target too', () => {
+    const wellbeing = {
+      metric: 'wellbeingScore' as const,
+      comparison: 'atLeast' as const,
+      target: 60,
+      baseline: 40,
+    };
+    expect(getMetricProgress(wellbeing, 55)).toBe(75);
+  });
+});
+
+describe('milestones', () => {
+  test('checking off milestones recomputes progress and completes the goal', () => {
+    let goal = makeGoal({
+      milestones: [{ description: 'Plan meals' }, { description: '' }, { description: 'Shop' }],
+    });
+    expect(goal.milestones).toHaveLength(2);
+    expect(goal.progress).toBe(0);
+
+    goal = toggleGoalMilestone(goal, goal.milestones[0].id, NOW);
+    expect(goal.progress).toBe(50);
+    expect(goal.isCompleted).toBe(false);
+
+    goal = toggleGoalMilestone(goal, goal.milestones[1].id, NOW);
+    expect(goal.progress).toBe(100);
+    expect(goal.isCompleted).toBe(true);
+  });
+
+  test('unchecking a milestone clears when it was done', () => {
+    const goal = makeGoal({ milestones: [{ description: 'Plan meals' }, { description: 'Shop' }] });
+    const checked = toggleGoalMilestone(goal, goal.milestones[0].id, NOW);
+    const unchecked = toggleGoalMilestone(checked, goal.milestones[0].id, NOW);
+    expect(unchecked.milestones[0].isCompleted).toBe(false);
+    expect(unchecked.milestones[0].completedAt).toBeUndefined();
+    expect(unchecked.progress).toBe(0);
+  });
+});
+
+describe('updateGoalMetrics', () => {
+  test('updates linked goals from the latest metrics', () => {
+    const goal = makeGoal({ linkMetric: true }, metricsWith({ bingeEpisodesLastWeek: 4 }));
+    expect(goal.metricTarget?.baseline).toBe(4);
+
+    const updated = updateGoalMetrics([goal], metricsWith({ bingeEpisodesLastWeek: 2 }), NOW);
+    expect(updated?.[0].metricTarget?.current).toBe(2);
+    expect(updated?.[0].progress).toBe(67);
+  });
+
+  test('averages milestones and the metric', () => {
+    const goal = makeGoal(
+      { linkMetric: true, milestones: [{ description: 'Plan meals' }] },
+      metricsWith({ bingeEpisodesLastWeek: 3 })
+    );
+    const checked = toggleGoalMilestone(goal, goal.milestones[0].id, NOW);
+    expect(checked.progress).toBe(50);
+  });
+
+  test('returns null when nothing changed', () => {
+    const goal = makeGoal({ linkMetric: true }, metricsWith({ bingeEpisodesLastWeek: 4 }));
+    expect(updateGoalMetrics([goal], metricsWith({ bingeEpisodesLastWeek: 4 }), NOW)).toBeNull();
+  });
+
+  test('leaves suggested goals alone until they are accepted', () => {
+    const goal = { ...makeGoal({ linkMetric: true }), status: 'suggested' as const };
+    expect(updateGoalMetrics([goal], metricsWith({ bingeEpisodesLastWeek: 9 }), NOW)).toBeNull();
+  });
+});
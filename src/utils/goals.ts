@@ -0,0 +1,166 @@
+import {
+  Goal,
+  GoalFormData,
+  GoalMetric,
+  GoalMetricTarget,
+  PatientProgress,
+  Timestamp,
+} from '../types';
+import { fromDayKey } from './date';
+
+/**
+ * SMART goals. A goal's progress (0-100) is the share of its milestones
+ * checked off, the distance travelled from the baseline towards its
+ * metric target, or the average of the two when it has both.
+ *
+ * Goals complete themselves once progress reaches 100 and stay complete
+ * after that, even if a linked metric later slips.
+ */
+
+type MetricSource = Partial<Pick<PatientProgress, 'progressMetrics' | 'checkInStreak'>>;
+
+// Current value of a goal metric from the progress document
+export const getGoalMetricValue = (metric: GoalMetric, progress: MetricSource): number => {
+  const metrics = progress.progressMetrics;
+  switch (metric) {
+    // The last full week, so an unfinished week doesn't look better than it is
+    case 'weeklyBingeEpisodes':
+      return metrics?.bingeEpisodesLastWeek ?? 0;
+    case 'averageMoodScore':
+      return metrics?.averageMoodScore ?? 0;
+    case 'wellbeingScore':
+      return metrics?.wellbeingScore ?? 0;
+    case 'copingStrategiesUsed':
+      return metrics?.copingStrategiesUsed ?? 0;
+    case 'checkInStreak':
+      return progress.checkInStreak?.current ?? 0;
+    case 'regularEatingAdherence':
+      return metrics?.regularEatingAdherence ?? 0;
+  }
+};
+
+// Whether a metric value meets the target
+export const isMetricTargetMet = (target: GoalMetricTarget, value: number): boolean =>
+  target.comparison === 'atMost' ? value <= target.target : value >= target.target;
+
+// 0-100 from the baseline to the target
+export const getMetricProgress = (target: GoalMetricTarget, value: number): number => {
+  if (isMetricTargetMet(target, value)) {
+    return 100;
+  }
+
+  // Started at or past the target, but has since fallen short of it
+  const distance = target.target - target.baseline;
+  if (target.comparison === 'atMost' ? distance >= 0 : distance <= 0) {
+    return 0;
+  }
+
+  const travelled = value - target.baseline;
+  return Math.min(Math.max(Math.round((travelled / distance) * 100), 0), 100);
+};
+
+// Progress from milestones and the linked metric
+export const computeGoalProgress = (
+  goal: Pick<Goal, 'milestones' | 'metricTarget' | 'isCompleted'>
+): number => {
+  const parts: number[] = [];
+  if (goal.milestones.length > 0) {
+    const done = goal.milestones.filter((milestone) => milestone.isCompleted).length;
+    parts.push((done / goal.milestones.length) * 100);
+  }
+  if (goal.metricTarget) {
+    const { current, baseline } = goal.metricTarget;
+    parts.push(getMetricProgress(goal.metricTarget, current ?? baseline));
+  }
+  if (parts.length === 0) {
+    return goal.isCompleted ? 100 : 0;
+  }
+  return Math.round(parts.reduce((total, part) => total + part, 0) / parts.length);
+};
+
+// Recompute a goal's progress, completing it when it reaches 100
+export const withGoalProgress = (goal: Goal, now: Timestamp): Goal => {
+  const progress = goal.isCompleted ? 100 : computeGoalProgress(goal);
+  const completes = !goal.isCompleted && progress === 100;
+  return {
+    ...goal,
+    progress,
+    ...(completes && { isCompleted: true, completedAt: now }),
+  };
+};
+
+/**
+ * Refresh linked metrics on every active goal. Returns null when no goal
+ * changed, so callers can skip the write.
+ */
+export const updateGoalMetrics = (
+  goals: Goal[],
+  progress: MetricSource,
+  now: Timestamp
+): Goal[] | null => {
+  let changed = false;
+  const updated = goals.map((goal) => {
+    if (!goal.metricTarget || goal.isCompleted || goal.status !== 'active') {
+      return goal;
+    }
+
+    const current = getGoalMetricValue(goal.metricTarget.metric, progress);
+    if (current === goal.metricTarget.current) {
+      return goal;
+    }
+
+    changed = true;
+    return withGoalProgress({ ...goal, metricTarget: { ...goal.metricTarget, current } }, now);
+  });
+
+  return changed ? updated : null;
+};
+
+// Check a milestone off, or back on
+export const toggleGoalMilestone = (goal: Goal, milestoneId: string, now: Timestamp): Goal => {
+  const milestones = goal.milestones.map((milestone) =>
+    milestone.id === milestoneId
+      ? {
+          ...milestone,
+          isCompleted: !milestone.isCompleted,
+          completedAt: milestone.isCompleted ? undefined : now,
+        }
+      : milestone
+  );
+  return withGoalProgress({ ...goal, milestones }, now);
+};
+
+// A new goal from the editor form
+export const buildGoal = (
+  data: GoalFormData,
+  progress: MetricSource,
+  options: Pick<Goal, 'id' | 'status' | 'createdBy' | 'suggestedBy' | 'createdAt'>
+): Goal => {
+  const baseline = getGoalMetricValue(data.metric, progress);
+  const goal: Goal = {
+    ...options,
+    description: data.description.trim(),
+    reason: data.reason?.trim() || undefined,
+    targetDate: fromDayKey(data.targetDay),
+    isCompleted: false,
+    progress: 0,
+    milestones: data.milestones
+      .map((milestone) => milestone.description.trim())
+      .filter(Boolean)
+      .map((description, index) => ({
+        id: `${options.id}-milestone-${index + 1}`,
+        description,
+        isCompleted: false,
+      })),
+    metricTarget: data.linkMetric
+      ? {
+          metric: data.metric,
+          comparison: data.comparison,
+          target: data.target,
+          baseline,
+          current: baseline,
+        }
+      : undefined,
+  };
+  return { ...goal, progress: computeGoalProgress(goal) };
+};
@@ -1,3 +1,30 @@
 // Utility functions exports
-// Add your utility functions here as you create them
-// Example: export { formatDate } from './dateUtils';
+export * from './checkInValidation';
+export * from './firestore';
+export * from './numberInput';
+export * from './date';
+export * from './foodRecordValidation';
+export * from './eatingAdherence';
+export * from './checkInHistory';
+export * from './checkInRevisions';
+export * from './checkInTemplates';
+export * from './checkInTemplateValidation';
+export * from './progressMetrics';
+export * from './episodes';
+export * from './checkInStreak';
+export * from './progressSummaries';
+export * from './progressCharts';
+export * from './achievements';
+export * from './goals';
+export * from './goalValidation';
+export * from './insights';
+export * from './copingToolbox';
+export * from './relapseWarnings';
+export * from './relapseWarningValidation';
+export * from './education';
+export * from './learningPaths';
+export * from './quiz';
+export * from './moduleCompletion';
+export * from './reflections';
+export * from './reflectionValidation';
+export * from './offlineQueue';
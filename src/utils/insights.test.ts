@@ -0,0 +1,144 @@
+/**
+ * Pattern insight tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInSurvey } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import { describeInsight, findPatternInsights } from './insights';
+import { makeCheckIn, makeEpisodeLog, withMood } from './testFixtures';
+
+const TIME_ZONE = 'America/New_York';
+
+// Wednesday 12 March 2025, 15:00 in New York
+const NOW = new Date('2025-03-12T19:00:00Z');
+
+const withTriggers = (...emotional: string[]) => ({
+  triggers: { ...DEFAULT_CHECK_IN_VALUES.triggers, emotional },
+});
+
+const withEpisode = (hadBingeEpisode: boolean) => ({
+  bingeEpisodes: { hadBingeEpisode, episodes: [] },
+});
+
+// One evening check-in a day from 1 to `count` March
+const dailyCheckIns = (count: number, overridesFor: (day: number) => Partial<CheckInSurvey>) =>
+  Array.from({ length: count }, (_, index) => {
+    const day = String(index + 1).padStart(2, '0');
+    return makeCheckIn(`day-${day}`, `2025-03-${day}T23:00:00Z`, overridesFor(index + 1));
+  });
+
+describe('findPatternInsights', () => {
+  test('finds a trigger that comes with more binge days', () => {
+    const checkIns = dailyCheckIns(12, (day) => ({
+      // Stress on the 1st-4th, each with an episode; one other episode on the 10th
+      ...withTriggers(...(day <= 4 ? [' Stress'] : [])),
+      ...withEpisode(day <= 4 || day === 10),
+    }));
+
+    const { insights, daysAnalysed } = findPatternInsights(checkIns, [], TIME_ZONE, NOW);
+    expect(daysAnalysed).toBe(12);
+    expect(insights).toHaveLength(1);
+    expect(insights[0]).toMatchObject({
+      id: 'trigger:bingeEpisode:stress',
+      label: 'Stress',
+      matches: 4,
+      occurrences: 4,
+      comparisonRate: 1 / 8,
+    });
+  });
+
+  test('reports nothing below the minimum number of check-in days', () => {
+    const checkIns = dailyCheckIns(9, (day) => ({
+      ...withTriggers(...(day <= 4 ? ['Stress'] : [])),
+      ...withEpisode(day <= 4),
+    }));
+
+    expect(findPatternInsights(checkIns, [], TIME_ZONE, NOW).insights).toEqual([]);
+  });
+
+  test('needs a clear difference from other days', () => {
+    const checkIns = dailyCheckIns(12, (day) => ({
+      ...withTriggers(...(day % 2 === 0 ? ['Boredom'] : [])),
+      ...withEpisode(day <= 6),
+    }));
+
+    expect(findPatternInsights(checkIns, [], TIME_ZONE, NOW).insights).toEqual([]);
+  });
+
+  test('finds low mood on a trigger day, ignoring days mood was skipped', () => {
+    const checkIns = dailyCheckIns(12, (day) => ({
+      ...withTriggers(...(day >= 9 ? ['Conflict'] : [])),
+      ...withMood(day >= 9 ? 3 : 7),
+      ...(day === 1 ? { skippedSections: ['mood' as const] } : {}),
+    }));
+
+    const { insights } = findPatternInsights(checkIns, [], TIME_ZONE, NOW);
+    expect(insights.map((insight) => insight.id)).toEqual(['trigger:lowMood:conflict']);
+    expect(insights[0].comparisonRate).toBe(0);
+  });
+
+  test('finds the emotions, places and times of day that come up most in episodes', () => {
+    const logs = [
+      // 18:00-19:00 in New York
+      makeEpisodeLog('a', '2025-03-03T23:00:00Z', { emotions: ['Lonely', 'Bored'] }),
+      makeEpisodeLog('b', '2025-03-05T23:30:00Z', { emotions: ['lonely'] }),
+      makeEpisodeLog('c', '2025-03-07T23:00:00Z', { emotions: ['Lonely'] }),
+      makeEpisodeLog('d', '2025-03-10T22:30:00Z', { emotions: ['Sad'] }),
+      // 09:00 in New York
+      makeEpisodeLog('e', '2025-03-11T13:00:00Z', { emotions: ['Anxious'] }),
+    ];
+
+    const { insights, episodesAnalysed } = findPatternInsights([], logs, TIME_ZONE, NOW);
+    expect(episodesAnalysed).toBe(5);
+    expect(insights.map((insight) => insight.id).sort()).toEqual([
+      'emotion:bingeEpisode:lonely',
+      'location:bingeEpisode:home',
+      'timeOfDay:bingeEpisode:evening',
+    ]);
+  });
+
+  test('leaves out episodes from before the lookback window', () => {
+    const logs = ['2024-11-01', '2024-11-02', '2024-11-03', '2024-11-04', '2024-11-05'].map(
+      (day, index) => makeEpisodeLog(`old-${index}`, `${day}T23:00:00Z`)
+    );
+
+    expect(findPatternInsights([], logs, TIME_ZONE, NOW)).toEqual({
+      insights: [],
+      daysAnalysed: 0,
+      episodesAnalysed: 0,
+    });
+  });
+});
+
+describe('describeInsight', () => {
+  test('words a pattern for the patient and for the clinician', () => {
+    const insight = {
+      id: 'trigger:bingeEpisode:stress',
+      factor: 'trigger' as const,
+      outcome: 'bingeEpisode' as const,
+      value: 'stress',
+      label: 'Stress',
+      matches: 4,
+      occurrences: 5,
+      comparisonRate: 0.1,
+      strength: 0.7,
+    };
+
+    expect(describeInsight(insight, 'patient')).toBe(
+      'Binge episodes came up more often on days you noted "Stress": 4 of 5 days, ' +
+        'compared with 10% of other days.'
+    );
+    expect(describeInsight({ ...insight, outcome: 'lowMood' }, 'clinician')).toBe(
+      'Mood was low more often on days they noted "Stress": 4 of 5 days, ' +
+        'compared with 10% of other days.'
+    );
+    expect(
+      describeInsight(
+        { ...insight, factor: 'timeOfDay', value: 'evening', label: 'in the evening' },
+        'clinician'
+      )
+    ).toBe("4 of the patient's 5 episodes happened in the evening.");
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  BingeEpisode,
+  CheckInSurvey,
+  EpisodeLog,
+  InsightFactor,
+  InsightOutcome,
+  PatternInsight,
+  PatternInsights,
+} from '../types';
+import {
+  INSIGHT_LOOKBACK_DAYS,
+  INSIGHT_MAX_FINDINGS,
+  INSIGHT_MIN_CHECK_IN_DAYS,
+  INSIGHT_MIN_EPISODES,
+  INSIGHT_MIN_EPISODE_SHARE,
+  INSIGHT_MIN_LIFT,
+  INSIGHT_MIN_MATCHES,
+  INSIGHT_MIN_RATE_DIFFERENCE,
+  LOW_MOOD_THRESHOLD,
+  TIME_OF_DAY_OPTIONS,
+} from '../constants/insights';
+import { toDate } from './firestore';
+import { addDays, fromDayKey, toZonedDayKey, toZonedHour } from './date';
+import { isSectionAnswered } from './progressMetrics';
+import { collectEpisodes } from './episodes';
+
+/**
+ * Pattern insights. Pure functions that look for what tends to come with
+ * binge episodes or low mood in the last INSIGHT_LOOKBACK_DAYS days:
+ *
+ * - Day patterns compare days with a check-in. A trigger or weekday is
+ *   reported when the outcome was seen on those days clearly more often
+ *   than on the other days (by INSIGHT_MIN_LIFT and
+ *   INSIGHT_MIN_RATE_DIFFERENCE).
+ * - Episode patterns look at the emotions, location and time of day
+ *   recorded with each episode. These only exist for episodes, so a value
+ *   is reported when it came up in at least INSIGHT_MIN_EPISODE_SHARE of
+ *   episodes (and, for a time of day, clearly more than its share of the
+ *   day). They rank by how far they stand out from an even spread.
+ *
+ * Nothing is reported below the minimum sample sizes, and each pattern
+ * needs at least INSIGHT_MIN_MATCHES matches. Patterns are associations,
+ * not causes, and the wording in describeInsight says so gently.
+ */
+
+export type InsightAudience = 'patient' | 'clinician';
+
+// Values keyed by their normalized form, holding the first wording seen
+type FactorValues = Map<string, string>;
+
+interface DaySample {
+  day: string;
+  triggers: FactorValues;
+  hadEpisode: boolean;
+  lowMood?: boolean; // undefined when mood wasn't rated that day
+}
+
+const normalize = (text: string): string => text.trim().toLowerCase();
+
+const addValue = (values: FactorValues, text: string) => {
+  const key = normalize(text);
+  if (key && !values.has(key)) {
+    values.set(key, text.trim());
+  }
+};
+
+const toValues = (texts: string[]): FactorValues => {
+  const values: FactorValues = new Map();
+  texts.forEach((text) => addValue(values, text));
+  return values;
+};
+
+const weekdayLabel = (day: string): string =>
+  fromDayKey(day).toLocaleDateString(undefined, { weekday: 'long' });
+
+const timeOfDayOption = (hour: number) =>
+  TIME_OF_DAY_OPTIONS.find(
+    ({ fromHour, toHour }) =>
+      (hour >= fromHour && hour < toHour) || (hour + 24 >= fromHour && hour + 24 < toHour)
+  );
+
+const insightId = (factor: InsightFactor, outcome: InsightOutcome, value: string) =>
+  `${factor}:${outcome}:${value}`;
+
+// One sample per day with a check-in; episodes only mark days that have one
+const collectDays = (
+  checkIns: CheckInSurvey[],
+  episodeDays: string[],
+  timeZone: string,
+  fromDay: string,
+  today: string
+): DaySample[] => {
+  const days = new Map<string, DaySample>();
+
+  checkIns.forEach((checkIn) => {
+    const day = toZonedDayKey(toDate(checkIn.completedAt), checkIn.timeZone || timeZone);
+    if (day < fromDay || day > today) {
+      return;
+    }
+
+    const sample: DaySample = days.get(day) || { day, triggers: new Map(), hadEpisode: false };
+    if (isSectionAnswered(checkIn, 'triggers')) {
+      Object.values(checkIn.triggers)
+        .flat()
+        .forEach((trigger) => addValue(sample.triggers, trigger));
+    }
+    if (isSectionAnswered(checkIn, 'episodes') && checkIn.bingeEpisodes.hadBingeEpisode) {
+      sample.hadEpisode = true;
+    }
+    if (isSectionAnswered(checkIn, 'mood')) {
+      sample.lowMood = !!sample.lowMood || checkIn.mood.overall <= LOW_MOOD_THRESHOLD;
+    }
+    days.set(day, sample);
+  });
+
+  episodeDays.forEach((day) => {
+    const sample = days.get(day);
+    if (sample) {
+      sample.hadEpisode = true;
+    }
+  });
+
+  return Array.from(days.values());
+};
+
+// Factor values seen on days with the outcome clearly more often than on other days
+const findDayPatterns = (
+  days: DaySample[],
+  factor: InsightFactor,
+  outcome: InsightOutcome,
+  valuesOf: (sample: DaySample) => FactorValues
+): PatternInsight[] => {
+  const eligible =
+    outcome === 'lowMood' ? days.filter((sample) => sample.lowMood !== undefined) : days;
+  if (eligible.length < INSIGHT_MIN_CHECK_IN_DAYS) {
+    return [];
+  }
+
+  const hasOutcome = (sample: DaySample) =>
+    outcome === 'bingeEpisode' ? sample.hadEpisode : !!sample.lowMood;
+  const totalMatches = eligible.filter(hasOutcome).length;
+
+  const counts = new Map<string, { label: string; days: number; matches: number }>();
+  eligible.forEach((sample) => {
+    valuesOf(sample).forEach((label, key) => {
+      const count = counts.get(key) || { label, days: 0, matches: 0 };
+      counts.set(key, {
+        ...count,
+        days: count.days + 1,
+        matches: count.matches + (hasOutcome(sample) ? 1 : 0),
+      });
+    });
+  });
+
+  return Array.from(counts.entries()).flatMap(([value, { label, days: withFactor, matches }]) => {
+    const otherDays = eligible.length - withFactor;
+    if (matches < INSIGHT_MIN_MATCHES || otherDays < INSIGHT_MIN_MATCHES) {
+      return [];
+    }
+
+    const rate = matches / withFactor;
+    const comparisonRate = (totalMatches - matches) / otherDays;
+    if (
+      rate - comparisonRate < INSIGHT_MIN_RATE_DIFFERENCE ||
+      rate < comparisonRate * INSIGHT_MIN_LIFT
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        id: insightId(factor, outcome, value),
+        factor,
+        outcome,
+        value,
+        label,
+        matches,
+        occurrences: withFactor,
+        comparisonRate,
+        strength: rate - comparisonRate,
+      },
+    ];
+  });
+};
+
+/**
+ * Values recorded with a good share of episodes. `expectedShare` gives the
+ * share a value would have by chance where that is known, e.g. for times of
+ * day of different lengths; otherwise an even spread over the values seen
+ * is used for ranking only.
+ */
+const findEpisodePatterns = (
+  episodes: BingeEpisode[],
+  factor: InsightFactor,
+  valuesOf: (episode: BingeEpisode) => FactorValues,
+  expectedShare?: (value: string) => number
+): PatternInsight[] => {
+  if (episodes.length < INSIGHT_MIN_EPISODES) {
+    return [];
+  }
+
+  const counts = new Map<string, { label: string; matches: number }>();
+  episodes.forEach((episode) => {
+    valuesOf(episode).forEach((label, key) => {
+      const count = counts.get(key) || { label, matches: 0 };
+      counts.set(key, { ...count, matches: count.matches + 1 });
+    });
+  });
+
+  const totalMentions = Array.from(counts.values()).reduce((sum, { matches }) => sum + matches, 0);
+  const evenShare = counts.size > 0 ? totalMentions / counts.size / episodes.length : 0;
+
+  return Array.from(counts.entries()).flatMap(([value, { label, matches }]) => {
+    const share = matches / episodes.length;
+    const expected = expectedShare ? expectedShare(value) : evenShare;
+    if (
+      matches < INSIGHT_MIN_MATCHES ||
+      share < INSIGHT_MIN_EPISODE_SHARE ||
+      (expectedShare && share < expected * INSIGHT_MIN_LIFT)
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        id: insightId(factor, 'bingeEpisode', value),
+        factor,
+        outcome: 'bingeEpisode' as const,
+        value,
+        label,
+        matches,
+        occurrences: episodes.length,
+        strength: Math.max(share - expected, 0),
+      },
+    ];
+  });
+};
+
+// The strongest patterns in the lookback window, strongest first
+export const findPatternInsights = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  timeZone: string,
+  now: Date = new Date()
+): PatternInsights => {
+  const today = toZonedDayKey(now, timeZone);
+  const fromDay = addDays(today, -(INSIGHT_LOOKBACK_DAYS - 1));
+
+  const episodes = collectEpisodes(checkIns, episodeLogs).filter((episode) => {
+    const day = toZonedDayKey(toDate(episode.date), timeZone);
+    return day >= fromDay && day <= today;
+  });
+
+  const days = collectDays(
+    checkIns,
+    episodes.map((episode) => toZonedDayKey(toDate(episode.date), timeZone)),
+    timeZone,
+    fromDay,
+    today
+  );
+
+  const weekdayOf = (sample: DaySample): FactorValues =>
+    new Map([[String(fromDayKey(sample.day).getDay()), weekdayLabel(sample.day)]]);
+  const timeOfDayOf = (episode: BingeEpisode): FactorValues => {
+    const option = timeOfDayOption(toZonedHour(toDate(episode.date), timeZone));
+    return new Map(option ? [[option.value, option.label]] : []);
+  };
+  const timeOfDayShare = (value: string) => {
+    const option = TIME_OF_DAY_OPTIONS.find((item) => item.value === value);
+    return option ? (option.toHour - option.fromHour) / 24 : 0;
+  };
+
+  const insights = [
+    ...findDayPatterns(days, 'trigger', 'bingeEpisode', (sample) => sample.triggers),
+    ...findDayPatterns(days, 'trigger', 'lowMood', (sample) => sample.triggers),
+    ...findDayPatterns(days, 'dayOfWeek', 'bingeEpisode', weekdayOf),
+    ...findDayPatterns(days, 'dayOfWeek', 'lowMood', weekdayOf),
+    ...findEpisodePatterns(episodes, 'emotion', (episode) => toValues(episode.emotions)),
+    ...findEpisodePatterns(episodes, 'location', (episode) => toValues([episode.location])),
+    ...findEpisodePatterns(episodes, 'timeOfDay', timeOfDayOf, timeOfDayShare),
+  ];
+
+  return {
+    insights: insights.sort((a, b) => b.strength - a.strength).slice(0, INSIGHT_MAX_FINDINGS),
+    daysAnalysed: days.length,
+    episodesAnalysed: episodes.length,
+  };
+};
+
+const percent = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+// A pattern in plain language, addressed to the patient or written about them for the clinician
+export const describeInsight = (insight: PatternInsight, audience: InsightAudience): string => {
+  const isPatient = audience === 'patient';
+  const your = isPatient ? 'your' : "the patient's";
+  const { matches, occurrences, label } = insight;
+
+  if (insight.factor === 'trigger' || insight.factor === 'dayOfWeek') {
+    const days =
+      insight.factor === 'trigger'
+        ? `days ${isPatient ? 'you' : 'they'} noted "${label}"`
+        : `${label}s`;
+    const counted = insight.factor === 'trigger' ? 'days' : `${label}s`;
+    const comparison = `${matches} of ${occurrences} ${counted}, compared with ${percent(
+      insight.comparisonRate ?? 0
+    )} of other days`;
+
+    return insight.outcome === 'bingeEpisode'
+      ? `Binge episodes came up more often on ${days}: ${comparison}.`
+      : `${isPatient ? 'Your mood' : 'Mood'} was low more often on ${days}: ${comparison}.`;
+  }
+
+  const ofEpisodes = `${matches} of ${your} ${occurrences} episodes`;
+  switch (insight.factor) {
+    case 'emotion':
+      return `Feeling "${label}" came up in ${ofEpisodes}.`;
+    case 'location':
+      return `${ofEpisodes} happened at "${label}".`;
+    case 'timeOfDay':
+      return `${ofEpisodes} happened ${label}.`;
+  }
+};
@@ -0,0 +1,123 @@
+/**
+ * Learning path tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { EducationModule } from '../types';
+import {
+  buildLearningPaths,
+  findPrerequisiteCycles,
+  resolveModuleStates,
+} from './learningPaths';
+
+const makeModule = (
+  id: string,
+  order: number,
+  prerequisites: string[] = [],
+  overrides: Partial<EducationModule> = {}
+): EducationModule => ({
+  id,
+  title: `Module ${id}`,
+  description: '',
+  content: { text: '' },
+  category: 'understanding_bed',
+  difficulty: 'beginner',
+  readingTime: 5,
+  prerequisites,
+  tags: [],
+  isActive: true,
+  order,
+  createdAt: new Date() as unknown as EducationModule['createdAt'],
+  updatedAt: new Date() as unknown as EducationModule['updatedAt'],
+  ...overrides,
+});
+
+const statuses = (modules: EducationModule[], completed: string[]) =>
+  Object.fromEntries(
+    Object.entries(resolveModuleStates(modules, completed)).map(([id, state]) => [
+      id,
+      state.status,
+    ])
+  );
+
+describe('resolveModuleStates', () => {
+  const modules = [
+    makeModule('intro', 1),
+    makeModule('triggers', 2, ['intro']),
+    makeModule('urges', 3, ['intro', 'triggers']),
+  ];
+
+  test('unlocks a module once all its prerequisites are completed', () => {
+    expect(statuses(modules, [])).toEqual({
+      intro: 'unlocked',
+      triggers: 'locked',
+      urges: 'locked',
+    });
+    expect(statuses(modules, ['intro'])).toEqual({
+      intro: 'completed',
+      triggers: 'unlocked',
+      urges: 'locked',
+    });
+
+    const urges = resolveModuleStates(modules, ['intro']).urges;
+    expect(urges.missingPrerequisites.map((module) => module.id)).toEqual(['triggers']);
+  });
+
+  test('keeps a completed module completed and ignores prerequisites not in the catalogue', () => {
+    const withRetired = [makeModule('a', 1, ['retired']), makeModule('b', 2, ['a'])];
+    expect(statuses(withRetired, ['b'])).toEqual({ a: 'unlocked', b: 'completed' });
+  });
+
+  test('ignores prerequisites within a cycle but keeps those leading into it', () => {
+    const cyclic = [
+      makeModule('start', 1),
+      makeModule('x', 2, ['start', 'y']),
+      makeModule('y', 3, ['x']),
+    ];
+    expect(statuses(cyclic, [])).toEqual({ start: 'unlocked', x: 'locked', y: 'unlocked' });
+  });
+});
+
+describe('findPrerequisiteCycles', () => {
+  test('reports each cycle once', () => {
+    const modules = [
+      makeModule('a', 1, ['c']),
+      makeModule('b', 2, ['a']),
+      makeModule('c', 3, ['b']),
+      makeModule('d', 4, ['d']),
+      makeModule('e', 5, ['a']),
+    ];
+    expect(findPrerequisiteCycles(modules)).toEqual([['a', 'c', 'b'], ['d']]);
+  });
+
+  test('finds nothing in a catalogue without cycles', () => {
+    const modules = [makeModule('a', 1), makeModule('b', 2, ['a']), makeModule('c', 3, ['a', 'b'])];
+    expect(findPrerequisiteCycles(modules)).toEqual([]);
+  });
+});
+
+describe('buildLearningPaths', () => {
+  test('orders each category so prerequisites come first', () => {
+    const modules = [
+      makeModule('advanced', 1, ['basics']),
+      makeModule('basics', 2),
+      makeModule('breathing', 1, ['basics'], { category: 'mindfulness' }),
+      makeModule('scan', 2, [], { category: 'mindfulness' }),
+    ];
+
+    const paths = buildLearningPaths(modules, ['basics']);
+    expect(
+      paths.map((path) => [path.category, path.steps.map((step) => step.module.id)])
+    ).toEqual([
+      ['understanding_bed', ['basics', 'advanced']],
+      ['mindfulness', ['breathing', 'scan']],
+    ]);
+    expect(paths[0].steps[0]).toMatchObject({ status: 'completed' });
+    expect(paths[0].steps[0].unlocks.map((module) => module.id)).toEqual([
+      'advanced',
+      'breathing',
+    ]);
+    expect(paths[1].steps[0]).toMatchObject({ status: 'unlocked' });
+  });
+});
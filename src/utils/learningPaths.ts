@@ -0,0 +1,132 @@
+import { EducationModule, LearningPath, LearningPathStep, ModuleState } from '../types';
+import { EDUCATION_CATEGORIES } from '../constants/education';
+import { filterEducationModules } from './education';
+
+/**
+ * Prerequisite gating for education modules. A module is unlocked once
+ * every module in its `prerequisites` is in the patient's completed
+ * modules; completed modules stay completed even if a prerequisite was
+ * added later.
+ *
+ * Only prerequisites in the catalogue count, so a retired module never
+ * locks the modules that came after it. Prerequisites that form a cycle
+ * can never all be completed, so they're reported by
+ * findPrerequisiteCycles() when the catalogue loads and the prerequisites
+ * between modules in the same cycle are ignored.
+ */
+
+type ModuleIndex = Map<string, EducationModule>;
+
+const indexModules = (modules: EducationModule[]): ModuleIndex =>
+  new Map(modules.map((module) => [module.id, module]));
+
+// Chains of module ids where each module needs the next and the last needs the first
+export const findPrerequisiteCycles = (modules: EducationModule[]): string[][] => {
+  const byId = indexModules(modules);
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    const pathIndex = path.indexOf(id);
+    if (pathIndex >= 0) {
+      const cycle = path.slice(pathIndex);
+      const key = [...cycle].sort().join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        cycles.push(cycle);
+      }
+      return;
+    }
+    if (visited.has(id)) {
+      return;
+    }
+
+    path.push(id);
+    (byId.get(id)?.prerequisites || [])
+      .filter((prerequisite) => byId.has(prerequisite))
+      .forEach(visit);
+    path.pop();
+    visited.add(id);
+  };
+
+  filterEducationModules(modules).forEach((module) => visit(module.id));
+  return cycles;
+};
+
+// Each module's prerequisites that count: in the catalogue and not in a cycle with it
+const getPrerequisites = (modules: EducationModule[]): Map<string, EducationModule[]> => {
+  const byId = indexModules(modules);
+  const cycles = findPrerequisiteCycles(modules);
+  const inCycleTogether = (a: string, b: string) =>
+    cycles.some((cycle) => cycle.includes(a) && cycle.includes(b));
+
+  return new Map(
+    modules.map((module) => [
+      module.id,
+      filterEducationModules(
+        (module.prerequisites || [])
+          .filter((id) => id !== module.id && !inCycleTogether(id, module.id))
+          .map((id) => byId.get(id))
+          .filter((prerequisite): prerequisite is EducationModule => !!prerequisite)
+      ),
+    ])
+  );
+};
+
+// Whether each module is locked, unlocked or completed, by module id
+export const resolveModuleStates = (
+  modules: EducationModule[],
+  completedModuleIds: string[]
+): Record<string, ModuleState> => {
+  const completed = new Set(completedModuleIds);
+  const prerequisites = getPrerequisites(modules);
+
+  return Object.fromEntries(
+    modules.map((module) => {
+      const missingPrerequisites = (prerequisites.get(module.id) || []).filter(
+        (prerequisite) => !completed.has(prerequisite.id)
+      );
+      const status = completed.has(module.id)
+        ? 'completed'
+        : missingPrerequisites.length > 0
+          ? 'locked'
+          : 'unlocked';
+
+      return [module.id, { status, missingPrerequisites }];
+    })
+  );
+};
+
+// Each category's modules in the order they can be taken, lowest `order` first among equals
+export const buildLearningPaths = (
+  modules: EducationModule[],
+  completedModuleIds: string[]
+): LearningPath[] => {
+  const states = resolveModuleStates(modules, completedModuleIds);
+  const prerequisites = getPrerequisites(modules);
+  const unlocks = (id: string) =>
+    filterEducationModules(
+      modules.filter((module) => prerequisites.get(module.id)?.some((item) => item.id === id))
+    );
+
+  return EDUCATION_CATEGORIES.map((category) => {
+    const remaining = filterEducationModules(modules, { category });
+    const steps: LearningPathStep[] = [];
+
+    // Take the first module whose prerequisites in this category are already on the path
+    while (remaining.length > 0) {
+      const placed = new Set(steps.map((step) => step.module.id));
+      const nextIndex = remaining.findIndex((module) =>
+        (prerequisites.get(module.id) || []).every(
+          (prerequisite) => prerequisite.category !== category || placed.has(prerequisite.id)
+        )
+      );
+      const [module] = remaining.splice(Math.max(nextIndex, 0), 1);
+      steps.push({ ...states[module.id], module, unlocks: unlocks(module.id) });
+    }
+
+    return { category, steps };
+  }).filter((path) => path.steps.length > 0);
+};
@@ -0,0 +1,129 @@
+/**
+ * Module completion tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { EducationModule, ModuleActivity, Timestamp } from '../types';
+import {
+  addModuleActivity,
+  CompletedModule,
+  getModuleCompletionStatus,
+  recordModuleCompletion,
+} from './moduleCompletion';
+
+const at = (iso: string) => new Date(iso) as unknown as Timestamp;
+
+const breathingModule = {
+  id: 'module-1',
+  content: {
+    text: '',
+    interactiveElements: [
+      { id: 'breathing', type: 'exercise', content: { title: 'Breathing' } },
+      { type: 'reflection', content: { prompts: [{ id: 'p1', question: 'Why?' }] } },
+      {
+        type: 'quiz',
+        content: {
+          questions: [{ id: 'q1', type: 'true_false', prompt: 'True?', correctAnswer: true }],
+        },
+      },
+    ],
+  },
+  completionCriteria: {
+    minTimeSpent: 5,
+    requiredInteractions: ['breathing', 'reflection', 'missing'],
+    quizPassed: true,
+  },
+} as EducationModule;
+
+const activityWith = (overrides: Partial<ModuleActivity> = {}): ModuleActivity => ({
+  activeSeconds: 0,
+  completedInteractions: [],
+  lastActiveAt: at('2025-03-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('addModuleActivity', () => {
+  test('adds reading time and interactions, keeping the best quiz result', () => {
+    const now = at('2025-03-02T12:00:00Z');
+    const activity = activityWith({
+      activeSeconds: 90,
+      completedInteractions: ['breathing'],
+      quizScore: 100,
+      quizPassed: true,
+    });
+
+    expect(
+      addModuleActivity(
+        activity,
+        { activeSeconds: 30, interaction: 'breathing', quizScore: 0, quizPassed: false },
+        now
+      )
+    ).toEqual({ ...activity, activeSeconds: 120, lastActiveAt: now });
+    expect(addModuleActivity(undefined, { interaction: 'reflection' }, now)).toEqual({
+      activeSeconds: 0,
+      completedInteractions: ['reflection'],
+      lastActiveAt: now,
+    });
+  });
+});
+
+describe('getModuleCompletionStatus', () => {
+  test('lists what is left until every criterion is met', () => {
+    const started = getModuleCompletionStatus(
+      breathingModule,
+      activityWith({ activeSeconds: 299, completedInteractions: ['reflection'] })
+    );
+    expect(started).toMatchObject({
+      isComplete: false,
+      minutesSpent: 4,
+      minutesRequired: 5,
+      missingInteractions: [breathingModule.content.interactiveElements![0]],
+      quizRequired: true,
+      quizPassed: false,
+    });
+
+    const finished = getModuleCompletionStatus(
+      breathingModule,
+      activityWith({
+        activeSeconds: 300,
+        completedInteractions: ['reflection', 'breathing'],
+        quizPassed: true,
+      })
+    );
+    expect(finished.isComplete).toBe(true);
+  });
+
+  test('completes a module without criteria once it has been opened', () => {
+    const plain = { ...breathingModule, completionCriteria: undefined };
+
+    expect(getModuleCompletionStatus(plain, undefined).isComplete).toBe(false);
+    expect(getModuleCompletionStatus(plain, activityWith()).isComplete).toBe(true);
+  });
+});
+
+describe('recordModuleCompletion', () => {
+  const first: CompletedModule = {
+    moduleId: 'module-1',
+    completedAt: at('2025-03-01T12:00:00Z'),
+    timeSpent: 10,
+    score: 80,
+  };
+
+  test('adds a module the first time it is completed', () => {
+    expect(
+      recordModuleCompletion([], 'module-1', { timeSpent: 5 }, at('2025-03-01T12:00:00Z'))
+    ).toEqual([{ moduleId: 'module-1', completedAt: at('2025-03-01T12:00:00Z'), timeSpent: 5 }]);
+  });
+
+  test('keeps the first completion date, the best score and the total time', () => {
+    const later = at('2025-03-08T12:00:00Z');
+
+    expect(
+      recordModuleCompletion([first], 'module-1', { score: 60, timeSpent: 4 }, later)
+    ).toEqual([first]);
+    expect(
+      recordModuleCompletion([first], 'module-1', { score: 90, timeSpent: 12 }, later)
+    ).toEqual([{ ...first, score: 90, timeSpent: 12 }]);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  EducationModule,
+  ModuleActivity,
+  ModuleCompletionStatus,
+  ModuleInteractiveElement,
+  PatientProgress,
+  Timestamp,
+} from '../types';
+import { getModuleQuiz } from './quiz';
+
+/**
+ * Module completion. What a patient does in a module is gathered in a
+ * ModuleActivity: active reading time, the interactive elements they have
+ * finished (identified by interaction key, the element's `id` or else its
+ * type) and their quiz result. A module is complete once its
+ * `completionCriteria` are all met:
+ *
+ * - minTimeSpent: minutes of active reading
+ * - requiredInteractions: interaction keys; keys with no element in the
+ *   module can't be done, so they're ignored
+ * - quizPassed: the module's quiz passed (ignored if it has no quiz)
+ *
+ * A module without criteria is complete once it has been opened.
+ *
+ * Completed modules are kept in `PatientProgress.completedModules`, one
+ * entry per module, with the first completion date, the best quiz score
+ * and the total time spent.
+ */
+
+export type CompletedModule = PatientProgress['completedModules'][number];
+
+export interface ModuleActivityUpdate {
+  activeSeconds?: number; // reading time to add
+  interaction?: string; // interaction key of an element just finished
+  quizScore?: number; // 0-100
+  quizPassed?: boolean;
+}
+
+export interface ModuleCompletionUpdate {
+  score?: number; // 0-100, from the module's quiz
+  timeSpent?: number; // total minutes so far
+}
+
+// The higher of two quiz scores, either of which may be missing
+const bestScore = (current?: number, next?: number): number | undefined =>
+  next === undefined || (current !== undefined && current >= next) ? current : next;
+
+export const getInteractionKey = (element: ModuleInteractiveElement): string =>
+  element.id || element.type;
+
+// The interaction key of the module's first element of a type, if it has one
+export const getModuleInteractionKey = (
+  module: EducationModule,
+  type: ModuleInteractiveElement['type']
+): string | undefined => {
+  const element = module.content.interactiveElements?.find((item) => item.type === type);
+  return element && getInteractionKey(element);
+};
+
+export const addModuleActivity = (
+  activity: ModuleActivity | undefined,
+  { activeSeconds = 0, interaction, quizScore, quizPassed }: ModuleActivityUpdate,
+  now: Timestamp
+): ModuleActivity => {
+  const completedInteractions = activity?.completedInteractions || [];
+  const score = bestScore(activity?.quizScore, quizScore);
+
+  return {
+    activeSeconds: (activity?.activeSeconds || 0) + Math.max(0, Math.round(activeSeconds)),
+    completedInteractions:
+      interaction && !completedInteractions.includes(interaction)
+        ? [...completedInteractions, interaction]
+        : completedInteractions,
+    ...(score !== undefined && { quizScore: score }),
+    ...((activity?.quizPassed || quizPassed) && { quizPassed: true }),
+    lastActiveAt: now,
+  };
+};
+
+// Whole minutes of reading, as recorded in completedModules
+export const toMinutesSpent = (activity?: ModuleActivity): number =>
+  Math.floor((activity?.activeSeconds || 0) / 60);
+
+export const getModuleCompletionStatus = (
+  module: EducationModule,
+  activity?: ModuleActivity
+): ModuleCompletionStatus => {
+  const criteria = module.completionCriteria || {};
+  const requiredInteractions = criteria.requiredInteractions || [];
+  const completedInteractions = activity?.completedInteractions || [];
+  const minutesSpent = toMinutesSpent(activity);
+  const minutesRequired = criteria.minTimeSpent || 0;
+  const missingInteractions = (module.content.interactiveElements || []).filter((element) => {
+    const key = getInteractionKey(element);
+    return requiredInteractions.includes(key) && !completedInteractions.includes(key);
+  });
+  const quizRequired = !!criteria.quizPassed && !!getModuleQuiz(module);
+  const quizPassed = !!activity?.quizPassed;
+
+  return {
+    isComplete:
+      !!activity &&
+      minutesSpent >= minutesRequired &&
+      missingInteractions.length === 0 &&
+      (!quizRequired || quizPassed),
+    minutesSpent,
+    minutesRequired,
+    missingInteractions,
+    quizRequired,
+    quizPassed,
+  };
+};
+
+export const recordModuleCompletion = (
+  completedModules: CompletedModule[],
+  moduleId: string,
+  { score, timeSpent = 0 }: ModuleCompletionUpdate,
+  completedAt: Timestamp
+): CompletedModule[] => {
+  const existing = completedModules.find((completed) => completed.moduleId === moduleId);
+  if (!existing) {
+    return [
+      ...completedModules,
+      { moduleId, completedAt, timeSpent, ...(score !== undefined && { score }) },
+    ];
+  }
+
+  const best = bestScore(existing.score, score);
+
+  return completedModules.map((completed) =>
+    completed === existing
+      ? {
+          ...existing,
+          timeSpent: Math.max(existing.timeSpent, timeSpent),
+          ...(best !== undefined && { score: best }),
+        }
+      : completed
+  );
+};
@@ -0,0 +1,2 @@
+// Parse a whole-number text input, treating empty input as zero
+export const parseWholeNumber = (text: string): number => Number(text.replace(/[^0-9]/g, '')) || 0;
@@ -0,0 +1,76 @@
+/**
+ * Offline write queue tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { QueuedWrite } from '../types';
+import {
+  addQueuedWrite,
+  getDueWrites,
+  getNextAttemptAt,
+  getRetryDelay,
+  markWriteFailed,
+  removeSyncedWrite,
+} from './offlineQueue';
+
+const NOW = new Date('2025-03-12T12:00:00Z').getTime();
+
+const makeWrite = (id: string, overrides: Partial<QueuedWrite> = {}): QueuedWrite => ({
+  id,
+  type: 'checkIn',
+  collection: 'checkIns',
+  userId: 'patient-1',
+  payload: {},
+  queuedAt: '2025-03-12T11:00:00.000Z',
+  attempts: 0,
+  nextAttemptAt: '2025-03-12T11:00:00.000Z',
+  ...overrides,
+});
+
+describe('getRetryDelay', () => {
+  test('doubles from 5 seconds up to 10 minutes', () => {
+    expect([0, 1, 2, 3].map(getRetryDelay)).toEqual([5000, 5000, 10000, 20000]);
+    expect(getRetryDelay(20)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe('queue bookkeeping', () => {
+  test('replaces a pending write with the same id', () => {
+    const replacement = makeWrite('a', { queuedAt: '2025-03-12T11:30:00.000Z' });
+    const queue = addQueuedWrite([makeWrite('a'), makeWrite('b')], replacement);
+
+    expect(queue.map((item) => item.id)).toEqual(['b', 'a']);
+    expect(queue[1]).toBe(replacement);
+  });
+
+  test("only replays the signed-in user's writes that are due", () => {
+    const queue = [
+      makeWrite('due'),
+      makeWrite('later', { nextAttemptAt: '2025-03-12T12:05:00.000Z' }),
+      makeWrite('other-user', { userId: 'patient-2' }),
+    ];
+
+    expect(getDueWrites(queue, 'patient-1', NOW).map((item) => item.id)).toEqual(['due']);
+    expect(getNextAttemptAt(queue, 'patient-1')).toBe(
+      new Date('2025-03-12T11:00:00.000Z').getTime()
+    );
+    expect(getNextAttemptAt(queue, 'patient-3')).toBeNull();
+  });
+
+  test('backs off after a failure and keeps a write replaced while in flight', () => {
+    const item = makeWrite('a', { attempts: 2 });
+    const failed = markWriteFailed([item], item, 'Offline', NOW);
+
+    expect(failed[0]).toMatchObject({
+      attempts: 3,
+      lastError: 'Offline',
+      nextAttemptAt: new Date(NOW + 20000).toISOString(),
+    });
+
+    const replacement = makeWrite('a', { queuedAt: '2025-03-12T11:30:00.000Z' });
+    expect(removeSyncedWrite([replacement], item)).toEqual([replacement]);
+    expect(markWriteFailed([replacement], item, 'Offline', NOW)).toEqual([replacement]);
+    expect(removeSyncedWrite([item], item)).toEqual([]);
+  });
+});
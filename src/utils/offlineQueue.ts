@@ -0,0 +1,68 @@
+import { QueuedWrite } from '../types';
+import { SYNC_RETRY_BASE_DELAY_MS, SYNC_RETRY_MAX_DELAY_MS } from '../constants/sync';
+
+/**
+ * Offline write queue bookkeeping. Pure functions over the queued entries;
+ * storage and replaying are in `services/offlineQueue.ts`. An entry is
+ * identified by its document id and `queuedAt`, so an entry replaced while
+ * its write was in flight isn't mistaken for the one that was written.
+ */
+
+// Exponential backoff: 5s, 10s, 20s ... capped at 10 minutes
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(SYNC_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), SYNC_RETRY_MAX_DELAY_MS);
+
+const isSameEntry = (entry: QueuedWrite, item: QueuedWrite): boolean =>
+  entry.id === item.id && entry.queuedAt === item.queuedAt;
+
+// Only the signed-in user's entries can be written under their credentials
+export const getPendingForUser = (queue: QueuedWrite[], userId: string | undefined) =>
+  queue.filter((item) => item.userId === userId);
+
+// A user's entries that are due for another attempt
+export const getDueWrites = (
+  queue: QueuedWrite[],
+  userId: string,
+  now: number = Date.now()
+): QueuedWrite[] =>
+  getPendingForUser(queue, userId).filter(
+    (item) => new Date(item.nextAttemptAt).getTime() <= now
+  );
+
+// Add an entry, replacing any pending write with the same id
+export const addQueuedWrite = (queue: QueuedWrite[], entry: QueuedWrite): QueuedWrite[] => [
+  ...queue.filter((item) => item.id !== entry.id),
+  entry,
+];
+
+// Drop an entry once written, unless it was replaced in the meantime
+export const removeSyncedWrite = (queue: QueuedWrite[], item: QueuedWrite): QueuedWrite[] =>
+  queue.filter((entry) => !isSameEntry(entry, item));
+
+// Count a failed attempt and schedule the next one
+export const markWriteFailed = (
+  queue: QueuedWrite[],
+  item: QueuedWrite,
+  error: string,
+  now: number = Date.now()
+): QueuedWrite[] => {
+  const attempts = item.attempts + 1;
+  return queue.map((entry) =>
+    isSameEntry(entry, item)
+      ? {
+          ...entry,
+          attempts,
+          lastError: error,
+          nextAttemptAt: new Date(now + getRetryDelay(attempts)).toISOString(),
+        }
+      : entry
+  );
+};
+
+// When the next of a user's entries is due, if any are waiting
+export const getNextAttemptAt = (queue: QueuedWrite[], userId: string | undefined) => {
+  const pending = getPendingForUser(queue, userId);
+  return pending.length > 0
+    ? Math.min(...pending.map((item) => new Date(item.nextAttemptAt).getTime()))
+    : null;
+};
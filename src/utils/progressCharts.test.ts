@@ -0,0 +1,133 @@
+/**
+ * Progress chart data tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import { buildProgressChartData, getChartBuckets, getChartPeriodDays } from './progressCharts';
+import { makeCheckIn, makeEpisodeLog, withMood } from './testFixtures';
+
+const TIME_ZONE = 'America/New_York';
+
+// Wednesday 12 March 2025, 15:00 in New York
+const NOW = new Date('2025-03-12T19:00:00Z');
+
+describe('getChartBuckets', () => {
+  test('gives a bucket per day for the week and month', () => {
+    const week = getChartBuckets('week', '2025-03-12');
+    expect(week).toHaveLength(7);
+    expect(week[0].fromDay).toBe('2025-03-06');
+    expect(week[6].toDay).toBe('2025-03-12');
+
+    const month = getChartBuckets('month', '2025-03-12');
+    expect(month).toHaveLength(30);
+    expect(month[29].label).not.toBe('');
+    expect(month[28].label).toBe('');
+  });
+
+  test('gives a bucket per calendar month for the year, ending today', () => {
+    const year = getChartBuckets('year', '2025-03-12');
+    expect(year).toHaveLength(12);
+    expect(year[0]).toMatchObject({ fromDay: '2024-04-01', toDay: '2024-04-30' });
+    expect(year[11]).toMatchObject({ fromDay: '2025-03-01', toDay: '2025-03-12' });
+    expect(getChartPeriodDays({ fromDay: year[0].fromDay, toDay: '2025-03-12' })).toBe(346);
+  });
+});
+
+describe('buildProgressChartData', () => {
+  test('averages mood per day and carries values over empty days', () => {
+    const checkIns = [
+      makeCheckIn('a', '2025-03-07T12:00:00Z', withMood(4)),
+      makeCheckIn('b', '2025-03-10T12:00:00Z', withMood(6)),
+      makeCheckIn('c', '2025-03-10T22:00:00Z', withMood(9)),
+      // Before the week
+      makeCheckIn('d', '2025-03-01T12:00:00Z', withMood(1)),
+    ];
+
+    const { mood } = buildProgressChartData(checkIns, [], 'week', TIME_ZONE, NOW);
+    expect(mood.values).toEqual([4, 4, 4, 4, 7.5, 7.5, 7.5]);
+    expect(mood.emptyIndexes).toEqual([0, 2, 3, 5, 6]);
+    expect(mood.hasData).toBe(true);
+  });
+
+  test('reports no mood data when the section was always skipped', () => {
+    const checkIns = [makeCheckIn('a', '2025-03-11T12:00:00Z', { skippedSections: ['mood'] })];
+    const data = buildProgressChartData(checkIns, [], 'week', TIME_ZONE, NOW);
+    expect(data.mood.hasData).toBe(false);
+    expect(data.wellbeing.find((axis) => axis.label === 'Mood')?.value).toBe(0);
+  });
+
+  test('counts episodes in the patient timezone and only once per log', () => {
+    const log = makeEpisodeLog('log-1', '2025-03-11T14:00:00Z');
+    const checkIn = makeCheckIn('a', '2025-03-11T22:00:00Z', {
+      bingeEpisodes: {
+        hadBingeEpisode: true,
+        episodes: [
+          { ...log, episodeLogId: 'log-1' },
+          // Monday 10 March, 23:00 in New York - already the 11th in UTC
+          { ...makeEpisodeLog('unused', '2025-03-11T03:00:00Z') },
+        ],
+      },
+    });
+
+    const { bingeEpisodes } = buildProgressChartData([checkIn], [log], 'week', TIME_ZONE, NOW);
+    expect(bingeEpisodes.values).toEqual([0, 0, 0, 0, 1, 1, 0]);
+  });
+
+  test('groups a year into months', () => {
+    const checkIns = [
+      makeCheckIn('a', '2025-01-15T12:00:00Z', withMood(3)),
+      makeCheckIn('b', '2025-01-20T12:00:00Z', withMood(5)),
+      makeCheckIn('c', '2025-03-02T12:00:00Z', withMood(8)),
+    ];
+
+    const data = buildProgressChartData(checkIns, [], 'year', TIME_ZONE, NOW);
+    expect(data.mood.values.slice(9)).toEqual([4, 4, 8]);
+    expect(data.checkInDays).toEqual([
+      { day: '2025-01-15', count: 1 },
+      { day: '2025-01-20', count: 1 },
+      { day: '2025-03-02', count: 1 },
+    ]);
+  });
+
+  test('profiles wellbeing and coping from answered sections only', () => {
+    const checkIns = [
+      makeCheckIn('a', '2025-03-12T12:00:00Z', {
+        mood: { ...DEFAULT_CHECK_IN_VALUES.mood, overall: 8, anxiety: 3 },
+        wellbeing: {
+          ...DEFAULT_CHECK_IN_VALUES.wellbeing,
+          sleepQuality: 6,
+          energyLevel: 7,
+          socialConnection: 9,
+        },
+        copingStrategies: {
+          used: [
+            { strategy: 'Walk', effectiveness: 'very_helpful', duration: 20 },
+            { strategy: 'Music', effectiveness: 'helpful', duration: 10 },
+          ],
+          available: [],
+        },
+      }),
+      makeCheckIn('b', '2025-03-11T12:00:00Z', {
+        skippedSections: ['wellbeing', 'coping'],
+        copingStrategies: {
+          used: [{ strategy: 'Walk', effectiveness: 'not_helpful', duration: 5 }],
+          available: [],
+        },
+      }),
+    ];
+
+    const data = buildProgressChartData(checkIns, [], 'week', TIME_ZONE, NOW);
+    const wellbeing = Object.fromEntries(data.wellbeing.map((axis) => [axis.label, axis.value]));
+    expect(wellbeing.Sleep).toBe(6);
+    expect(wellbeing.Energy).toBe(7);
+    expect(wellbeing.Connection).toBe(9);
+    expect(data.copingEffectiveness).toEqual({
+      not_helpful: 0,
+      somewhat_helpful: 0,
+      helpful: 1,
+      very_helpful: 1,
+    });
+  });
+});
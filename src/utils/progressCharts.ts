@@ -0,0 +1,236 @@
+import { CheckInSurvey, CopingEffectiveness, EpisodeLog, PatientStackParamList } from '../types';
+import { toDate } from './firestore';
+import {
+  addDays,
+  fromDayKey,
+  getDayRange,
+  getDaysBetween,
+  getMonthDays,
+  toZonedDayKey,
+} from './date';
+import { isSectionAnswered } from './progressMetrics';
+import { collectEpisodes } from './episodes';
+
+/**
+ * Chart data for the progress dashboard. Pure functions that bucket a
+ * patient's check-ins and episode logs for one of the dashboard periods:
+ *
+ * - week: the last 7 days, one bucket per day
+ * - month: the last 30 days, one bucket per day
+ * - year: the last 12 calendar months, one bucket per month
+ *
+ * Days are counted in the patient's timezone. As in the metrics engine,
+ * episodes carried into a check-in from an episode log are counted once,
+ * from the log, and skipped or template-omitted sections are left out of
+ * the averages.
+ */
+
+export type ChartPeriod = PatientStackParamList['ProgressDetail']['period'];
+
+export interface ChartBucket {
+  fromDay: string;
+  toDay: string;
+  label: string;
+}
+
+export interface ChartSeries {
+  labels: string[];
+  values: number[];
+  emptyIndexes: number[]; // buckets with no data, whose values are carried from a neighbour
+  hasData: boolean;
+}
+
+export interface WellbeingAxis {
+  label: string;
+  value: number; // average rating, 1-10 (0 if there were none)
+}
+
+export interface CheckInDayCount {
+  day: string;
+  count: number;
+}
+
+export interface ProgressChartData {
+  period: ChartPeriod;
+  fromDay: string;
+  toDay: string;
+  mood: ChartSeries;
+  bingeEpisodes: ChartSeries;
+  wellbeing: WellbeingAxis[];
+  copingEffectiveness: Record<CopingEffectiveness, number>;
+  checkInDays: CheckInDayCount[];
+}
+
+// Days in each daily period
+export const CHART_PERIOD_DAYS: Record<Exclude<ChartPeriod, 'year'>, number> = {
+  week: 7,
+  month: 30,
+};
+
+const YEAR_MONTHS = 12;
+
+// Labels on a 30-day chart are kept to one a week so they stay readable
+const MONTH_LABEL_EVERY = 7;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Mean to one decimal place, or null with nothing to average
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? round(values.reduce((total, value) => total + value, 0) / values.length)
+    : null;
+
+// The buckets for a period ending today, oldest first
+export const getChartBuckets = (period: ChartPeriod, today: string): ChartBucket[] => {
+  if (period === 'year') {
+    const year = Number(today.slice(0, 4));
+    const month = Number(today.slice(5, 7)) - 1;
+    return Array.from({ length: YEAR_MONTHS }, (_, index) => {
+      const date = new Date(year, month - (YEAR_MONTHS - 1) + index, 1);
+      const days = getMonthDays(date.getFullYear(), date.getMonth());
+      const lastDay = days[days.length - 1];
+      return {
+        fromDay: days[0],
+        toDay: lastDay < today ? lastDay : today,
+        label: date.toLocaleDateString(undefined, { month: 'narrow' }),
+      };
+    });
+  }
+
+  const days = getDayRange(today, CHART_PERIOD_DAYS[period]);
+  return days.map((day, index) => {
+    const date = fromDayKey(day);
+    let label: string;
+    if (period === 'week') {
+      label = date.toLocaleDateString(undefined, { weekday: 'short' });
+    } else {
+      // Count back from today so the latest day is always labelled
+      const labelled = (days.length - 1 - index) % MONTH_LABEL_EVERY === 0;
+      label = labelled ? String(date.getDate()) : '';
+    }
+    return { fromDay: day, toDay: day, label };
+  });
+};
+
+// One value per bucket; empty buckets carry the nearest earlier value (or the first one after)
+const toSeries = (buckets: ChartBucket[], values: (number | null)[]): ChartSeries => {
+  const emptyIndexes = values
+    .map((value, index) => (value === null ? index : -1))
+    .filter((index) => index >= 0);
+  const first = values.find((value): value is number => value !== null) ?? 0;
+
+  let previous = first;
+  return {
+    labels: buckets.map((bucket) => bucket.label),
+    values: values.map((value) => {
+      previous = value ?? previous;
+      return previous;
+    }),
+    emptyIndexes,
+    hasData: emptyIndexes.length < values.length,
+  };
+};
+
+// Chart data for a period ending on the patient's current day
+export const buildProgressChartData = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  period: ChartPeriod,
+  timeZone: string,
+  now: Date = new Date()
+): ProgressChartData => {
+  const today = toZonedDayKey(now, timeZone);
+  const buckets = getChartBuckets(period, today);
+  const fromDay = buckets[0].fromDay;
+  const dayOf = (date: Date) => toZonedDayKey(date, timeZone);
+  const bucketIndex = (day: string) =>
+    buckets.findIndex((bucket) => day >= bucket.fromDay && day <= bucket.toDay);
+
+  const periodCheckIns = checkIns.filter((checkIn) => {
+    const day = dayOf(toDate(checkIn.completedAt));
+    return day >= fromDay && day <= today;
+  });
+
+  // Mood, averaged per bucket
+  const moods: number[][] = buckets.map(() => []);
+  periodCheckIns
+    .filter((checkIn) => isSectionAnswered(checkIn, 'mood'))
+    .forEach((checkIn) => {
+      moods[bucketIndex(dayOf(toDate(checkIn.completedAt)))].push(checkIn.mood.overall);
+    });
+
+  const episodes = buckets.map(() => 0);
+  collectEpisodes(checkIns, episodeLogs).forEach((episode) => {
+    const index = bucketIndex(dayOf(toDate(episode.date)));
+    if (index >= 0) {
+      episodes[index] += 1;
+    }
+  });
+
+  const moodAnswered = periodCheckIns.filter((checkIn) => isSectionAnswered(checkIn, 'mood'));
+  const wellbeingAnswered = periodCheckIns.filter((checkIn) =>
+    isSectionAnswered(checkIn, 'wellbeing')
+  );
+  const axis = (
+    label: string,
+    source: CheckInSurvey[],
+    select: (checkIn: CheckInSurvey) => number
+  ): WellbeingAxis => ({ label, value: average(source.map(select)) ?? 0 });
+
+  const copingEffectiveness: Record<CopingEffectiveness, number> = {
+    not_helpful: 0,
+    somewhat_helpful: 0,
+    helpful: 0,
+    very_helpful: 0,
+  };
+  periodCheckIns
+    .filter((checkIn) => isSectionAnswered(checkIn, 'coping'))
+    .flatMap((checkIn) => checkIn.copingStrategies.used)
+    .forEach(({ effectiveness }) => {
+      copingEffectiveness[effectiveness] += 1;
+    });
+
+  const checkInCounts = new Map<string, number>();
+  periodCheckIns.forEach((checkIn) => {
+    const day = dayOf(toDate(checkIn.completedAt));
+    checkInCounts.set(day, (checkInCounts.get(day) ?? 0) + 1);
+  });
+
+  return {
+    period,
+    fromDay,
+    toDay: today,
+    mood: toSeries(buckets, moods.map(average)),
+    bingeEpisodes: {
+      labels: buckets.map((bucket) => bucket.label),
+      values: episodes,
+      emptyIndexes: [],
+      hasData: periodCheckIns.length > 0 || episodes.some((count) => count > 0),
+    },
+    wellbeing: [
+      axis('Mood', moodAnswered, (checkIn) => checkIn.mood.overall),
+      // Anxiety runs the other way, so 10 is the calmest
+      axis('Calm', moodAnswered, (checkIn) => 11 - checkIn.mood.anxiety),
+      axis('Sleep', wellbeingAnswered, (checkIn) => checkIn.wellbeing.sleepQuality),
+      axis('Energy', wellbeingAnswered, (checkIn) => checkIn.wellbeing.energyLevel),
+      axis('Connection', wellbeingAnswered, (checkIn) => checkIn.wellbeing.socialConnection),
+    ],
+    copingEffectiveness,
+    checkInDays: Array.from(checkInCounts, ([day, count]) => ({ day, count })).sort((a, b) =>
+      a.day.localeCompare(b.day)
+    ),
+  };
+};
+
+// Days covered by the check-in heatmap for a period
+export const getChartPeriodDays = (data: Pick<ProgressChartData, 'fromDay' | 'toDay'>): number =>
+  getDaysBetween(data.fromDay, data.toDay) + 1;
+
+// When to start loading entries for a period, so the first bucket is complete
+export const getChartPeriodStart = (
+  period: ChartPeriod,
+  timeZone: string,
+  now: Date = new Date()
+): Date =>
+  // A day early covers timezones ahead of the device's
+  fromDayKey(addDays(getChartBuckets(period, toZonedDayKey(now, timeZone))[0].fromDay, -1));
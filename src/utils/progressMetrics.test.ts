@@ -0,0 +1,235 @@
+/**
+ * Progress metrics engine tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInSurvey } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import {
+  addCheckInToMetricsState,
+  addEpisodeLogToMetricsState,
+  buildMetricsState,
+  computeProgressMetrics,
+  createMetricsState,
+  deriveProgressMetrics,
+  scoreWellbeing,
+} from './progressMetrics';
+import { makeCheckIn, makeEpisodeLog, withMood } from './testFixtures';
+
+const TIME_ZONE = 'America/New_York';
+
+// Wednesday 12 March 2025, 15:00 in New York
+const NOW = new Date('2025-03-12T19:00:00Z');
+
+const episodeOn = (date: string, episodeLogId?: string) => ({
+  ...makeEpisodeLog('unused', date),
+  episodeLogId,
+});
+
+describe('computeProgressMetrics', () => {
+  test('returns zeroed metrics with no history', () => {
+    expect(computeProgressMetrics([], [], TIME_ZONE, { now: NOW })).toEqual({
+      totalModulesCompleted: 0,
+      totalCheckIns: 0,
+      averageMoodScore: 0,
+      bingeEpisodesThisWeek: 0,
+      bingeEpisodesLastWeek: 0,
+      copingStrategiesUsed: 0,
+      daysSinceLastBinge: 0,
+      wellbeingScore: 0,
+      wellbeingScoreVersion: 1,
+    });
+  });
+
+  test('averages mood over the rolling week only', () => {
+    const checkIns = [
+      makeCheckIn('a', '2025-03-12T12:00:00Z', withMood(8)),
+      makeCheckIn('b', '2025-03-10T12:00:00Z', withMood(5)),
+      // Outside the last 7 days
+      makeCheckIn('c', '2025-03-01T12:00:00Z', withMood(1)),
+    ];
+
+    const metrics = computeProgressMetrics(checkIns, [], TIME_ZONE, { now: NOW });
+    expect(metrics.totalCheckIns).toBe(3);
+    expect(metrics.averageMoodScore).toBe(6.5);
+  });
+
+  test('splits episodes into Monday-start weeks in the patient timezone', () => {
+    const logs = [
+      // Monday 10 March, 01:00 in New York
+      makeEpisodeLog('this-week', '2025-03-10T05:00:00Z'),
+      // Sunday 9 March, 23:00 in New York - already Monday in UTC
+      makeEpisodeLog('last-week', '2025-03-10T03:00:00Z'),
+      makeEpisodeLog('two-weeks-ago', '2025-02-28T15:00:00Z'),
+    ];
+
+    const metrics = computeProgressMetrics([], logs, TIME_ZONE, { now: NOW });
+    expect(metrics.bingeEpisodesThisWeek).toBe(1);
+    expect(metrics.bingeEpisodesLastWeek).toBe(1);
+    expect(metrics.daysSinceLastBinge).toBe(2);
+  });
+
+  test('counts episodes carried over from a log only once', () => {
+    const log = makeEpisodeLog('log-1', '2025-03-11T14:00:00Z');
+    const checkIn = makeCheckIn('a', '2025-03-11T22:00:00Z', {
+      bingeEpisodes: {
+        hadBingeEpisode: true,
+        episodes: [episodeOn('2025-03-11T14:00:00Z', 'log-1'), episodeOn('2025-03-11T18:00:00Z')],
+      },
+    });
+
+    const metrics = computeProgressMetrics([checkIn], [log], TIME_ZONE, { now: NOW });
+    expect(metrics.bingeEpisodesThisWeek).toBe(2);
+  });
+
+  test('measures days since tracking began when there were no episodes', () => {
+    const checkIns = [makeCheckIn('a', '2025-02-20T12:00:00Z')];
+    const metrics = computeProgressMetrics(checkIns, [], TIME_ZONE, { now: NOW });
+    expect(metrics.daysSinceLastBinge).toBe(20);
+  });
+
+  test('leaves skipped and template-omitted sections out of the averages', () => {
+    const checkIns = [
+      makeCheckIn('a', '2025-03-12T12:00:00Z', {
+        ...withMood(9),
+        wellbeing: {
+          ...DEFAULT_CHECK_IN_VALUES.wellbeing,
+          sleepQuality: 10,
+          energyLevel: 10,
+          socialConnection: 10,
+        },
+      }),
+      makeCheckIn('b', '2025-03-11T12:00:00Z', {
+        omittedFields: ['mood'],
+        skippedSections: ['wellbeing'],
+      }),
+    ];
+
+    const metrics = computeProgressMetrics(checkIns, [], TIME_ZONE, { now: NOW });
+    expect(metrics.averageMoodScore).toBe(9);
+    // Only the first check-in can be scored
+    expect(metrics.wellbeingScore).toBe(63);
+  });
+
+  test('counts distinct coping strategies used in the rolling week', () => {
+    const coping = (...strategies: string[]) => ({
+      used: strategies.map((strategy) => ({ strategy, effectiveness: 'helpful' as const, duration: 10 })),
+      available: [],
+    });
+    const checkIns = [
+      makeCheckIn('a', '2025-03-12T12:00:00Z', {
+        copingStrategies: coping('Walk', 'Call a friend'),
+      }),
+      makeCheckIn('b', '2025-03-11T12:00:00Z', { copingStrategies: coping('Walk') }),
+    ];
+
+    const metrics = computeProgressMetrics(checkIns, [], TIME_ZONE, { now: NOW });
+    expect(metrics.copingStrategiesUsed).toBe(2);
+  });
+});
+
+describe('scoreWellbeing', () => {
+  const wellbeing = (
+    physicalActivity: CheckInSurvey['wellbeing']['physicalActivity'],
+    timeSpent: number
+  ) => ({
+    wellbeing: {
+      sleepQuality: 10 as const,
+      energyLevel: 10 as const,
+      socialConnection: 10 as const,
+      physicalActivity,
+      selfCare: { activities: [], timeSpent },
+    },
+  });
+
+  test('scores the best answers 100 and reverses anxiety, low mood and stress', () => {
+    const checkIn = makeCheckIn('a', '2025-03-12T12:00:00Z', {
+      mood: { overall: 10, selfEsteem: 10, anxiety: 1, depression: 1, stress: 1 },
+      ...wellbeing({ didExercise: true, duration: 45 }, 30),
+    });
+
+    expect(scoreWellbeing(checkIn)).toEqual({
+      score: 100,
+      version: 1,
+      components: {
+        mood: 1,
+        sleep: 1,
+        energy: 1,
+        connection: 1,
+        physicalActivity: 1,
+        selfCare: 1,
+      },
+    });
+  });
+
+  test('scores exercise and self-care against their targets', () => {
+    const checkIn = makeCheckIn('a', '2025-03-12T12:00:00Z', {
+      ...wellbeing({ didExercise: true, duration: 15 }, 10),
+    });
+    const noDuration = makeCheckIn('b', '2025-03-12T12:00:00Z', {
+      ...wellbeing({ didExercise: true }, 0),
+    });
+
+    expect(scoreWellbeing(checkIn)?.components).toMatchObject({
+      physicalActivity: 0.5,
+      selfCare: 1 / 3,
+    });
+    expect(scoreWellbeing(noDuration)?.components.physicalActivity).toBe(1);
+  });
+
+  test('scales up the parts that were answered', () => {
+    const moodOnly = makeCheckIn('a', '2025-03-12T12:00:00Z', {
+      mood: { overall: 10, selfEsteem: 10, anxiety: 1, depression: 1, stress: 1 },
+      skippedSections: ['wellbeing'],
+    });
+    const neither = makeCheckIn('b', '2025-03-12T12:00:00Z', {
+      omittedFields: ['mood', 'wellbeing'],
+    });
+
+    expect(scoreWellbeing(moodOnly)).toEqual({ score: 100, version: 1, components: { mood: 1 } });
+    expect(scoreWellbeing(neither)).toBeNull();
+  });
+});
+
+describe('incremental updates', () => {
+  const history = [
+    makeCheckIn('a', '2025-03-03T12:00:00Z', withMood(4)),
+    makeCheckIn('b', '2025-03-08T12:00:00Z'),
+    makeCheckIn('c', '2025-03-11T12:00:00Z', withMood(7)),
+  ];
+  const logs = [
+    makeEpisodeLog('log-1', '2025-03-04T12:00:00Z'),
+    makeEpisodeLog('log-2', '2025-03-11T12:00:00Z'),
+  ];
+
+  test('match a full rebuild', () => {
+    let state = createMetricsState(TIME_ZONE);
+    history.forEach((checkIn) => {
+      state = addCheckInToMetricsState(state, checkIn, NOW);
+    });
+    logs.forEach((log) => {
+      state = addEpisodeLogToMetricsState(state, log, NOW);
+    });
+
+    expect(deriveProgressMetrics(state, { now: NOW })).toEqual(
+      computeProgressMetrics(history, logs, TIME_ZONE, { now: NOW })
+    );
+  });
+
+  test('ignore a check-in that was already added', () => {
+    const state = buildMetricsState(history, logs, TIME_ZONE, NOW);
+    expect(addCheckInToMetricsState(state, history[2], NOW)).toEqual(state);
+  });
+
+  test('keep only the days the metrics need', () => {
+    const state = buildMetricsState(
+      [makeCheckIn('old', '2025-01-15T12:00:00Z'), ...history],
+      logs,
+      TIME_ZONE,
+      NOW
+    );
+    expect(Object.keys(state.days).sort()[0]).toBe('2025-03-03');
+    expect(state.totalCheckIns).toBe(4);
+  });
+});
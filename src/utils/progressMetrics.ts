@@ -0,0 +1,314 @@
+import {
+  CheckInSection,
+  CheckInSurvey,
+  DailyProgressAggregate,
+  EpisodeLog,
+  MoodScale,
+  PatientProgress,
+  ProgressMetricsState,
+  WellbeingComponent,
+  WellbeingScore,
+} from '../types';
+import { PROGRESS_ROLLING_DAYS } from '../constants/progress';
+import {
+  WELLBEING_ACTIVITY_TARGET_MINUTES,
+  WELLBEING_SCORE_VERSION,
+  WELLBEING_SCORE_WEIGHTS,
+  WELLBEING_SELF_CARE_TARGET_MINUTES,
+} from '../constants/wellbeing';
+import { toDate } from './firestore';
+import { addDays, getDayRange, getDaysBetween, getWeekStart, toZonedDayKey } from './date';
+import { getCheckInOnlyEpisodes } from './episodes';
+
+/**
+ * Progress metrics engine. Pure functions that turn a patient's check-ins
+ * and episode logs into `PatientProgress.progressMetrics`.
+ *
+ * Days and weeks are counted in the patient's timezone, with weeks starting
+ * on Monday. Entries are folded into a `ProgressMetricsState` of per-day
+ * totals, so a new check-in or episode can be added without reading the
+ * whole history again; only the days the metrics look at are kept.
+ *
+ * - averageMoodScore: mean overall mood over the last PROGRESS_ROLLING_DAYS days (0 if none)
+ * - bingeEpisodesThisWeek / LastWeek: episodes in the current and previous week
+ * - copingStrategiesUsed: distinct strategies used in the rolling window
+ * - daysSinceLastBinge: days since the last episode, or since tracking began if there was none
+ * - wellbeingScore: mean scoreWellbeing score of check-ins in the rolling window (0 if none),
+ *   stored with the formula's wellbeingScoreVersion
+ *
+ * Episodes carried into a check-in from an episode log are counted once,
+ * from the log. Sections a check-in didn't ask or the patient skipped hold
+ * default values, so they are left out of the averages.
+ */
+
+export type ProgressMetrics = Omit<PatientProgress['progressMetrics'], 'regularEatingAdherence'>;
+
+export interface ProgressMetricsOptions {
+  now?: Date;
+  totalModulesCompleted?: number;
+}
+
+export const createMetricsState = (timeZone: string): ProgressMetricsState => ({
+  timeZone,
+  totalCheckIns: 0,
+  copingRatings: {},
+  days: {},
+  wellbeingScoreVersion: WELLBEING_SCORE_VERSION,
+});
+
+const createDailyAggregate = (): DailyProgressAggregate => ({
+  checkInIds: [],
+  episodeLogIds: [],
+  moodTotal: 0,
+  moodCount: 0,
+  wellbeingTotal: 0,
+  wellbeingCount: 0,
+  bingeEpisodes: 0,
+  copingStrategies: [],
+});
+
+// Whether a section's answers were actually given
+export const isSectionAnswered = (checkIn: CheckInSurvey, section: CheckInSection): boolean =>
+  !checkIn.omittedFields?.includes(section) && !checkIn.skippedSections?.includes(section);
+
+/**
+ * Composite wellbeing score, version WELLBEING_SCORE_VERSION. Each part of
+ * a check-in is scored 0-1 and the parts are combined with
+ * WELLBEING_SCORE_WEIGHTS into a score out of 100:
+ *
+ * - mood: mean of overall mood and self-esteem with anxiety, low mood
+ *   (depression) and stress reversed, so higher is always better
+ * - sleep, energy, connection: the 1-10 ratings, 1 scoring 0 and 10 scoring 1
+ * - physicalActivity: minutes of exercise up to WELLBEING_ACTIVITY_TARGET_MINUTES;
+ *   exercise without a duration counts as meeting the target
+ * - selfCare: minutes of self-care up to WELLBEING_SELF_CARE_TARGET_MINUTES
+ *
+ * Mood comes from the mood section and the rest from the wellbeing section.
+ * A section that wasn't asked or was skipped is left out and the other
+ * weights scaled up, so the score is still out of 100; a check-in with
+ * neither section has no score.
+ */
+export const scoreWellbeing = (checkIn: CheckInSurvey): WellbeingScore | null => {
+  const fromRating = (rating: MoodScale) => (rating - 1) / 9;
+  const toTarget = (minutes: number, target: number) => Math.min(Math.max(minutes, 0) / target, 1);
+  const components: Partial<Record<WellbeingComponent, number>> = {};
+
+  if (isSectionAnswered(checkIn, 'mood')) {
+    const { overall, anxiety, depression, stress, selfEsteem } = checkIn.mood;
+    components.mood =
+      (fromRating(overall) +
+        fromRating(selfEsteem) +
+        (1 - fromRating(anxiety)) +
+        (1 - fromRating(depression)) +
+        (1 - fromRating(stress))) /
+      5;
+  }
+
+  if (isSectionAnswered(checkIn, 'wellbeing')) {
+    const { physicalActivity, selfCare } = checkIn.wellbeing;
+    components.sleep = fromRating(checkIn.wellbeing.sleepQuality);
+    components.energy = fromRating(checkIn.wellbeing.energyLevel);
+    components.connection = fromRating(checkIn.wellbeing.socialConnection);
+    components.physicalActivity = physicalActivity.didExercise
+      ? toTarget(
+          physicalActivity.duration ?? WELLBEING_ACTIVITY_TARGET_MINUTES,
+          WELLBEING_ACTIVITY_TARGET_MINUTES
+        )
+      : 0;
+    components.selfCare = toTarget(selfCare.timeSpent, WELLBEING_SELF_CARE_TARGET_MINUTES);
+  }
+
+  const answered = Object.entries(components) as [WellbeingComponent, number][];
+  const totalWeight = answered.reduce(
+    (total, [component]) => total + WELLBEING_SCORE_WEIGHTS[component],
+    0
+  );
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const weighted = answered.reduce(
+    (total, [component, value]) => total + WELLBEING_SCORE_WEIGHTS[component] * value,
+    0
+  );
+  return {
+    score: Math.round((weighted / totalWeight) * 1000) / 10,
+    version: WELLBEING_SCORE_VERSION,
+    components,
+  };
+};
+
+const earliestDay = (a: string | undefined, b: string): string => (a && a < b ? a : b);
+const latestDay = (a: string | undefined, b: string): string => (a && a > b ? a : b);
+
+// Drop days older than any metric looks at (the start of last week or the rolling window)
+const pruneDays = (state: ProgressMetricsState, now: Date): ProgressMetricsState => {
+  const today = toZonedDayKey(now, state.timeZone);
+  const oldestKept = [
+    addDays(getWeekStart(today), -7),
+    addDays(today, -(PROGRESS_ROLLING_DAYS - 1)),
+  ].sort()[0];
+
+  return {
+    ...state,
+    days: Object.fromEntries(Object.entries(state.days).filter(([day]) => day >= oldestKept)),
+  };
+};
+
+// Record an episode on its local day
+const addEpisode = (
+  state: ProgressMetricsState,
+  days: Record<string, DailyProgressAggregate>,
+  date: Date
+): Pick<ProgressMetricsState, 'firstDay' | 'lastBingeDay'> => {
+  const day = toZonedDayKey(date, state.timeZone);
+  const aggregate = days[day] || createDailyAggregate();
+  days[day] = { ...aggregate, bingeEpisodes: aggregate.bingeEpisodes + 1 };
+  return {
+    firstDay: earliestDay(state.firstDay, day),
+    lastBingeDay: latestDay(state.lastBingeDay, day),
+  };
+};
+
+// Fold a check-in into the totals, unless its day already has it
+const addCheckIn = (state: ProgressMetricsState, checkIn: CheckInSurvey): ProgressMetricsState => {
+  const day = toZonedDayKey(toDate(checkIn.completedAt), state.timeZone);
+  if (state.days[day]?.checkInIds.includes(checkIn.id)) {
+    return state;
+  }
+
+  const days = { ...state.days };
+  const copingRatings = { ...state.copingRatings };
+  checkIn.copingStrategies.used.forEach(({ effectiveness }) => {
+    copingRatings[effectiveness] = (copingRatings[effectiveness] ?? 0) + 1;
+  });
+
+  let next: ProgressMetricsState = {
+    ...state,
+    totalCheckIns: state.totalCheckIns + 1,
+    copingRatings,
+    firstDay: earliestDay(state.firstDay, day),
+  };
+
+  // Episodes from episode logs are counted when the log is added
+  getCheckInOnlyEpisodes(checkIn).forEach((episode) => {
+    next = { ...next, ...addEpisode(next, days, episode.date) };
+  });
+
+  const aggregate = days[day] || createDailyAggregate();
+  const moodAnswered = isSectionAnswered(checkIn, 'mood');
+  const wellbeing = scoreWellbeing(checkIn);
+
+  days[day] = {
+    ...aggregate,
+    checkInIds: [...aggregate.checkInIds, checkIn.id],
+    moodTotal: aggregate.moodTotal + (moodAnswered ? checkIn.mood.overall : 0),
+    moodCount: aggregate.moodCount + (moodAnswered ? 1 : 0),
+    wellbeingTotal: aggregate.wellbeingTotal + (wellbeing?.score ?? 0),
+    wellbeingCount: aggregate.wellbeingCount + (wellbeing ? 1 : 0),
+    copingStrategies: Array.from(
+      new Set([
+        ...aggregate.copingStrategies,
+        ...checkIn.copingStrategies.used.map((used) => used.strategy),
+      ])
+    ),
+  };
+
+  return { ...next, days };
+};
+
+// Fold an episode log into the totals, unless its day already has it
+const addEpisodeLog = (
+  state: ProgressMetricsState,
+  episodeLog: EpisodeLog
+): ProgressMetricsState => {
+  const day = toZonedDayKey(episodeLog.date, state.timeZone);
+  if (state.days[day]?.episodeLogIds.includes(episodeLog.id)) {
+    return state;
+  }
+
+  const days = { ...state.days };
+  const next = { ...state, ...addEpisode(state, days, episodeLog.date) };
+  days[day] = { ...days[day], episodeLogIds: [...days[day].episodeLogIds, episodeLog.id] };
+
+  return { ...next, days };
+};
+
+/**
+ * Add a new check-in to the running totals. Adding the same check-in twice
+ * has no effect while its day is still kept; an edited check-in needs a
+ * full rebuild with buildMetricsState.
+ */
+export const addCheckInToMetricsState = (
+  state: ProgressMetricsState,
+  checkIn: CheckInSurvey,
+  now: Date = new Date()
+): ProgressMetricsState => pruneDays(addCheckIn(state, checkIn), now);
+
+// Add a new episode log to the running totals (idempotent while its day is kept)
+export const addEpisodeLogToMetricsState = (
+  state: ProgressMetricsState,
+  episodeLog: EpisodeLog,
+  now: Date = new Date()
+): ProgressMetricsState => pruneDays(addEpisodeLog(state, episodeLog), now);
+
+// Running totals for a patient's whole history
+export const buildMetricsState = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  timeZone: string,
+  now: Date = new Date()
+): ProgressMetricsState => {
+  const withCheckIns = checkIns.reduce(addCheckIn, createMetricsState(timeZone));
+  return pruneDays(episodeLogs.reduce(addEpisodeLog, withCheckIns), now);
+};
+
+// Metrics as of `now`, from the running totals
+export const deriveProgressMetrics = (
+  state: ProgressMetricsState,
+  { now = new Date(), totalModulesCompleted = 0 }: ProgressMetricsOptions = {}
+): ProgressMetrics => {
+  const today = toZonedDayKey(now, state.timeZone);
+  const thisWeekStart = getWeekStart(today);
+  const lastWeekStart = addDays(thisWeekStart, -7);
+  const rollingDays = getDayRange(today, PROGRESS_ROLLING_DAYS).map(
+    (day) => state.days[day] || createDailyAggregate()
+  );
+
+  const countEpisodes = (from: string, to: string) =>
+    Object.entries(state.days)
+      .filter(([day]) => day >= from && day <= to)
+      .reduce((total, [, aggregate]) => total + aggregate.bingeEpisodes, 0);
+
+  const sum = (select: (aggregate: DailyProgressAggregate) => number) =>
+    rollingDays.reduce((total, aggregate) => total + select(aggregate), 0);
+
+  const moodCount = sum((aggregate) => aggregate.moodCount);
+  const wellbeingCount = sum((aggregate) => aggregate.wellbeingCount);
+  const averageMood = moodCount > 0 ? sum((aggregate) => aggregate.moodTotal) / moodCount : 0;
+  const averageWellbeing =
+    wellbeingCount > 0 ? sum((aggregate) => aggregate.wellbeingTotal) / wellbeingCount : 0;
+  const sinceDay = state.lastBingeDay || state.firstDay;
+
+  return {
+    totalModulesCompleted,
+    totalCheckIns: state.totalCheckIns,
+    averageMoodScore: Math.round(averageMood * 10) / 10,
+    bingeEpisodesThisWeek: countEpisodes(thisWeekStart, today),
+    bingeEpisodesLastWeek: countEpisodes(lastWeekStart, addDays(thisWeekStart, -1)),
+    copingStrategiesUsed: new Set(rollingDays.flatMap((aggregate) => aggregate.copingStrategies))
+      .size,
+    daysSinceLastBinge: sinceDay ? Math.max(getDaysBetween(sinceDay, today), 0) : 0,
+    wellbeingScore: Math.round(averageWellbeing),
+    wellbeingScoreVersion: WELLBEING_SCORE_VERSION,
+  };
+};
+
+// Metrics for a patient's whole history in one go
+export const computeProgressMetrics = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  timeZone: string,
+  options: ProgressMetricsOptions = {}
+): ProgressMetrics =>
+  deriveProgressMetrics(buildMetricsState(checkIns, episodeLogs, timeZone, options.now), options);
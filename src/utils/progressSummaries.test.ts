@@ -0,0 +1,159 @@
+/**
+ * Weekly and monthly summary tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { PatientProgress } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+import {
+  buildMonthlySummary,
+  buildWeeklySummary,
+  getClosedMonths,
+  getClosedWeekStarts,
+  SummaryEntries,
+} from './progressSummaries';
+import { makeCheckIn, makeEpisodeLog } from './testFixtures';
+
+const TIME_ZONE = 'America/New_York';
+
+type CompletedModule = PatientProgress['completedModules'][number];
+
+const completedModule = (moduleId: string, completedAt: string): CompletedModule => ({
+  moduleId,
+  completedAt: new Date(completedAt) as unknown as CompletedModule['completedAt'],
+  timeSpent: 15,
+});
+
+const entries = (overrides: Partial<SummaryEntries>): SummaryEntries => ({
+  checkIns: [],
+  episodeLogs: [],
+  completedModules: [],
+  ...overrides,
+});
+
+describe('getClosedWeekStarts', () => {
+  test('lists weeks that ended before today, from the first day tracked', () => {
+    // Wednesday 19 March 2025
+    expect(getClosedWeekStarts(undefined, '2025-03-05', '2025-03-19')).toEqual([
+      '2025-03-03',
+      '2025-03-10',
+    ]);
+  });
+
+  test('continues after the last week already summarized', () => {
+    expect(getClosedWeekStarts('2025-03-03', '2025-03-05', '2025-03-19')).toEqual(['2025-03-10']);
+    expect(getClosedWeekStarts('2025-03-10', '2025-03-05', '2025-03-19')).toEqual([]);
+  });
+});
+
+describe('getClosedMonths', () => {
+  test('lists months that ended before today, across a new year', () => {
+    expect(getClosedMonths(undefined, '2024-11-20', '2025-02-01')).toEqual([
+      '2024-11',
+      '2024-12',
+      '2025-01',
+    ]);
+    expect(getClosedMonths('2025-01', '2024-11-20', '2025-02-01')).toEqual([]);
+  });
+});
+
+describe('buildWeeklySummary', () => {
+  test('totals the week in the patient timezone', () => {
+    const summary = buildWeeklySummary(
+      entries({
+        checkIns: [
+          makeCheckIn('a', '2025-03-04T12:00:00Z', {
+            mood: { ...DEFAULT_CHECK_IN_VALUES.mood, overall: 6 },
+          }),
+          makeCheckIn('b', '2025-03-07T12:00:00Z', {
+            mood: { ...DEFAULT_CHECK_IN_VALUES.mood, overall: 9 },
+          }),
+          // Sunday 9 March, 23:00 in New York - still this week
+          makeCheckIn('c', '2025-03-10T03:00:00Z', { skippedSections: ['mood'] }),
+          // Monday 10 March in New York - next week
+          makeCheckIn('d', '2025-03-10T15:00:00Z'),
+        ],
+        episodeLogs: [makeEpisodeLog('log-1', '2025-03-05T12:00:00Z')],
+        completedModules: [completedModule('module-1', '2025-03-06T12:00:00Z')],
+      }),
+      '2025-03-03',
+      TIME_ZONE
+    );
+
+    expect(summary?.checkInsCompleted).toBe(3);
+    expect(summary?.moodAverage).toBe(7.5);
+    expect(summary?.bingeEpisodes).toBe(1);
+    expect(summary?.modulesCompleted).toBe(1);
+    expect(summary?.goalsForNextWeek).toEqual([]);
+  });
+
+  test('takes highlights and challenges from check-ins, newest first without repeats', () => {
+    const summary = buildWeeklySummary(
+      entries({
+        checkIns: [
+          makeCheckIn('a', '2025-03-04T12:00:00Z', {
+            wins: ['Ate breakfast', ' Went for a walk '],
+            challenges: ['Evenings'],
+          }),
+          makeCheckIn('b', '2025-03-06T12:00:00Z', { wins: ['went for a walk', ''] }),
+        ],
+      }),
+      '2025-03-03',
+      TIME_ZONE
+    );
+
+    expect(summary?.highlights).toEqual(['went for a walk', 'Ate breakfast']);
+    expect(summary?.challenges).toEqual(['Evenings']);
+  });
+
+  test('counts episodes carried over from a log only once', () => {
+    const checkIn = makeCheckIn('a', '2025-03-05T22:00:00Z', {
+      bingeEpisodes: {
+        hadBingeEpisode: true,
+        episodes: [
+          { ...makeEpisodeLog('unused', '2025-03-05T14:00:00Z'), episodeLogId: 'log-1' },
+          makeEpisodeLog('unused', '2025-03-05T18:00:00Z'),
+        ],
+      },
+    });
+
+    const summary = buildWeeklySummary(
+      entries({
+        checkIns: [checkIn],
+        episodeLogs: [makeEpisodeLog('log-1', '2025-03-05T14:00:00Z')],
+      }),
+      '2025-03-03',
+      TIME_ZONE
+    );
+    expect(summary?.bingeEpisodes).toBe(2);
+  });
+
+  test('skips a week with nothing recorded', () => {
+    expect(buildWeeklySummary(entries({}), '2025-03-03', TIME_ZONE)).toBeNull();
+  });
+});
+
+describe('buildMonthlySummary', () => {
+  test('measures overall progress as days of the month with a check-in', () => {
+    const summary = buildMonthlySummary(
+      entries({
+        checkIns: [
+          makeCheckIn('a', '2025-02-03T12:00:00Z', { wins: ['Kept to my plan'] }),
+          makeCheckIn('b', '2025-02-03T20:00:00Z'),
+          makeCheckIn('c', '2025-02-10T12:00:00Z', { challenges: ['Work stress'] }),
+        ],
+      }),
+      '2025-02',
+      TIME_ZONE
+    );
+
+    expect(summary?.month).toBe(1);
+    expect(summary?.year).toBe(2025);
+    expect(summary?.checkInsCompleted).toBe(3);
+    // 2 of 28 days
+    expect(summary?.overallProgress).toBe(7);
+    expect(summary?.keyAchievements).toEqual(['Kept to my plan']);
+    expect(summary?.areasForImprovement).toEqual(['Work stress']);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  CheckInSurvey,
+  EpisodeLog,
+  MonthlySummary,
+  PatientProgress,
+  WeeklySummary,
+} from '../types';
+import { SUMMARY_MAX_ITEMS } from '../constants/progress';
+import { toDate } from './firestore';
+import { addDays, fromDayKey, getMonthDays, getWeekStart, toZonedDayKey } from './date';
+import { isSectionAnswered } from './progressMetrics';
+import { collectEpisodes } from './episodes';
+
+/**
+ * Weekly and monthly summaries. A week (Monday to Sunday) or calendar month
+ * is summarized once it has closed, with days counted in the patient's
+ * timezone. Periods with no check-ins, episodes or completed modules are
+ * passed over rather than stored as empty summaries.
+ *
+ * Highlights and challenges are the patient's own words from the `wins`
+ * and `challenges` of that period's check-ins, newest first and without
+ * repeats. Goals are left empty for the patient to fill in.
+ */
+
+export interface SummaryEntries {
+  checkIns: CheckInSurvey[];
+  episodeLogs: EpisodeLog[];
+  completedModules: PatientProgress['completedModules'];
+}
+
+export interface PeriodTotals {
+  moodAverage: number;
+  bingeEpisodes: number;
+  modulesCompleted: number;
+  checkInsCompleted: number;
+  checkInDays: number;
+  highlights: string[];
+  challenges: string[];
+}
+
+// "2025-03" for March 2025
+export const toMonthKey = (year: number, month: number): string =>
+  `${year}-${String(month + 1).padStart(2, '0')}`;
+
+export const fromMonthKey = (monthKey: string): { year: number; month: number } => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return { year, month: month - 1 };
+};
+
+const nextMonthKey = (monthKey: string): string => {
+  const { year, month } = fromMonthKey(monthKey);
+  return month === 11 ? toMonthKey(year + 1, 0) : toMonthKey(year, month + 1);
+};
+
+// Distinct non-empty entries, most recent check-in first
+const collectText = (checkIns: CheckInSurvey[], select: (checkIn: CheckInSurvey) => string[]) => {
+  const seen = new Set<string>();
+  const items: string[] = [];
+  [...checkIns]
+    .sort((a, b) => toDate(b.completedAt).getTime() - toDate(a.completedAt).getTime())
+    .flatMap(select)
+    .forEach((item) => {
+      const text = item.trim();
+      if (text && !seen.has(text.toLowerCase())) {
+        seen.add(text.toLowerCase());
+        items.push(text);
+      }
+    });
+  return items.slice(0, SUMMARY_MAX_ITEMS);
+};
+
+// Totals for the days from `fromDay` to `toDay` inclusive
+export const summarizePeriod = (
+  { checkIns, episodeLogs, completedModules }: SummaryEntries,
+  fromDay: string,
+  toDay: string,
+  timeZone: string
+): PeriodTotals => {
+  const inPeriod = (date: Date) => {
+    const day = toZonedDayKey(date, timeZone);
+    return day >= fromDay && day <= toDay;
+  };
+
+  const periodCheckIns = checkIns.filter((checkIn) => inPeriod(toDate(checkIn.completedAt)));
+  const moods = periodCheckIns
+    .filter((checkIn) => isSectionAnswered(checkIn, 'mood'))
+    .map((checkIn) => checkIn.mood.overall);
+
+  const episodes = collectEpisodes(checkIns, episodeLogs).filter((episode) =>
+    inPeriod(toDate(episode.date))
+  );
+
+  const moodAverage =
+    moods.length > 0 ? moods.reduce((total, mood) => total + mood, 0) / moods.length : 0;
+
+  return {
+    moodAverage: Math.round(moodAverage * 10) / 10,
+    bingeEpisodes: episodes.length,
+    modulesCompleted: completedModules.filter((module) => inPeriod(toDate(module.completedAt)))
+      .length,
+    checkInsCompleted: periodCheckIns.length,
+    checkInDays: new Set(
+      periodCheckIns.map((checkIn) => toZonedDayKey(toDate(checkIn.completedAt), timeZone))
+    ).size,
+    highlights: collectText(periodCheckIns, (checkIn) => checkIn.wins || []),
+    challenges: collectText(periodCheckIns, (checkIn) => checkIn.challenges || []),
+  };
+};
+
+const hasActivity = (totals: PeriodTotals): boolean =>
+  totals.checkInsCompleted > 0 || totals.bingeEpisodes > 0 || totals.modulesCompleted > 0;
+
+// Mondays of the weeks that closed after `lastWeekStart` (or began on or after `firstDay`)
+export const getClosedWeekStarts = (
+  lastWeekStart: string | undefined,
+  firstDay: string,
+  today: string
+): string[] => {
+  const weeks: string[] = [];
+  let weekStart = lastWeekStart ? addDays(lastWeekStart, 7) : getWeekStart(firstDay);
+  while (addDays(weekStart, 6) < today) {
+    weeks.push(weekStart);
+    weekStart = addDays(weekStart, 7);
+  }
+  return weeks;
+};
+
+// Months that closed after `lastMonth` (or began on or after the month of `firstDay`)
+export const getClosedMonths = (
+  lastMonth: string | undefined,
+  firstDay: string,
+  today: string
+): string[] => {
+  const months: string[] = [];
+  let monthKey = lastMonth ? nextMonthKey(lastMonth) : firstDay.slice(0, 7);
+  while (monthKey < today.slice(0, 7)) {
+    months.push(monthKey);
+    monthKey = nextMonthKey(monthKey);
+  }
+  return months;
+};
+
+// Summary of the week starting `weekStartDay`, or null if nothing happened that week
+export const buildWeeklySummary = (
+  entries: SummaryEntries,
+  weekStartDay: string,
+  timeZone: string
+): WeeklySummary | null => {
+  const weekEndDay = addDays(weekStartDay, 6);
+  const totals = summarizePeriod(entries, weekStartDay, weekEndDay, timeZone);
+  if (!hasActivity(totals)) {
+    return null;
+  }
+
+  return {
+    weekStartDay,
+    weekStart: fromDayKey(weekStartDay),
+    weekEnd: fromDayKey(weekEndDay),
+    moodAverage: totals.moodAverage,
+    bingeEpisodes: totals.bingeEpisodes,
+    modulesCompleted: totals.modulesCompleted,
+    checkInsCompleted: totals.checkInsCompleted,
+    highlights: totals.highlights,
+    challenges: totals.challenges,
+    goalsForNextWeek: [],
+  };
+};
+
+// Summary of a month ("2025-03"), or null if nothing happened that month
+export const buildMonthlySummary = (
+  entries: SummaryEntries,
+  monthKey: string,
+  timeZone: string
+): MonthlySummary | null => {
+  const { year, month } = fromMonthKey(monthKey);
+  const days = getMonthDays(year, month);
+  const totals = summarizePeriod(entries, days[0], days[days.length - 1], timeZone);
+  if (!hasActivity(totals)) {
+    return null;
+  }
+
+  return {
+    month,
+    year,
+    overallProgress: Math.round((totals.checkInDays / days.length) * 100),
+    moodAverage: totals.moodAverage,
+    bingeEpisodes: totals.bingeEpisodes,
+    modulesCompleted: totals.modulesCompleted,
+    checkInsCompleted: totals.checkInsCompleted,
+    keyAchievements: totals.highlights,
+    areasForImprovement: totals.challenges,
+    nextMonthGoals: [],
+  };
+};
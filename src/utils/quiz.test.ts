@@ -0,0 +1,102 @@
+/**
+ * Module quiz tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { EducationModule, Quiz, QuizQuestion } from '../types';
+import {
+  getModuleQuiz,
+  isAnswerComplete,
+  isAnswerCorrect,
+  scoreQuiz,
+  shuffleItemOrder,
+} from './quiz';
+
+const questions: QuizQuestion[] = [
+  { id: 'q1', type: 'single_choice', prompt: 'Pick one', options: ['A', 'B'], correctIndex: 1 },
+  {
+    id: 'q2',
+    type: 'multiple_choice',
+    prompt: 'Pick all that apply',
+    options: ['A', 'B', 'C'],
+    correctIndices: [0, 2],
+  },
+  { id: 'q3', type: 'true_false', prompt: 'True?', correctAnswer: false },
+  { id: 'q4', type: 'ordering', prompt: 'Put in order', items: ['First', 'Second', 'Third'] },
+];
+
+const makeModule = (interactiveElements: EducationModule['content']['interactiveElements']) =>
+  ({ content: { text: '', interactiveElements } }) as EducationModule;
+
+describe('getModuleQuiz', () => {
+  test('keeps only the questions that match the schema', () => {
+    const broken = [
+      { id: 'bad1', type: 'single_choice', prompt: 'No options', options: [], correctIndex: 0 },
+      { id: 'bad2', type: 'ordering', prompt: 'One item', items: ['Only'] },
+      { id: 'bad3', type: 'essay', prompt: 'Unknown type' },
+    ] as unknown as QuizQuestion[];
+    const module = makeModule([
+      { type: 'reflection', content: { prompts: [] } },
+      { type: 'quiz', content: { passThreshold: 50, questions: [...broken, questions[0]] } },
+    ]);
+
+    expect(getModuleQuiz(module)).toEqual({ passThreshold: 50, questions: [questions[0]] });
+    expect(getModuleQuiz(makeModule([{ type: 'quiz', content: { questions: broken } }]))).toBe(
+      null
+    );
+    expect(getModuleQuiz(makeModule(undefined))).toBe(null);
+  });
+});
+
+describe('isAnswerCorrect', () => {
+  test('checks each question type', () => {
+    expect(isAnswerCorrect(questions[0], 1)).toBe(true);
+    expect(isAnswerCorrect(questions[0], 0)).toBe(false);
+    expect(isAnswerCorrect(questions[1], [2, 0])).toBe(true);
+    expect(isAnswerCorrect(questions[1], [0])).toBe(false);
+    expect(isAnswerCorrect(questions[1], [0, 1, 2])).toBe(false);
+    expect(isAnswerCorrect(questions[2], false)).toBe(true);
+    expect(isAnswerCorrect(questions[3], [0, 1, 2])).toBe(true);
+    expect(isAnswerCorrect(questions[3], [1, 0, 2])).toBe(false);
+  });
+
+  test('treats an unfinished answer as not ready and not correct', () => {
+    expect(isAnswerComplete(questions[1], [])).toBe(false);
+    expect(isAnswerComplete(questions[3], [0, 1])).toBe(false);
+    expect(isAnswerCorrect(questions[2], undefined)).toBe(false);
+  });
+});
+
+describe('scoreQuiz', () => {
+  const quiz: Quiz = { questions };
+
+  test('passes at the default threshold of 70%', () => {
+    expect(scoreQuiz(quiz, { q1: 1, q2: [0, 2], q3: false, q4: [0, 1, 2] })).toEqual({
+      score: 100,
+      correctCount: 4,
+      questionCount: 4,
+      passed: true,
+      correctQuestionIds: ['q1', 'q2', 'q3', 'q4'],
+    });
+    expect(scoreQuiz(quiz, { q1: 1, q2: [0, 2], q3: true })).toMatchObject({
+      score: 50,
+      passed: false,
+    });
+  });
+
+  test("uses the quiz's own threshold", () => {
+    expect(scoreQuiz({ ...quiz, passThreshold: 50 }, { q1: 1, q3: false })).toMatchObject({
+      score: 50,
+      passed: true,
+    });
+  });
+});
+
+describe('shuffleItemOrder', () => {
+  test('never starts with the items already in order', () => {
+    // A random() of 0.999 keeps every item in place
+    expect(shuffleItemOrder(3, () => 0.999)).toEqual([1, 2, 0]);
+    expect([...shuffleItemOrder(5)].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,122 @@
+import { EducationModule, Quiz, QuizAnswer, QuizQuestion, QuizResult } from '../types';
+import { DEFAULT_QUIZ_PASS_THRESHOLD } from '../constants/education';
+
+/**
+ * Module quizzes. A module's quiz is the first interactive element of type
+ * 'quiz'; its content comes from the catalogue, so questions that don't
+ * match the schema in `types/index.ts` are left out rather than shown
+ * broken. A quiz is passed when the share of questions answered correctly
+ * reaches its passThreshold (DEFAULT_QUIZ_PASS_THRESHOLD when unset).
+ */
+
+const isIndexList = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) &&
+  value.every((index) => Number.isInteger(index) && index >= 0 && index < length);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string');
+
+const isValidQuestion = (question: QuizQuestion): boolean => {
+  if (!question || typeof question.id !== 'string' || typeof question.prompt !== 'string') {
+    return false;
+  }
+
+  switch (question.type) {
+    case 'single_choice':
+      return (
+        isStringList(question.options) &&
+        isIndexList([question.correctIndex], question.options.length)
+      );
+    case 'multiple_choice':
+      return (
+        isStringList(question.options) &&
+        isIndexList(question.correctIndices, question.options.length) &&
+        question.correctIndices.length > 0
+      );
+    case 'true_false':
+      return typeof question.correctAnswer === 'boolean';
+    case 'ordering':
+      return isStringList(question.items) && question.items.length > 1;
+    default:
+      return false;
+  }
+};
+
+// The module's quiz with its valid questions, or null if it has none
+export const getModuleQuiz = (module: EducationModule): Quiz | null => {
+  const element = module.content.interactiveElements?.find((item) => item.type === 'quiz');
+  if (!element || element.type !== 'quiz' || !Array.isArray(element.content?.questions)) {
+    return null;
+  }
+
+  const questions = element.content.questions.filter(isValidQuestion);
+  return questions.length > 0 ? { ...element.content, questions } : null;
+};
+
+export const getPassThreshold = (quiz: Quiz): number =>
+  quiz.passThreshold ?? DEFAULT_QUIZ_PASS_THRESHOLD;
+
+// Whether an answer is ready to be checked
+export const isAnswerComplete = (question: QuizQuestion, answer?: QuizAnswer): boolean => {
+  switch (question.type) {
+    case 'single_choice':
+      return typeof answer === 'number';
+    case 'multiple_choice':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'true_false':
+      return typeof answer === 'boolean';
+    case 'ordering':
+      return Array.isArray(answer) && answer.length === question.items.length;
+  }
+};
+
+export const isAnswerCorrect = (question: QuizQuestion, answer?: QuizAnswer): boolean => {
+  if (!isAnswerComplete(question, answer)) {
+    return false;
+  }
+
+  switch (question.type) {
+    case 'single_choice':
+      return answer === question.correctIndex;
+    case 'multiple_choice': {
+      const chosen = new Set(answer as number[]);
+      const correct = new Set(question.correctIndices);
+      return chosen.size === correct.size && [...chosen].every((index) => correct.has(index));
+    }
+    case 'true_false':
+      return answer === question.correctAnswer;
+    case 'ordering':
+      return (answer as number[]).every((itemIndex, position) => itemIndex === position);
+  }
+};
+
+// Score answers by question id; unanswered questions count as wrong
+export const scoreQuiz = (quiz: Quiz, answers: Record<string, QuizAnswer>): QuizResult => {
+  const correctQuestionIds = quiz.questions
+    .filter((question) => isAnswerCorrect(question, answers[question.id]))
+    .map((question) => question.id);
+  const questionCount = quiz.questions.length;
+  const score =
+    questionCount > 0 ? Math.round((correctQuestionIds.length / questionCount) * 100) : 0;
+
+  return {
+    score,
+    correctCount: correctQuestionIds.length,
+    questionCount,
+    passed: score >= getPassThreshold(quiz),
+    correctQuestionIds,
+  };
+};
+
+// A starting order for an ordering question's items that isn't already the answer
+export const shuffleItemOrder = (itemCount: number, random: () => number = Math.random) => {
+  const order = Array.from({ length: itemCount }, (_, index) => index);
+  for (let index = order.length - 1; index > 0; index -= 1) {
+    const swapWith = Math.floor(random() * (index + 1));
+    [order[index], order[swapWith]] = [order[swapWith], order[index]];
+  }
+
+  // Shuffling can land on the right order; moving the first item to the end fixes that
+  const isSolved = order.every((itemIndex, position) => itemIndex === position);
+  return isSolved && itemCount > 1 ? [...order.slice(1), order[0]] : order;
+};
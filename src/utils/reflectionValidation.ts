@@ -0,0 +1,24 @@
+import * as yup from 'yup';
+import { ModuleReflectionFormData } from '../types';
+import { REFLECTION_MAX_LENGTH } from '../constants/education';
+
+export const moduleReflectionSchema: yup.ObjectSchema<ModuleReflectionFormData> = yup.object({
+  responses: yup
+    .array(
+      yup.object({
+        promptId: yup.string().required(),
+        response: yup
+          .string()
+          .trim()
+          .max(
+            REFLECTION_MAX_LENGTH,
+            `Please keep each answer under ${REFLECTION_MAX_LENGTH} characters`
+          )
+          .defined(),
+      })
+    )
+    .test('has-response', 'Write something for at least one question', (responses) =>
+      (responses || []).some((item) => !!item.response?.trim())
+    )
+    .required(),
+});
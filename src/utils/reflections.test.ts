@@ -0,0 +1,56 @@
+/**
+ * Module reflection tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { EducationModule, ModuleReflection, ReflectionPrompt } from '../types';
+import {
+  getModuleReflectionPrompts,
+  toReflectionFormData,
+  toReflectionResponses,
+} from './reflections';
+
+const prompts: ReflectionPrompt[] = [
+  { id: 'p1', question: 'What stood out to you?' },
+  { id: 'p2', question: 'What will you try this week?', hint: 'One small step' },
+];
+
+describe('getModuleReflectionPrompts', () => {
+  test('keeps prompts with an id and a question', () => {
+    const module = {
+      content: {
+        text: '',
+        interactiveElements: [
+          { type: 'reflection', content: { prompts: [...prompts, { id: 'p3', question: ' ' }] } },
+        ],
+      },
+    } as EducationModule;
+
+    expect(getModuleReflectionPrompts(module)).toEqual({ prompts });
+    expect(getModuleReflectionPrompts({ content: { text: '' } } as EducationModule)).toBe(null);
+  });
+});
+
+describe('reflection form data', () => {
+  test('fills saved answers in and keeps only the answered prompts on save', () => {
+    const saved = {
+      responses: [{ promptId: 'p2', prompt: 'Old wording', response: 'Eat breakfast' }],
+    } as ModuleReflection;
+
+    expect(toReflectionFormData(prompts, saved)).toEqual({
+      responses: [
+        { promptId: 'p1', response: '' },
+        { promptId: 'p2', response: 'Eat breakfast' },
+      ],
+    });
+    expect(
+      toReflectionResponses(prompts, {
+        responses: [
+          { promptId: 'p1', response: '  ' },
+          { promptId: 'p2', response: ' Plan meals ' },
+        ],
+      })
+    ).toEqual([{ promptId: 'p2', prompt: 'What will you try this week?', response: 'Plan meals' }]);
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  EducationModule,
+  ModuleReflection,
+  ModuleReflectionFormData,
+  ReflectionPrompt,
+  ReflectionPrompts,
+} from '../types';
+
+/**
+ * Module reflections. A module's prompts are its first interactive element
+ * of type 'reflection'; prompts without an id or question are left out.
+ */
+
+const isValidPrompt = (prompt: ReflectionPrompt): boolean =>
+  !!prompt &&
+  typeof prompt.id === 'string' &&
+  typeof prompt.question === 'string' &&
+  !!prompt.question.trim();
+
+// The module's reflection prompts, or null if it has none
+export const getModuleReflectionPrompts = (module: EducationModule): ReflectionPrompts | null => {
+  const element = module.content.interactiveElements?.find(
+    (item) => item.type === 'reflection'
+  );
+  if (!element || element.type !== 'reflection' || !Array.isArray(element.content?.prompts)) {
+    return null;
+  }
+
+  const prompts = element.content.prompts.filter(isValidPrompt);
+  return prompts.length > 0 ? { ...element.content, prompts } : null;
+};
+
+// Form values for the prompts, filled in from a saved reflection
+export const toReflectionFormData = (
+  prompts: ReflectionPrompt[],
+  reflection?: ModuleReflection | null
+): ModuleReflectionFormData => ({
+  responses: prompts.map((prompt) => ({
+    promptId: prompt.id,
+    response:
+      reflection?.responses.find((response) => response.promptId === prompt.id)?.response || '',
+  })),
+});
+
+// The answered prompts, with each question as it was asked
+export const toReflectionResponses = (
+  prompts: ReflectionPrompt[],
+  data: ModuleReflectionFormData
+): ModuleReflection['responses'] =>
+  prompts.flatMap((prompt) => {
+    const response = data.responses.find((item) => item.promptId === prompt.id)?.response.trim();
+    return response ? [{ promptId: prompt.id, prompt: prompt.question, response }] : [];
+  });
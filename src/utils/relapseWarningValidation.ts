@@ -0,0 +1,32 @@
+import * as yup from 'yup';
+import { RelapseWarningSettings, RelapseWarningThreshold } from '../types';
+import { RELAPSE_WARNING_SETTING_FIELDS } from '../constants/relapseWarnings';
+
+// A whole-number threshold within the range its input allows
+const threshold = (name: RelapseWarningThreshold) => {
+  const field = RELAPSE_WARNING_SETTING_FIELDS.flatMap((group) => group.fields).find(
+    (item) => item.name === name
+  );
+  const min = field?.min ?? 0;
+  const max = field?.max ?? Number.MAX_SAFE_INTEGER;
+
+  return yup
+    .number()
+    .typeError('Please enter a number')
+    .integer('Please enter a whole number')
+    .min(min, `Please enter at least ${min}`)
+    .max(max, `Please enter no more than ${max}`)
+    .required('Please enter a number');
+};
+
+export const relapseWarningSettingsSchema: yup.ObjectSchema<RelapseWarningSettings> = yup.object({
+  enabled: yup.boolean().required(),
+  bingeIncreasePercent: threshold('bingeIncreasePercent'),
+  minRecentEpisodes: threshold('minRecentEpisodes'),
+  lowMoodScore: threshold('lowMoodScore'),
+  lowMoodDays: threshold('lowMoodDays'),
+  missedCheckInDays: threshold('missedCheckInDays'),
+  stableCheckInDays: threshold('stableCheckInDays'),
+  compensatoryIncreasePercent: threshold('compensatoryIncreasePercent'),
+  minRecentCompensatoryDays: threshold('minRecentCompensatoryDays'),
+});
@@ -0,0 +1,133 @@
+/**
+ * Relapse early-warning tests
+ *
+ * Run with: npm test or jest
+ */
+
+import { CheckInSurvey, EpisodeLog } from '../types';
+import { DEFAULT_RELAPSE_WARNING_SETTINGS } from '../constants/relapseWarnings';
+import { getDayRange } from './date';
+import {
+  detectRelapseWarnings,
+  getDueRelapseWarnings,
+  resolveRelapseWarningSettings,
+} from './relapseWarnings';
+import { makeCheckIn, makeEpisodeLog, withMood } from './testFixtures';
+
+const TIME_ZONE = 'America/New_York';
+
+// Wednesday 12 March 2025, 15:00 in New York. The recent week starts on
+// 6 March and the four baseline weeks on 6 February.
+const NOW = new Date('2025-03-12T19:00:00Z');
+
+// Noon in New York
+const checkInOn = (day: string, overrides: Partial<CheckInSurvey> = {}): CheckInSurvey =>
+  makeCheckIn(`check-in-${day}`, `${day}T16:00:00Z`, overrides);
+
+const episodeLogOn = (day: string, index = 0): EpisodeLog =>
+  makeEpisodeLog(`log-${day}-${index}`, `${day}T16:00:00Z`);
+
+// A check-in on each of `count` days up to `endDay`
+const dailyCheckIns = (
+  endDay: string,
+  count: number,
+  overridesFor: (day: string) => Partial<CheckInSurvey> = () => ({})
+) => getDayRange(endDay, count).map((day) => checkInOn(day, overridesFor(day)));
+
+const detect = (checkIns: CheckInSurvey[], logs: EpisodeLog[] = []) =>
+  detectRelapseWarnings(checkIns, logs, DEFAULT_RELAPSE_WARNING_SETTINGS, TIME_ZONE, NOW);
+
+describe('detectRelapseWarnings', () => {
+  test('flags more binge episodes than the baseline weeks', () => {
+    const logs = [
+      // One a week in the baseline
+      ...['2025-02-10', '2025-02-17', '2025-02-24', '2025-03-03'].map((day) =>
+        episodeLogOn(day)
+      ),
+      episodeLogOn('2025-03-07'),
+      episodeLogOn('2025-03-10'),
+      episodeLogOn('2025-03-10', 1),
+    ];
+
+    const warnings = detect(dailyCheckIns('2025-03-12', 35), logs);
+    expect(warnings).toEqual([
+      {
+        type: 'risingBingeFrequency',
+        message:
+          '3 binge episodes in the last 7 days, up from an average of 1 a week over the ' +
+          '4 weeks before.',
+        recentValue: 3,
+        baselineValue: 1,
+      },
+    ]);
+  });
+
+  test('waits for enough baseline check-ins before comparing', () => {
+    const logs = ['2025-03-07', '2025-03-09', '2025-03-11'].map((day) => episodeLogOn(day));
+    expect(detect(dailyCheckIns('2025-03-12', 7), logs)).toEqual([]);
+  });
+
+  test('flags a run of low mood up to yesterday, broken by a day it was not rated', () => {
+    const broken = dailyCheckIns('2025-03-11', 20, (day) => ({
+      ...withMood(day >= '2025-03-07' ? 3 : 7),
+      ...(day === '2025-03-09' ? { skippedSections: ['mood' as const] } : {}),
+    }));
+    expect(detect(broken)).toEqual([]);
+
+    const unbroken = dailyCheckIns('2025-03-11', 20, (day) =>
+      withMood(day >= '2025-03-07' ? 4 : 7)
+    );
+    expect(detect(unbroken)).toMatchObject([{ type: 'lowMoodRun', recentValue: 5 }]);
+  });
+
+  test('flags missed check-ins only after a stable run', () => {
+    const stable = dailyCheckIns('2025-03-08', 14);
+    expect(detect(stable)).toMatchObject([
+      {
+        type: 'missedCheckIns',
+        message: 'No check-ins for 3 days, after checking in on 14 of the 14 days before.',
+      },
+    ]);
+
+    const patchy = stable.filter((_, index) => index % 2 === 0);
+    expect(detect(patchy)).toEqual([]);
+  });
+
+  test('flags a rise in days with compensatory behaviours', () => {
+    const compensatoryDays = ['2025-02-20', '2025-03-06', '2025-03-08', '2025-03-11'];
+    const checkIns = dailyCheckIns('2025-03-12', 35, (day) => ({
+      compensatoryBehaviors: {
+        engaged: compensatoryDays.includes(day),
+        behaviors: compensatoryDays.includes(day) ? ['over_exercise'] : [],
+      },
+    }));
+
+    expect(detect(checkIns)).toMatchObject([
+      { type: 'compensatorySpike', recentValue: 3, baselineValue: 0.3 },
+    ]);
+  });
+
+  test('finds nothing when warnings are turned off for the patient', () => {
+    const settings = resolveRelapseWarningSettings({ enabled: false, lowMoodDays: 2 });
+    const checkIns = dailyCheckIns('2025-03-12', 3, () => withMood(1));
+
+    expect(settings.lowMoodScore).toBe(DEFAULT_RELAPSE_WARNING_SETTINGS.lowMoodScore);
+    expect(detectRelapseWarnings(checkIns, [], settings, TIME_ZONE, NOW)).toEqual([]);
+  });
+});
+
+describe('getDueRelapseWarnings', () => {
+  test('holds back a warning sent within the last week', () => {
+    const warnings = [
+      { type: 'lowMoodRun' as const, message: '', recentValue: 3 },
+      { type: 'missedCheckIns' as const, message: '', recentValue: 4 },
+    ];
+
+    const due = getDueRelapseWarnings(
+      warnings,
+      { lowMoodRun: '2025-03-06', missedCheckIns: '2025-03-05' },
+      '2025-03-12'
+    );
+    expect(due.map((warning) => warning.type)).toEqual(['missedCheckIns']);
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  CheckInSurvey,
+  EpisodeLog,
+  RelapseWarning,
+  RelapseWarningSettings,
+  RelapseWarningType,
+} from '../types';
+import {
+  DEFAULT_RELAPSE_WARNING_SETTINGS,
+  RELAPSE_WARNING_BASELINE_DAYS,
+  RELAPSE_WARNING_COOLDOWN_DAYS,
+  RELAPSE_WARNING_MIN_BASELINE_DAYS,
+  RELAPSE_WARNING_RECENT_DAYS,
+  RELAPSE_WARNING_STABLE_WINDOW_DAYS,
+} from '../constants/relapseWarnings';
+import { toDate } from './firestore';
+import { addDays, getDaysBetween, toZonedDayKey } from './date';
+import { collectEpisodes } from './episodes';
+import { isSectionAnswered } from './progressMetrics';
+
+/**
+ * Relapse early warnings. Pure functions that look at a patient's recent
+ * check-ins and episodes for signs things are getting harder, so their
+ * clinician can step in early:
+ *
+ * - risingBingeFrequency: more episodes in the last RELAPSE_WARNING_RECENT_DAYS
+ *   days than the weekly average over the RELAPSE_WARNING_BASELINE_DAYS before,
+ *   by bingeIncreasePercent and at least minRecentEpisodes
+ * - lowMoodRun: overall mood at or below lowMoodScore on lowMoodDays or more
+ *   days in a row, up to yesterday or today
+ * - missedCheckIns: missedCheckInDays or more days without a check-in, after
+ *   checking in on stableCheckInDays of the RELAPSE_WARNING_STABLE_WINDOW_DAYS
+ *   days before the gap
+ * - compensatorySpike: days with compensatory behaviours, compared with the
+ *   baseline like episodes
+ *
+ * Rises are only compared once the baseline has RELAPSE_WARNING_MIN_BASELINE_DAYS
+ * check-in days, so a patient who has just started isn't flagged. Days are
+ * counted in the patient's timezone.
+ */
+
+interface DayEntries {
+  checkedIn: boolean;
+  lowMood?: boolean; // undefined when mood wasn't rated that day
+  compensatory: boolean;
+  episodes: number;
+}
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Thresholds for a relation, with defaults for anything the clinician hasn't set
+export const resolveRelapseWarningSettings = (
+  settings?: Partial<RelapseWarningSettings>
+): RelapseWarningSettings => ({ ...DEFAULT_RELAPSE_WARNING_SETTINGS, ...settings });
+
+const collectDays = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  settings: RelapseWarningSettings,
+  timeZone: string
+): Map<string, DayEntries> => {
+  const days = new Map<string, DayEntries>();
+  const entriesOn = (day: string): DayEntries => {
+    const entries = days.get(day) || { checkedIn: false, compensatory: false, episodes: 0 };
+    days.set(day, entries);
+    return entries;
+  };
+
+  checkIns.forEach((checkIn) => {
+    const entries = entriesOn(
+      toZonedDayKey(toDate(checkIn.completedAt), checkIn.timeZone || timeZone)
+    );
+    entries.checkedIn = true;
+    if (isSectionAnswered(checkIn, 'mood')) {
+      entries.lowMood = !!entries.lowMood || checkIn.mood.overall <= settings.lowMoodScore;
+    }
+    if (isSectionAnswered(checkIn, 'urges') && checkIn.compensatoryBehaviors.engaged) {
+      entries.compensatory = true;
+    }
+  });
+
+  collectEpisodes(checkIns, episodeLogs).forEach((episode) => {
+    const entries = entriesOn(toZonedDayKey(toDate(episode.date), timeZone));
+    entries.episodes += 1;
+    if (episode.compensatoryBehaviors?.length) {
+      entries.compensatory = true;
+    }
+  });
+
+  return days;
+};
+
+// Whether a recent count has risen clearly above the baseline's weekly average
+const hasRisen = (
+  recent: number,
+  baselineWeekly: number,
+  minRecent: number,
+  increasePercent: number
+): boolean =>
+  recent >= minRecent &&
+  recent > baselineWeekly &&
+  recent >= baselineWeekly * (1 + increasePercent / 100);
+
+// Warning signs in a patient's entries as of `now`
+export const detectRelapseWarnings = (
+  checkIns: CheckInSurvey[],
+  episodeLogs: EpisodeLog[],
+  settings: RelapseWarningSettings,
+  timeZone: string,
+  now: Date = new Date()
+): RelapseWarning[] => {
+  if (!settings.enabled) {
+    return [];
+  }
+
+  const today = toZonedDayKey(now, timeZone);
+  const recentStart = addDays(today, -(RELAPSE_WARNING_RECENT_DAYS - 1));
+  const baselineStart = addDays(recentStart, -RELAPSE_WARNING_BASELINE_DAYS);
+  const baselineWeeks = RELAPSE_WARNING_BASELINE_DAYS / 7;
+  const days = collectDays(checkIns, episodeLogs, settings, timeZone);
+
+  const total = (from: string, to: string, count: (entries: DayEntries) => number) =>
+    Array.from(days.entries())
+      .filter(([day]) => day >= from && day <= to)
+      .reduce((sum, [, entries]) => sum + count(entries), 0);
+  const checkInDays = (from: string, to: string) =>
+    total(from, to, (entries) => (entries.checkedIn ? 1 : 0));
+
+  const warnings: RelapseWarning[] = [];
+  const hasBaseline =
+    checkInDays(baselineStart, addDays(recentStart, -1)) >= RELAPSE_WARNING_MIN_BASELINE_DAYS;
+
+  if (hasBaseline) {
+    const baselineEnd = addDays(recentStart, -1);
+    const compare = (count: (entries: DayEntries) => number) => ({
+      recent: total(recentStart, today, count),
+      baselineWeekly: round(total(baselineStart, baselineEnd, count) / baselineWeeks),
+    });
+
+    const episodes = compare((entries) => entries.episodes);
+    if (
+      hasRisen(
+        episodes.recent,
+        episodes.baselineWeekly,
+        settings.minRecentEpisodes,
+        settings.bingeIncreasePercent
+      )
+    ) {
+      warnings.push({
+        type: 'risingBingeFrequency',
+        message:
+          `${plural(episodes.recent, 'binge episode')} in the last ` +
+          `${RELAPSE_WARNING_RECENT_DAYS} days, up from an average of ` +
+          `${episodes.baselineWeekly} a week over the ${baselineWeeks} weeks before.`,
+        recentValue: episodes.recent,
+        baselineValue: episodes.baselineWeekly,
+      });
+    }
+
+    const compensatory = compare((entries) => (entries.compensatory ? 1 : 0));
+    if (
+      hasRisen(
+        compensatory.recent,
+        compensatory.baselineWeekly,
+        settings.minRecentCompensatoryDays,
+        settings.compensatoryIncreasePercent
+      )
+    ) {
+      warnings.push({
+        type: 'compensatorySpike',
+        message:
+          `Compensatory behaviours on ${compensatory.recent} of the last ` +
+          `${RELAPSE_WARNING_RECENT_DAYS} days, up from an average of ` +
+          `${compensatory.baselineWeekly} days a week over the ${baselineWeeks} weeks before.`,
+        recentValue: compensatory.recent,
+        baselineValue: compensatory.baselineWeekly,
+      });
+    }
+  }
+
+  const checkedInDays = Array.from(days.entries())
+    .filter(([day, entries]) => entries.checkedIn && day <= today)
+    .map(([day]) => day)
+    .sort();
+  const lastDay = checkedInDays[checkedInDays.length - 1];
+
+  // Today may not have a check-in yet, so a run can end yesterday
+  if (lastDay && lastDay >= addDays(today, -1)) {
+    let lowMoodRun = 0;
+    while (days.get(addDays(lastDay, -lowMoodRun))?.lowMood) {
+      lowMoodRun += 1;
+    }
+    if (lowMoodRun >= settings.lowMoodDays) {
+      warnings.push({
+        type: 'lowMoodRun',
+        message:
+          `Mood rated ${settings.lowMoodScore} or lower on ${lowMoodRun} days in a row, ` +
+          'up to their latest check-in.',
+        recentValue: lowMoodRun,
+      });
+    }
+  }
+
+  // Today isn't over, so only the days between the last check-in and today are missed
+  const missedDays = lastDay ? getDaysBetween(lastDay, today) - 1 : 0;
+  if (lastDay && missedDays >= settings.missedCheckInDays) {
+    const stableDays = checkInDays(
+      addDays(lastDay, -(RELAPSE_WARNING_STABLE_WINDOW_DAYS - 1)),
+      lastDay
+    );
+    if (stableDays >= settings.stableCheckInDays) {
+      warnings.push({
+        type: 'missedCheckIns',
+        message:
+          `No check-ins for ${plural(missedDays, 'day')}, after checking in on ` +
+          `${stableDays} of the ${RELAPSE_WARNING_STABLE_WINDOW_DAYS} days before.`,
+        recentValue: missedDays,
+      });
+    }
+  }
+
+  return warnings;
+};
+
+// Warnings not already sent within the cooldown, given the day each type was last sent
+export const getDueRelapseWarnings = (
+  warnings: RelapseWarning[],
+  lastSent: Partial<Record<RelapseWarningType, string>> = {},
+  today: string
+): RelapseWarning[] =>
+  warnings.filter((warning) => {
+    const sentOn = lastSent[warning.type];
+    return !sentOn || getDaysBetween(sentOn, today) >= RELAPSE_WARNING_COOLDOWN_DAYS;
+  });
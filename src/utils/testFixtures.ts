@@ -0,0 +1,43 @@
+import { CheckInSurvey, EpisodeLog } from '../types';
+import { DEFAULT_CHECK_IN_VALUES } from '../constants/checkIn';
+
+/**
+ * Check-in and episode log factories shared by the util tests. Dates stand in
+ * for Firestore Timestamps, which the utils read through `toDate`.
+ */
+
+export const makeCheckIn = (
+  id: string,
+  completedAt: string,
+  overrides: Partial<CheckInSurvey> = {}
+): CheckInSurvey => ({
+  ...DEFAULT_CHECK_IN_VALUES,
+  id,
+  patientId: 'patient-1',
+  completedAt: new Date(completedAt) as unknown as CheckInSurvey['completedAt'],
+  ...overrides,
+});
+
+export const makeEpisodeLog = (
+  id: string,
+  date: string,
+  overrides: Partial<EpisodeLog> = {}
+): EpisodeLog => ({
+  severity: 'moderate',
+  triggers: [],
+  emotions: [],
+  duration: 20,
+  foodTypes: [],
+  amount: 'medium',
+  location: 'home',
+  aloneOrWithOthers: 'alone',
+  id,
+  patientId: 'patient-1',
+  date: new Date(date),
+  loggedAt: new Date(date) as unknown as EpisodeLog['loggedAt'],
+  ...overrides,
+});
+
+export const withMood = (overall: CheckInSurvey['mood']['overall']) => ({
+  mood: { ...DEFAULT_CHECK_IN_VALUES.mood, overall },
+});